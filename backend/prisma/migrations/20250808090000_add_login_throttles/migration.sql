@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "LoginThrottleScope" AS ENUM ('USER', 'IP');
+
+-- CreateTable
+CREATE TABLE "login_throttles" (
+    "id" TEXT NOT NULL,
+    "scope" "LoginThrottleScope" NOT NULL,
+    "subject" TEXT NOT NULL,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastFailedAt" TIMESTAMP(3) NOT NULL,
+    "lockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "login_throttles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "login_throttles_scope_subject_key" ON "login_throttles"("scope", "subject");
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "biometric_devices" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "deviceName" TEXT,
+    "platform" TEXT,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "biometric_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "biometric_challenges" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "challenge" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "biometric_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "biometric_devices_publicKey_key" ON "biometric_devices"("publicKey");
+
+-- CreateIndex
+CREATE INDEX "biometric_devices_userId_idx" ON "biometric_devices"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "biometric_challenges_challenge_key" ON "biometric_challenges"("challenge");
+
+-- CreateIndex
+CREATE INDEX "biometric_challenges_deviceId_idx" ON "biometric_challenges"("deviceId");
+
+-- AddForeignKey
+ALTER TABLE "biometric_devices" ADD CONSTRAINT "biometric_devices_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "biometric_challenges" ADD CONSTRAINT "biometric_challenges_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "biometric_devices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "StepUpMethod" AS ENUM ('TOTP', 'BIOMETRIC', 'PASSWORD');
+
+-- CreateTable
+CREATE TABLE "transfer_authorizations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "method" "StepUpMethod" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "recipientIban" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transfer_authorizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfer_authorizations_tokenHash_key" ON "transfer_authorizations"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "transfer_authorizations_userId_idx" ON "transfer_authorizations"("userId");
+
+-- AddForeignKey
+ALTER TABLE "transfer_authorizations" ADD CONSTRAINT "transfer_authorizations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- Encrypted columns keep their names; existing plaintext is encrypted and the
+-- blind indexes are backfilled by `npm run encryption:rotate`.
+
+-- DropIndex
+DROP INDEX "users_phone_idx";
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "phoneIndex" TEXT;
+
+-- AlterTable
+ALTER TABLE "wise_accounts" ADD COLUMN     "accountNumberIndex" TEXT,
+ADD COLUMN     "ibanIndex" TEXT;
+
+-- AlterTable
+ALTER TABLE "wise_transactions" ADD COLUMN     "recipientIbanIndex" TEXT;
+
+-- Transfer authorizations live for minutes; drop outstanding ones rather than backfill
+DELETE FROM "transfer_authorizations";
+
+-- AlterTable
+ALTER TABLE "transfer_authorizations" DROP COLUMN "recipientIban",
+ADD COLUMN     "recipientIbanIndex" TEXT NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "users_phoneIndex_idx" ON "users"("phoneIndex");
+
+-- CreateIndex
+CREATE INDEX "wise_accounts_ibanIndex_idx" ON "wise_accounts"("ibanIndex");
+
+-- CreateIndex
+CREATE INDEX "wise_accounts_accountNumberIndex_idx" ON "wise_accounts"("accountNumberIndex");
+
+-- CreateIndex
+CREATE INDEX "wise_transactions_recipientIbanIndex_idx" ON "wise_transactions"("recipientIbanIndex");
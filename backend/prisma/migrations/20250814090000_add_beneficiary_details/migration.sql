@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "beneficiaries" ADD COLUMN     "currency" VARCHAR(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "iban" TEXT,
+ADD COLUMN     "ibanIndex" TEXT,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3),
+ADD COLUMN     "nickname" TEXT,
+ADD COLUMN     "relationship" TEXT,
+ALTER COLUMN "accountNumber" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "beneficiaries_userId_deletedAt_idx" ON "beneficiaries"("userId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "beneficiaries_userId_ibanIndex_idx" ON "beneficiaries"("userId", "ibanIndex");
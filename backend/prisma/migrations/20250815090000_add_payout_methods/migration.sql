@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "PayoutMethod" AS ENUM ('BANK_ACCOUNT', 'CASH_PICKUP', 'MOBILE_WALLET');
+
+-- AlterTable
+ALTER TABLE "wise_transactions" ADD COLUMN     "payoutMethod" "PayoutMethod" NOT NULL DEFAULT 'BANK_ACCOUNT',
+ADD COLUMN     "pickupCode" TEXT,
+ADD COLUMN     "pickupExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "pickupLocationId" TEXT,
+ADD COLUMN     "recipientIdNumber" TEXT,
+ADD COLUMN     "recipientIdType" TEXT,
+ADD COLUMN     "recipientPhone" TEXT,
+ADD COLUMN     "walletProvider" TEXT;
@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('CUSTOMER', 'EXTERNAL', 'FEES', 'FX', 'EQUITY');
+
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "LedgerAccountType" NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "wiseAccountId" TEXT,
+    "balance" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "reserved" DECIMAL(14,2) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "journal_entries" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "transferId" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_postings" (
+    "id" TEXT NOT NULL,
+    "journalEntryId" TEXT NOT NULL,
+    "ledgerAccountId" TEXT NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_postings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_code_key" ON "ledger_accounts"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_wiseAccountId_key" ON "ledger_accounts"("wiseAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "journal_entries_idempotencyKey_key" ON "journal_entries"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_transferId_idx" ON "journal_entries"("transferId");
+
+-- CreateIndex
+CREATE INDEX "ledger_postings_journalEntryId_idx" ON "ledger_postings"("journalEntryId");
+
+-- CreateIndex
+CREATE INDEX "ledger_postings_ledgerAccountId_idx" ON "ledger_postings"("ledgerAccountId");
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_wiseAccountId_fkey" FOREIGN KEY ("wiseAccountId") REFERENCES "wise_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_postings" ADD CONSTRAINT "ledger_postings_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_postings" ADD CONSTRAINT "ledger_postings_ledgerAccountId_fkey" FOREIGN KEY ("ledgerAccountId") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- 🛡️ FINTECH SAFETY: Customers cannot spend money they do not have, or hold more than they own
+ALTER TABLE "ledger_accounts"
+ADD CONSTRAINT "customer_available_balance_check"
+CHECK ("type" != 'CUSTOMER' OR ("reserved" >= 0 AND "balance" >= "reserved"));
+
+-- 🚨 CONSTRAINT: Postings move money; a zero posting indicates a calculation error
+ALTER TABLE "ledger_postings"
+ADD CONSTRAINT "non_zero_posting_check"
+CHECK ("amount" != 0);
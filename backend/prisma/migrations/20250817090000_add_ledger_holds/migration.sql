@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "LedgerHoldStatus" AS ENUM ('ACTIVE', 'SETTLED', 'RELEASED');
+
+-- CreateTable
+CREATE TABLE "ledger_holds" (
+    "id" TEXT NOT NULL,
+    "ledgerAccountId" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "status" "LedgerHoldStatus" NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ledger_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_holds_transferId_key" ON "ledger_holds"("transferId");
+
+-- CreateIndex
+CREATE INDEX "ledger_holds_ledgerAccountId_status_idx" ON "ledger_holds"("ledgerAccountId", "status");
+
+-- AddForeignKey
+ALTER TABLE "ledger_holds" ADD CONSTRAINT "ledger_holds_ledgerAccountId_fkey" FOREIGN KEY ("ledgerAccountId") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- 🚨 CONSTRAINT: A hold reserves a positive amount
+ALTER TABLE "ledger_holds"
+ADD CONSTRAINT "positive_hold_amount_check"
+CHECK ("amount" > 0);
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "transfer_quotes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sourceAccountId" TEXT NOT NULL,
+    "sourceAmount" DECIMAL(10,2) NOT NULL,
+    "sourceCurrency" VARCHAR(3) NOT NULL,
+    "targetAmount" DECIMAL(10,2) NOT NULL,
+    "targetCurrency" VARCHAR(3) NOT NULL,
+    "targetCountry" VARCHAR(2) NOT NULL,
+    "exchangeRate" DECIMAL(10,6) NOT NULL,
+    "fee" DECIMAL(10,2) NOT NULL,
+    "type" TEXT NOT NULL,
+    "payoutMethod" "PayoutMethod" NOT NULL DEFAULT 'BANK_ACCOUNT',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "transferId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transfer_quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfer_quotes_transferId_key" ON "transfer_quotes"("transferId");
+
+-- CreateIndex
+CREATE INDEX "transfer_quotes_userId_idx" ON "transfer_quotes"("userId");
+
+-- CreateIndex
+CREATE INDEX "transfer_quotes_expiresAt_idx" ON "transfer_quotes"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "transfer_quotes" ADD CONSTRAINT "transfer_quotes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfer_quotes" ADD CONSTRAINT "transfer_quotes_sourceAccountId_fkey" FOREIGN KEY ("sourceAccountId") REFERENCES "wise_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 🚨 CONSTRAINT: A quote prices a positive amount with a non-negative fee
+ALTER TABLE "transfer_quotes"
+ADD CONSTRAINT "positive_quote_amount_check"
+CHECK ("sourceAmount" > 0 AND "targetAmount" > 0 AND "fee" >= 0);
+
+-- 🚨 CONSTRAINT: A used quote records the transfer that used it
+ALTER TABLE "transfer_quotes"
+ADD CONSTRAINT "used_quote_transfer_check"
+CHECK (("usedAt" IS NULL) = ("transferId" IS NULL));
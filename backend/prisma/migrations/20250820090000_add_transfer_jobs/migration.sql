@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "transfer_status_changes" (
+    "id" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transfer_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "transferId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transfer_status_changes_transferId_createdAt_idx" ON "transfer_status_changes"("transferId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "jobs_status_runAt_idx" ON "jobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "jobs_transferId_idx" ON "jobs"("transferId");
+
+-- AddForeignKey
+ALTER TABLE "transfer_status_changes" ADD CONSTRAINT "transfer_status_changes_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "wise_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "wise_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 🚨 CONSTRAINT: A job is tried at least once and never more than it allows
+ALTER TABLE "jobs"
+ADD CONSTRAINT "job_attempts_check"
+CHECK ("maxAttempts" > 0 AND "attempts" >= 0 AND "attempts" <= "maxAttempts");
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Tokens expire after five minutes, so rows issued before this migration only need a placeholder
+ALTER TABLE "transfer_authorizations" ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'EUR';
+ALTER TABLE "transfer_authorizations" ALTER COLUMN "currency" DROP DEFAULT;
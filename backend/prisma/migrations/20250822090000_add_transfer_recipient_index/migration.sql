@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "transfer_authorizations" RENAME COLUMN "recipientIbanIndex" TO "recipientIndex";
+
+-- AlterTable
+ALTER TABLE "wise_transactions" ADD COLUMN     "recipientIndex" TEXT;
+
+-- IBAN recipients are identified by their IBAN's blind index; earlier transfers to
+-- other recipients have no index, so their next transfer counts as a new recipient
+UPDATE "wise_transactions" SET "recipientIndex" = "recipientIbanIndex" WHERE "recipientIbanIndex" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "wise_transactions_recipientIndex_idx" ON "wise_transactions"("recipientIndex");
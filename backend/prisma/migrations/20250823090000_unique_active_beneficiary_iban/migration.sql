@@ -0,0 +1,19 @@
+-- Keep the most recently used of any active beneficiaries saved twice with the same IBAN
+UPDATE "beneficiaries" SET "deletedAt" = CURRENT_TIMESTAMP, "isActive" = false
+WHERE "id" IN (
+    SELECT "id" FROM (
+        SELECT "id", ROW_NUMBER() OVER (
+            PARTITION BY "userId", "ibanIndex"
+            ORDER BY "lastUsedAt" DESC NULLS LAST, "createdAt" DESC
+        ) AS "rank"
+        FROM "beneficiaries"
+        WHERE "deletedAt" IS NULL AND "ibanIndex" IS NOT NULL
+    ) AS "ranked"
+    WHERE "rank" > 1
+);
+
+-- 🚨 CONSTRAINT: A user has at most one active beneficiary per IBAN
+-- (partial index, so deleted beneficiaries don't block saving the IBAN again)
+CREATE UNIQUE INDEX "beneficiaries_userId_ibanIndex_active_key"
+ON "beneficiaries"("userId", "ibanIndex")
+WHERE "deletedAt" IS NULL;
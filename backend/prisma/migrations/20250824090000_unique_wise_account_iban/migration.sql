@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "wise_accounts_ibanIndex_idx";
+
+-- 🚨 CONSTRAINT: No two accounts hold the same IBAN
+CREATE UNIQUE INDEX "wise_accounts_ibanIndex_key" ON "wise_accounts"("ibanIndex");
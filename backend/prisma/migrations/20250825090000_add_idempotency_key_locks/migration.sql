@@ -0,0 +1,4 @@
+-- AlterTable
+-- Keys in progress before this migration count as locked from when they were claimed
+ALTER TABLE "idempotency_keys" ADD COLUMN     "lockedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+UPDATE "idempotency_keys" SET "lockedAt" = "createdAt";
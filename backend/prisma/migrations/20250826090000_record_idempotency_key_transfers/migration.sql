@@ -0,0 +1,4 @@
+-- AlterTable
+-- Keys held too long are no longer taken over, so only their age (createdAt) matters
+ALTER TABLE "idempotency_keys" DROP COLUMN "lockedAt",
+ADD COLUMN     "transferId" TEXT;
@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
-import { generateToken, verifyToken, JWTPayload } from '../../../middleware/auth';
+import { Response } from 'express';
+import { generateToken, verifyToken, authorize, AuthRequest, JWTPayload } from '../../../middleware/auth';
 
 // Mock environment before importing
 jest.mock('../../../config/environment', () => ({
@@ -201,4 +202,67 @@ describe('JWT Token Functions', () => {
       });
     });
   });
-});
\ No newline at end of file
+});
+
+describe('authorize', () => {
+  function buildRequest(role?: 'USER' | 'SUPPORT' | 'ADMIN'): AuthRequest {
+    return {
+      user: role && {
+        id: 'user-123',
+        email: 'test@example.com',
+        firstName: 'Test',
+        lastName: 'User',
+        isActive: true,
+        emailVerified: true,
+        role,
+      },
+    } as AuthRequest;
+  }
+
+  function buildResponse(): Response {
+    const res = {} as Response;
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+  }
+
+  it('should allow users with one of the required roles', () => {
+    const next = jest.fn();
+    const res = buildResponse();
+
+    authorize('ADMIN', 'SUPPORT')(buildRequest('SUPPORT'), res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should forbid users without a required role', () => {
+    const next = jest.fn();
+    const res = buildResponse();
+
+    authorize('ADMIN', 'SUPPORT')(buildRequest('USER'), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Forbidden' }));
+  });
+
+  it('should not let support staff use admin-only routes', () => {
+    const next = jest.fn();
+    const res = buildResponse();
+
+    authorize('ADMIN')(buildRequest('SUPPORT'), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should reject unauthenticated requests', () => {
+    const next = jest.fn();
+    const res = buildResponse();
+
+    authorize('ADMIN')(buildRequest(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
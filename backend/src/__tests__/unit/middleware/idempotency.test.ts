@@ -0,0 +1,197 @@
+import express from 'express';
+import request from 'supertest';
+import { Prisma } from '../../../generated/prisma';
+
+interface StoredKey {
+  userId: string;
+  key: string;
+  scope: string;
+  requestHash: string;
+  responseStatus: number | null;
+  responseBody: unknown;
+  transferId: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const mockKeys: StoredKey[] = [];
+const mockPrisma = {
+  idempotencyKey: {
+    create: jest.fn(async ({ data }: { data: StoredKey }) => {
+      if (mockKeys.some(stored => stored.userId === data.userId && stored.key === data.key)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+      }
+      mockKeys.push({ ...data, responseStatus: null, responseBody: null, transferId: null, createdAt: new Date() });
+    }),
+    findUnique: jest.fn(async ({ where }: { where: { userId_key: { userId: string; key: string } } }) =>
+      mockKeys.find(stored => stored.userId === where.userId_key.userId && stored.key === where.userId_key.key) ?? null),
+    update: jest.fn(async ({ where, data }: { where: { userId_key: { userId: string; key: string } }; data: Partial<StoredKey> }) => {
+      const stored = mockKeys.find(entry => entry.userId === where.userId_key.userId && entry.key === where.userId_key.key);
+      Object.assign(stored as StoredKey, data);
+    }),
+    deleteMany: jest.fn(async ({ where }: { where: { userId: string; key: string; responseStatus?: null; expiresAt?: { lt: Date } } }) => {
+      const index = mockKeys.findIndex(stored => stored.userId === where.userId && stored.key === where.key
+        && (where.responseStatus === undefined || stored.responseStatus === null)
+        && (!where.expiresAt || stored.expiresAt < where.expiresAt.lt));
+      if (index !== -1) {
+        mockKeys.splice(index, 1);
+      }
+    }),
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+import { idempotent, type ReplayTransfer } from '../../../middleware/idempotency';
+import { IdempotencyService } from '../../../services/idempotency';
+
+function buildApp(handler: express.RequestHandler, replayTransfer?: ReplayTransfer): express.Application {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    (req as express.Request & { user?: { id: string } }).user = { id: 'user-123' };
+    next();
+  });
+  app.post('/transfers', idempotent('test.transfers', replayTransfer), handler);
+  return app;
+}
+
+describe('idempotent', () => {
+  const key = '6f1c2a9e-4b7d-4f3a-9c1e-2d8b5a7f0e13';
+  let created: number;
+  const createTransfer: express.RequestHandler = (req, res) => {
+    created += 1;
+    res.status(201).json({ transfer: { id: `transfer_${created}`, amount: req.body.amount, createdAt: new Date('2025-08-18T09:00:00Z') } });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockKeys.length = 0;
+    created = 0;
+  });
+
+  it('replays the original response to a retry instead of running the request again', async () => {
+    const app = buildApp(createTransfer);
+
+    const first = await request(app).post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(201);
+    const retry = await request(app).post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(201);
+
+    expect(created).toBe(1);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    const app = buildApp(createTransfer);
+
+    await request(app).post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(201);
+    const response = await request(app).post('/transfers').set('Idempotency-Key', key).send({ amount: 200 }).expect(409);
+
+    expect(response.body.error).toBe('Idempotency key reused');
+    expect(created).toBe(1);
+  });
+
+  it('asks the client to wait while the first request is still running', async () => {
+    mockKeys.push({
+      userId: 'user-123',
+      key,
+      scope: 'test.transfers',
+      requestHash: IdempotencyService.hashRequest({ amount: 100 }),
+      responseStatus: null,
+      responseBody: null,
+      transferId: null,
+      expiresAt: new Date(Date.now() + 60000),
+      createdAt: new Date(),
+    });
+
+    const response = await request(buildApp(createTransfer))
+      .post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(409);
+
+    expect(response.body.error).toBe('Request in progress');
+    expect(response.headers['retry-after']).toBe('1');
+  });
+
+  describe('a key whose request stopped before answering', () => {
+    const abandonedKey = (transferId: string | null): StoredKey => ({
+      userId: 'user-123',
+      key,
+      scope: 'test.transfers',
+      requestHash: IdempotencyService.hashRequest({ amount: 100 }),
+      responseStatus: null,
+      responseBody: null,
+      transferId,
+      expiresAt: new Date(Date.now() + 60000),
+      createdAt: new Date(Date.now() - 10 * 60 * 1000),
+    });
+
+    it('replays the transfer it created instead of sending the money again', async () => {
+      mockKeys.push(abandonedKey('transfer_1'));
+      const replayTransfer = jest.fn(async (req: express.Request, transferId: string) => ({
+        status: 201,
+        body: { transfer: { id: transferId } },
+      }));
+      const app = buildApp(createTransfer, replayTransfer);
+
+      const retry = await request(app).post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(201);
+      await request(app).post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(201);
+
+      expect(created).toBe(0);
+      expect(retry.body).toEqual({ transfer: { id: 'transfer_1' } });
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      // Stored on the first replay, so the next retry gets it from the key
+      expect(replayTransfer).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps refusing retries when it created no transfer', async () => {
+      mockKeys.push(abandonedKey(null));
+
+      const response = await request(buildApp(createTransfer, jest.fn()))
+        .post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(409);
+
+      expect(response.body.error).toBe('Request in progress');
+      expect(created).toBe(0);
+    });
+  });
+
+  it('releases the key of a failed request so it can be retried', async () => {
+    let fail = true;
+    const app = buildApp((req, res, next) => {
+      if (fail) {
+        res.status(422).json({ error: 'Insufficient funds' });
+        return;
+      }
+      createTransfer(req, res, next);
+    });
+
+    await request(app).post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(422);
+    fail = false;
+    await request(app).post('/transfers').set('Idempotency-Key', key).send({ amount: 100 }).expect(201);
+
+    expect(created).toBe(1);
+  });
+
+  it('runs requests without a key as usual', async () => {
+    const app = buildApp(createTransfer);
+
+    await request(app).post('/transfers').send({ amount: 100 }).expect(201);
+    await request(app).post('/transfers').send({ amount: 100 }).expect(201);
+
+    expect(created).toBe(2);
+    expect(mockPrisma.idempotencyKey.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed keys', async () => {
+    await request(buildApp(createTransfer)).post('/transfers').set('Idempotency-Key', 'short').send({ amount: 100 }).expect(400);
+  });
+});
+
+describe('IdempotencyService.hashRequest', () => {
+  it('hashes bodies the same whatever their key order', () => {
+    expect(IdempotencyService.hashRequest({ amount: 100, recipient: { iban: 'ES91', name: 'Ana' } }))
+      .toBe(IdempotencyService.hashRequest({ recipient: { name: 'Ana', iban: 'ES91' }, amount: 100 }));
+    expect(IdempotencyService.hashRequest({ amount: 100 })).not.toBe(IdempotencyService.hashRequest({ amount: 100.01 }));
+  });
+});
@@ -0,0 +1,121 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../../middleware/auth';
+import { requireVerifiedEmailAbove } from '../../../middleware/policies';
+
+jest.mock('../../../config/environment', () => ({
+  env: {
+    UNVERIFIED_EMAIL_TRANSFER_LIMIT: 500,
+  }
+}));
+
+function buildRequest(amount: unknown, emailVerified: boolean, currency = 'EUR'): AuthRequest {
+  return {
+    body: { transferDetails: { amount }, currency },
+    user: {
+      id: 'user-123',
+      email: 'test@example.com',
+      firstName: 'Test',
+      lastName: 'User',
+      isActive: true,
+      emailVerified,
+    },
+  } as AuthRequest;
+}
+
+function buildResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+describe('requireVerifiedEmailAbove', () => {
+  const policy = requireVerifiedEmailAbove((req: AuthRequest) => ({
+    amount: req.body?.transferDetails?.amount,
+    currency: req.body?.currency ?? 'EUR',
+  }));
+  let next: NextFunction;
+
+  beforeEach(() => {
+    next = jest.fn();
+  });
+
+  it('should allow unverified users at or below the limit', async () => {
+    const res = buildResponse();
+
+    await policy(buildRequest(500, false), res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should block unverified users above the limit', async () => {
+    const res = buildResponse();
+
+    await policy(buildRequest(500.01, false), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: 'Email verification required',
+      limit: 500,
+      currency: 'EUR',
+    }));
+  });
+
+  it('should compare amounts in other currencies at the reference rate', async () => {
+    const within = buildResponse();
+    await policy(buildRequest(14000, false, 'HNL'), within, next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    // 20,000 HNL is about 686 EUR
+    const above = buildResponse();
+    await policy(buildRequest(20000, false, 'HNL'), above, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(above.status).toHaveBeenCalledWith(403);
+    expect(above.json).toHaveBeenCalledWith(expect.objectContaining({ limit: 14575, currency: 'HNL' }));
+  });
+
+  it('should block any amount in a currency without a reference rate', async () => {
+    const res = buildResponse();
+
+    await policy(buildRequest(1, false, 'XYZ'), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should allow verified users above the limit', async () => {
+    const res = buildResponse();
+
+    await policy(buildRequest(10000, true), res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should leave non-numeric amounts to route validation', async () => {
+    const res = buildResponse();
+
+    await policy(buildRequest('10000', false), res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should leave requests without an amount, such as unknown quotes, to the route', async () => {
+    const lookupPolicy = requireVerifiedEmailAbove(async () => null);
+    const res = buildResponse();
+
+    await lookupPolicy(buildRequest(undefined, false), res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should honour an explicit limit', async () => {
+    const strictPolicy = requireVerifiedEmailAbove(() => ({ amount: 50, currency: 'EUR' }), 10);
+    const res = buildResponse();
+
+    await strictPolicy(buildRequest(50, false), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
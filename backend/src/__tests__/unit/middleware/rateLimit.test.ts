@@ -0,0 +1,148 @@
+import express from 'express';
+import request from 'supertest';
+import { rateLimit } from '../../../middleware/rateLimit';
+import { MemoryRateLimitStore, RedisRateLimitStore } from '../../../services/rateLimitStore';
+import type { RateLimitPolicy, RedisRateLimitClient } from '../../../types/rateLimit';
+
+jest.mock('../../../config/environment', () => ({
+  env: {
+    RATE_LIMIT_WINDOW_MS: 900000,
+    RATE_LIMIT_MAX_REQUESTS: 100,
+    RATE_LIMIT_ENABLED: true,
+  }
+}));
+
+const policy: RateLimitPolicy = {
+  name: 'test',
+  windowMs: 60 * 1000,
+  max: 2,
+  keyBy: 'ip',
+  message: 'Slow down',
+};
+
+function buildApp(limiter: express.RequestHandler, userId?: string): express.Application {
+  const app = express();
+  if (userId) {
+    app.use((req, res, next) => {
+      (req as express.Request & { user?: { id: string } }).user = { id: userId };
+      next();
+    });
+  }
+  app.get('/limited', limiter, (req, res) => {
+    res.json({ ok: true });
+  });
+  return app;
+}
+
+describe('rateLimit', () => {
+  it('should set RateLimit headers and count down the remaining requests', async () => {
+    const app = buildApp(rateLimit(policy, { store: new MemoryRateLimitStore() }));
+
+    const first = await request(app).get('/limited').expect(200);
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+    expect(first.headers['ratelimit-policy']).toBe('2;w=60');
+    expect(Number(first.headers['ratelimit-reset'])).toBeGreaterThan(0);
+
+    const second = await request(app).get('/limited').expect(200);
+    expect(second.headers['ratelimit-remaining']).toBe('0');
+  });
+
+  it('should reject requests over the limit in the error handler shape', async () => {
+    const app = buildApp(rateLimit(policy, { store: new MemoryRateLimitStore() }));
+
+    await request(app).get('/limited').expect(200);
+    await request(app).get('/limited').expect(200);
+    const response = await request(app).get('/limited').expect(429);
+
+    expect(response.headers['retry-after']).toBeDefined();
+    expect(response.body).toMatchObject({
+      error: 'Too Many Requests',
+      message: 'Slow down',
+      statusCode: 429,
+      details: { policy: 'test' },
+    });
+    expect(response.body).toHaveProperty('timestamp');
+  });
+
+  it('should count per user for user policies', async () => {
+    const store = new MemoryRateLimitStore();
+    const userPolicy: RateLimitPolicy = { ...policy, max: 1, keyBy: 'user' };
+
+    await request(buildApp(rateLimit(userPolicy, { store }), 'user-1')).get('/limited').expect(200);
+    await request(buildApp(rateLimit(userPolicy, { store }), 'user-1')).get('/limited').expect(429);
+    await request(buildApp(rateLimit(userPolicy, { store }), 'user-2')).get('/limited').expect(200);
+  });
+
+  it('should let requests through when disabled', async () => {
+    const app = buildApp(rateLimit({ ...policy, max: 0 }, { store: new MemoryRateLimitStore(), enabled: false }));
+
+    const response = await request(app).get('/limited').expect(200);
+    expect(response.headers['ratelimit-limit']).toBeUndefined();
+  });
+
+  it('should fail open when the store is unavailable', async () => {
+    const store = {
+      increment: jest.fn().mockRejectedValue(new Error('connection refused')),
+      reset: jest.fn(),
+    };
+    const app = buildApp(rateLimit(policy, { store }));
+
+    await request(app).get('/limited').expect(200);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('should start a new window once the previous one expires', async () => {
+    const store = new MemoryRateLimitStore();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await store.increment('key', 1000);
+    expect((await store.increment('key', 1000)).count).toBe(2);
+
+    now.mockReturnValue(1_001_000);
+    expect((await store.increment('key', 1000)).count).toBe(1);
+
+    now.mockRestore();
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  function buildClient(): jest.Mocked<RedisRateLimitClient> {
+    const counts = new Map<string, number>();
+    return {
+      incr: jest.fn(async (key: string) => {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+        return counts.get(key)!;
+      }),
+      pexpire: jest.fn().mockResolvedValue(1),
+      pttl: jest.fn().mockResolvedValue(30000),
+      del: jest.fn(async (key: string) => (counts.delete(key) ? 1 : 0)),
+    };
+  }
+
+  it('should set the window expiry on the first hit only', async () => {
+    const client = buildClient();
+    const store = new RedisRateLimitStore(client);
+
+    await store.increment('login:ip:1.2.3.4', 60000);
+    const counter = await store.increment('login:ip:1.2.3.4', 60000);
+
+    expect(counter.count).toBe(2);
+    expect(client.incr).toHaveBeenCalledWith('ratelimit:login:ip:1.2.3.4');
+    expect(client.pexpire).toHaveBeenCalledTimes(1);
+    expect(client.pexpire).toHaveBeenCalledWith('ratelimit:login:ip:1.2.3.4', 60000);
+  });
+
+  it('should repair keys that have no expiry', async () => {
+    const client = buildClient();
+    client.pttl.mockResolvedValue(-1);
+    const store = new RedisRateLimitStore(client);
+
+    await store.increment('key', 60000);
+    await store.increment('key', 60000);
+
+    expect(client.pexpire).toHaveBeenLastCalledWith('ratelimit:key', 60000);
+    expect(client.pexpire).toHaveBeenCalledTimes(3);
+  });
+});
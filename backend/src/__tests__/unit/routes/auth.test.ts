@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import request from 'supertest';
 import express from 'express';
 
@@ -6,18 +7,74 @@ const mockPrisma = {
   user: {
     findUnique: jest.fn(),
     create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
   },
   session: {
     create: jest.fn(),
     update: jest.fn(),
+    findMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  mfaRecoveryCode: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+    updateMany: jest.fn(),
+    deleteMany: jest.fn(),
+    count: jest.fn(),
+  },
+  passwordHistory: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  passwordResetToken: {
+    count: jest.fn(),
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  emailVerificationToken: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  refreshToken: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  biometricDevice: {
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  biometricChallenge: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  loginThrottle: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
     deleteMany: jest.fn(),
   },
+  auditEvent: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
 };
 
 const mockHashPassword = jest.fn().mockResolvedValue('hashed-password');
 const mockComparePassword = jest.fn();
 const mockValidatePassword = jest.fn().mockReturnValue({ isValid: true, errors: [] });
 const mockGenerateToken = jest.fn().mockReturnValue('mock-jwt-token');
+const mockGenerateMfaChallengeToken = jest.fn().mockReturnValue('mock-challenge-token');
+const mockVerifyMfaChallengeToken = jest.fn();
 
 // Mock database
 jest.mock('../../../config/database', () => ({
@@ -34,10 +91,40 @@ jest.mock('../../../utils/password', () => ({
 // Mock JWT
 jest.mock('../../../middleware/auth', () => ({
   generateToken: mockGenerateToken,
+  generateMfaChallengeToken: mockGenerateMfaChallengeToken,
+  verifyMfaChallengeToken: mockVerifyMfaChallengeToken,
+  MFA_CHALLENGE_EXPIRES_IN_SECONDS: 300,
+  authenticateToken: jest.fn((req, res, next) => {
+    req.user = {
+      id: 'user-123',
+      email: 'john.doe@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      isActive: true,
+      emailVerified: true,
+    };
+    req.sessionId = 'session-123';
+    next();
+  }),
 }));
 
+// Capture outgoing mail in memory instead of logging it
+jest.mock('../../../services/mail', () => {
+  const actual = jest.requireActual('../../../services/mail');
+  return {
+    ...actual,
+    mailTransport: new actual.OutboxMailTransport('no-reply@test.local'),
+  };
+});
+
 // Now import the router
 import authRouter from '../../../routes/auth';
+import { mailTransport, OutboxMailTransport } from '../../../services/mail';
+import { PasswordResetService } from '../../../services/passwordReset';
+import { hashToken } from '../../../utils/tokens';
+import { generateTotpCode, getTimeStep } from '../../../utils/totp';
+
+const MFA_SECRET = 'JBSWY3DPEHPK3PXP';
 
 describe('Authentication Routes', () => {
   let app: express.Application;
@@ -55,6 +142,11 @@ describe('Authentication Routes', () => {
     mockHashPassword.mockResolvedValue('hashed-password');
     mockComparePassword.mockResolvedValue(true);
     mockGenerateToken.mockReturnValue('mock-jwt-token');
+    mockGenerateMfaChallengeToken.mockReturnValue('mock-challenge-token');
+    mockPrisma.loginThrottle.findMany.mockResolvedValue([]);
+    mockPrisma.loginThrottle.findUnique.mockResolvedValue(null);
+    mockPrisma.loginThrottle.upsert.mockResolvedValue({ failedCount: 1 });
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
   });
 
   describe('POST /auth/register', () => {
@@ -280,6 +372,14 @@ describe('Authentication Routes', () => {
       expect(response.body).toHaveProperty('user');
       expect(response.body).toHaveProperty('token', 'mock-jwt-token');
       expect(response.body.user).not.toHaveProperty('password');
+      expect(mockPrisma.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'auth.login',
+          actorId: 'user-123',
+          userId: 'user-123',
+          metadata: { method: 'password' },
+        }),
+      });
     });
 
     it('should reject login with invalid email', async () => {
@@ -308,6 +408,13 @@ describe('Authentication Routes', () => {
 
       expect(response.status).toBe(401);
       expect(response.body).toHaveProperty('error', 'Invalid credentials');
+      expect(mockPrisma.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'auth.login_failed',
+          userId: 'user-123',
+          metadata: { reason: 'invalid_password' },
+        }),
+      });
     });
 
     it('should reject login for inactive users', async () => {
@@ -386,6 +493,1109 @@ describe('Authentication Routes', () => {
     });
   });
 
+  describe('Brute-force protection', () => {
+    const loginData = {
+      email: 'john.doe@example.com',
+      password: 'WrongPassword123!',
+    };
+
+    const mockUser = {
+      id: 'user-123',
+      email: loginData.email,
+      password: 'hashed-password',
+      firstName: 'John',
+      lastName: 'Doe',
+      phone: null,
+      country: null,
+      isActive: true,
+      emailVerified: true,
+      mfaEnabled: false,
+      createdAt: new Date(),
+    };
+
+    const outbox = mailTransport as OutboxMailTransport;
+
+    beforeEach(() => {
+      outbox.clear();
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+    });
+
+    it('should count a failed password against both the account and the IP', async () => {
+      mockComparePassword.mockResolvedValue(false);
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send(loginData);
+
+      expect(response.status).toBe(401);
+      expect(mockPrisma.loginThrottle.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { scope_subject: { scope: 'USER', subject: 'user-123' } },
+      }));
+      expect(mockPrisma.loginThrottle.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { scope_subject: { scope: 'IP', subject: expect.any(String) } },
+      }));
+    });
+
+    it('should lock the account and notify the owner at the threshold', async () => {
+      mockComparePassword.mockResolvedValue(false);
+      mockPrisma.loginThrottle.upsert.mockImplementation(({ create }: { create: { scope: string } }) =>
+        Promise.resolve({ failedCount: create.scope === 'USER' ? 10 : 1 })
+      );
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send(loginData);
+
+      expect(response.status).toBe(423);
+      expect(response.body).toHaveProperty('error', 'Account locked');
+      expect(response.headers['retry-after']).toBeDefined();
+      expect(mockPrisma.loginThrottle.update).toHaveBeenCalledWith({
+        where: { scope_subject: { scope: 'USER', subject: 'user-123' } },
+        data: { lockedUntil: expect.any(Date) },
+      });
+      expect(outbox.messages).toHaveLength(1);
+      expect(outbox.messages[0].to).toBe(mockUser.email);
+      expect(outbox.messages[0].subject).toMatch(/locked/);
+    });
+
+    it('should reject a locked account without checking the password', async () => {
+      mockPrisma.loginThrottle.findMany.mockResolvedValue([{
+        scope: 'USER',
+        failedCount: 10,
+        lastFailedAt: new Date(),
+        lockedUntil: new Date(Date.now() + 10 * 60 * 1000),
+      }]);
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ ...loginData, password: 'CorrectPassword123!' });
+
+      expect(response.status).toBe(423);
+      expect(mockComparePassword).not.toHaveBeenCalled();
+    });
+
+    it('should delay attempts progressively after the free attempts', async () => {
+      mockPrisma.loginThrottle.findMany.mockResolvedValue([{
+        scope: 'USER',
+        failedCount: 5,
+        lastFailedAt: new Date(),
+        lockedUntil: null,
+      }]);
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send(loginData);
+
+      expect(response.status).toBe(429);
+      expect(response.body).toHaveProperty('error', 'Too many attempts');
+      // Two attempts past the three free ones: 2^2 seconds
+      expect(response.body.retryAfter).toBe(4);
+      expect(mockComparePassword).not.toHaveBeenCalled();
+    });
+
+    it('should ignore failures outside the counting window', async () => {
+      mockPrisma.loginThrottle.findMany.mockResolvedValue([{
+        scope: 'USER',
+        failedCount: 9,
+        lastFailedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+        lockedUntil: null,
+      }]);
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-123' });
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send(loginData);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should clear the account failures after a successful sign-in', async () => {
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-123' });
+
+      await request(app)
+        .post('/auth/login')
+        .send(loginData)
+        .expect(200);
+
+    });
+  });
+
+  describe('Biometric sign-in', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const publicKeyHex = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('hex');
+    const sign = (challenge: string, key: crypto.KeyObject = privateKey) =>
+      crypto.sign(null, Buffer.from(`remittance-app:biometric-login:${challenge}`), key).toString('hex');
+
+    const deviceUser = {
+      id: 'user-123',
+      email: 'john.doe@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      phone: null,
+      country: null,
+      isActive: true,
+      emailVerified: true,
+      mfaEnabled: false,
+      createdAt: new Date(),
+    };
+
+    const storedChallenge = (overrides: Record<string, unknown> = {}) => ({
+      id: 'challenge-1',
+      deviceId: 'device-1',
+      expiresAt: new Date(Date.now() + 60_000),
+      usedAt: null,
+      device: { publicKey: publicKeyHex, revokedAt: null, user: deviceUser },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockPrisma.biometricChallenge.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-123' });
+    });
+
+    it('should register a device public key after checking the password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ password: 'hashed-password' });
+      mockPrisma.biometricDevice.findUnique.mockResolvedValue(null);
+      mockPrisma.biometricDevice.create.mockResolvedValue({ id: 'device-1' });
+
+      const response = await request(app)
+        .post('/auth/biometric/devices')
+        .send({ publicKey: publicKeyHex, password: 'Password123!' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toHaveProperty('deviceId', 'device-1');
+      expect(mockPrisma.biometricDevice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-123', publicKey: publicKeyHex }),
+      });
+    });
+
+    it('should refuse to register a key without the correct password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ password: 'hashed-password' });
+      mockComparePassword.mockResolvedValue(false);
+
+      const response = await request(app)
+        .post('/auth/biometric/devices')
+        .send({ publicKey: publicKeyHex, password: 'wrong' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Invalid password');
+      expect(mockPrisma.biometricDevice.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed public keys', async () => {
+      const response = await request(app)
+        .post('/auth/biometric/devices')
+        .send({ publicKey: 'not-a-key', password: 'Password123!' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Validation error');
+    });
+
+    it('should issue challenges only for active devices', async () => {
+      mockPrisma.biometricDevice.findUnique.mockResolvedValueOnce({
+        id: 'device-1',
+        revokedAt: null,
+        user: { isActive: true },
+      });
+
+      const response = await request(app)
+        .post('/auth/biometric/challenge')
+        .send({ deviceId: 'device-1' })
+        .expect(200);
+
+      expect(response.body.challenge).toEqual(expect.any(String));
+      expect(mockPrisma.biometricChallenge.create).toHaveBeenCalledWith({
+        data: { deviceId: 'device-1', challenge: response.body.challenge, expiresAt: expect.any(Date) },
+      });
+
+      mockPrisma.biometricDevice.findUnique.mockResolvedValueOnce({
+        id: 'device-2',
+        revokedAt: new Date(),
+        user: { isActive: true },
+      });
+
+      await request(app)
+        .post('/auth/biometric/challenge')
+        .send({ deviceId: 'device-2' })
+        .expect(404);
+    });
+
+    it('should sign in with a valid signature', async () => {
+      mockPrisma.biometricChallenge.findUnique.mockResolvedValue(storedChallenge());
+
+      const response = await request(app)
+        .post('/auth/biometric')
+        .send({ deviceId: 'device-1', challenge: 'challenge-value', signature: sign('challenge-value') });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('token');
+      expect(response.body).toHaveProperty('refreshToken');
+      expect(response.body.user).toHaveProperty('id', 'user-123');
+      expect(mockPrisma.biometricChallenge.updateMany).toHaveBeenCalledWith({
+        where: { id: 'challenge-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject signatures from another key', async () => {
+      mockPrisma.biometricChallenge.findUnique.mockResolvedValue(storedChallenge());
+      const otherKey = crypto.generateKeyPairSync('ed25519').privateKey;
+
+      const response = await request(app)
+        .post('/auth/biometric')
+        .send({ deviceId: 'device-1', challenge: 'challenge-value', signature: sign('challenge-value', otherKey) });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty('error', 'Biometric verification failed');
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject used, expired and revoked challenges', async () => {
+      const cases = [
+        storedChallenge({ usedAt: new Date() }),
+        storedChallenge({ expiresAt: new Date(Date.now() - 1000) }),
+        storedChallenge({ device: { publicKey: publicKeyHex, revokedAt: new Date(), user: deviceUser } }),
+        storedChallenge({ deviceId: 'another-device' }),
+      ];
+
+      for (const challenge of cases) {
+        mockPrisma.biometricChallenge.findUnique.mockResolvedValueOnce(challenge);
+
+        await request(app)
+          .post('/auth/biometric')
+          .send({ deviceId: 'device-1', challenge: 'challenge-value', signature: sign('challenge-value') })
+          .expect(401);
+      }
+
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Multi-factor authentication', () => {
+    const mfaUser = {
+      id: 'user-123',
+      email: 'john.doe@example.com',
+      password: 'hashed-password',
+      firstName: 'John',
+      lastName: 'Doe',
+      phone: '+1234567890',
+      country: 'US',
+      isActive: true,
+      emailVerified: true,
+      mfaEnabled: true,
+      mfaSecret: MFA_SECRET,
+      mfaLastUsedStep: null,
+      createdAt: new Date(),
+    };
+
+    const mockSessionCreation = () => {
+      mockPrisma.session.deleteMany.mockResolvedValue({ count: 0 });
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-123', userId: 'user-123', expiresAt: new Date() });
+      mockPrisma.session.update.mockResolvedValue({ id: 'session-123', token: 'mock-jwt-token' });
+    };
+
+    it('should return an mfa_required challenge instead of a session', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser);
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ email: mfaUser.email, password: 'SecurePassword123!' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('status', 'mfa_required');
+      expect(response.body).toHaveProperty('challengeToken', 'mock-challenge-token');
+      expect(response.body).not.toHaveProperty('token');
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should complete login with a valid TOTP code', async () => {
+      mockVerifyMfaChallengeToken.mockReturnValue({ userId: 'user-123', purpose: 'mfa_challenge' });
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser);
+      mockPrisma.user.update.mockResolvedValue(mfaUser);
+      mockSessionCreation();
+
+      const response = await request(app)
+        .post('/auth/login/mfa')
+        .send({ challengeToken: 'mock-challenge-token', code: generateTotpCode(MFA_SECRET) });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('token', 'mock-jwt-token');
+      expect(response.body.user).not.toHaveProperty('mfaSecret');
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'user-123',
+          OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: expect.any(Number) } }],
+        },
+        data: { mfaLastUsedStep: expect.any(Number) },
+      });
+    });
+
+    it('should reject an incorrect TOTP code', async () => {
+      mockVerifyMfaChallengeToken.mockReturnValue({ userId: 'user-123', purpose: 'mfa_challenge' });
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser);
+      const wrongCode = generateTotpCode(MFA_SECRET) === '000000' ? '111111' : '000000';
+
+      const response = await request(app)
+        .post('/auth/login/mfa')
+        .send({ challengeToken: 'mock-challenge-token', code: wrongCode });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty('error', 'Invalid code');
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      mockVerifyMfaChallengeToken.mockReturnValue({ userId: 'user-123', purpose: 'mfa_challenge' });
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mfaUser, mfaLastUsedStep: getTimeStep() + 1 });
+
+      const response = await request(app)
+        .post('/auth/login/mfa')
+        .send({ challengeToken: 'mock-challenge-token', code: generateTotpCode(MFA_SECRET) });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty('error', 'Invalid code');
+    });
+
+    it('should accept a TOTP code only once when two requests race', async () => {
+      mockVerifyMfaChallengeToken.mockReturnValue({ userId: 'user-123', purpose: 'mfa_challenge' });
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser);
+      // The other request recorded this step between our read and our update
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      const response = await request(app)
+        .post('/auth/login/mfa')
+        .send({ challengeToken: 'mock-challenge-token', code: generateTotpCode(MFA_SECRET) });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty('error', 'Invalid code');
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired challenge', async () => {
+      mockVerifyMfaChallengeToken.mockImplementation(() => {
+        throw new Error('Invalid challenge');
+      });
+
+      const response = await request(app)
+        .post('/auth/login/mfa')
+        .send({ challengeToken: 'expired', code: '123456' });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty('error', 'Invalid challenge');
+    });
+
+    it('should issue a secret and otpauth URI on enrolment', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'john.doe@example.com', mfaEnabled: false });
+      mockPrisma.user.update.mockResolvedValue({});
+
+      const response = await request(app).post('/auth/mfa/enroll');
+
+      expect(response.status).toBe(200);
+      expect(response.body.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(response.body.otpauthUrl).toContain(`secret=${response.body.secret}`);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { mfaSecret: response.body.secret, mfaLastUsedStep: null },
+      });
+    });
+
+    it('should enable MFA once the first code is verified', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mfaUser, mfaEnabled: false });
+      mockPrisma.user.update.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/auth/mfa/verify')
+        .send({ code: generateTotpCode(MFA_SECRET) });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('mfaEnabled', true);
+      expect(mockPrisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: 'user-123' },
+        data: { mfaEnabled: true, mfaEnrolledAt: expect.any(Date) },
+      });
+    });
+
+    it('should return recovery codes when MFA is enabled and store only hashes', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mfaUser, mfaEnabled: false });
+      mockPrisma.user.update.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/auth/mfa/verify')
+        .send({ code: generateTotpCode(MFA_SECRET) });
+
+      expect(response.status).toBe(200);
+      expect(response.body.recoveryCodes).toHaveLength(10);
+      response.body.recoveryCodes.forEach((code: string) => {
+        expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+      });
+      expect(mockPrisma.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', usedAt: null },
+      });
+      expect(mockPrisma.mfaRecoveryCode.createMany).toHaveBeenCalledWith({
+        data: Array(10).fill({ userId: 'user-123', codeHash: 'hashed-password' }),
+      });
+    });
+
+    it('should complete login with a recovery code and record its use', async () => {
+      mockVerifyMfaChallengeToken.mockReturnValue({ userId: 'user-123', purpose: 'mfa_challenge' });
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser);
+      mockPrisma.mfaRecoveryCode.findMany.mockResolvedValue([{ id: 'code-1', codeHash: 'hash-1' }]);
+      mockPrisma.mfaRecoveryCode.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.mfaRecoveryCode.count.mockResolvedValue(2);
+      mockSessionCreation();
+
+      const response = await request(app)
+        .post('/auth/login/mfa')
+        .set('User-Agent', 'RemittanceApp/1.0 (ios)')
+        .send({ challengeToken: 'mock-challenge-token', recoveryCode: 'ABCDE-FGHJK' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('token', 'mock-jwt-token');
+      expect(response.body).toHaveProperty('recoveryCodesRemaining', 2);
+      expect(mockComparePassword).toHaveBeenLastCalledWith('abcdefghjk', 'hash-1');
+      expect(mockPrisma.mfaRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { id: 'code-1', usedAt: null },
+        data: {
+          usedAt: expect.any(Date),
+          usedIp: expect.any(String),
+          usedUserAgent: 'RemittanceApp/1.0 (ios)',
+        },
+      });
+    });
+
+    it('should reject a recovery code that does not match an unused code', async () => {
+      mockVerifyMfaChallengeToken.mockReturnValue({ userId: 'user-123', purpose: 'mfa_challenge' });
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser);
+      mockPrisma.mfaRecoveryCode.findMany.mockResolvedValue([{ id: 'code-1', codeHash: 'hash-1' }]);
+      mockComparePassword.mockResolvedValue(false);
+
+      const response = await request(app)
+        .post('/auth/login/mfa')
+        .send({ challengeToken: 'mock-challenge-token', recoveryCode: 'abcde-fghjk' });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty('error', 'Invalid code');
+      expect(mockPrisma.mfaRecoveryCode.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should require exactly one of code or recoveryCode', async () => {
+      const response = await request(app)
+        .post('/auth/login/mfa')
+        .send({ challengeToken: 'mock-challenge-token' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Validation error');
+    });
+
+    it('should regenerate recovery codes with a valid TOTP code', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser);
+      mockPrisma.user.update.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/auth/mfa/recovery-codes')
+        .send({ code: generateTotpCode(MFA_SECRET) });
+
+      expect(response.status).toBe(200);
+      expect(response.body.recoveryCodes).toHaveLength(10);
+      expect(mockPrisma.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', usedAt: null },
+      });
+    });
+  });
+
+  describe('POST /auth/change-password', () => {
+    const existingUser = {
+      id: 'user-123',
+      email: 'john.doe@example.com',
+      password: 'current-hash',
+      isActive: true,
+    };
+
+    const changeRequest = {
+      currentPassword: 'OldPassword123!',
+      newPassword: 'NewPassword456!',
+    };
+
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue(existingUser);
+      mockPrisma.passwordHistory.findMany.mockResolvedValue([]);
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-456', userId: 'user-123', expiresAt: new Date() });
+      mockPrisma.session.update.mockResolvedValue({ id: 'session-456', token: 'mock-jwt-token' });
+      // Current password matches; new password does not match any stored hash
+      mockComparePassword.mockImplementation(async (password: string) => password === changeRequest.currentPassword);
+    });
+
+    it('should change the password, revoke sessions and return a fresh token', async () => {
+      const response = await request(app)
+        .post('/auth/change-password')
+        .send(changeRequest);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('token', 'mock-jwt-token');
+      expect(mockHashPassword).toHaveBeenCalledWith(changeRequest.newPassword);
+      expect(mockPrisma.passwordHistory.create).toHaveBeenCalledWith({
+        data: { userId: 'user-123', passwordHash: 'current-hash' },
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { password: 'hashed-password', passwordChangedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-123' } });
+      expect(mockPrisma.session.create).toHaveBeenCalled();
+    });
+
+    it('should reject an incorrect current password', async () => {
+      const response = await request(app)
+        .post('/auth/change-password')
+        .send({ ...changeRequest, currentPassword: 'WrongPassword1!' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Invalid current password');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the password policy', async () => {
+      mockValidatePassword.mockReturnValue({ isValid: false, errors: ['Password must contain at least one number'] });
+
+      const response = await request(app)
+        .post('/auth/change-password')
+        .send(changeRequest);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Password validation failed');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a password from recent history', async () => {
+      mockPrisma.passwordHistory.findMany.mockResolvedValue([{ passwordHash: 'old-hash' }]);
+      mockComparePassword.mockImplementation(async (password: string, hash: string) =>
+        password === changeRequest.currentPassword || hash === 'old-hash'
+      );
+
+      const response = await request(app)
+        .post('/auth/change-password')
+        .send(changeRequest);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Password reused');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+      expect(mockPrisma.session.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Password reset', () => {
+    const outbox = mailTransport as OutboxMailTransport;
+    const activeUser = {
+      id: 'user-123',
+      email: 'john.doe@example.com',
+      firstName: 'John',
+      password: 'current-hash',
+      isActive: true,
+    };
+
+    beforeEach(() => {
+      outbox.clear();
+      mockPrisma.passwordResetToken.count.mockResolvedValue(0);
+      mockPrisma.passwordResetToken.create.mockResolvedValue({});
+      mockPrisma.passwordHistory.findMany.mockResolvedValue([]);
+    });
+
+    it('should email a reset token and store only its hash', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(activeUser);
+
+      const response = await request(app)
+        .post('/auth/forgot-password')
+        .send({ email: activeUser.email });
+
+      expect(response.status).toBe(200);
+      expect(outbox.messages).toHaveLength(1);
+      expect(outbox.messages[0].to).toBe(activeUser.email);
+
+      const token = outbox.messages[0].text.match(/Reset code: (\S+)/)![1];
+      expect(mockPrisma.passwordResetToken.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-123',
+          tokenHash: hashToken(token),
+          expiresAt: expect.any(Date),
+          requestedIp: expect.any(String),
+        },
+      });
+    });
+
+    it('should respond identically for unknown emails without sending mail', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/auth/forgot-password')
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toMatch(/If an account exists/);
+      expect(outbox.messages).toHaveLength(0);
+    });
+
+    it('should stop issuing tokens once the per-email limit is reached', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(activeUser);
+      mockPrisma.passwordResetToken.count.mockResolvedValue(PasswordResetService.MAX_REQUESTS_PER_HOUR);
+
+      const response = await request(app)
+        .post('/auth/forgot-password')
+        .send({ email: activeUser.email });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.passwordResetToken.create).not.toHaveBeenCalled();
+      expect(outbox.messages).toHaveLength(0);
+    });
+
+    it('should reset the password with a valid token and revoke sessions', async () => {
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue({
+        id: 'reset-1',
+        userId: 'user-123',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+        user: activeUser,
+      });
+      mockPrisma.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+      mockComparePassword.mockResolvedValue(false);
+
+      const response = await request(app)
+        .post('/auth/reset-password')
+        .send({ token: 'emailed-token', newPassword: 'NewPassword456!' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.passwordResetToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenHash: hashToken('emailed-token') },
+      }));
+      expect(mockPrisma.passwordResetToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'reset-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { password: 'hashed-password', passwordChangedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-123' } });
+      expect(mockPrisma.loginThrottle.deleteMany).toHaveBeenCalledWith({
+        where: { scope: 'USER', subject: 'user-123' },
+      });
+    });
+
+    it('should reject expired or used tokens', async () => {
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue({
+        id: 'reset-1',
+        userId: 'user-123',
+        usedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60_000),
+        user: activeUser,
+      });
+
+      const response = await request(app)
+        .post('/auth/reset-password')
+        .send({ token: 'emailed-token', newPassword: 'NewPassword456!' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Invalid reset token');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Email verification', () => {
+    const outbox = mailTransport as OutboxMailTransport;
+
+    beforeEach(() => {
+      outbox.clear();
+    });
+
+    it('should email a verification link at registration', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue({
+        id: 'user-123',
+        email: 'new.user@example.com',
+        firstName: 'New',
+        lastName: 'User',
+        emailVerified: false,
+      });
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-123' });
+      mockPrisma.emailVerificationToken.create.mockResolvedValue({});
+
+      const response = await request(app)
+        .post('/auth/register')
+        .send({
+          email: 'new.user@example.com',
+          password: 'SecurePassword123!',
+          firstName: 'New',
+          lastName: 'User',
+        });
+
+      expect(response.status).toBe(201);
+      expect(outbox.messages).toHaveLength(1);
+      expect(outbox.messages[0].to).toBe('new.user@example.com');
+
+      const token = outbox.messages[0].text.match(/verify-email\?token=(\S+)/)![1];
+      expect(mockPrisma.emailVerificationToken.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-123',
+          tokenHash: hashToken(decodeURIComponent(token)),
+          expiresAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should mark the email as verified with a valid token', async () => {
+      mockPrisma.emailVerificationToken.findUnique.mockResolvedValue({
+        id: 'verify-1',
+        userId: 'user-123',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+      mockPrisma.emailVerificationToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const response = await request(app)
+        .post('/auth/verify-email')
+        .send({ token: 'emailed-token' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('emailVerified', true);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { emailVerified: true, emailVerifiedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject an expired verification token', async () => {
+      mockPrisma.emailVerificationToken.findUnique.mockResolvedValue({
+        id: 'verify-1',
+        userId: 'user-123',
+        usedAt: null,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      const response = await request(app)
+        .post('/auth/verify-email')
+        .send({ token: 'emailed-token' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Invalid verification token');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should enforce a cooldown between verification emails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user-123',
+        email: 'john.doe@example.com',
+        firstName: 'John',
+        emailVerified: false,
+      });
+      mockPrisma.emailVerificationToken.findFirst.mockResolvedValue({ createdAt: new Date(Date.now() - 10_000) });
+
+      const response = await request(app).post('/auth/verify-email/resend');
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('50');
+      expect(outbox.messages).toHaveLength(0);
+    });
+
+    it('should resend once the cooldown has passed', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user-123',
+        email: 'john.doe@example.com',
+        firstName: 'John',
+        emailVerified: false,
+      });
+      mockPrisma.emailVerificationToken.findFirst.mockResolvedValue({ createdAt: new Date(Date.now() - 120_000) });
+      mockPrisma.emailVerificationToken.create.mockResolvedValue({});
+
+      const response = await request(app).post('/auth/verify-email/resend');
+
+      expect(response.status).toBe(200);
+      expect(outbox.messages).toHaveLength(1);
+    });
+  });
+
+  describe('Refresh tokens', () => {
+    const storedToken = (overrides: Record<string, unknown> = {}) => ({
+      id: 'refresh-1',
+      sessionId: 'session-123',
+      usedAt: null,
+      session: {
+        id: 'session-123',
+        expiresAt: new Date(Date.now() + 60_000),
+        user: { id: 'user-123', email: 'john.doe@example.com', isActive: true },
+      },
+      ...overrides,
+    });
+
+    it('should issue a refresh token at login and store only its hash', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user-123',
+        email: 'john.doe@example.com',
+        password: 'hashed-password',
+        firstName: 'John',
+        lastName: 'Doe',
+        phone: null,
+        country: null,
+        isActive: true,
+        emailVerified: true,
+        createdAt: new Date(),
+      });
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-123' });
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ email: 'john.doe@example.com', password: 'SecurePassword123!' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.refreshToken).toEqual(expect.any(String));
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: { sessionId: 'session-123', tokenHash: hashToken(response.body.refreshToken) },
+      });
+    });
+
+    it('should rotate a valid refresh token', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'current-refresh-token' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('token', 'mock-jwt-token');
+      expect(response.body.refreshToken).not.toBe('current-refresh-token');
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refresh-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.session.update).toHaveBeenCalledWith({
+        where: { id: 'session-123' },
+        data: expect.objectContaining({ token: 'mock-jwt-token', expiresAt: expect.any(Date), lastSeenAt: expect.any(Date) }),
+      });
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: { sessionId: 'session-123', tokenHash: hashToken(response.body.refreshToken) },
+      });
+    });
+
+    it('should revoke the session when a used refresh token is replayed', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken({ usedAt: new Date() }));
+
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'stolen-refresh-token' });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty('error', 'Refresh token reused');
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { id: 'session-123' } });
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should treat a lost rotation race as reuse', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'current-refresh-token' });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty('error', 'Refresh token reused');
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { id: 'session-123' } });
+    });
+
+    it('should reject unknown and expired refresh tokens', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValueOnce(null);
+
+      const unknown = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'unknown' });
+
+      expect(unknown.status).toBe(401);
+      expect(unknown.body).toHaveProperty('error', 'Invalid refresh token');
+
+      mockPrisma.refreshToken.findUnique.mockResolvedValueOnce(storedToken({
+        session: {
+          id: 'session-123',
+          expiresAt: new Date(Date.now() - 1000),
+          user: { id: 'user-123', email: 'john.doe@example.com', isActive: true },
+        },
+      }));
+
+      const expired = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'expired' });
+
+      expect(expired.status).toBe(401);
+      expect(expired.body).toHaveProperty('error', 'Invalid refresh token');
+    });
+  });
+
+  describe('Session management', () => {
+    it('should record the device when a session is created', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user-123',
+        email: 'john.doe@example.com',
+        password: 'hashed-password',
+        firstName: 'John',
+        lastName: 'Doe',
+        phone: null,
+        country: null,
+        isActive: true,
+        emailVerified: true,
+        createdAt: new Date(),
+      });
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-123' });
+
+      await request(app)
+        .post('/auth/login')
+        .set('User-Agent', 'RemittanceApp/1.0.0 (ios)')
+        .set('X-Device-Name', encodeURIComponent('John’s iPhone'))
+        .send({ email: 'john.doe@example.com', password: 'Password123!' })
+        .expect(200);
+
+      expect(mockPrisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-123',
+          deviceName: 'John’s iPhone',
+          platform: 'ios',
+          userAgent: 'RemittanceApp/1.0.0 (ios)',
+          ipAddress: expect.any(String),
+        }),
+      });
+    });
+
+    it('should list active sessions and mark the current one', async () => {
+      mockPrisma.session.findMany.mockResolvedValue([
+        { id: 'session-123', deviceName: 'iPhone', platform: 'ios', ipAddress: '10.0.0.1', lastSeenAt: new Date(), createdAt: new Date() },
+        { id: 'session-456', deviceName: null, platform: 'android', ipAddress: '10.0.0.2', lastSeenAt: new Date(), createdAt: new Date() },
+      ]);
+
+      const response = await request(app)
+        .get('/auth/sessions')
+        .expect(200);
+
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'user-123', expiresAt: { gt: expect.any(Date) } },
+      }));
+      expect(response.body.sessions).toHaveLength(2);
+      expect(response.body.sessions[0]).toMatchObject({ id: 'session-123', current: true });
+      expect(response.body.sessions[1]).toMatchObject({ id: 'session-456', current: false });
+    });
+
+    it("should only revoke the user's own sessions", async () => {
+      mockPrisma.session.deleteMany.mockResolvedValueOnce({ count: 1 });
+
+      const revoked = await request(app)
+        .delete('/auth/sessions/session-456')
+        .expect(200);
+
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'session-456', userId: 'user-123' },
+      });
+      expect(revoked.body).toHaveProperty('current', false);
+
+      mockPrisma.session.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+      const response = await request(app)
+        .delete('/auth/sessions/other-users-session')
+        .expect(404);
+
+      expect(response.body).toHaveProperty('error', 'Session not found');
+    });
+
+    it('should delete the current session on logout', async () => {
+      mockPrisma.session.deleteMany.mockResolvedValue({ count: 1 });
+
+      await request(app)
+        .post('/auth/logout')
+        .expect(200);
+
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'session-123' },
+      });
+    });
+
+    it('should delete every session on logout-all', async () => {
+      mockPrisma.session.deleteMany.mockResolvedValue({ count: 3 });
+
+      const response = await request(app)
+        .post('/auth/logout-all')
+        .expect(200);
+
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123' },
+      });
+      expect(response.body).toHaveProperty('revokedCount', 3);
+    });
+  });
+
+  describe('Current user', () => {
+    const canonicalUser = {
+      id: 'user-123',
+      email: 'john.doe@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      username: 'johndoe',
+      displayName: 'Johnny',
+      phone: null,
+      country: 'ES',
+      isSearchable: true,
+      isActive: true,
+      kycStatus: 'APPROVED',
+      emailVerified: true,
+      phoneVerified: false,
+      mfaEnabled: true,
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+    };
+
+    it('should return the canonical user from /auth/me', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(canonicalUser);
+
+      const response = await request(app)
+        .get('/auth/me')
+        .expect(200);
+
+      expect(response.body.user).toMatchObject({
+        id: 'user-123',
+        username: 'johndoe',
+        displayName: 'Johnny',
+        kycStatus: 'APPROVED',
+        emailVerified: true,
+        phoneVerified: false,
+        mfaEnabled: true,
+      });
+      expect(response.body.user).not.toHaveProperty('password');
+      expect(response.body.user).not.toHaveProperty('mfaSecret');
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'user-123' },
+        select: expect.not.objectContaining({ password: true }),
+      }));
+    });
+
+    it('should report a valid session with the current user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(canonicalUser);
+
+      const response = await request(app)
+        .get('/auth/validate')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        valid: true,
+        sessionId: 'session-123',
+        user: { id: 'user-123', kycStatus: 'APPROVED' },
+      });
+    });
+
+    it('should reject the session if the user no longer exists', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/auth/validate')
+        .expect(401);
+
+      expect(response.body).toHaveProperty('error', 'Invalid session');
+    });
+  });
+
   describe('Security Tests', () => {
     it('should not expose internal error details in production', async () => {
       // Mock a database error
@@ -0,0 +1,103 @@
+import request from 'supertest';
+import express from 'express';
+
+// Create mock modules BEFORE importing the modules that use them
+const mockBeneficiaryService = {
+  get: jest.fn(),
+  update: jest.fn(),
+  findByIban: jest.fn(),
+};
+
+jest.mock('../../../services/beneficiary', () => ({
+  BeneficiaryService: mockBeneficiaryService,
+}));
+
+jest.mock('../../../services/audit', () => ({
+  AuditService: {
+    record: jest.fn(),
+    contextFrom: jest.fn(() => ({})),
+    diff: jest.fn(() => ({})),
+  },
+}));
+
+jest.mock('../../../middleware/auth', () => ({
+  authenticateToken: jest.fn((req, res, next) => {
+    req.user = { id: 'user-123', email: 'john.doe@example.com', isActive: true, emailVerified: true };
+    next();
+  }),
+}));
+
+// Now import the router
+import beneficiariesRouter from '../../../routes/beneficiaries';
+
+describe('Beneficiary Routes', () => {
+  let app: express.Application;
+
+  const honduranBeneficiary = {
+    id: 'beneficiary-1',
+    firstName: 'María',
+    lastName: 'López',
+    bankName: 'BAC Credomatic',
+    bankCode: 'BAC',
+    iban: null,
+    accountNumber: '730123456',
+    accountType: 'honduras_local',
+    currency: 'HNL',
+    country: 'HN',
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/beneficiaries', beneficiariesRouter);
+
+    jest.clearAllMocks();
+    mockBeneficiaryService.get.mockResolvedValue(honduranBeneficiary);
+    mockBeneficiaryService.update.mockImplementation(async (userId, id, changes) => ({
+      before: honduranBeneficiary,
+      after: { ...honduranBeneficiary, ...changes },
+    }));
+  });
+
+  describe('PATCH /beneficiaries/:id', () => {
+    it('should update details that leave the beneficiary payable', async () => {
+      const response = await request(app)
+        .patch('/beneficiaries/beneficiary-1')
+        .send({ nickname: 'Mamá' });
+
+      expect(response.status).toBe(200);
+      expect(mockBeneficiaryService.update).toHaveBeenCalledWith('user-123', 'beneficiary-1', { nickname: 'Mamá' });
+    });
+
+    it('should refuse to remove the only account identifier', async () => {
+      const response = await request(app)
+        .patch('/beneficiaries/beneficiary-1')
+        .send({ accountNumber: null });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toContainEqual({ field: 'iban', message: 'An IBAN or account number is required' });
+      expect(mockBeneficiaryService.update).not.toHaveBeenCalled();
+    });
+
+    it('should check a Honduran account number against the bank it is saved with', async () => {
+      const response = await request(app)
+        .patch('/beneficiaries/beneficiary-1')
+        .send({ bankCode: 'XYZ' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([expect.objectContaining({ field: 'bankCode' })]);
+      expect(mockBeneficiaryService.update).not.toHaveBeenCalled();
+    });
+
+    it('should report beneficiaries of other users as not found', async () => {
+      mockBeneficiaryService.get.mockResolvedValue(null);
+
+      const response = await request(app)
+        .patch('/beneficiaries/beneficiary-1')
+        .send({ accountNumber: null });
+
+      expect(response.status).toBe(404);
+      expect(mockBeneficiaryService.update).not.toHaveBeenCalled();
+    });
+  });
+});
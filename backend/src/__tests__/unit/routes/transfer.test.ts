@@ -0,0 +1,223 @@
+import request from 'supertest';
+import express from 'express';
+
+// Create mock modules BEFORE importing the modules that use them
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+  },
+  biometricDevice: {
+    count: jest.fn(),
+  },
+  wiseTransaction: {
+    count: jest.fn(),
+  },
+  transferQuote: {
+    findFirst: jest.fn(),
+  },
+  transferAuthorization: {
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  auditEvent: {
+    create: jest.fn(),
+  },
+};
+
+const mockTransferService = {
+  createQuote: jest.fn(),
+  executeTransfer: jest.fn(),
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../../../services/transfer', () => ({
+  transferService: mockTransferService,
+}));
+
+jest.mock('../../../middleware/auth', () => ({
+  authenticateToken: jest.fn((req, res, next) => {
+    req.user = {
+      id: 'user-123',
+      email: 'john.doe@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      isActive: true,
+      emailVerified: true,
+    };
+    next();
+  }),
+}));
+
+// Now import the router
+import transferRouter from '../../../routes/transfer';
+import { PayoutService } from '../../../services/payout';
+import { createError } from '../../../middleware/errorHandler';
+import { hashToken } from '../../../utils/tokens';
+
+describe('Transfer Routes', () => {
+  let app: express.Application;
+
+  const honduranRecipient = {
+    type: 'honduras_local' as const,
+    bankCode: 'BAC',
+    accountNumber: '730123456',
+    currency: 'HNL',
+    country: 'HN',
+    holderName: 'María López',
+  };
+
+  const quote = (sourceAmount: number): Record<string, unknown> => ({ sourceAmount: String(sourceAmount), sourceCurrency: 'EUR' });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/transfer', transferRouter);
+
+    jest.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue({ mfaEnabled: true });
+    mockPrisma.biometricDevice.count.mockResolvedValue(0);
+    mockPrisma.wiseTransaction.count.mockResolvedValue(0);
+    mockPrisma.transferAuthorization.updateMany.mockResolvedValue({ count: 1 });
+    mockTransferService.executeTransfer.mockResolvedValue({ id: 'transfer_1', sourceAmount: 1000, sourceCurrency: 'EUR' });
+  });
+
+  describe('POST /transfer/quote', () => {
+    const quoteRequest = {
+      sourceAccountId: 'account-eur',
+      sourceCurrency: 'eur',
+      targetCurrency: 'hnl',
+      targetCountry: 'HN',
+      amount: 120,
+      type: 'BANK_TRANSFER',
+    };
+
+    it('prices currencies given in lowercase under their ISO codes', async () => {
+      mockTransferService.createQuote.mockResolvedValue({ id: 'quote-1' });
+
+      await request(app).post('/transfer/quote').send(quoteRequest).expect(200);
+
+      expect(mockTransferService.createQuote).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceCurrency: 'EUR', targetCurrency: 'HNL' }),
+        'user-123'
+      );
+    });
+
+    it('applies the Honduras corridor to lowercase currencies', async () => {
+      const response = await request(app)
+        .post('/transfer/quote')
+        .send({ ...quoteRequest, sourceCurrency: 'gbp' })
+        .expect(400);
+
+      expect(response.body.details).toEqual([expect.objectContaining({ field: 'sourceCurrency' })]);
+      expect(mockTransferService.createQuote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /transfer/create', () => {
+    it('should refuse a large transfer to a new recipient without a step-up token', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(quote(1000));
+
+      const response = await request(app)
+        .post('/transfer/create')
+        .send({ quoteId: 'quote-1', recipientAccount: honduranRecipient });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({
+        error: 'Step-up authentication required',
+        reason: 'amount',
+        methods: ['totp', 'password'],
+      });
+      expect(mockPrisma.transferQuote.findFirst).toHaveBeenCalledWith({
+        where: { id: 'quote-1', userId: 'user-123' },
+        select: { sourceAmount: true, sourceCurrency: true },
+      });
+      expect(mockTransferService.executeTransfer).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a small first transfer to a recipient without an IBAN', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(quote(50));
+
+      const response = await request(app)
+        .post('/transfer/create')
+        .send({ quoteId: 'quote-1', recipientAccount: honduranRecipient });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toHaveProperty('reason', 'new_recipient');
+      expect(mockPrisma.wiseTransaction.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ recipientIndex: PayoutService.recipientIndex(honduranRecipient) }),
+      });
+    });
+
+    it('should create the transfer with a token issued for its amount and recipient', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(quote(1000));
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValue({
+        id: 'auth-1',
+        userId: 'user-123',
+        amount: '1000.00',
+        currency: 'EUR',
+        recipientIndex: PayoutService.recipientIndex(honduranRecipient),
+        expiresAt: new Date(Date.now() + 60 * 1000),
+        usedAt: null,
+      });
+
+      const response = await request(app)
+        .post('/transfer/create')
+        .send({ quoteId: 'quote-1', recipientAccount: honduranRecipient, authorizationToken: 'token' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.transferAuthorization.updateMany).toHaveBeenCalledWith({
+        where: { id: 'auth-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mockTransferService.executeTransfer).toHaveBeenCalled();
+    });
+
+    it('should refuse a token issued for another recipient', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(quote(1000));
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValue({
+        id: 'auth-1',
+        userId: 'user-123',
+        amount: '1000.00',
+        currency: 'EUR',
+        recipientIndex: PayoutService.recipientIndex({ ...honduranRecipient, accountNumber: '730999999' }),
+        expiresAt: new Date(Date.now() + 60 * 1000),
+        usedAt: null,
+      });
+
+      const response = await request(app)
+        .post('/transfer/create')
+        .send({ quoteId: 'quote-1', recipientAccount: honduranRecipient, authorizationToken: 'token' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toHaveProperty('error', 'Invalid transfer authorization');
+      expect(mockTransferService.executeTransfer).not.toHaveBeenCalled();
+    });
+
+    it('should give the token back when the transfer is not created', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(quote(1000));
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValue({
+        id: 'auth-1',
+        userId: 'user-123',
+        amount: '1000.00',
+        currency: 'EUR',
+        recipientIndex: PayoutService.recipientIndex(honduranRecipient),
+        expiresAt: new Date(Date.now() + 60 * 1000),
+        usedAt: null,
+      });
+      mockTransferService.executeTransfer.mockRejectedValue(createError('Insufficient funds', 422));
+
+      const response = await request(app)
+        .post('/transfer/create')
+        .send({ quoteId: 'quote-1', recipientAccount: honduranRecipient, authorizationToken: 'token' });
+
+      expect(response.status).toBe(422);
+      expect(mockPrisma.transferAuthorization.updateMany).toHaveBeenLastCalledWith({
+        where: { tokenHash: hashToken('token'), userId: 'user-123', usedAt: { not: null } },
+        data: { usedAt: null },
+      });
+    });
+  });
+});
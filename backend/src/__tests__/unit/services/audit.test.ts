@@ -0,0 +1,117 @@
+const mockPrisma = {
+  auditEvent: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+import { AuditService } from '../../../services/audit';
+import { Prisma } from '../../../generated/prisma';
+
+describe('AuditService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('diff', () => {
+    it('keeps only the fields that changed', () => {
+      const changes = AuditService.diff(
+        { username: 'john', displayName: 'John', isSearchable: true },
+        { username: 'johnny', displayName: 'John', isSearchable: false }
+      );
+
+      expect(changes).toEqual({
+        username: { from: 'john', to: 'johnny' },
+        isSearchable: { from: true, to: false },
+      });
+    });
+
+    it('compares decimals by value and records them as numbers', () => {
+      expect(AuditService.diff({ lastBalance: new Prisma.Decimal('100.00') }, { lastBalance: 100 })).toEqual({});
+      expect(AuditService.diff({ lastBalance: new Prisma.Decimal('100.00') }, { lastBalance: 250.5 })).toEqual({
+        lastBalance: { from: 100, to: 250.5 },
+      });
+    });
+
+    it('records fields that were previously unset as null', () => {
+      expect(AuditService.diff({}, { displayName: 'John' })).toEqual({
+        displayName: { from: null, to: 'John' },
+      });
+    });
+  });
+
+  describe('record', () => {
+    it('stores the actor and request context with the event', async () => {
+      mockPrisma.auditEvent.create.mockResolvedValue({});
+
+      await AuditService.record(
+        { actorId: 'user-123', ipAddress: '203.0.113.7', userAgent: 'RemitPay/1.0' },
+        {
+          action: 'account.balance_overridden',
+          userId: 'user-123',
+          subjectType: 'wise_account',
+          subjectId: 'account-1',
+          changes: { lastBalance: { from: 100, to: 250 } },
+        }
+      );
+
+      expect(mockPrisma.auditEvent.create).toHaveBeenCalledWith({
+        data: {
+          action: 'account.balance_overridden',
+          actorId: 'user-123',
+          userId: 'user-123',
+          subjectType: 'wise_account',
+          subjectId: 'account-1',
+          ipAddress: '203.0.113.7',
+          userAgent: 'RemitPay/1.0',
+          changes: { lastBalance: { from: 100, to: 250 } },
+          metadata: undefined,
+        },
+      });
+    });
+
+    it('does not throw when the event cannot be stored', async () => {
+      mockPrisma.auditEvent.create.mockRejectedValue(new Error('connection lost'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(
+        AuditService.record({}, { action: 'auth.login', subjectType: 'user' })
+      ).resolves.toBeUndefined();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('query', () => {
+    it('filters by subject and date range and returns the total', async () => {
+      mockPrisma.auditEvent.findMany.mockResolvedValue([{ id: 'event-1' }]);
+      mockPrisma.auditEvent.count.mockResolvedValue(7);
+      const from = new Date('2025-08-01T00:00:00Z');
+
+      const result = await AuditService.query({
+        subjectType: 'wise_account',
+        subjectId: 'account-1',
+        from,
+        limit: 50,
+        offset: 0,
+      });
+
+      expect(result).toEqual({ events: [{ id: 'event-1' }], total: 7 });
+      expect(mockPrisma.auditEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          subjectType: 'wise_account',
+          subjectId: 'account-1',
+          createdAt: { gte: from, lte: undefined },
+        }),
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+        skip: 0,
+      }));
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { BankDirectoryService } from '../../../services/bankDirectory';
+
+describe('BankDirectoryService', () => {
+  it('resolves the bank and BIC of a valid IBAN', () => {
+    expect(BankDirectoryService.lookupIban('ES91 2100 0418 4502 0005 1332')).toMatchObject({
+      valid: true,
+      bankCode: '2100',
+      bank: { name: 'CaixaBank', bic: 'CAIXESBBXXX' },
+    });
+    expect(BankDirectoryService.lookupIban('GB29NWBK60161331926819').bank).toEqual({ name: 'NatWest', bic: 'NWBKGB2LXXX' });
+  });
+
+  it('keeps IBANs of banks missing from the directory valid', () => {
+    expect(BankDirectoryService.lookupIban('LU280019400644750000')).toMatchObject({ valid: true, bank: null });
+  });
+
+  it('does not resolve a bank for an invalid IBAN', () => {
+    expect(BankDirectoryService.lookupIban('ES9121000418450200051333')).toMatchObject({
+      valid: false,
+      error: 'invalid_checksum',
+      bank: null,
+    });
+  });
+});
@@ -0,0 +1,160 @@
+const mockPrisma = {
+  beneficiary: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+import { BeneficiaryService } from '../../../services/beneficiary';
+import { FieldEncryptionService } from '../../../services/encryption';
+import { CustomError } from '../../../middleware/errorHandler';
+import { Prisma } from '../../../generated/prisma';
+
+describe('BeneficiaryService', () => {
+  const iban = 'ES9121000418450200051332';
+  const ibanIndex = FieldEncryptionService.blindIndex('iban', iban);
+
+  const uniqueViolation = (): Error =>
+    new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+
+  // Echo the create/update data back as the stored row
+  const echoData = ({ data }: { data: Record<string, unknown> }): Record<string, unknown> => ({ id: 'beneficiary-1', ...data });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.beneficiary.create.mockImplementation(echoData);
+    mockPrisma.beneficiary.update.mockImplementation(echoData);
+  });
+
+  describe('create', () => {
+    it('encrypts banking identifiers and stores the IBAN blind index', async () => {
+      const beneficiary = await BeneficiaryService.create('user-123', {
+        firstName: 'Ana',
+        lastName: 'García',
+        nickname: 'Mum',
+        relationship: 'family',
+        bankName: 'CaixaBank',
+        iban: 'es91 2100 0418 4502 0005 1332',
+        country: 'es',
+        currency: 'eur',
+      });
+
+      const { data } = mockPrisma.beneficiary.create.mock.calls[0][0];
+      expect(data).toMatchObject({ userId: 'user-123', ibanIndex, country: 'ES', currency: 'EUR', nickname: 'Mum' });
+      expect(data.iban).toMatch(/^enc:v1:/);
+      expect(beneficiary.iban).toBe(iban);
+    });
+
+    it('rejects an IBAN the user already saved, as the unique index reports it', async () => {
+      mockPrisma.beneficiary.create.mockRejectedValue(uniqueViolation());
+
+      const error = await BeneficiaryService.create('user-123', { firstName: 'Ana', lastName: 'García', iban })
+        .catch((rejection: unknown) => rejection);
+
+      expect(error).toBeInstanceOf(CustomError);
+      expect(error).toMatchObject({ message: 'Beneficiary already exists', statusCode: 409 });
+    });
+  });
+
+  describe('update', () => {
+    it('rejects changing the IBAN to one of the user\'s other beneficiaries', async () => {
+      mockPrisma.beneficiary.findFirst.mockResolvedValue({ id: 'beneficiary-1', iban: null, phone: null, accountNumber: null });
+      mockPrisma.beneficiary.update.mockRejectedValue(uniqueViolation());
+
+      await expect(BeneficiaryService.update('user-123', 'beneficiary-1', { iban })).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('findByIban', () => {
+    it('looks up active beneficiaries by blind index, optionally ignoring one', async () => {
+      mockPrisma.beneficiary.findFirst.mockResolvedValue(null);
+
+      await BeneficiaryService.findByIban('user-123', 'ES91 2100 0418 4502 0005 1332', 'beneficiary-1');
+
+      expect(mockPrisma.beneficiary.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'user-123', deletedAt: null, ibanIndex, id: { not: 'beneficiary-1' } },
+      }));
+    });
+  });
+
+  describe('remove', () => {
+    it('soft-deletes only the user\'s own active beneficiary', async () => {
+      mockPrisma.beneficiary.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(BeneficiaryService.remove('user-123', 'beneficiary-9')).resolves.toBe(false);
+      expect(mockPrisma.beneficiary.updateMany).toHaveBeenCalledWith({
+        where: { id: 'beneficiary-9', userId: 'user-123', deletedAt: null },
+        data: { deletedAt: expect.any(Date), isActive: false },
+      });
+    });
+  });
+
+  describe('recordTransferRecipient', () => {
+    const recipient = {
+      holderName: 'Ana María García',
+      iban,
+      bankName: 'CaixaBank',
+      currency: 'EUR',
+      country: 'ES',
+    };
+
+    it('does not save the recipient unless asked to', async () => {
+      mockPrisma.beneficiary.findFirst.mockResolvedValue(null);
+
+      await expect(BeneficiaryService.recordTransferRecipient('user-123', recipient)).resolves.toBeNull();
+      expect(mockPrisma.beneficiary.create).not.toHaveBeenCalled();
+    });
+
+    it('saves a new recipient when asked to', async () => {
+      mockPrisma.beneficiary.findFirst.mockResolvedValue(null);
+
+      const result = await BeneficiaryService.recordTransferRecipient('user-123', { ...recipient, saveRecipient: true });
+
+      expect(result?.created).toBe(true);
+      expect(mockPrisma.beneficiary.create.mock.calls[0][0].data).toMatchObject({
+        firstName: 'Ana',
+        lastName: 'María García',
+        lastUsedAt: expect.any(Date),
+      });
+    });
+
+    it('reuses a saved beneficiary with the same IBAN instead of creating a duplicate', async () => {
+      mockPrisma.beneficiary.findFirst.mockResolvedValue({ id: 'beneficiary-1', iban: await FieldEncryptionService.encrypt(iban) });
+
+      const result = await BeneficiaryService.recordTransferRecipient('user-123', { ...recipient, saveRecipient: true });
+
+      expect(result).toMatchObject({ created: false, beneficiary: { id: 'beneficiary-1', iban } });
+      expect(mockPrisma.beneficiary.create).not.toHaveBeenCalled();
+      expect(mockPrisma.beneficiary.update).toHaveBeenCalledWith({
+        where: { id: 'beneficiary-1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('reuses the beneficiary a concurrent transfer saved first', async () => {
+      mockPrisma.beneficiary.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'beneficiary-2', iban: await FieldEncryptionService.encrypt(iban) });
+      mockPrisma.beneficiary.create.mockRejectedValue(uniqueViolation());
+
+      const result = await BeneficiaryService.recordTransferRecipient('user-123', { ...recipient, saveRecipient: true });
+
+      expect(result).toMatchObject({ created: false, beneficiary: { id: 'beneficiary-2', iban } });
+    });
+
+    it('never fails the transfer', async () => {
+      mockPrisma.beneficiary.findFirst.mockRejectedValue(new Error('Database unavailable'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(BeneficiaryService.recordTransferRecipient('user-123', { ...recipient, saveRecipient: true })).resolves.toBeNull();
+    });
+  });
+});
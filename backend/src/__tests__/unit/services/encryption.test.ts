@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { EnvKeyProvider, FieldEncryptionService } from '../../../services/encryption';
+
+describe('FieldEncryptionService', () => {
+  const oldKey = crypto.randomBytes(32).toString('base64');
+  const newKey = crypto.randomBytes(32).toString('base64');
+
+  beforeEach(() => {
+    FieldEncryptionService.useKeyProvider(EnvKeyProvider.fromKeyring(`k1:${oldKey}`, 'k1'));
+  });
+
+  describe('encrypt / decrypt', () => {
+    it('round-trips a value through an envelope under the active key', async () => {
+      const encrypted = await FieldEncryptionService.encrypt('ES9121000418450200051332');
+
+      expect(encrypted).toMatch(/^enc:v1:k1:/);
+      expect(encrypted).not.toContain('ES9121000418450200051332');
+      expect(await FieldEncryptionService.decrypt(encrypted)).toBe('ES9121000418450200051332');
+    });
+
+    it('uses a fresh data key and IV for every value', async () => {
+      const first = await FieldEncryptionService.encrypt('+34600000000');
+      const second = await FieldEncryptionService.encrypt('+34600000000');
+
+      expect(first).not.toBe(second);
+    });
+
+    it('passes null, undefined and legacy plaintext through unchanged', async () => {
+      expect(await FieldEncryptionService.encrypt(null)).toBeNull();
+      expect(await FieldEncryptionService.encrypt(undefined)).toBeUndefined();
+      expect(await FieldEncryptionService.decrypt('DE89370400440532013000')).toBe('DE89370400440532013000');
+    });
+
+    it('rejects tampered ciphertext', async () => {
+      const encrypted = await FieldEncryptionService.encrypt('12345678');
+      const parts = encrypted.split(':');
+      const ciphertext = Buffer.from(parts[6], 'base64url');
+      ciphertext[0] ^= 0xff;
+      parts[6] = ciphertext.toString('base64url');
+
+      await expect(FieldEncryptionService.decrypt(parts.join(':'))).rejects.toThrow();
+    });
+
+    it('decrypts only the requested fields of a record', async () => {
+      const record = {
+        id: 'account-1',
+        iban: await FieldEncryptionService.encrypt('ES9121000418450200051332'),
+        accountNumber: null,
+        name: 'Main account',
+      };
+
+      expect(await FieldEncryptionService.decryptFields(record, ['iban', 'accountNumber'])).toEqual({
+        id: 'account-1',
+        iban: 'ES9121000418450200051332',
+        accountNumber: null,
+        name: 'Main account',
+      });
+    });
+  });
+
+  describe('key rotation', () => {
+    it('re-wraps values under the new active key without losing access to old ones', async () => {
+      const encryptedUnderOldKey = await FieldEncryptionService.encrypt('+34600000000');
+      FieldEncryptionService.useKeyProvider(EnvKeyProvider.fromKeyring(`k1:${oldKey},k2:${newKey}`, 'k2'));
+
+      expect(FieldEncryptionService.needsRotation(encryptedUnderOldKey)).toBe(true);
+      expect(await FieldEncryptionService.decrypt(encryptedUnderOldKey)).toBe('+34600000000');
+
+      const rotated = await FieldEncryptionService.rotate(encryptedUnderOldKey);
+
+      expect(rotated).toMatch(/^enc:v1:k2:/);
+      expect(FieldEncryptionService.needsRotation(rotated)).toBe(false);
+
+      // Once rotated, the retired key can be dropped from the keyring
+      FieldEncryptionService.useKeyProvider(EnvKeyProvider.fromKeyring(`k2:${newKey}`));
+      expect(await FieldEncryptionService.decrypt(rotated)).toBe('+34600000000');
+    });
+
+    it('encrypts legacy plaintext when rotating', async () => {
+      expect(FieldEncryptionService.needsRotation('12345678')).toBe(true);
+
+      const rotated = await FieldEncryptionService.rotate('12345678');
+
+      expect(rotated).toMatch(/^enc:v1:k1:/);
+      expect(await FieldEncryptionService.decrypt(rotated)).toBe('12345678');
+    });
+
+    it('fails loudly when a value was encrypted under a key that is no longer configured', async () => {
+      const encrypted = await FieldEncryptionService.encrypt('12345678');
+      FieldEncryptionService.useKeyProvider(EnvKeyProvider.fromKeyring(`k2:${newKey}`));
+
+      await expect(FieldEncryptionService.decrypt(encrypted)).rejects.toThrow('Unknown field encryption key "k1"');
+    });
+  });
+
+  describe('EnvKeyProvider.fromKeyring', () => {
+    it('rejects keys of the wrong length and an active key missing from the keyring', () => {
+      expect(() => EnvKeyProvider.fromKeyring(`k1:${Buffer.alloc(16).toString('base64')}`)).toThrow('32-byte key');
+      expect(() => EnvKeyProvider.fromKeyring(`k1:${oldKey}`, 'k9')).toThrow('not in the keyring');
+    });
+  });
+
+  describe('blindIndex', () => {
+    it('is deterministic across formatting differences', () => {
+      expect(FieldEncryptionService.blindIndex('iban', 'es91 2100 0418 4502 0005 1332')).toBe(
+        FieldEncryptionService.blindIndex('iban', 'ES9121000418450200051332')
+      );
+      expect(FieldEncryptionService.blindIndex('phone', '+34 (600) 000-000')).toBe(
+        FieldEncryptionService.blindIndex('phone', '+34600000000')
+      );
+    });
+
+    it('separates domains and does not reveal the value', () => {
+      const asPhone = FieldEncryptionService.blindIndex('phone', '12345678');
+      const asAccountNumber = FieldEncryptionService.blindIndex('account_number', '12345678');
+
+      expect(asPhone).not.toBe(asAccountNumber);
+      expect(asPhone).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+});
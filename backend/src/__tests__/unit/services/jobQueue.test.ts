@@ -0,0 +1,134 @@
+const mockPrisma = {
+  job: {
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+    update: jest.fn(),
+    fields: { maxAttempts: 'jobs.maxAttempts' },
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+import { JobQueue } from '../../../services/jobQueue';
+import { JobStatus } from '../../../generated/prisma';
+import type { JobHandlers } from '../../../types/jobs';
+
+describe('JobQueue', () => {
+  const now = new Date('2025-08-20T09:00:00Z');
+  const job = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+    id: 'job-1',
+    type: 'transfer.advance',
+    payload: { transferId: 'transfer_1', status: 'PROCESSING' },
+    status: JobStatus.PENDING,
+    attempts: 0,
+    maxAttempts: 5,
+    runAt: now,
+    ...overrides,
+  });
+
+  let handlers: { [Type in keyof JobHandlers]: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handlers = {
+      'transfer.advance': jest.fn().mockResolvedValue(undefined),
+      'wise.simulate_status': jest.fn().mockResolvedValue(undefined),
+    };
+    mockPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('runDue', () => {
+    it('claims due jobs, runs their handler and marks them done', async () => {
+      mockPrisma.job.findMany.mockResolvedValue([job()]);
+
+      await expect(JobQueue.runDue(handlers, 20, now)).resolves.toBe(1);
+
+      expect(mockPrisma.job.findMany).toHaveBeenCalledWith({
+        where: { status: JobStatus.PENDING, runAt: { lte: now } },
+        orderBy: { runAt: 'asc' },
+        take: 20,
+      });
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: JobStatus.PENDING },
+        data: expect.objectContaining({ status: JobStatus.RUNNING, attempts: { increment: 1 } }),
+      });
+      expect(handlers['transfer.advance']).toHaveBeenCalledWith({ transferId: 'transfer_1', status: 'PROCESSING' });
+      expect(mockPrisma.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: JobStatus.SUCCEEDED }),
+      });
+    });
+
+    it('skips jobs another worker claimed first', async () => {
+      mockPrisma.job.findMany.mockResolvedValue([job()]);
+      mockPrisma.job.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(JobQueue.runDue(handlers, 20, now)).resolves.toBe(0);
+      expect(handlers['transfer.advance']).not.toHaveBeenCalled();
+    });
+
+    it('retries failed jobs later, backing off', async () => {
+      mockPrisma.job.findMany.mockResolvedValue([job({ attempts: 2 })]);
+      handlers['transfer.advance'].mockRejectedValue(new Error('Database unavailable'));
+      const before = Date.now();
+
+      await JobQueue.runDue(handlers, 20, now);
+
+      const { data } = mockPrisma.job.update.mock.calls[0][0];
+      expect(data).toMatchObject({ status: JobStatus.PENDING, lastError: 'Database unavailable' });
+      // Third attempt failed: 5s doubled twice
+      expect(data.runAt.getTime() - before).toBeGreaterThanOrEqual(20000);
+      expect(data.runAt.getTime() - before).toBeLessThan(21000);
+    });
+
+    it('gives up on jobs out of attempts', async () => {
+      mockPrisma.job.findMany.mockResolvedValue([job({ attempts: 4 })]);
+      handlers['transfer.advance'].mockRejectedValue(new Error('Database unavailable'));
+
+      await JobQueue.runDue(handlers, 20, now);
+
+      expect(mockPrisma.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: JobStatus.FAILED, runAt: undefined }),
+      });
+    });
+
+    it('fails jobs of unknown types instead of crashing the worker', async () => {
+      mockPrisma.job.findMany.mockResolvedValue([job({ type: 'unknown.type', maxAttempts: 1 })]);
+
+      await JobQueue.runDue(handlers, 20, now);
+
+      expect(mockPrisma.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: JobStatus.FAILED, lastError: 'No handler for job type unknown.type' }),
+      });
+    });
+  });
+
+  describe('retryDelayMs', () => {
+    it('doubles from 5 seconds up to 10 minutes', () => {
+      expect([1, 2, 3, 4].map(attempts => JobQueue.retryDelayMs(attempts))).toEqual([5000, 10000, 20000, 40000]);
+      expect(JobQueue.retryDelayMs(20)).toBe(10 * 60 * 1000);
+    });
+  });
+
+  describe('releaseStaleJobs', () => {
+    it('requeues jobs whose worker stopped, failing those on their last attempt', async () => {
+      mockPrisma.job.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 2 });
+
+      await expect(JobQueue.releaseStaleJobs(now)).resolves.toBe(2);
+
+      const staleBefore = new Date(now.getTime() - 5 * 60 * 1000);
+      expect(mockPrisma.job.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { status: JobStatus.RUNNING, lockedAt: { lt: staleBefore }, attempts: { gte: 'jobs.maxAttempts' } },
+        data: expect.objectContaining({ status: JobStatus.FAILED }),
+      });
+      expect(mockPrisma.job.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { status: JobStatus.RUNNING, lockedAt: { lt: staleBefore } },
+        data: { status: JobStatus.PENDING, runAt: now, lockedAt: null, lockedBy: null },
+      });
+    });
+  });
+});
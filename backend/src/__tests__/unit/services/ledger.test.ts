@@ -0,0 +1,322 @@
+const mockPrisma = {
+  $transaction: jest.fn((queries: Promise<unknown>[]) => Promise.all(queries)),
+  ledgerAccount: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  ledgerPosting: {
+    groupBy: jest.fn(),
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+import { LedgerService } from '../../../services/ledger';
+import { LedgerAccountType, type Prisma } from '../../../generated/prisma';
+
+interface FakeLedgerAccount {
+  id: string;
+  code: string;
+  type: LedgerAccountType;
+  currency: string;
+  wiseAccountId: string | null;
+  balance: number;
+  reserved: number;
+}
+
+/**
+ * Just enough of a Prisma transaction client to run the ledger against memory
+ */
+function createLedgerClient() {
+  const accounts: FakeLedgerAccount[] = [];
+  const entries: Array<{ idempotencyKey: string; type: string; postings: Array<{ ledgerAccountId: string; amount: number }> }> = [];
+  const wiseAccounts = new Map<string, number>();
+  const holds: Array<{ ledgerAccountId: string; transferId: string; amount: number; status: string }> = [];
+
+  const addAccount = (data: Partial<FakeLedgerAccount> & { code: string; type: LedgerAccountType; currency: string }): FakeLedgerAccount => {
+    const account = { id: `la_${accounts.length + 1}`, wiseAccountId: null, balance: 0, reserved: 0, ...data };
+    accounts.push(account);
+    return account;
+  };
+  const find = (where: { id?: string; wiseAccountId?: string }): FakeLedgerAccount | null =>
+    accounts.find(account => (where.id ? account.id === where.id : account.wiseAccountId === where.wiseAccountId)) ?? null;
+
+  const client = {
+    ledgerAccount: {
+      upsert: jest.fn(async ({ where, create }) => ({ ...(accounts.find(account => account.code === where.code) ?? addAccount(create)) })),
+      findUnique: jest.fn(async ({ where }) => {
+        const account = find(where);
+        return account ? { ...account } : null;
+      }),
+      findUniqueOrThrow: jest.fn(async ({ where }) => ({ ...find(where) })),
+      createMany: jest.fn(async ({ data }) => {
+        const missing = data.filter((row: FakeLedgerAccount) => !accounts.some(account => account.code === row.code));
+        missing.forEach(addAccount);
+        return { count: missing.length };
+      }),
+      update: jest.fn(async ({ where, data }) => {
+        const account = find(where) as FakeLedgerAccount;
+        const change = (value: number, by: { increment?: number; decrement?: number } = {}): number =>
+          Math.round((value + (by.increment ?? 0) - Number(by.decrement ?? 0)) * 100) / 100;
+        account.balance = change(account.balance, data.balance);
+        account.reserved = change(account.reserved, data.reserved);
+        return { ...account };
+      }),
+    },
+    ledgerHold: {
+      create: jest.fn(async ({ data }) => {
+        holds.push({ ...data, status: 'ACTIVE' });
+      }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const matching = holds.filter(hold => hold.transferId === where.transferId && hold.status === where.status);
+        matching.forEach(hold => Object.assign(hold, { status: data.status }));
+        return { count: matching.length };
+      }),
+      findUniqueOrThrow: jest.fn(async ({ where }) => holds.find(hold => hold.transferId === where.transferId)),
+    },
+    journalEntry: {
+      findUnique: jest.fn(async ({ where }) => entries.find(entry => entry.idempotencyKey === where.idempotencyKey) ?? null),
+      create: jest.fn(async ({ data }) => {
+        entries.push({ idempotencyKey: data.idempotencyKey, type: data.type, postings: data.postings.create });
+      }),
+    },
+    wiseAccount: {
+      update: jest.fn(async ({ where, data }) => {
+        wiseAccounts.set(where.id, Number(data.lastBalance));
+      }),
+    },
+  };
+
+  return {
+    client: client as unknown as Prisma.TransactionClient,
+    accounts,
+    entries,
+    wiseAccounts,
+    holds,
+    balanceOf: (code: string): number | undefined => accounts.find(account => account.code === code)?.balance,
+  };
+}
+
+describe('LedgerService', () => {
+  const alice = { id: 'wa_alice', currency: 'EUR', lastBalance: 1000 } as never;
+  const bob = { id: 'wa_bob', currency: 'EUR', lastBalance: 0 } as never;
+  const bobUsd = { id: 'wa_bob_usd', currency: 'USD', lastBalance: 0 } as never;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('customerAccount', () => {
+    it('opens accounts that predate the ledger with their cached balance, booked against equity', async () => {
+      const ledger = createLedgerClient();
+
+      const account = await LedgerService.customerAccount(ledger.client, alice);
+
+      expect(account).toMatchObject({ code: 'customer:wa_alice', balance: 1000 });
+      expect(ledger.balanceOf('equity:EUR')).toBe(-1000);
+      expect(ledger.entries).toEqual([expect.objectContaining({ type: 'OPENING_BALANCE', idempotencyKey: 'opening:wa_alice' })]);
+    });
+
+    it('opens empty accounts without an entry', async () => {
+      const ledger = createLedgerClient();
+
+      await LedgerService.customerAccount(ledger.client, bob);
+
+      expect(ledger.entries).toEqual([]);
+    });
+
+    it('opens an account once when two requests find it missing at the same time', async () => {
+      const ledger = createLedgerClient();
+      await LedgerService.customerAccount(ledger.client, alice);
+      (ledger.client.ledgerAccount.findUnique as jest.Mock).mockResolvedValueOnce(null);
+
+      const account = await LedgerService.customerAccount(ledger.client, alice);
+
+      expect(account).toMatchObject({ code: 'customer:wa_alice', balance: 1000 });
+      expect(ledger.accounts).toHaveLength(2);
+      expect(ledger.entries).toHaveLength(1);
+    });
+  });
+
+  describe('post', () => {
+    it('refuses entries whose postings do not sum to zero per currency', async () => {
+      const ledger = createLedgerClient();
+      const account = await LedgerService.customerAccount(ledger.client, alice);
+      const fees = await LedgerService.systemAccount(ledger.client, LedgerAccountType.FEES, 'EUR');
+
+      await expect(LedgerService.post(ledger.client, {
+        type: 'ADJUSTMENT',
+        idempotencyKey: 'adjustment:1',
+        postings: [{ account, amount: -10 }, { account: fees, amount: 9.99 }],
+      })).rejects.toThrow('Unbalanced journal entry adjustment:1: off by -0.01 EUR');
+      expect(ledger.balanceOf('customer:wa_alice')).toBe(1000);
+    });
+
+    it('posts an entry only once per idempotency key', async () => {
+      const ledger = createLedgerClient();
+      const account = await LedgerService.customerAccount(ledger.client, alice);
+      const fees = await LedgerService.systemAccount(ledger.client, LedgerAccountType.FEES, 'EUR');
+      const entry = {
+        type: 'ADJUSTMENT' as const,
+        idempotencyKey: 'adjustment:1',
+        postings: [{ account, amount: -10 }, { account: fees, amount: 10 }],
+      };
+
+      await expect(LedgerService.post(ledger.client, entry)).resolves.toBe(true);
+      await expect(LedgerService.post(ledger.client, entry)).resolves.toBe(false);
+      expect(ledger.balanceOf('customer:wa_alice')).toBe(990);
+    });
+
+    it('does not let a customer spend more than their available balance', async () => {
+      const ledger = createLedgerClient();
+      const account = await LedgerService.customerAccount(ledger.client, alice);
+      ledger.accounts[0].reserved = 100;
+      const fees = await LedgerService.systemAccount(ledger.client, LedgerAccountType.FEES, 'EUR');
+
+      await expect(LedgerService.post(ledger.client, {
+        type: 'ADJUSTMENT',
+        idempotencyKey: 'adjustment:1',
+        postings: [{ account, amount: -950 }, { account: fees, amount: 950 }],
+      })).rejects.toMatchObject({
+        message: 'Insufficient funds',
+        statusCode: 422,
+        details: { account: 'customer:wa_alice', balance: 50, reserved: 100, currency: 'EUR' },
+      });
+    });
+
+    it('keeps the cached balance of customer accounts in step', async () => {
+      const ledger = createLedgerClient();
+
+      await LedgerService.adjustBalance(ledger.client, alice, 1250, 'Correction');
+
+      expect(ledger.wiseAccounts.get('wa_alice')).toBe(1250);
+      expect(ledger.balanceOf('equity:EUR')).toBe(-1250);
+    });
+  });
+
+  describe('holds', () => {
+    it('reserves the amount so it is no longer available', async () => {
+      const ledger = createLedgerClient();
+
+      await LedgerService.placeHold(ledger.client, alice, 'transfer_1', 600);
+
+      expect(ledger.accounts[0]).toMatchObject({ balance: 1000, reserved: 600 });
+      await expect(LedgerService.placeHold(ledger.client, alice, 'transfer_2', 400.01)).rejects.toMatchObject({
+        message: 'Insufficient funds',
+        statusCode: 422,
+        details: { available: 400, required: 400.01, currency: 'EUR' },
+      });
+    });
+
+    it('releases a hold once, giving the money back', async () => {
+      const ledger = createLedgerClient();
+      await LedgerService.placeHold(ledger.client, alice, 'transfer_1', 600);
+
+      await expect(LedgerService.releaseHold(ledger.client, 'transfer_1')).resolves.toBe(true);
+      await expect(LedgerService.releaseHold(ledger.client, 'transfer_1')).resolves.toBe(false);
+      expect(ledger.accounts[0]).toMatchObject({ balance: 1000, reserved: 0 });
+      expect(ledger.holds[0].status).toBe('RELEASED');
+    });
+
+    it('turns the hold into the debit when the transfer settles', async () => {
+      const ledger = createLedgerClient();
+      await LedgerService.placeHold(ledger.client, alice, 'transfer_1', 1000);
+
+      await LedgerService.settleTransfer(ledger.client, {
+        transferId: 'transfer_1',
+        sender: alice,
+        amount: 997.01,
+        fee: 2.99,
+        currency: 'EUR',
+        recipient: null,
+        targetAmount: 997.01,
+        targetCurrency: 'EUR',
+      });
+
+      expect(ledger.accounts[0]).toMatchObject({ balance: 0, reserved: 0 });
+      expect(ledger.holds[0].status).toBe('SETTLED');
+      await expect(LedgerService.releaseHold(ledger.client, 'transfer_1')).resolves.toBe(false);
+    });
+  });
+
+  describe('settleTransfer', () => {
+    it('moves money between customers and books the fee', async () => {
+      const ledger = createLedgerClient();
+
+      await LedgerService.settleTransfer(ledger.client, {
+        transferId: 'transfer_1',
+        sender: alice,
+        amount: 100,
+        fee: 2.99,
+        currency: 'EUR',
+        recipient: bob,
+        targetAmount: 100,
+        targetCurrency: 'EUR',
+      });
+
+      expect(ledger.balanceOf('customer:wa_alice')).toBe(897.01);
+      expect(ledger.balanceOf('customer:wa_bob')).toBe(100);
+      expect(ledger.balanceOf('fees:EUR')).toBe(2.99);
+    });
+
+    it('converts through the FX accounts and pays external recipients out of the app', async () => {
+      const ledger = createLedgerClient();
+
+      await LedgerService.settleTransfer(ledger.client, {
+        transferId: 'transfer_1',
+        sender: alice,
+        amount: 100,
+        fee: 0,
+        currency: 'EUR',
+        recipient: null,
+        targetAmount: 118,
+        targetCurrency: 'USD',
+      });
+
+      expect(ledger.balanceOf('customer:wa_alice')).toBe(900);
+      expect(ledger.balanceOf('fx:EUR')).toBe(100);
+      expect(ledger.balanceOf('fx:USD')).toBe(-118);
+      expect(ledger.balanceOf('external:USD')).toBe(118);
+    });
+
+    it('settles a transfer only once', async () => {
+      const ledger = createLedgerClient();
+      const settlement = {
+        transferId: 'transfer_1',
+        sender: alice,
+        amount: 100,
+        fee: 0,
+        currency: 'EUR',
+        recipient: bobUsd,
+        targetAmount: 118,
+        targetCurrency: 'USD',
+      };
+
+      await expect(LedgerService.settleTransfer(ledger.client, settlement)).resolves.toBe(true);
+      await expect(LedgerService.settleTransfer(ledger.client, settlement)).resolves.toBe(false);
+      expect(ledger.balanceOf('customer:wa_bob_usd')).toBe(118);
+    });
+  });
+
+  describe('reconcile', () => {
+    it('flags snapshots and cached balances that drifted from the postings', async () => {
+      mockPrisma.ledgerAccount.findMany.mockResolvedValue([
+        { id: 'la_1', code: 'customer:wa_alice', currency: 'EUR', balance: 900, wiseAccount: { lastBalance: 950 } },
+        { id: 'la_2', code: 'fees:EUR', currency: 'EUR', balance: 3, wiseAccount: null },
+        { id: 'la_3', code: 'customer:wa_bob', currency: 'EUR', balance: 100, wiseAccount: { lastBalance: 100 } },
+      ]);
+      mockPrisma.ledgerPosting.groupBy.mockResolvedValue([
+        { ledgerAccountId: 'la_1', _sum: { amount: 900 } },
+        { ledgerAccountId: 'la_2', _sum: { amount: 2.99 } },
+        { ledgerAccountId: 'la_3', _sum: { amount: 100 } },
+      ]);
+
+      await expect(LedgerService.reconcile()).resolves.toEqual([
+        { kind: 'cache_drift', ledgerAccountId: 'la_1', code: 'customer:wa_alice', currency: 'EUR', expected: 900, actual: 950 },
+        { kind: 'snapshot_drift', ledgerAccountId: 'la_2', code: 'fees:EUR', currency: 'EUR', expected: 2.99, actual: 3 },
+      ]);
+    });
+  });
+});
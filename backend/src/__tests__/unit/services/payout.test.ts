@@ -0,0 +1,204 @@
+const mockPrisma = {
+  $transaction: jest.fn(),
+  wiseTransaction: {
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  transferStatusChange: {
+    create: jest.fn(),
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+const mockLedgerService = {
+  releaseHold: jest.fn(),
+};
+
+jest.mock('../../../services/ledger', () => ({
+  LedgerService: mockLedgerService,
+}));
+
+import { PayoutService, MOBILE_WALLET_PROVIDERS } from '../../../services/payout';
+import { FieldEncryptionService } from '../../../services/encryption';
+import { PayoutMethod } from '../../../generated/prisma';
+
+describe('PayoutService', () => {
+  const cashPickup = {
+    type: 'cash_pickup' as const,
+    holderName: 'Maria Lopez',
+    currency: 'HNL',
+    country: 'HN',
+    pickupLocationId: 'HN-TGU-001',
+    recipientIdDocument: { type: 'national_id' as const, number: '0801-1990-12345' },
+  };
+  const mobileWallet = {
+    type: 'mobile_wallet' as const,
+    holderName: 'Maria Lopez',
+    currency: 'HNL',
+    country: 'HN',
+    walletProvider: 'TIGO_MONEY',
+    phoneNumber: '+504 9988-7766',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('canTransition', () => {
+    it('moves bank transfers forward through their lifecycle only', () => {
+      expect(PayoutService.canTransition(PayoutMethod.BANK_ACCOUNT, 'PENDING', 'PROCESSING')).toBe(true);
+      expect(PayoutService.canTransition(PayoutMethod.BANK_ACCOUNT, 'PROCESSING', 'COMPLETED')).toBe(true);
+      expect(PayoutService.canTransition(PayoutMethod.BANK_ACCOUNT, 'COMPLETED', 'PROCESSING')).toBe(false);
+      expect(PayoutService.canTransition(PayoutMethod.BANK_ACCOUNT, 'SENT', 'READY_FOR_PICKUP')).toBe(false);
+    });
+
+    it('only lets cash pickups expire while waiting at the agent', () => {
+      expect(PayoutService.canTransition(PayoutMethod.CASH_PICKUP, 'PROCESSING', 'READY_FOR_PICKUP')).toBe(true);
+      expect(PayoutService.canTransition(PayoutMethod.CASH_PICKUP, 'READY_FOR_PICKUP', 'COMPLETED')).toBe(true);
+      expect(PayoutService.canTransition(PayoutMethod.CASH_PICKUP, 'READY_FOR_PICKUP', 'EXPIRED')).toBe(true);
+      expect(PayoutService.canTransition(PayoutMethod.CASH_PICKUP, 'PROCESSING', 'EXPIRED')).toBe(false);
+      expect(PayoutService.canTransition(PayoutMethod.CASH_PICKUP, 'EXPIRED', 'COMPLETED')).toBe(false);
+      expect(PayoutService.canTransition(PayoutMethod.CASH_PICKUP, 'PROCESSING', 'SENT')).toBe(false);
+    });
+
+    it('does not let mobile wallet payouts be cancelled once processing', () => {
+      expect(PayoutService.canTransition(PayoutMethod.MOBILE_WALLET, 'PENDING', 'CANCELLED')).toBe(true);
+      expect(PayoutService.canTransition(PayoutMethod.MOBILE_WALLET, 'PROCESSING', 'CANCELLED')).toBe(false);
+      expect(PayoutService.canTransition(PayoutMethod.MOBILE_WALLET, 'PROCESSING', 'FAILED')).toBe(true);
+    });
+
+    it('treats repeating a status as a no-op', () => {
+      expect(PayoutService.canTransition(PayoutMethod.CASH_PICKUP, 'COMPLETED', 'COMPLETED')).toBe(true);
+    });
+  });
+
+  describe('calculateFees', () => {
+    it('charges cash pickups a fixed fee', () => {
+      expect(PayoutService.calculateFees(PayoutMethod.CASH_PICKUP, 200, 'USD')).toEqual([
+        { type: 'FIXED', amount: 2.99, currency: 'USD', description: 'Cash pickup fee' },
+      ]);
+    });
+
+    it('charges mobile wallet payouts a fixed fee plus a percentage', () => {
+      expect(PayoutService.calculateFees(PayoutMethod.MOBILE_WALLET, 200, 'USD')).toEqual([
+        { type: 'FIXED', amount: 0.99, currency: 'USD', description: 'Mobile wallet fee' },
+        { type: 'PERCENTAGE', amount: 1, currency: 'USD', description: 'Mobile wallet fee (0.5%)' },
+      ]);
+    });
+
+    it('keeps bank transfers free', () => {
+      expect(PayoutService.calculateFees(PayoutMethod.BANK_ACCOUNT, 200, 'USD')).toEqual([]);
+    });
+  });
+
+  describe('normalizeWalletPhoneNumber', () => {
+    const tigoHonduras = MOBILE_WALLET_PROVIDERS.HN.TIGO_MONEY;
+
+    it('accepts numbers with or without the dialling code', () => {
+      expect(PayoutService.normalizeWalletPhoneNumber(tigoHonduras, '+504 9988-7766')).toBe('+50499887766');
+      expect(PayoutService.normalizeWalletPhoneNumber(tigoHonduras, '0050499887766')).toBe('+50499887766');
+      expect(PayoutService.normalizeWalletPhoneNumber(tigoHonduras, '9988 7766')).toBe('+50499887766');
+    });
+
+    it('rejects numbers of the wrong length or from another country', () => {
+      expect(PayoutService.normalizeWalletPhoneNumber(tigoHonduras, '998877')).toBeNull();
+      expect(PayoutService.normalizeWalletPhoneNumber(tigoHonduras, '+502 5566 7788')).toBeNull();
+      expect(PayoutService.normalizeWalletPhoneNumber(tigoHonduras, '9988-77AB')).toBeNull();
+    });
+  });
+
+  describe('generatePickupCode', () => {
+    it('generates 10-digit codes', () => {
+      expect(PayoutService.generatePickupCode()).toMatch(/^[0-9]{10}$/);
+    });
+  });
+
+  describe('validateRecipient', () => {
+    it('accepts complete cash pickup and mobile wallet recipients', () => {
+      expect(PayoutService.validateRecipient(cashPickup)).toEqual([]);
+      expect(PayoutService.validateRecipient(mobileWallet)).toEqual([]);
+    });
+
+    it('requires a pickup location in the recipient\'s country and an ID document', () => {
+      const issues = PayoutService.validateRecipient({ ...cashPickup, pickupLocationId: 'GT-GUA-001', recipientIdDocument: undefined });
+
+      expect(issues.map(issue => issue.path)).toEqual(['pickupLocationId', 'recipientIdDocument.number']);
+    });
+
+    it('requires a phone number on the wallet provider\'s network', () => {
+      expect(PayoutService.validateRecipient({ ...mobileWallet, phoneNumber: '12345' })).toEqual([
+        { path: 'phoneNumber', message: 'Tigo Money numbers are 8 digits after +504' },
+      ]);
+      expect(PayoutService.validateRecipient({ ...mobileWallet, walletProvider: 'MPESA' })[0].path).toBe('walletProvider');
+    });
+
+    it('rejects countries and currencies without cash payouts', () => {
+      expect(PayoutService.validateRecipient({ ...cashPickup, country: 'DE' })[0].path).toBe('country');
+      expect(PayoutService.validateRecipient({ ...cashPickup, currency: 'USD' })).toEqual([
+        { path: 'currency', message: 'Payouts in HN are made in HNL' },
+      ]);
+    });
+
+    it('leaves bank accounts to the bank account checks', () => {
+      expect(PayoutService.validateRecipient({ ...cashPickup, type: 'iban' })).toEqual([]);
+    });
+  });
+
+  describe('recipientIndex', () => {
+    it('identifies IBAN recipients by their IBAN\'s blind index', () => {
+      expect(PayoutService.recipientIndex({ type: 'iban', iban: 'ES91 2100 0418 4502 0005 1332' }))
+        .toBe(FieldEncryptionService.blindIndex('iban', 'ES9121000418450200051332'));
+    });
+
+    it('identifies recipients without an IBAN however their details are formatted', () => {
+      const honduran = { type: 'honduras_local' as const, bankCode: 'BAC', accountNumber: '730123456' };
+
+      expect(PayoutService.recipientIndex({ ...honduran, accountNumber: '730-123-456' })).toBe(PayoutService.recipientIndex(honduran));
+      expect(PayoutService.recipientIndex({ ...cashPickup, recipientIdDocument: { type: 'national_id', number: '0801 1990 12345' } }))
+        .toBe(PayoutService.recipientIndex(cashPickup));
+      expect(PayoutService.recipientIndex({ ...mobileWallet, phoneNumber: '99887766' })).toBe(PayoutService.recipientIndex(mobileWallet));
+    });
+
+    it('tells different recipients apart', () => {
+      const indexes = new Set([
+        PayoutService.recipientIndex({ type: 'honduras_local', bankCode: 'BAC', accountNumber: '730123456' }),
+        PayoutService.recipientIndex({ type: 'honduras_local', bankCode: 'ATL', accountNumber: '730123456' }),
+        PayoutService.recipientIndex(cashPickup),
+        PayoutService.recipientIndex({ ...cashPickup, recipientIdDocument: { type: 'passport', number: 'X1234567' } }),
+        PayoutService.recipientIndex(mobileWallet),
+        PayoutService.recipientIndex({ ...mobileWallet, phoneNumber: '+504 9988-7767' }),
+      ]);
+
+      expect(indexes.size).toBe(6);
+    });
+  });
+
+  describe('expireUncollectedPickups', () => {
+    it('expires cash pickups still waiting at the agent and releases their holds', async () => {
+      const now = new Date('2025-08-15T09:00:00Z');
+      mockPrisma.wiseTransaction.findMany.mockResolvedValue([{ id: 'transfer_1' }, { id: 'transfer_2' }]);
+      mockPrisma.$transaction.mockImplementation(callback => callback(mockPrisma));
+      // transfer_2 was collected after it was listed
+      mockPrisma.wiseTransaction.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      await expect(PayoutService.expireUncollectedPickups(now)).resolves.toBe(1);
+      expect(mockPrisma.wiseTransaction.findMany).toHaveBeenCalledWith({
+        where: { payoutMethod: PayoutMethod.CASH_PICKUP, status: 'READY_FOR_PICKUP', pickupExpiresAt: { lt: now } },
+        select: { id: true },
+      });
+      expect(mockPrisma.wiseTransaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'transfer_1', status: 'READY_FOR_PICKUP' },
+        data: { status: 'EXPIRED' },
+      });
+      expect(mockPrisma.transferStatusChange.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.transferStatusChange.create).toHaveBeenCalledWith({
+        data: { transferId: 'transfer_1', fromStatus: 'READY_FOR_PICKUP', toStatus: 'EXPIRED', source: 'pickup_expiry' },
+      });
+      expect(mockLedgerService.releaseHold).toHaveBeenCalledTimes(1);
+      expect(mockLedgerService.releaseHold).toHaveBeenCalledWith(mockPrisma, 'transfer_1');
+    });
+  });
+});
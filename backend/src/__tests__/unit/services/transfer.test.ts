@@ -0,0 +1,415 @@
+const mockPrisma = {
+  $transaction: jest.fn(),
+  wiseAccount: {
+    findFirst: jest.fn(),
+  },
+  wiseTransaction: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  transferQuote: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  transferStatusChange: {
+    create: jest.fn(),
+  },
+  job: {
+    create: jest.fn(),
+  },
+  idempotencyKey: {
+    updateMany: jest.fn(),
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../../../services/ledger', () => ({
+  LedgerService: {
+    placeHold: jest.fn(),
+    releaseHold: jest.fn(),
+    settleTransfer: jest.fn(),
+  },
+}));
+
+jest.mock('../../../services/wise', () => ({
+  wiseService: {
+    createQuote: jest.fn(),
+    createRecipient: jest.fn(),
+    createTransfer: jest.fn(),
+    simulateTransferStatus: jest.fn(),
+  },
+}));
+
+import { transferService } from '../../../services/transfer';
+import { LedgerService } from '../../../services/ledger';
+import { wiseService } from '../../../services/wise';
+import { PayoutService } from '../../../services/payout';
+import { FieldEncryptionService } from '../../../services/encryption';
+import { CustomError } from '../../../middleware/errorHandler';
+import { PayoutMethod, Prisma } from '../../../generated/prisma';
+import type { CreateTransferRequest } from '../../../types/transfer';
+
+describe('TransferService', () => {
+  const sourceAccount = { id: 'account-eur', userId: 'user-123', currency: 'EUR', status: 'ACTIVE', lastBalance: 1000 };
+
+  const storedQuote = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+    id: 'quote-1',
+    userId: 'user-123',
+    sourceAccountId: 'account-eur',
+    sourceAmount: new Prisma.Decimal(120),
+    sourceCurrency: 'EUR',
+    targetAmount: new Prisma.Decimal(3498),
+    targetCurrency: 'HNL',
+    targetCountry: 'HN',
+    exchangeRate: new Prisma.Decimal(29.15),
+    fee: new Prisma.Decimal(0),
+    type: 'BANK_TRANSFER',
+    payoutMethod: PayoutMethod.BANK_ACCOUNT,
+    expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+    usedAt: null,
+    transferId: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const honduranRecipient: CreateTransferRequest['recipientAccount'] = {
+    type: 'honduras_local',
+    bankCode: 'BAC',
+    accountNumber: '730123456',
+    currency: 'HNL',
+    country: 'HN',
+    holderName: 'María López',
+  };
+
+  const expectRejection = async (promise: Promise<unknown>, message: string, statusCode: number): Promise<void> => {
+    const error = await promise.catch((rejection: unknown) => rejection);
+    expect(error).toBeInstanceOf(CustomError);
+    expect(error).toMatchObject({ message, statusCode });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.transferQuote.create.mockImplementation(async ({ data }) => storedQuote({ ...data, id: 'quote-2' }));
+  });
+
+  describe('createQuote', () => {
+    const request = {
+      sourceAccountId: 'account-eur',
+      sourceCurrency: 'EUR',
+      targetCurrency: 'HNL',
+      targetCountry: 'hn',
+      amount: 120,
+      type: 'BANK_TRANSFER' as const,
+    };
+
+    it('stores the quote with its owner, rate, fees and expiry', async () => {
+      mockPrisma.wiseAccount.findFirst.mockResolvedValue(sourceAccount);
+
+      const quote = await transferService.createQuote(request, 'user-123');
+
+      const { data } = mockPrisma.transferQuote.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        userId: 'user-123',
+        sourceAccountId: 'account-eur',
+        sourceAmount: 120,
+        targetCountry: 'HN',
+        fee: 0,
+        payoutMethod: PayoutMethod.BANK_ACCOUNT,
+      });
+      expect(data.targetAmount).toBeCloseTo(120 * data.exchangeRate, 1);
+      expect(data.expiresAt.getTime() - Date.now()).toBeGreaterThan(14 * 60 * 1000);
+      expect(quote).toMatchObject({ id: 'quote-2', sourceAmount: 120, totalCost: 120, rateType: 'FIXED' });
+    });
+
+    it('refuses currency pairs without a rate', async () => {
+      mockPrisma.wiseAccount.findFirst.mockResolvedValue(sourceAccount);
+
+      await expectRejection(transferService.createQuote({ ...request, targetCurrency: 'XYZ' }, 'user-123'), 'Currency pair not supported', 400);
+      expect(mockPrisma.transferQuote.create).not.toHaveBeenCalled();
+    });
+
+    it('only prices from the user\'s own active accounts', async () => {
+      mockPrisma.wiseAccount.findFirst.mockResolvedValue(null);
+
+      await expectRejection(transferService.createQuote(request, 'user-456'), 'Source account not found', 404);
+      expect(mockPrisma.wiseAccount.findFirst).toHaveBeenCalledWith({
+        where: { id: 'account-eur', userId: 'user-456', status: 'ACTIVE' },
+      });
+      expect(mockPrisma.transferQuote.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshQuote', () => {
+    it('returns a quote that is still valid unchanged', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(storedQuote());
+
+      const quote = await transferService.refreshQuote('quote-1', 'user-123');
+
+      expect(quote).toMatchObject({ id: 'quote-1', sourceAmount: 120, targetAmount: 3498 });
+      expect(mockPrisma.transferQuote.create).not.toHaveBeenCalled();
+    });
+
+    it('re-prices an expired quote as a new quote with the same terms', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(storedQuote({ expiresAt: new Date(Date.now() - 1000) }));
+      mockPrisma.wiseAccount.findFirst.mockResolvedValue(sourceAccount);
+
+      const quote = await transferService.refreshQuote('quote-1', 'user-123');
+
+      expect(quote.id).toBe('quote-2');
+      expect(mockPrisma.transferQuote.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sourceAmount: 120, targetCurrency: 'HNL', targetCountry: 'HN' }),
+      });
+    });
+
+    it('refuses quotes that were already used', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(storedQuote({ usedAt: new Date(), transferId: 'transfer_1' }));
+
+      await expectRejection(transferService.refreshQuote('quote-1', 'user-123'), 'Quote already used', 409);
+    });
+  });
+
+  describe('executeTransfer', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (callback) => callback(mockPrisma));
+      mockPrisma.transferQuote.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.wiseAccount.findFirst.mockResolvedValueOnce({ ...sourceAccount, user: { firstName: 'Ana', lastName: 'Ruiz', email: 'ana@example.com' } });
+      mockPrisma.wiseAccount.findFirst.mockResolvedValue(null);
+    });
+
+    it('executes exactly the stored quote and uses it up', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(storedQuote());
+
+      const transfer = await transferService.executeTransfer({ quoteId: 'quote-1', recipientAccount: honduranRecipient }, 'user-123');
+
+      expect(transfer).toMatchObject({ quoteId: 'quote-1', sourceAmount: 120, targetAmount: 3498, exchangeRate: 29.15, fee: 0 });
+      expect(mockPrisma.transferQuote.updateMany).toHaveBeenCalledWith({
+        where: { id: 'quote-1', userId: 'user-123', usedAt: null, expiresAt: { gt: expect.any(Date) } },
+        data: { usedAt: expect.any(Date), transferId: transfer.id },
+      });
+      expect(mockPrisma.wiseTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ id: transfer.id, recipientIndex: PayoutService.recipientIndex(honduranRecipient) }),
+      });
+      expect(LedgerService.placeHold).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({ id: 'account-eur' }), transfer.id, 120);
+      expect(mockPrisma.transferStatusChange.create).toHaveBeenCalledWith({
+        data: { transferId: transfer.id, toStatus: 'PENDING', source: 'created' },
+      });
+      expect(mockPrisma.job.create.mock.calls.map(([{ data }]) => data.payload)).toEqual([
+        { transferId: transfer.id, status: 'PROCESSING' },
+        { transferId: transfer.id, status: 'SENT' },
+        { transferId: transfer.id, status: 'COMPLETED' },
+      ]);
+    });
+
+    it('looks up an internal recipient only by its account number index', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(storedQuote());
+
+      await transferService.executeTransfer({ quoteId: 'quote-1', recipientAccount: honduranRecipient }, 'user-123');
+
+      expect(mockPrisma.wiseAccount.findFirst).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.wiseAccount.findFirst).toHaveBeenLastCalledWith({
+        where: {
+          accountNumberIndex: FieldEncryptionService.blindIndex('account_number', honduranRecipient.accountNumber),
+          currency: 'HNL',
+          status: 'ACTIVE',
+        },
+      });
+    });
+
+    it('records the transfer on the idempotency key of the request in the same transaction', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(storedQuote());
+
+      const transfer = await transferService.executeTransfer(
+        { quoteId: 'quote-1', recipientAccount: honduranRecipient },
+        'user-123',
+        '6f1c2a9e-4b7d-4f3a-9c1e-2d8b5a7f0e13'
+      );
+
+      expect(mockPrisma.idempotencyKey.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', key: '6f1c2a9e-4b7d-4f3a-9c1e-2d8b5a7f0e13' },
+        data: { transferId: transfer.id },
+      });
+    });
+
+    it('reports other users\' quotes as not found', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(null);
+
+      await expectRejection(
+        transferService.executeTransfer({ quoteId: 'quote-1', recipientAccount: honduranRecipient }, 'user-456'),
+        'Quote not found',
+        404
+      );
+      expect(mockPrisma.transferQuote.findFirst).toHaveBeenCalledWith({ where: { id: 'quote-1', userId: 'user-456' } });
+    });
+
+    it('rejects expired quotes', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(storedQuote({ expiresAt: new Date(Date.now() - 1000) }));
+
+      await expectRejection(
+        transferService.executeTransfer({ quoteId: 'quote-1', recipientAccount: honduranRecipient }, 'user-123'),
+        'Quote expired',
+        410
+      );
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects recipients the quote was not priced for', async () => {
+      mockPrisma.transferQuote.findFirst.mockResolvedValue(storedQuote());
+
+      await expectRejection(
+        transferService.executeTransfer({
+          quoteId: 'quote-1',
+          recipientAccount: { ...honduranRecipient, type: 'cash_pickup', pickupLocationId: 'HN-TGU-001' },
+        }, 'user-123'),
+        'Quote mismatch',
+        400
+      );
+    });
+
+    it('lets only one of two racing requests use a quote', async () => {
+      mockPrisma.transferQuote.findFirst
+        .mockResolvedValueOnce(storedQuote())
+        .mockResolvedValueOnce(storedQuote({ usedAt: new Date(), transferId: 'transfer_other' }));
+      mockPrisma.transferQuote.updateMany.mockResolvedValue({ count: 0 });
+
+      await expectRejection(
+        transferService.executeTransfer({ quoteId: 'quote-1', recipientAccount: honduranRecipient }, 'user-123'),
+        'Quote already used',
+        409
+      );
+      expect(mockPrisma.wiseTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('executeTransferWithAmount', () => {
+    const spanishRecipient: CreateTransferRequest['recipientAccount'] = {
+      type: 'iban',
+      iban: 'ES9121000418450200051332',
+      currency: 'EUR',
+      country: 'ES',
+      holderName: 'Ana Ruiz',
+    };
+
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (callback) => callback(mockPrisma));
+      mockPrisma.wiseAccount.findFirst.mockReset()
+        .mockResolvedValueOnce({ ...sourceAccount, wiseProfileId: 42 })
+        .mockResolvedValueOnce({ ...sourceAccount, user: { firstName: 'Ana', lastName: 'Ruiz', email: 'ana@example.com' } })
+        .mockResolvedValue(null);
+      (wiseService.createQuote as jest.Mock).mockResolvedValue({ success: false, statusCode: 500 });
+      (wiseService.createRecipient as jest.Mock).mockResolvedValue({ success: false, statusCode: 500 });
+      (wiseService.createTransfer as jest.Mock).mockResolvedValue({ success: true, data: {}, statusCode: 200 });
+      (wiseService.simulateTransferStatus as jest.Mock).mockResolvedValue({ success: true, data: {}, statusCode: 200 });
+    });
+
+    it('completes a transfer mirrored in the Wise sandbox and settles its hold', async () => {
+      const transfer = await transferService.executeTransferWithAmount({ quoteId: 'quote-1', recipientAccount: spanishRecipient }, 'user-123', 100);
+
+      const jobs = mockPrisma.job.create.mock.calls.map(([{ data }]) => data);
+      expect(jobs.filter(job => job.type === 'wise.simulate_status')).toHaveLength(2);
+      const steps = jobs.filter(job => job.type === 'transfer.advance');
+      expect(steps.map(job => job.payload.status)).toEqual(['PROCESSING', 'SENT', 'COMPLETED']);
+
+      // Run the queued steps against the stored transfer
+      let status = 'PENDING';
+      mockPrisma.wiseTransaction.findUnique.mockImplementation(async () => ({ status, payoutMethod: PayoutMethod.BANK_ACCOUNT }));
+      mockPrisma.wiseTransaction.update.mockImplementation(async ({ data }) => {
+        status = data.status;
+      });
+      mockPrisma.wiseTransaction.findFirst
+        .mockResolvedValueOnce({ id: transfer.id, amount: -100, fee: 0, currency: 'EUR', targetAmount: 100, targetCurrency: 'EUR', wiseAccount: sourceAccount })
+        .mockResolvedValueOnce(null);
+
+      for (const step of steps) {
+        await transferService.updateTransferStatus(step.payload.transferId, step.payload.status, 'simulation');
+      }
+
+      expect(status).toBe('COMPLETED');
+      expect(LedgerService.settleTransfer).toHaveBeenCalledWith(mockPrisma, expect.objectContaining({
+        transferId: transfer.id,
+        sender: sourceAccount,
+        amount: 100,
+        recipient: null,
+      }));
+    });
+  });
+
+  describe('getTransfer', () => {
+    const storedTransfer = {
+      id: 'transfer_1',
+      wiseAccountId: 'account-eur',
+      status: 'PENDING',
+      amount: new Prisma.Decimal(-120),
+      currency: 'EUR',
+      targetAmount: new Prisma.Decimal(3498),
+      targetCurrency: 'HNL',
+      exchangeRate: new Prisma.Decimal(29.15),
+      fee: new Prisma.Decimal(0),
+      payoutMethod: PayoutMethod.BANK_ACCOUNT,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      completedAt: null,
+    };
+
+    it('reports the stored quote the transfer executed', async () => {
+      mockPrisma.wiseTransaction.findFirst.mockResolvedValue(storedTransfer);
+      mockPrisma.transferQuote.findUnique.mockResolvedValue({ id: 'quote-1' });
+
+      const transfer = await transferService.getTransfer('transfer_1', 'user-123');
+
+      expect(transfer?.quoteId).toBe('quote-1');
+      expect(mockPrisma.transferQuote.findUnique).toHaveBeenCalledWith({ where: { transferId: 'transfer_1' }, select: { id: true } });
+    });
+
+    it('lists transfers with their stored quotes', async () => {
+      mockPrisma.wiseTransaction.findMany.mockResolvedValue([storedTransfer, { ...storedTransfer, id: 'transfer_2' }]);
+      mockPrisma.transferQuote.findMany.mockResolvedValue([{ id: 'quote-1', transferId: 'transfer_1' }]);
+
+      const transfers = await transferService.getUserTransfers('user-123');
+
+      expect(transfers.map(transfer => transfer.quoteId)).toEqual(['quote-1', undefined]);
+    });
+  });
+
+  describe('scheduleTransferProgress', () => {
+    it('queues only the steps a transfer has not reached, in order, counted from its creation', async () => {
+      const createdAt = new Date(Date.now() - 60 * 60 * 1000);
+
+      const scheduled = await transferService.scheduleTransferProgress(
+        'transfer_1',
+        false,
+        PayoutMethod.BANK_ACCOUNT,
+        { status: 'PROCESSING', createdAt }
+      );
+
+      expect(scheduled).toBe(2);
+      const jobs = mockPrisma.job.create.mock.calls.map(([{ data }]) => data);
+      expect(jobs.map(job => job.payload.status)).toEqual(['SENT', 'COMPLETED']);
+      expect(jobs.every(job => job.type === 'transfer.advance' && job.transferId === 'transfer_1')).toBe(true);
+      // Both overdue, so due now, SENT first
+      expect(jobs[0].runAt.getTime()).toBeLessThan(jobs[1].runAt.getTime());
+      expect(jobs[1].runAt.getTime() - Date.now()).toBeLessThan(1000);
+    });
+
+    it('leaves cash pickups waiting at the agent to their recipient', async () => {
+      const scheduled = await transferService.scheduleTransferProgress(
+        'transfer_1',
+        false,
+        PayoutMethod.CASH_PICKUP,
+        { status: 'READY_FOR_PICKUP', createdAt: new Date() }
+      );
+
+      expect(scheduled).toBe(0);
+      expect(mockPrisma.job.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,221 @@
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+  },
+  biometricDevice: {
+    count: jest.fn(),
+  },
+  wiseTransaction: {
+    count: jest.fn(),
+  },
+  transferAuthorization: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+import { TransferAuthorizationService } from '../../../services/transferAuthorization';
+import { env } from '../../../config/environment';
+import { hashToken } from '../../../utils/tokens';
+import { FieldEncryptionService } from '../../../services/encryption';
+import { PayoutService } from '../../../services/payout';
+
+describe('TransferAuthorizationService', () => {
+  const binding = { amount: 120, currency: 'EUR', recipient: { type: 'iban' as const, iban: 'ES91 2100 0418 4502 0005 1332' } };
+  const recipientIndex = FieldEncryptionService.blindIndex('iban', 'ES9121000418450200051332');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue({ mfaEnabled: false });
+    mockPrisma.biometricDevice.count.mockResolvedValue(0);
+  });
+
+  describe('getRequirement', () => {
+    it('requires step-up above the threshold even for known recipients', async () => {
+      mockPrisma.wiseTransaction.count.mockResolvedValue(3);
+
+      const requirement = await TransferAuthorizationService.getRequirement('user-123', {
+        ...binding,
+        amount: env.SCA_TRANSFER_THRESHOLD + 1,
+      });
+
+      expect(requirement).toMatchObject({ required: true, reason: 'amount', methods: ['password'] });
+    });
+
+    it('compares the amount in its own currency against the threshold', async () => {
+      mockPrisma.wiseTransaction.count.mockResolvedValue(1);
+
+      // 250 EUR is about 7,287 HNL
+      const below = await TransferAuthorizationService.getRequirement('user-123', { ...binding, amount: 7000, currency: 'HNL' });
+      const above = await TransferAuthorizationService.getRequirement('user-123', { ...binding, amount: 7500, currency: 'HNL' });
+
+      expect(below).toMatchObject({ required: false, threshold: 7287.5, currency: 'HNL' });
+      expect(above).toMatchObject({ required: true, reason: 'amount', threshold: 7287.5 });
+    });
+
+    it('requires step-up for any amount in a currency without a reference rate', async () => {
+      mockPrisma.wiseTransaction.count.mockResolvedValue(1);
+
+      const requirement = await TransferAuthorizationService.getRequirement('user-123', { ...binding, amount: 1, currency: 'XYZ' });
+
+      expect(requirement).toMatchObject({ required: true, reason: 'amount' });
+    });
+
+    it('requires step-up for a recipient the user has not paid before', async () => {
+      mockPrisma.wiseTransaction.count.mockResolvedValue(0);
+
+      const requirement = await TransferAuthorizationService.getRequirement('user-123', binding);
+
+      expect(requirement).toMatchObject({ required: true, reason: 'new_recipient' });
+      expect(mockPrisma.wiseTransaction.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          wiseAccount: { userId: 'user-123' },
+          recipientIndex,
+        }),
+      });
+    });
+
+    it('recognises recipients without an IBAN by their payout details', async () => {
+      mockPrisma.wiseTransaction.count.mockResolvedValue(0);
+      const honduran = { type: 'honduras_local' as const, bankCode: 'BAC', accountNumber: '730123456', country: 'HN' };
+
+      const requirement = await TransferAuthorizationService.getRequirement('user-123', { ...binding, recipient: honduran });
+
+      expect(requirement).toMatchObject({ required: true, reason: 'new_recipient' });
+      expect(mockPrisma.wiseTransaction.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ recipientIndex: PayoutService.recipientIndex(honduran) }),
+      });
+    });
+
+    it('does not require step-up for small transfers to known recipients', async () => {
+      mockPrisma.wiseTransaction.count.mockResolvedValue(1);
+
+      const requirement = await TransferAuthorizationService.getRequirement('user-123', binding);
+
+      expect(requirement).toMatchObject({ required: false, reason: null, methods: [] });
+    });
+
+    it('offers every factor the user has set up', async () => {
+      mockPrisma.wiseTransaction.count.mockResolvedValue(0);
+      mockPrisma.user.findUnique.mockResolvedValue({ mfaEnabled: true });
+      mockPrisma.biometricDevice.count.mockResolvedValue(1);
+
+      const requirement = await TransferAuthorizationService.getRequirement('user-123', binding);
+
+      expect(requirement.methods).toEqual(['totp', 'biometric', 'password']);
+    });
+  });
+
+  describe('issue', () => {
+    it('stores only a hash of the token, bound to the recipient\'s blind index', async () => {
+      mockPrisma.transferAuthorization.create.mockResolvedValue({});
+
+      const { token } = await TransferAuthorizationService.issue('user-123', binding, 'password');
+
+      expect(mockPrisma.transferAuthorization.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-123',
+          tokenHash: hashToken(token),
+          method: 'PASSWORD',
+          amount: 120,
+          currency: 'EUR',
+          recipientIndex,
+        }),
+      });
+    });
+  });
+
+  describe('consume', () => {
+    const record = {
+      id: 'auth-1',
+      userId: 'user-123',
+      amount: '120.00',
+      currency: 'EUR',
+      recipientIndex,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      usedAt: null,
+    };
+
+    it('accepts a token for exactly the authorized transfer and marks it used', async () => {
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValue(record);
+      mockPrisma.transferAuthorization.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await TransferAuthorizationService.consume('user-123', 'token', binding);
+
+      expect(result).toBe(true);
+      expect(mockPrisma.transferAuthorization.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: hashToken('token') } })
+      );
+      expect(mockPrisma.transferAuthorization.updateMany).toHaveBeenCalledWith({
+        where: { id: 'auth-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects a token issued for a different amount', async () => {
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValue(record);
+
+      const result = await TransferAuthorizationService.consume('user-123', 'token', { ...binding, amount: 1200 });
+
+      expect(result).toBe(false);
+      expect(mockPrisma.transferAuthorization.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token issued for the same amount in another currency', async () => {
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValue(record);
+
+      const result = await TransferAuthorizationService.consume('user-123', 'token', { ...binding, currency: 'GBP' });
+
+      expect(result).toBe(false);
+    });
+
+    it('rejects a token issued for a different recipient', async () => {
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValue(record);
+
+      const result = await TransferAuthorizationService.consume('user-123', 'token', {
+        ...binding,
+        recipient: { type: 'iban', iban: 'DE89370400440532013000' },
+      });
+
+      expect(result).toBe(false);
+    });
+
+    it('rejects tokens of other users, expired tokens and used tokens', async () => {
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValueOnce({ ...record, userId: 'user-456' });
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValueOnce({ ...record, expiresAt: new Date(Date.now() - 1000) });
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValueOnce({ ...record, usedAt: new Date() });
+
+      expect(await TransferAuthorizationService.consume('user-123', 'token', binding)).toBe(false);
+      expect(await TransferAuthorizationService.consume('user-123', 'token', binding)).toBe(false);
+      expect(await TransferAuthorizationService.consume('user-123', 'token', binding)).toBe(false);
+      expect(mockPrisma.transferAuthorization.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token consumed concurrently by another transfer', async () => {
+      mockPrisma.transferAuthorization.findUnique.mockResolvedValue(record);
+      mockPrisma.transferAuthorization.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await TransferAuthorizationService.consume('user-123', 'token', binding);
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('release', () => {
+    it('makes the user\'s consumed token usable again', async () => {
+      mockPrisma.transferAuthorization.updateMany.mockResolvedValue({ count: 1 });
+
+      await TransferAuthorizationService.release('user-123', 'token');
+
+      expect(mockPrisma.transferAuthorization.updateMany).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken('token'), userId: 'user-123', usedAt: { not: null } },
+        data: { usedAt: null },
+      });
+    });
+  });
+});
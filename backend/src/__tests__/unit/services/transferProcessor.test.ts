@@ -0,0 +1,69 @@
+const mockPrisma = {
+  wiseTransaction: {
+    findMany: jest.fn(),
+  },
+};
+
+jest.mock('../../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../../../services/jobQueue', () => ({
+  JobQueue: {
+    releaseStaleJobs: jest.fn(),
+  },
+}));
+
+jest.mock('../../../services/transfer', () => ({
+  transferService: {
+    scheduleTransferProgress: jest.fn(),
+    updateTransferStatus: jest.fn(),
+  },
+}));
+
+import { TransferProcessor, TRANSFER_JOB_HANDLERS } from '../../../services/transferProcessor';
+import { JobQueue } from '../../../services/jobQueue';
+import { transferService } from '../../../services/transfer';
+import { JobStatus, PayoutMethod } from '../../../generated/prisma';
+
+describe('TransferProcessor', () => {
+  const now = new Date('2025-08-20T09:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (JobQueue.releaseStaleJobs as jest.Mock).mockResolvedValue(1);
+  });
+
+  describe('recover', () => {
+    it('reschedules in-flight transfers with no status step left to run', async () => {
+      const external = { id: 'transfer_1', status: 'PROCESSING', payoutMethod: PayoutMethod.MOBILE_WALLET, createdAt: now };
+      const internal = { id: 'transfer_2', status: 'PENDING', payoutMethod: PayoutMethod.BANK_ACCOUNT, createdAt: now };
+      mockPrisma.wiseTransaction.findMany
+        .mockResolvedValueOnce([external, internal])
+        .mockResolvedValueOnce([{ id: 'transfer_2_incoming' }]);
+      (transferService.scheduleTransferProgress as jest.Mock).mockResolvedValue(1);
+
+      await expect(TransferProcessor.recover(now)).resolves.toEqual({ releasedJobs: 1, rescheduledTransfers: 2 });
+
+      expect(JobQueue.releaseStaleJobs).toHaveBeenCalledWith(now);
+      expect(mockPrisma.wiseTransaction.findMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          type: 'TRANSFER',
+          status: { in: ['PENDING', 'PROCESSING', 'SENT'] },
+          jobs: { none: { type: 'transfer.advance', status: { in: [JobStatus.PENDING, JobStatus.RUNNING] } } },
+        },
+        select: { id: true, status: true, payoutMethod: true, createdAt: true },
+      });
+      expect(transferService.scheduleTransferProgress).toHaveBeenCalledWith('transfer_1', false, PayoutMethod.MOBILE_WALLET, external);
+      expect(transferService.scheduleTransferProgress).toHaveBeenCalledWith('transfer_2', true, PayoutMethod.BANK_ACCOUNT, internal);
+    });
+  });
+
+  describe('transfer.advance', () => {
+    it('moves the transfer through the state machine', async () => {
+      await TRANSFER_JOB_HANDLERS['transfer.advance']({ transferId: 'transfer_1', status: 'COMPLETED' });
+
+      expect(transferService.updateTransferStatus).toHaveBeenCalledWith('transfer_1', 'COMPLETED', 'simulation');
+    });
+  });
+});
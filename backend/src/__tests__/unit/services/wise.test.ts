@@ -0,0 +1,83 @@
+import { WiseService } from '../../../services/wise';
+import { BankDirectoryService } from '../../../services/bankDirectory';
+import { IBAN_STRUCTURES, validateIban } from '../../../utils/iban';
+import { Prisma } from '../../../generated/prisma';
+
+describe('WiseService', () => {
+  const wiseService = new WiseService();
+  const accountRequest = { userId: 'user-123', currency: 'EUR', country: 'ES', type: 'CHECKING' as const, name: 'Main account' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('createAccount', () => {
+    it('generates a valid IBAN in the requested country for every supported country', async () => {
+      for (const country of Object.keys(IBAN_STRUCTURES)) {
+        const result = await wiseService.createAccount({ ...accountRequest, country });
+
+        expect(validateIban(result.data?.iban ?? '')).toMatchObject({ valid: true, countryCode: country });
+      }
+    });
+
+    it('issues German accounts with German IBANs at a known bank', async () => {
+      const result = await wiseService.createAccount({ ...accountRequest, country: 'DE' });
+      const iban = validateIban(result.data?.iban ?? '');
+
+      expect(iban).toMatchObject({ valid: true, countryCode: 'DE' });
+      if (iban.valid) {
+        expect(BankDirectoryService.findBank('DE', iban.bankCode)).not.toBeNull();
+      }
+    });
+
+    it('issues no IBAN in countries outside the IBAN system', async () => {
+      const result = await wiseService.createAccount({ ...accountRequest, currency: 'USD', country: 'US' });
+
+      expect(result.data?.iban).toBeUndefined();
+    });
+  });
+
+  describe('createAccountWithUniqueIban', () => {
+    const ibanCollision = (): Prisma.PrismaClientKnownRequestError =>
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+        meta: { target: ['ibanIndex'] },
+      });
+
+    it('creates the account again with a fresh IBAN when the IBAN is already taken', async () => {
+      const save = jest.fn()
+        .mockRejectedValueOnce(ibanCollision())
+        .mockRejectedValueOnce(ibanCollision())
+        .mockImplementation(async (account) => account.iban);
+
+      const result = await wiseService.createAccountWithUniqueIban(accountRequest, save);
+
+      expect(save).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ success: true, statusCode: 201 });
+      expect(result.data).toBe(save.mock.calls[2][0].iban);
+      expect(validateIban(result.data ?? '')).toMatchObject({ valid: true, countryCode: 'ES' });
+    });
+
+    it('gives up when every attempt collides', async () => {
+      const save = jest.fn().mockRejectedValue(ibanCollision());
+
+      await expect(wiseService.createAccountWithUniqueIban(accountRequest, save)).rejects.toThrow(/Could not generate a unique ES IBAN/);
+      expect(save).toHaveBeenCalledTimes(5);
+    });
+
+    it('does not retry other errors', async () => {
+      const error = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+        meta: { target: ['wiseAccountId'] },
+      });
+      const save = jest.fn().mockRejectedValue(error);
+
+      await expect(wiseService.createAccountWithUniqueIban(accountRequest, save)).rejects.toBe(error);
+      expect(save).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -60,9 +60,11 @@ jest.mock('../../middleware/auth', () => ({
       lastName: 'User',
       isActive: true,
       emailVerified: true,
+      role: 'USER',
     };
     next();
   }),
+  authorize: jest.requireActual('../../middleware/auth').authorize,
 }));
 
 // Now import the routers
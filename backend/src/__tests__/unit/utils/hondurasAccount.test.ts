@@ -0,0 +1,54 @@
+import {
+  HONDURAN_BANKS,
+  isHonduranCorridorSource,
+  normalizeHonduranAccountNumber,
+  validateHonduranAccount,
+} from '../../../utils/hondurasAccount';
+
+describe('Honduran Account Utilities', () => {
+  describe('validateHonduranAccount', () => {
+    it('should accept account numbers of each bank\'s lengths', () => {
+      for (const [bankCode, bank] of Object.entries(HONDURAN_BANKS)) {
+        for (const length of bank.accountNumberLengths) {
+          expect(validateHonduranAccount(bankCode, '1'.repeat(length))).toMatchObject({ valid: true, bankCode, bankName: bank.name });
+        }
+      }
+    });
+
+    it('should normalize the bank code and account number', () => {
+      expect(validateHonduranAccount(' ficohsa ', '2001-2345-6789')).toEqual({
+        valid: true,
+        bankCode: 'FICOHSA',
+        bankName: 'Banco Ficohsa',
+        accountNumber: '200123456789',
+      });
+    });
+
+    it('should reject unknown banks', () => {
+      expect(validateHonduranAccount('BANCO_X', '200123456789')).toMatchObject({ valid: false, error: 'unknown_bank' });
+    });
+
+    it('should reject letters and wrong lengths', () => {
+      expect(validateHonduranAccount('ATLANTIDA', '20012345678A')).toMatchObject({ valid: false, error: 'invalid_characters' });
+      expect(validateHonduranAccount('BAC', '200123456789')).toMatchObject({
+        valid: false,
+        error: 'invalid_length',
+        message: 'BAC Credomatic Honduras account numbers are 9 digits long',
+      });
+    });
+  });
+
+  describe('isHonduranCorridorSource', () => {
+    it('should fund HNL payouts from EUR and USD only', () => {
+      expect(isHonduranCorridorSource('EUR')).toBe(true);
+      expect(isHonduranCorridorSource('usd')).toBe(true);
+      expect(isHonduranCorridorSource('GBP')).toBe(false);
+    });
+  });
+
+  describe('normalizeHonduranAccountNumber', () => {
+    it('should strip spaces and dashes', () => {
+      expect(normalizeHonduranAccountNumber(' 2001 2345-6789 ')).toBe('200123456789');
+    });
+  });
+});
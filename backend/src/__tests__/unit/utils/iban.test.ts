@@ -0,0 +1,171 @@
+import {
+  IBAN_STRUCTURES,
+  computeCheckDigits,
+  formatIban,
+  generateIban,
+  hasValidNationalCheckDigits,
+  ibanSchema,
+  normalizeIban,
+  validateIban,
+} from '../../../utils/iban';
+
+// Example IBANs from the SWIFT IBAN registry and national bank documentation
+const VALID_IBANS: Record<string, string> = {
+  AD: 'AD1200012030200359100100',
+  AT: 'AT611904300234573201',
+  BE: 'BE68539007547034',
+  BG: 'BG80BNBG96611020345678',
+  CH: 'CH9300762011623852957',
+  CY: 'CY17002001280000001200527600',
+  CZ: 'CZ6508000000192000145399',
+  DE: 'DE89370400440532013000',
+  DK: 'DK5000400440116243',
+  EE: 'EE382200221020145685',
+  ES: 'ES9121000418450200051332',
+  FI: 'FI2112345600000785',
+  FR: 'FR1420041010050500013M02606',
+  GB: 'GB29NWBK60161331926819',
+  GI: 'GI75NWBK000000007099453',
+  GR: 'GR1601101250000000012300695',
+  HR: 'HR1210010051863000160',
+  HU: 'HU42117730161111101800000000',
+  IE: 'IE29AIBK93115212345678',
+  IS: 'IS140159260076545510730339',
+  IT: 'IT60X0542811101000000123456',
+  LI: 'LI21088100002324013AA',
+  LT: 'LT121000011101001000',
+  LU: 'LU280019400644750000',
+  LV: 'LV80BANK0000435195001',
+  MC: 'MC5811222000010123456789030',
+  MT: 'MT84MALT011000012345MTLCAST001S',
+  NL: 'NL91ABNA0417164300',
+  NO: 'NO9386011117947',
+  PL: 'PL61109010140000071219812874',
+  PT: 'PT50000201231234567890154',
+  RO: 'RO49AAAA1B31007593840000',
+  SE: 'SE4550000000058398257466',
+  SI: 'SI56263300012039086',
+  SK: 'SK3112000000198742637541',
+  SM: 'SM86U0322509800000000270100',
+};
+
+describe('IBAN Utilities', () => {
+  describe('validateIban', () => {
+    it('should accept a registry example for every supported country', () => {
+      expect(Object.keys(VALID_IBANS).sort()).toEqual(Object.keys(IBAN_STRUCTURES).sort());
+
+      for (const iban of Object.values(VALID_IBANS)) {
+        expect(validateIban(iban)).toMatchObject({ valid: true, iban });
+      }
+    });
+
+    it('should parse the bank and branch codes', () => {
+      expect(validateIban('ES91 2100 0418 4502 0005 1332')).toEqual({
+        valid: true,
+        iban: 'ES9121000418450200051332',
+        countryCode: 'ES',
+        checkDigits: '91',
+        bban: '21000418450200051332',
+        bankCode: '2100',
+        branchCode: '0418',
+      });
+      expect(validateIban('IT60X0542811101000000123456')).toMatchObject({ bankCode: '05428', branchCode: '11101' });
+      expect(validateIban('NL91ABNA0417164300')).toMatchObject({ bankCode: 'ABNA', branchCode: null });
+    });
+
+    it('should reject a single mistyped digit', () => {
+      expect(validateIban('DE89370400440532013001')).toMatchObject({ valid: false, error: 'invalid_checksum' });
+    });
+
+    it('should reject transposed digits', () => {
+      expect(validateIban('DE89370400440532010300')).toMatchObject({ valid: false, error: 'invalid_checksum' });
+    });
+
+    it('should reject the wrong length for the country', () => {
+      expect(validateIban('DE8937040044053201300')).toMatchObject({ valid: false, error: 'invalid_length' });
+    });
+
+    it('should reject a BBAN that does not match the country layout', () => {
+      expect(validateIban('GB29NWB160161331926819')).toMatchObject({ valid: false, error: 'invalid_bban' });
+    });
+
+    it('should reject unsupported countries and malformed input', () => {
+      expect(validateIban('US12345678901234567890')).toMatchObject({ valid: false, error: 'unsupported_country' });
+      expect(validateIban('not an iban')).toMatchObject({ valid: false, error: 'invalid_characters' });
+      expect(validateIban('')).toMatchObject({ valid: false, error: 'invalid_characters' });
+    });
+  });
+
+  describe('computeCheckDigits', () => {
+    it('should reproduce the check digits of valid IBANs', () => {
+      for (const iban of Object.values(VALID_IBANS)) {
+        expect(computeCheckDigits(iban.slice(0, 2), iban.slice(4))).toBe(iban.slice(2, 4));
+      }
+    });
+  });
+
+  describe('hasValidNationalCheckDigits', () => {
+    it('should accept the national check digits of valid IBANs', () => {
+      for (const [countryCode, iban] of Object.entries(VALID_IBANS)) {
+        expect(hasValidNationalCheckDigits(countryCode, iban.slice(4))).toBe(true);
+      }
+    });
+
+    it('should reject wrong Spanish control digits, French RIB keys and Belgian check digits', () => {
+      expect(hasValidNationalCheckDigits('ES', '21000418460200051332')).toBe(false);
+      expect(hasValidNationalCheckDigits('FR', '20041010050500013M02607')).toBe(false);
+      expect(hasValidNationalCheckDigits('BE', '539007547035')).toBe(false);
+    });
+  });
+
+  describe('generateIban', () => {
+    it('should generate valid IBANs for every supported country', () => {
+      for (const countryCode of Object.keys(IBAN_STRUCTURES)) {
+        for (let i = 0; i < 20; i++) {
+          const result = validateIban(generateIban(countryCode));
+
+          expect(result).toMatchObject({ valid: true, countryCode });
+          if (result.valid) {
+            expect(hasValidNationalCheckDigits(countryCode, result.bban)).toBe(true);
+          }
+        }
+      }
+    });
+
+    it('should place the requested bank code', () => {
+      expect(validateIban(generateIban('de', '37040044'))).toMatchObject({ valid: true, countryCode: 'DE', bankCode: '37040044' });
+      expect(validateIban(generateIban('GB', 'nwbk'))).toMatchObject({ valid: true, bankCode: 'NWBK' });
+      expect(validateIban(generateIban('IT', '02008'))).toMatchObject({ valid: true, bankCode: '02008' });
+    });
+
+    it('should generate different account numbers each time', () => {
+      const ibans = new Set(Array.from({ length: 50 }, () => generateIban('ES', '2100')));
+      expect(ibans.size).toBe(50);
+    });
+
+    it('should reject unsupported countries and bank codes that do not fit the layout', () => {
+      expect(() => generateIban('US')).toThrow(/not supported/);
+      expect(() => generateIban('DE', 'BANK0001')).toThrow(/does not fit/);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should normalize print format and format electronic format', () => {
+      expect(normalizeIban(' gb29 nwbk-6016 1331 9268 19 ')).toBe('GB29NWBK60161331926819');
+      expect(formatIban('GB29NWBK60161331926819')).toBe('GB29 NWBK 6016 1331 9268 19');
+    });
+  });
+
+  describe('ibanSchema', () => {
+    it('should yield the normalized IBAN', () => {
+      expect(ibanSchema.parse('es91 2100 0418 4502 0005 1332')).toBe('ES9121000418450200051332');
+    });
+
+    it('should report why an IBAN is invalid', () => {
+      const result = ibanSchema.safeParse('ES9121000418450200051333');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].message).toMatch(/check digits are incorrect/);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotpCode,
+  verifyTotpCode,
+  buildOtpAuthUri,
+  getTimeStep,
+} from '../../../utils/totp';
+
+// RFC 6238 Appendix B reference secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('TOTP Utilities', () => {
+  describe('base32', () => {
+    it('should encode the RFC 6238 reference secret', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('NOT-BASE32!')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a unique 160-bit base32 secret', () => {
+      const secret1 = generateTotpSecret();
+      const secret2 = generateTotpSecret();
+
+      expect(secret1).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret1)).toHaveLength(20);
+      expect(secret1).not.toBe(secret2);
+    });
+  });
+
+  describe('generateTotpCode', () => {
+    it('should match the RFC 6238 SHA1 test vectors', () => {
+      const vectors: Array<[number, string]> = [
+        [59, '287082'],
+        [1111111109, '081804'],
+        [1111111111, '050471'],
+        [1234567890, '005924'],
+        [2000000000, '279037'],
+      ];
+
+      vectors.forEach(([seconds, expected]) => {
+        expect(generateTotpCode(RFC_SECRET, seconds * 1000)).toBe(expected);
+      });
+    });
+  });
+
+  describe('verifyTotpCode', () => {
+    const timestamp = 1234567890 * 1000;
+
+    it('should accept the current code and return its time step', () => {
+      expect(verifyTotpCode(RFC_SECRET, '005924', { timestamp })).toBe(getTimeStep(timestamp));
+    });
+
+    it('should tolerate one step of clock drift by default', () => {
+      const previousCode = generateTotpCode(RFC_SECRET, timestamp - 30000);
+      const nextCode = generateTotpCode(RFC_SECRET, timestamp + 30000);
+
+      expect(verifyTotpCode(RFC_SECRET, previousCode, { timestamp })).toBe(getTimeStep(timestamp) - 1);
+      expect(verifyTotpCode(RFC_SECRET, nextCode, { timestamp })).toBe(getTimeStep(timestamp) + 1);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      const staleCode = generateTotpCode(RFC_SECRET, timestamp - 5 * 30000);
+      expect(verifyTotpCode(RFC_SECRET, staleCode, { timestamp })).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      ['', '12345', '1234567', 'abcdef', '12 34 5a'].forEach(code => {
+        expect(verifyTotpCode(RFC_SECRET, code, { timestamp })).toBeNull();
+      });
+    });
+
+    it('should ignore whitespace in user input', () => {
+      expect(verifyTotpCode(RFC_SECRET, '005 924', { timestamp })).not.toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('should build an otpauth URI with issuer and account label', () => {
+      const uri = buildOtpAuthUri('JBSWY3DPEHPK3PXP', 'john@example.com', 'RemitPay');
+
+      expect(uri.startsWith('otpauth://totp/RemitPay%3Ajohn%40example.com?')).toBe(true);
+      expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+      expect(uri).toContain('issuer=RemitPay');
+      expect(uri).toContain('digits=6');
+      expect(uri).toContain('period=30');
+    });
+  });
+});
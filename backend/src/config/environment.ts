@@ -8,15 +8,34 @@ interface EnvironmentConfig {
   DATABASE_URL: string;
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string;
+  REFRESH_TOKEN_TTL_DAYS: number;
   CORS_ORIGIN: string;
   BCRYPT_ROUNDS: number;
+  PASSWORD_HISTORY_SIZE: number;
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+  RATE_LIMIT_ENABLED: boolean;
   WISE_BASE_URL: string;
   WISE_CLIENT_ID: string;
   WISE_CLIENT_SECRET: string;
   WISE_REDIRECT_URI: string;
   WISE_WEBHOOK_SECRET: string;
+  MFA_ISSUER: string;
+  MAIL_TRANSPORT: 'smtp' | 'outbox';
+  MAIL_FROM: string;
+  MAIL_OUTBOX_DIR?: string;
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER?: string;
+  SMTP_PASSWORD?: string;
+  PASSWORD_RESET_URL: string;
+  EMAIL_VERIFICATION_URL: string;
+  UNVERIFIED_EMAIL_TRANSFER_LIMIT: number;
+  SCA_TRANSFER_THRESHOLD: number;
+  FIELD_ENCRYPTION_KEYS?: string;
+  FIELD_ENCRYPTION_KEY_ID?: string;
+  BLIND_INDEX_KEY?: string;
 }
 
 const requiredEnvVars = [
@@ -36,16 +55,38 @@ function validateEnvironment(): EnvironmentConfig {
     PORT: parseInt(process.env.PORT || '3000', 10),
     DATABASE_URL: process.env.DATABASE_URL!,
     JWT_SECRET: process.env.JWT_SECRET!,
-    JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '24h',
+    JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '15m',
+    REFRESH_TOKEN_TTL_DAYS: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10),
     CORS_ORIGIN: process.env.CORS_ORIGIN || 'http://localhost:8081',
     BCRYPT_ROUNDS: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
+    PASSWORD_HISTORY_SIZE: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5', 10),
     RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
     RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    // Off by default under test so suites can hit the same endpoint repeatedly
+    RATE_LIMIT_ENABLED: process.env.RATE_LIMIT_ENABLED
+      ? process.env.RATE_LIMIT_ENABLED === 'true'
+      : process.env.NODE_ENV !== 'test',
     WISE_BASE_URL: process.env.WISE_BASE_URL || 'https://api.sandbox.transferwise.tech',
     WISE_CLIENT_ID: process.env.WISE_CLIENT_ID || 'sandbox-client-id',
     WISE_CLIENT_SECRET: process.env.WISE_CLIENT_SECRET || 'sandbox-client-secret',
     WISE_REDIRECT_URI: process.env.WISE_REDIRECT_URI || 'my-app://callback',
     WISE_WEBHOOK_SECRET: process.env.WISE_WEBHOOK_SECRET || 'sandbox-webhook-secret',
+    MFA_ISSUER: process.env.MFA_ISSUER || 'RemitPay',
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT === 'smtp' ? 'smtp' : 'outbox',
+    MAIL_FROM: process.env.MAIL_FROM || 'RemitPay <no-reply@remitpay.local>',
+    MAIL_OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || undefined,
+    SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+    SMTP_PORT: parseInt(process.env.SMTP_PORT || '587', 10),
+    SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+    SMTP_USER: process.env.SMTP_USER || undefined,
+    SMTP_PASSWORD: process.env.SMTP_PASSWORD || undefined,
+    PASSWORD_RESET_URL: process.env.PASSWORD_RESET_URL || 'remittance-app://forgot-password',
+    EMAIL_VERIFICATION_URL: process.env.EMAIL_VERIFICATION_URL || 'remittance-app://verify-email',
+    UNVERIFIED_EMAIL_TRANSFER_LIMIT: parseFloat(process.env.UNVERIFIED_EMAIL_TRANSFER_LIMIT || '500'),
+    SCA_TRANSFER_THRESHOLD: parseFloat(process.env.SCA_TRANSFER_THRESHOLD || '250'),
+    FIELD_ENCRYPTION_KEYS: process.env.FIELD_ENCRYPTION_KEYS || undefined,
+    FIELD_ENCRYPTION_KEY_ID: process.env.FIELD_ENCRYPTION_KEY_ID || undefined,
+    BLIND_INDEX_KEY: process.env.BLIND_INDEX_KEY || undefined,
   };
 }
 
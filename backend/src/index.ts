@@ -8,7 +8,12 @@ import authRoutes from './routes/auth';
 import wiseRoutes from './routes/wise';
 import transferRoutes from './routes/transfer';
 import usersRoutes from './routes/users';
+import adminRoutes from './routes/admin';
+import beneficiaryRoutes from './routes/beneficiaries';
+import bankingRoutes from './routes/banking';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { rateLimit, rateLimitPolicies } from './middleware/rateLimit';
+import { TransferProcessor } from './services/transferProcessor';
 
 const app = express();
 
@@ -38,10 +43,15 @@ app.get('/api/v1/health', (req, res) => {
   });
 });
 
+app.use('/api/v1', rateLimit(rateLimitPolicies.global));
+
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/wise', wiseRoutes);
 app.use('/api/v1/transfer', transferRoutes);
 app.use('/api/v1/users', usersRoutes);
+app.use('/api/v1/admin', adminRoutes);
+app.use('/api/v1/beneficiaries', beneficiaryRoutes);
+app.use('/api/v1/banking', bankingRoutes);
 
 app.use((req, res, next) => {
   notFoundHandler(req, res);
@@ -52,6 +62,9 @@ async function startServer() {
   try {
     await connectDatabase();
     
+    // Resume transfers that were in flight when the server stopped
+    await TransferProcessor.start();
+    
     app.listen(env.PORT, '0.0.0.0', () => {
       console.log(`🚀 Server is running on port ${env.PORT}`);
       console.log(`📊 Environment: ${env.NODE_ENV}`);
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/environment';
 import { prisma } from '../config/database';
+import type { UserRole } from '../generated/prisma';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -11,9 +12,15 @@ export interface AuthRequest extends Request {
     lastName: string;
     isActive: boolean;
     emailVerified: boolean;
+    role: UserRole;
   };
+  sessionId?: string;
+  idempotencyKey?: string; // Set by idempotent() on the request that claimed the key
 }
 
+// lastSeenAt is only written when older than this, so most requests stay read-only
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
 export interface JWTPayload {
   userId: string;
   email: string;
@@ -38,6 +45,39 @@ export function verifyToken(token: string): JWTPayload {
   }
 }
 
+export interface MfaChallengePayload {
+  userId: string;
+  purpose: 'mfa_challenge';
+  iat: number;
+  exp: number;
+}
+
+export const MFA_CHALLENGE_EXPIRES_IN_SECONDS = 5 * 60;
+
+/**
+ * Short-lived token proving the password step succeeded; exchanged for a
+ * session once a valid second factor is supplied
+ */
+export function generateMfaChallengeToken(userId: string): string {
+  return jwt.sign(
+    { userId, purpose: 'mfa_challenge' },
+    env.JWT_SECRET,
+    { expiresIn: MFA_CHALLENGE_EXPIRES_IN_SECONDS }
+  );
+}
+
+export function verifyMfaChallengeToken(token: string): MfaChallengePayload {
+  try {
+    const payload = jwt.verify(token, env.JWT_SECRET) as MfaChallengePayload;
+    if (payload.purpose !== 'mfa_challenge') {
+      throw new Error('Wrong token purpose');
+    }
+    return payload;
+  } catch {
+    throw new Error('Invalid challenge');
+  }
+}
+
 export async function authenticateToken(
   req: AuthRequest,
   res: Response,
@@ -65,6 +105,7 @@ export async function authenticateToken(
             lastName: true,
             isActive: true,
             emailVerified: true,
+            role: true,
           },
         },
       },
@@ -86,7 +127,15 @@ export async function authenticateToken(
       return;
     }
 
+    if (Date.now() - session.lastSeenAt.getTime() >= LAST_SEEN_RESOLUTION_MS) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { lastSeenAt: new Date(), ipAddress: req.ip ?? session.ipAddress },
+      });
+    }
+
     req.user = session.user;
+    req.sessionId = session.id;
     next();
   } catch (error) {
     console.error('Auth middleware error:', error);
@@ -94,6 +143,29 @@ export async function authenticateToken(
   }
 }
 
+/**
+ * Allow the request only if the authenticated user has one of the given roles.
+ * Must run after authenticateToken.
+ */
+export function authorize(...roles: UserRole[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Access token required' });
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to perform this action',
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
 export async function optionalAuth(
   req: AuthRequest,
   res: Response,
@@ -121,6 +193,7 @@ export async function optionalAuth(
             lastName: true,
             isActive: true,
             emailVerified: true,
+            role: true,
           },
         },
       },
@@ -128,6 +201,7 @@ export async function optionalAuth(
 
     if (session && session.expiresAt > new Date() && session.user.isActive) {
       req.user = session.user;
+      req.sessionId = session.id;
     }
 
     next();
@@ -0,0 +1,106 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { IdempotencyService } from '../services/idempotency';
+import type { AuthRequest } from './auth';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// UUIDs and similar client-generated keys
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,255}$/;
+
+export type ReplayTransfer = (req: AuthRequest, transferId: string) => Promise<{ status: number; body: unknown } | null>;
+
+/**
+ * Make a POST safe to retry with an Idempotency-Key header: the first request runs,
+ * retries with the same key and body get its response again (marked with
+ * Idempotent-Replayed: true), and reusing the key for a different body is a 409.
+ * Requests without the header run as usual. Must run after authenticateToken.
+ * A request that created a transfer but stopped before its response was stored gets its
+ * response rebuilt by replayTransfer; without one, retries keep getting a 409.
+ */
+export function idempotent(scope: string, replayTransfer?: ReplayTransfer): RequestHandler {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER);
+    const userId = req.user?.id;
+
+    if (key === undefined || !userId) {
+      next();
+      return;
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      res.status(400).json({
+        error: 'Invalid idempotency key',
+        message: `${IDEMPOTENCY_KEY_HEADER} must be 8 to 255 letters, digits, dashes or underscores`,
+      });
+      return;
+    }
+
+    let check;
+    try {
+      check = await IdempotencyService.begin(userId, key, scope, IdempotencyService.hashRequest(req.body));
+    } catch (error) {
+      // Running the request unprotected could send money twice, so fail instead
+      console.error('Idempotency key error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to process the request, please try again',
+      });
+      return;
+    }
+
+    if (check.state === 'mismatch') {
+      res.status(409).json({
+        error: 'Idempotency key reused',
+        message: `This ${IDEMPOTENCY_KEY_HEADER} was already used for a different request`,
+      });
+      return;
+    }
+
+    if (check.state === 'abandoned' && replayTransfer) {
+      try {
+        const replay = await replayTransfer(req, check.transferId);
+
+        if (replay) {
+          await IdempotencyService.complete(userId, key, replay.status, replay.body);
+          res.setHeader('Idempotent-Replayed', 'true');
+          res.status(replay.status).json(replay.body);
+          return;
+        }
+      } catch (error) {
+        console.error('Idempotency key error:', error);
+      }
+    }
+
+    if (check.state === 'in_progress' || check.state === 'abandoned') {
+      res.setHeader('Retry-After', '1');
+      res.status(409).json({
+        error: 'Request in progress',
+        message: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+      });
+      return;
+    }
+
+    if (check.state === 'replay') {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(check.status).json(check.body);
+      return;
+    }
+
+    // Store the response before sending it, so a retry can never find the key still in progress after it
+    const json = res.json.bind(res);
+    res.json = ((body: unknown) => {
+      const settle = res.statusCode < 400
+        ? IdempotencyService.complete(userId, key, res.statusCode, body)
+        : IdempotencyService.release(userId, key);
+
+      settle
+        .catch(error => console.error('Idempotency key error:', error))
+        .finally(() => json(body));
+
+      return res;
+    }) as Response['json'];
+
+    req.idempotencyKey = key;
+    next();
+  };
+}
@@ -0,0 +1,44 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { env } from '../config/environment';
+import { exceedsLimit, fromLimitCurrency } from '../utils/currency';
+import type { AuthRequest } from './auth';
+
+export interface PolicyAmount {
+  amount: unknown;
+  currency: string;
+}
+
+/**
+ * Require a verified email when the amount extracted from the request exceeds
+ * the limit (UNVERIFIED_EMAIL_TRANSFER_LIMIT by default, in LIMIT_CURRENCY). The amount is
+ * compared in its own currency, converted at the reference rate. Must run after
+ * authenticateToken. Requests without a numeric amount are left for the route's own validation.
+ */
+export function requireVerifiedEmailAbove(
+  getAmount: (req: AuthRequest) => PolicyAmount | null | Promise<PolicyAmount | null>,
+  limit: number = env.UNVERIFIED_EMAIL_TRANSFER_LIMIT
+): RequestHandler {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (req.user?.emailVerified) {
+      next();
+      return;
+    }
+
+    const extracted = await getAmount(req);
+
+    if (extracted && typeof extracted.amount === 'number' && exceedsLimit(extracted.amount, extracted.currency, limit)) {
+      // Currencies without a reference rate need a verified email for any amount
+      const localLimit = fromLimitCurrency(limit, extracted.currency) ?? 0;
+
+      res.status(403).json({
+        error: 'Email verification required',
+        message: `Please verify your email address to send more than ${localLimit} ${extracted.currency}`,
+        limit: localLimit,
+        currency: extracted.currency,
+      });
+      return;
+    }
+
+    next();
+  };
+}
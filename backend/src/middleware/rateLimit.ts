@@ -0,0 +1,132 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { env } from '../config/environment';
+import { MemoryRateLimitStore } from '../services/rateLimitStore';
+import type { RateLimitPolicy, RateLimitStore } from '../types/rateLimit';
+import { AuthRequest } from './auth';
+
+export interface RateLimitOptions {
+  store?: RateLimitStore;
+  enabled?: boolean;
+}
+
+let defaultStore: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Replace the store used by limiters that were not given one explicitly,
+ * e.g. with a RedisRateLimitStore when running more than one API instance
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  defaultStore = store;
+}
+
+export const rateLimitPolicies = {
+  global: {
+    name: 'global',
+    windowMs: env.RATE_LIMIT_WINDOW_MS,
+    max: env.RATE_LIMIT_MAX_REQUESTS,
+    keyBy: 'ip',
+    message: 'Too many requests, please try again later',
+  },
+  login: {
+    name: 'login',
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    keyBy: 'ip',
+    message: 'Too many sign-in attempts, please try again later',
+  },
+  register: {
+    name: 'register',
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    keyBy: 'ip',
+    message: 'Too many accounts created from this network, please try again later',
+  },
+  userSearch: {
+    name: 'user-search',
+    windowMs: 60 * 1000,
+    max: 30,
+    keyBy: 'user',
+    message: 'Too many searches, please slow down',
+  },
+  transferCreate: {
+    name: 'transfer-create',
+    windowMs: 60 * 1000,
+    max: 5,
+    keyBy: 'user',
+    message: 'Too many transfers in a short time, please wait a moment',
+  },
+  transferAuthorize: {
+    name: 'transfer-authorize',
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    keyBy: 'user',
+    message: 'Too many verification attempts, please try again later',
+  },
+  mfaCode: {
+    name: 'mfa-code',
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    keyBy: 'user',
+    message: 'Too many authentication code attempts, please try again later',
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+function getClientKey(policy: RateLimitPolicy, req: AuthRequest): string {
+  if (policy.keyBy === 'user' && req.user) {
+    return `${policy.name}:user:${req.user.id}`;
+  }
+
+  return `${policy.name}:ip:${req.ip ?? 'unknown'}`;
+}
+
+/**
+ * Fixed-window rate limiter. Sets the IETF RateLimit-* headers on every response
+ * and rejects requests over the limit with 429 in the errorHandler response shape.
+ * Per-user policies must be mounted after authenticateToken.
+ */
+export function rateLimit(policy: RateLimitPolicy, options: RateLimitOptions = {}): RequestHandler {
+  const enabled = options.enabled ?? env.RATE_LIMIT_ENABLED;
+
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!enabled) {
+      next();
+      return;
+    }
+
+    const store = options.store ?? defaultStore;
+
+    let counter;
+    try {
+      counter = await store.increment(getClientKey(policy, req), policy.windowMs);
+    } catch (error) {
+      // An unavailable store should not take the API down with it
+      console.error('Rate limit store error:', error);
+      next();
+      return;
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((counter.resetAt.getTime() - Date.now()) / 1000));
+
+    res.setHeader('RateLimit-Policy', `${policy.max};w=${Math.ceil(policy.windowMs / 1000)}`);
+    res.setHeader('RateLimit-Limit', String(policy.max));
+    res.setHeader('RateLimit-Remaining', String(Math.max(0, policy.max - counter.count)));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (counter.count > policy.max) {
+      res.setHeader('Retry-After', String(resetSeconds));
+      res.status(429).json({
+        error: 'Too Many Requests',
+        message: policy.message,
+        statusCode: 429,
+        timestamp: new Date().toISOString(),
+        details: {
+          policy: policy.name,
+          retryAfter: resetSeconds,
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,140 @@
+import { Router, Response, RequestHandler } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/database';
+import { AuditService } from '../services/audit';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+
+const router = Router();
+
+// Admin routes are for support staff and administrators only
+router.use(authenticateToken, authorize('ADMIN', 'SUPPORT'));
+
+// Validation schemas
+const auditEventQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  action: z.string().min(1).max(100).optional(),
+  subjectType: z.enum(['user', 'wise_account', 'transfer', 'beneficiary']).optional(),
+  subjectId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().min(1).max(200).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+const updateRoleSchema = z.object({
+  role: z.enum(['USER', 'SUPPORT', 'ADMIN']),
+});
+
+/**
+ * GET /api/v1/admin/audit-events
+ * Search the audit log, e.g. ?subjectType=wise_account&subjectId=... to see who changed an account
+ */
+const listAuditEventsHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const filters = auditEventQuerySchema.parse(req.query);
+    const { events, total } = await AuditService.query(filters);
+
+    res.json({
+      events,
+      pagination: {
+        limit: filters.limit,
+        offset: filters.offset,
+        total,
+      },
+    });
+  } catch (error) {
+    console.error('List audit events error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to query audit events',
+    });
+  }
+};
+
+/**
+ * PUT /api/v1/admin/users/:id/role
+ * Grant or revoke staff access (admins only; the first admin is promoted directly in the database)
+ */
+const updateUserRoleHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { role } = updateRoleSchema.parse(req.body);
+
+    if (id === req.user?.id) {
+      res.status(400).json({
+        error: 'Invalid request',
+        message: 'You cannot change your own role',
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, role: true },
+    });
+
+    if (!user) {
+      res.status(404).json({
+        error: 'User not found',
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id },
+      data: { role },
+      select: { id: true, email: true, role: true },
+    });
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'user.role_changed',
+      userId: id,
+      subjectType: 'user',
+      subjectId: id,
+      changes: AuditService.diff({ role: user.role }, { role: updatedUser.role }),
+    });
+
+    res.json({
+      message: 'Role updated successfully',
+      user: updatedUser,
+    });
+  } catch (error) {
+    console.error('Update user role error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to update user role',
+    });
+  }
+};
+
+// Register routes
+router.get('/audit-events', listAuditEventsHandler);
+router.put('/users/:id/role', authorize('ADMIN'), updateUserRoleHandler);
+
+export default router;
@@ -1,7 +1,28 @@
 import { Router, Request, Response, RequestHandler } from 'express';
 import { prisma } from '../config/database';
+import type { UserRole } from '../generated/prisma';
 import { hashPassword, comparePassword, validatePassword } from '../utils/password';
-import { generateToken } from '../middleware/auth';
+import {
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken,
+  authenticateToken,
+  AuthRequest,
+  MFA_CHALLENGE_EXPIRES_IN_SECONDS,
+} from '../middleware/auth';
+import { generateTotpSecret, buildOtpAuthUri } from '../utils/totp';
+import { MfaService } from '../services/mfa';
+import { MfaRecoveryService } from '../services/mfaRecovery';
+import { PasswordService } from '../services/password';
+import { PasswordResetService } from '../services/passwordReset';
+import { EmailVerificationService } from '../services/emailVerification';
+import { SessionService } from '../services/session';
+import { LoginProtectionService, LoginAttemptCheck } from '../services/loginProtection';
+import { BiometricAuthService } from '../services/biometricAuth';
+import { AuditService } from '../services/audit';
+import { FieldEncryptionService } from '../services/encryption';
+import { rateLimit, rateLimitPolicies } from '../middleware/rateLimit';
+import { getClientInfo } from '../utils/userAgent';
+import { env } from '../config/environment';
 import { z } from 'zod';
 
 const router = Router();
@@ -20,6 +41,163 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+const mfaLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().min(1).optional(),
+  recoveryCode: z.string().min(1).optional(),
+}).refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+  message: 'Provide either a verification code or a recovery code',
+  path: ['code'],
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+const registerBiometricDeviceSchema = z.object({
+  publicKey: z.string().refine(key => BiometricAuthService.isValidPublicKey(key), 'Invalid Ed25519 public key'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const biometricChallengeSchema = z.object({
+  deviceId: z.string().min(1, 'Device ID is required'),
+});
+
+const biometricLoginSchema = z.object({
+  deviceId: z.string().min(1, 'Device ID is required'),
+  challenge: z.string().min(1, 'Challenge is required'),
+  signature: z.string().min(1, 'Signature is required'),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+const mfaCodeSchema = z.object({
+  code: z.string().min(1, 'Verification code is required'),
+});
+
+interface UserRecord {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone: string | null;
+  country: string | null;
+  isActive: boolean;
+  emailVerified: boolean;
+  mfaEnabled?: boolean;
+  role?: UserRole;
+  createdAt: Date;
+}
+
+async function toUserResponse(user: UserRecord): Promise<Required<UserRecord>> {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    phone: await FieldEncryptionService.decrypt(user.phone),
+    country: user.country,
+    isActive: user.isActive,
+    emailVerified: user.emailVerified,
+    mfaEnabled: user.mfaEnabled ?? false,
+    role: user.role ?? 'USER',
+    createdAt: user.createdAt,
+  };
+}
+
+// Canonical user record returned by /auth/me and /auth/validate, used by the app to rehydrate its cached user
+const currentUserSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  username: true,
+  displayName: true,
+  phone: true,
+  country: true,
+  isSearchable: true,
+  isActive: true,
+  kycStatus: true,
+  emailVerified: true,
+  phoneVerified: true,
+  mfaEnabled: true,
+  role: true,
+  createdAt: true,
+} as const;
+
+function sendLoginBlocked(res: Response, check: Exclude<LoginAttemptCheck, { status: 'allowed' }>): void {
+  res.setHeader('Retry-After', String(check.retryAfterSeconds));
+
+  if (check.status === 'locked') {
+    res.status(423).json({
+      error: 'Account locked',
+      message: 'Too many failed sign-in attempts. Try again later or reset your password to unlock your account.',
+      retryAfter: check.retryAfterSeconds,
+    });
+    return;
+  }
+
+  res.status(429).json({
+    error: 'Too many attempts',
+    message: `Too many failed sign-in attempts. Please wait ${check.retryAfterSeconds} seconds and try again.`,
+    retryAfter: check.retryAfterSeconds,
+  });
+}
+
+/**
+ * Audit a successful sign-in; the signed-in user is the actor
+ */
+async function auditLogin(req: Request, userId: string, method: 'password' | 'totp' | 'recovery_code' | 'biometric'): Promise<void> {
+  await AuditService.record(
+    { ...AuditService.contextFrom(req), actorId: userId },
+    { action: 'auth.login', userId, subjectType: 'user', subjectId: userId, metadata: { method } }
+  );
+}
+
+/**
+ * Audit a rejected sign-in. userId is null when the account could not be identified.
+ */
+async function auditLoginFailure(
+  req: Request,
+  userId: string | null,
+  reason: string,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  await AuditService.record(AuditService.contextFrom(req), {
+    action: 'auth.login_failed',
+    userId,
+    subjectType: 'user',
+    subjectId: userId,
+    metadata: { reason, ...metadata },
+  });
+}
+
+function sendValidationError(res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    error: 'Validation error',
+    details: error.errors.map(e => ({
+      field: e.path.join('.'),
+      message: e.message,
+    })),
+  });
+}
+
 const registerHandler: RequestHandler = async (req: Request, res: Response) => {
   try {
     const validatedData = registerSchema.parse(req.body);
@@ -53,7 +231,8 @@ const registerHandler: RequestHandler = async (req: Request, res: Response) => {
         password: hashedPassword,
         firstName: validatedData.firstName,
         lastName: validatedData.lastName,
-        phone: validatedData.phone,
+        phone: await FieldEncryptionService.encrypt(validatedData.phone),
+        phoneIndex: FieldEncryptionService.blindIndex('phone', validatedData.phone),
         country: validatedData.country,
       },
       select: {
@@ -69,28 +248,25 @@ const registerHandler: RequestHandler = async (req: Request, res: Response) => {
       },
     });
 
-    const sessionExpiresAt = new Date();
-    sessionExpiresAt.setDate(sessionExpiresAt.getDate() + 1);
-
-    const session = await prisma.session.create({
-      data: {
-        userId: user.id,
-        token: generateToken(user.id, user.email, ''),
-        expiresAt: sessionExpiresAt,
-      },
-    });
+    const { token, refreshToken } = await SessionService.createSession(user.id, user.email, getClientInfo(req));
 
-    const token = generateToken(user.id, user.email, session.id);
+    await AuditService.record(
+      { ...AuditService.contextFrom(req), actorId: user.id },
+      { action: 'auth.registered', userId: user.id, subjectType: 'user', subjectId: user.id }
+    );
 
-    await prisma.session.update({
-      where: { id: session.id },
-      data: { token },
-    });
+    // Registration succeeds even if the email cannot be sent; the user can resend later
+    try {
+      await EmailVerificationService.sendVerification(user);
+    } catch (mailError) {
+      console.error('Failed to send verification email:', mailError);
+    }
 
     res.status(201).json({
       message: 'User registered successfully',
-      user,
+      user: { ...user, phone: validatedData.phone ?? null },
       token,
+      refreshToken,
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -123,7 +299,16 @@ const loginHandler: RequestHandler = async (req: Request, res: Response) => {
       where: { email: validatedData.email },
     });
 
+    const attemptCheck = await LoginProtectionService.checkAttempt(user?.id ?? null, req.ip);
+    if (attemptCheck.status !== 'allowed') {
+      await auditLoginFailure(req, user?.id ?? null, attemptCheck.status, { email: validatedData.email });
+      sendLoginBlocked(res, attemptCheck);
+      return;
+    }
+
     if (!user) {
+      await LoginProtectionService.recordFailure(null, req.ip);
+      await auditLoginFailure(req, null, 'unknown_email', { email: validatedData.email });
       res.status(401).json({
         error: 'Invalid credentials',
         message: 'Invalid email or password',
@@ -132,6 +317,7 @@ const loginHandler: RequestHandler = async (req: Request, res: Response) => {
     }
 
     if (!user.isActive) {
+      await auditLoginFailure(req, user.id, 'account_deactivated');
       res.status(401).json({
         error: 'Account deactivated',
         message: 'Your account has been deactivated',
@@ -142,6 +328,13 @@ const loginHandler: RequestHandler = async (req: Request, res: Response) => {
     const isPasswordValid = await comparePassword(validatedData.password, user.password);
 
     if (!isPasswordValid) {
+      const failure = await LoginProtectionService.recordFailure(user, req.ip);
+      await auditLoginFailure(req, user.id, 'invalid_password');
+      if (failure.status !== 'allowed') {
+        sendLoginBlocked(res, failure);
+        return;
+      }
+
       res.status(401).json({
         error: 'Invalid credentials',
         message: 'Invalid email or password',
@@ -149,6 +342,20 @@ const loginHandler: RequestHandler = async (req: Request, res: Response) => {
       return;
     }
 
+    // Second factor required: hand out a short-lived challenge instead of a session
+    // (failures are cleared only once the second factor succeeds)
+    if (user.mfaEnabled) {
+      res.json({
+        message: 'Multi-factor authentication required',
+        status: 'mfa_required',
+        challengeToken: generateMfaChallengeToken(user.id),
+        expiresIn: MFA_CHALLENGE_EXPIRES_IN_SECONDS,
+      });
+      return;
+    }
+
+    await LoginProtectionService.resetAccount(user.id);
+
     await prisma.session.deleteMany({
       where: {
         userId: user.id,
@@ -156,40 +363,15 @@ const loginHandler: RequestHandler = async (req: Request, res: Response) => {
       },
     });
 
-    const sessionExpiresAt = new Date();
-    sessionExpiresAt.setDate(sessionExpiresAt.getDate() + 1);
-
-    const session = await prisma.session.create({
-      data: {
-        userId: user.id,
-        token: generateToken(user.id, user.email, ''),
-        expiresAt: sessionExpiresAt,
-      },
-    });
-
-    const token = generateToken(user.id, user.email, session.id);
-
-    await prisma.session.update({
-      where: { id: session.id },
-      data: { token },
-    });
+    const { token, refreshToken } = await SessionService.createSession(user.id, user.email, getClientInfo(req));
 
-    const userResponse = {
-      id: user.id,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      phone: user.phone,
-      country: user.country,
-      isActive: user.isActive,
-      emailVerified: user.emailVerified,
-      createdAt: user.createdAt,
-    };
+    await auditLogin(req, user.id, 'password');
 
     res.json({
       message: 'Login successful',
-      user: userResponse,
+      user: await toUserResponse(user),
       token,
+      refreshToken,
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -212,8 +394,1044 @@ const loginHandler: RequestHandler = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * POST /api/v1/auth/login/mfa
+ * Complete a login that returned "mfa_required" by supplying a TOTP code
+ * or, if the authenticator is unavailable, one of the user's recovery codes
+ */
+const mfaLoginHandler: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const validatedData = mfaLoginSchema.parse(req.body);
+
+    let challenge;
+    try {
+      challenge = verifyMfaChallengeToken(validatedData.challengeToken);
+    } catch {
+      res.status(401).json({
+        error: 'Invalid challenge',
+        message: 'Your sign-in attempt has expired. Please sign in again.',
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+    });
+
+    if (!user || !user.isActive || !user.mfaEnabled) {
+      res.status(401).json({
+        error: 'Invalid challenge',
+        message: 'Your sign-in attempt has expired. Please sign in again.',
+      });
+      return;
+    }
+
+    const attemptCheck = await LoginProtectionService.checkAttempt(user.id, req.ip);
+    if (attemptCheck.status !== 'allowed') {
+      await auditLoginFailure(req, user.id, attemptCheck.status);
+      sendLoginBlocked(res, attemptCheck);
+      return;
+    }
+
+    const isCodeValid = validatedData.recoveryCode
+      ? await MfaRecoveryService.consumeCode(user.id, validatedData.recoveryCode, {
+          ip: req.ip,
+          userAgent: req.get('User-Agent'),
+        })
+      : await MfaService.consumeTotpCode(user, validatedData.code!);
+
+    if (!isCodeValid) {
+      const failure = await LoginProtectionService.recordFailure(user, req.ip);
+      await auditLoginFailure(req, user.id, 'invalid_mfa_code');
+      if (failure.status !== 'allowed') {
+        sendLoginBlocked(res, failure);
+        return;
+      }
+
+      res.status(401).json({
+        error: 'Invalid code',
+        message: 'The verification code is incorrect or has already been used',
+      });
+      return;
+    }
+
+    await LoginProtectionService.resetAccount(user.id);
+
+    await prisma.session.deleteMany({
+      where: {
+        userId: user.id,
+        expiresAt: { lt: new Date() },
+      },
+    });
+
+    const { token, refreshToken } = await SessionService.createSession(user.id, user.email, getClientInfo(req));
+
+    await auditLogin(req, user.id, validatedData.recoveryCode ? 'recovery_code' : 'totp');
+
+    // Let the client prompt for regeneration when recovery codes run low
+    const recoveryCodesRemaining = validatedData.recoveryCode
+      ? await MfaRecoveryService.countRemaining(user.id)
+      : undefined;
+
+    res.json({
+      message: 'Login successful',
+      user: await toUserResponse(user),
+      token,
+      refreshToken,
+      recoveryCodesRemaining,
+    });
+  } catch (error) {
+    console.error('MFA login error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'An error occurred during login',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/mfa/enroll
+ * Start TOTP enrolment: issue a secret and otpauth:// URI for the authenticator app
+ */
+const mfaEnrollHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, mfaEnabled: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.mfaEnabled) {
+      res.status(409).json({
+        error: 'MFA already enabled',
+        message: 'Disable multi-factor authentication before enrolling a new device',
+      });
+      return;
+    }
+
+    // Secret stays pending (mfaEnabled = false) until the first code is verified
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaSecret: secret,
+        mfaLastUsedStep: null,
+      },
+    });
+
+    res.json({
+      message: 'MFA enrolment started',
+      secret,
+      otpauthUrl: buildOtpAuthUri(secret, user.email, env.MFA_ISSUER),
+    });
+  } catch (error) {
+    console.error('MFA enrol error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to start MFA enrolment',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/mfa/verify
+ * Confirm TOTP enrolment with a code from the authenticator app
+ */
+const mfaVerifyHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = mfaCodeSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.mfaSecret) {
+      res.status(400).json({
+        error: 'MFA enrolment not started',
+        message: 'Start MFA enrolment before verifying a code',
+      });
+      return;
+    }
+
+    if (user.mfaEnabled) {
+      res.status(409).json({
+        error: 'MFA already enabled',
+        message: 'Multi-factor authentication is already enabled',
+      });
+      return;
+    }
+
+    const isCodeValid = await MfaService.consumeTotpCode(user, validatedData.code);
+
+    if (!isCodeValid) {
+      res.status(400).json({
+        error: 'Invalid code',
+        message: 'The verification code is incorrect',
+      });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: true,
+        mfaEnrolledAt: new Date(),
+      },
+    });
+
+    // Shown once; only hashes are stored
+    const recoveryCodes = await MfaRecoveryService.issueCodes(userId);
+
+    res.json({
+      message: 'Multi-factor authentication enabled',
+      mfaEnabled: true,
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('MFA verify error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to verify MFA code',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/mfa/disable
+ * Turn off TOTP; requires a current code so a stolen session cannot strip MFA
+ */
+const mfaDisableHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = mfaCodeSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.mfaEnabled) {
+      res.status(400).json({
+        error: 'MFA not enabled',
+        message: 'Multi-factor authentication is not enabled',
+      });
+      return;
+    }
+
+    const isCodeValid = await MfaService.consumeTotpCode(user, validatedData.code);
+
+    if (!isCodeValid) {
+      res.status(400).json({
+        error: 'Invalid code',
+        message: 'The verification code is incorrect',
+      });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaEnrolledAt: null,
+        mfaLastUsedStep: null,
+      },
+    });
+
+    await MfaRecoveryService.revokeUnused(userId);
+
+    res.json({
+      message: 'Multi-factor authentication disabled',
+      mfaEnabled: false,
+    });
+  } catch (error) {
+    console.error('MFA disable error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to disable MFA',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/mfa/recovery-codes
+ * Regenerate recovery codes (invalidates any unused ones); requires a current TOTP code
+ */
+const mfaRecoveryCodesHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = mfaCodeSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.mfaEnabled) {
+      res.status(400).json({
+        error: 'MFA not enabled',
+        message: 'Multi-factor authentication is not enabled',
+      });
+      return;
+    }
+
+    const isCodeValid = await MfaService.consumeTotpCode(user, validatedData.code);
+
+    if (!isCodeValid) {
+      res.status(400).json({
+        error: 'Invalid code',
+        message: 'The verification code is incorrect',
+      });
+      return;
+    }
+
+    const recoveryCodes = await MfaRecoveryService.issueCodes(userId);
+
+    res.json({
+      message: 'Recovery codes regenerated',
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('MFA recovery codes error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to regenerate recovery codes',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/change-password
+ * Change the password of the signed-in user. All existing sessions are revoked
+ * and a fresh token is returned for the current device.
+ */
+const changePasswordHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = changePasswordSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const isPasswordValid = await comparePassword(validatedData.currentPassword, user.password);
+
+    if (!isPasswordValid) {
+      res.status(400).json({
+        error: 'Invalid current password',
+        message: 'Your current password is incorrect',
+      });
+      return;
+    }
+
+    const passwordValidation = validatePassword(validatedData.newPassword);
+    if (!passwordValidation.isValid) {
+      res.status(400).json({
+        error: 'Password validation failed',
+        details: passwordValidation.errors,
+      });
+      return;
+    }
+
+    if (await PasswordService.isRecentlyUsed(user.id, user.password, validatedData.newPassword)) {
+      res.status(400).json({
+        error: 'Password reused',
+        message: `Your new password must be different from your last ${env.PASSWORD_HISTORY_SIZE} passwords`,
+      });
+      return;
+    }
+
+    await PasswordService.updatePassword(user.id, user.password, validatedData.newPassword);
+
+    const { token, refreshToken } = await SessionService.createSession(user.id, user.email, getClientInfo(req));
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'auth.password_changed',
+      userId: user.id,
+      subjectType: 'user',
+      subjectId: user.id,
+    });
+
+    res.json({
+      message: 'Password changed successfully',
+      token,
+      refreshToken,
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to change password',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/forgot-password
+ * Email a one-time password reset token. Always responds the same way so the
+ * endpoint cannot be used to discover registered emails.
+ */
+const forgotPasswordHandler: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const validatedData = forgotPasswordSchema.parse(req.body);
+
+    await PasswordResetService.requestReset(validatedData.email, { ip: req.ip });
+
+    res.json({
+      message: 'If an account exists for this email, a password reset code has been sent',
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to process password reset request',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/reset-password
+ * Set a new password using an emailed reset token. Signs out every session
+ * and lifts any sign-in lockout on the account.
+ */
+const resetPasswordHandler: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const validatedData = resetPasswordSchema.parse(req.body);
+
+    const resetToken = await PasswordResetService.findValidToken(validatedData.token);
+
+    if (!resetToken) {
+      res.status(400).json({
+        error: 'Invalid reset token',
+        message: 'This reset code is invalid or has expired. Please request a new one.',
+      });
+      return;
+    }
+
+    const passwordValidation = validatePassword(validatedData.newPassword);
+    if (!passwordValidation.isValid) {
+      res.status(400).json({
+        error: 'Password validation failed',
+        details: passwordValidation.errors,
+      });
+      return;
+    }
+
+    const { user } = resetToken;
+
+    if (await PasswordService.isRecentlyUsed(user.id, user.password, validatedData.newPassword)) {
+      res.status(400).json({
+        error: 'Password reused',
+        message: `Your new password must be different from your last ${env.PASSWORD_HISTORY_SIZE} passwords`,
+      });
+      return;
+    }
+
+    if (!(await PasswordResetService.consumeToken(resetToken))) {
+      res.status(400).json({
+        error: 'Invalid reset token',
+        message: 'This reset code is invalid or has expired. Please request a new one.',
+      });
+      return;
+    }
+
+    await PasswordService.updatePassword(user.id, user.password, validatedData.newPassword);
+
+    // Proving control of the email address unlocks an account locked by failed sign-ins
+    await LoginProtectionService.resetAccount(user.id);
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'auth.password_reset',
+      userId: user.id,
+      subjectType: 'user',
+      subjectId: user.id,
+    });
+
+    res.json({
+      message: 'Password has been reset. Please sign in with your new password.',
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to reset password',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/verify-email
+ * Confirm an email address using the token from the verification email
+ */
+const verifyEmailHandler: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const validatedData = verifyEmailSchema.parse(req.body);
+
+    const userId = await EmailVerificationService.verify(validatedData.token);
+
+    if (!userId) {
+      res.status(400).json({
+        error: 'Invalid verification token',
+        message: 'This verification link is invalid or has expired. Please request a new one.',
+      });
+      return;
+    }
+
+    res.json({
+      message: 'Email verified successfully',
+      emailVerified: true,
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to verify email',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/verify-email/resend
+ * Send a new verification email (rate limited by a per-user cooldown)
+ */
+const resendVerificationHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, firstName: true, emailVerified: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.emailVerified) {
+      res.status(409).json({
+        error: 'Email already verified',
+        message: 'Your email address is already verified',
+      });
+      return;
+    }
+
+    const retryAfter = await EmailVerificationService.getResendCooldown(user.id);
+
+    if (retryAfter > 0) {
+      res.set('Retry-After', retryAfter.toString());
+      res.status(429).json({
+        error: 'Too many requests',
+        message: `Please wait ${retryAfter} seconds before requesting another email`,
+        retryAfter,
+      });
+      return;
+    }
+
+    await EmailVerificationService.sendVerification(user);
+
+    res.json({
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to send verification email',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token.
+ * Replaying an already-used refresh token revokes the whole session.
+ */
+const refreshHandler: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const validatedData = refreshSchema.parse(req.body);
+
+    const result = await SessionService.refresh(validatedData.refreshToken, getClientInfo(req));
+
+    if (result.status === 'reused') {
+      res.status(401).json({
+        error: 'Refresh token reused',
+        message: 'For your security this session has been signed out. Please sign in again.',
+      });
+      return;
+    }
+
+    if (result.status === 'invalid') {
+      res.status(401).json({
+        error: 'Invalid refresh token',
+        message: 'Your session has expired. Please sign in again.',
+      });
+      return;
+    }
+
+    res.json({
+      message: 'Session refreshed',
+      token: result.tokens.token,
+      refreshToken: result.tokens.refreshToken,
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to refresh session',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/biometric/devices
+ * Register this device's public key for biometric sign-in. Requires the account password.
+ */
+const registerBiometricDeviceHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const validatedData = registerBiometricDeviceSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { password: true },
+    });
+
+    if (!user || !(await comparePassword(validatedData.password, user.password))) {
+      res.status(400).json({
+        error: 'Invalid password',
+        message: 'Your password is incorrect',
+      });
+      return;
+    }
+
+    const deviceId = await BiometricAuthService.registerDevice(req.user.id, validatedData.publicKey, getClientInfo(req));
+
+    if (!deviceId) {
+      res.status(409).json({
+        error: 'Device already registered',
+        message: 'This key is already registered',
+      });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Biometric sign-in enabled for this device',
+      deviceId,
+    });
+  } catch (error) {
+    console.error('Register biometric device error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to register device',
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/auth/biometric/devices/:id
+ * Revoke a device key so it can no longer be used to sign in
+ */
+const revokeBiometricDeviceHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const revoked = await BiometricAuthService.revokeDevice(req.user.id, req.params.id);
+
+    if (!revoked) {
+      res.status(404).json({
+        error: 'Device not found',
+        message: 'This device is not registered for biometric sign-in',
+      });
+      return;
+    }
+
+    res.json({ message: 'Biometric sign-in disabled for this device' });
+  } catch (error) {
+    console.error('Revoke biometric device error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to revoke device',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/biometric/challenge
+ * Issue a single-use challenge for a registered device to sign
+ */
+const biometricChallengeHandler: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const validatedData = biometricChallengeSchema.parse(req.body);
+
+    const result = await BiometricAuthService.issueChallenge(validatedData.deviceId);
+
+    if (!result) {
+      res.status(404).json({
+        error: 'Device not registered',
+        message: 'Biometric sign-in is not set up for this device. Please sign in with your password.',
+      });
+      return;
+    }
+
+    res.json({
+      challenge: result.challenge,
+      expiresIn: BiometricAuthService.CHALLENGE_TTL_SECONDS,
+    });
+  } catch (error) {
+    console.error('Biometric challenge error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to issue challenge',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/biometric
+ * Sign in with a challenge signed by a registered device key
+ */
+const biometricLoginHandler: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const validatedData = biometricLoginSchema.parse(req.body);
+
+    const ipCheck = await LoginProtectionService.checkAttempt(null, req.ip);
+    if (ipCheck.status !== 'allowed') {
+      sendLoginBlocked(res, ipCheck);
+      return;
+    }
+
+    const verified = await BiometricAuthService.verifyChallenge(
+      validatedData.deviceId,
+      validatedData.challenge,
+      validatedData.signature
+    );
+
+    if (!verified) {
+      await LoginProtectionService.recordFailure(null, req.ip);
+      await auditLoginFailure(req, null, 'invalid_biometric_signature', { deviceId: validatedData.deviceId });
+      res.status(401).json({
+        error: 'Biometric verification failed',
+        message: 'Unable to verify this device. Please sign in with your password.',
+      });
+      return;
+    }
+
+    const { user } = verified;
+
+    const accountCheck = await LoginProtectionService.checkAttempt(user.id);
+    if (accountCheck.status === 'locked') {
+      await auditLoginFailure(req, user.id, 'locked');
+      sendLoginBlocked(res, accountCheck);
+      return;
+    }
+
+    await LoginProtectionService.resetAccount(user.id);
+
+    const { token, refreshToken } = await SessionService.createSession(user.id, user.email, getClientInfo(req));
+
+    await auditLogin(req, user.id, 'biometric');
+
+    res.json({
+      message: 'Login successful',
+      user: await toUserResponse(user),
+      token,
+      refreshToken,
+    });
+  } catch (error) {
+    console.error('Biometric login error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'An error occurred during login',
+    });
+  }
+};
+
+/**
+ * GET /api/v1/auth/me
+ * Get the canonical record of the signed-in user
+ */
+const meHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: currentUserSelect,
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({ user: await FieldEncryptionService.decryptFields(user, ['phone']) });
+  } catch (error) {
+    console.error('Get current user error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to load user',
+    });
+  }
+};
+
+/**
+ * GET /api/v1/auth/validate
+ * Check that the access token belongs to a live session, returning the current user
+ */
+const validateHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: currentUserSelect,
+    });
+
+    if (!user) {
+      res.status(401).json({ error: 'Invalid session' });
+      return;
+    }
+
+    res.json({
+      valid: true,
+      sessionId: req.sessionId,
+      user: await FieldEncryptionService.decryptFields(user, ['phone']),
+    });
+  } catch (error) {
+    console.error('Validate session error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to validate session',
+    });
+  }
+};
+
+/**
+ * GET /api/v1/auth/sessions
+ * List the devices signed in to the current user's account
+ */
+const listSessionsHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const sessions = await SessionService.listSessions(req.user.id, req.sessionId);
+
+    res.json({ sessions });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to list sessions',
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/auth/sessions/:id
+ * Sign out one of the current user's devices
+ */
+const revokeSessionHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const revoked = await SessionService.revokeUserSession(req.user.id, req.params.id);
+
+    if (!revoked) {
+      res.status(404).json({
+        error: 'Session not found',
+        message: 'This device is no longer signed in',
+      });
+      return;
+    }
+
+    res.json({
+      message: 'Device signed out',
+      current: req.params.id === req.sessionId,
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to sign out device',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/logout
+ * End the current session on the server
+ */
+const logoutHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.sessionId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    await SessionService.revokeSession(req.sessionId);
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to log out',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/auth/logout-all
+ * End every session of the current user, including this one
+ */
+const logoutAllHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const revokedCount = await SessionService.revokeAllSessions(req.user.id);
+
+    res.json({
+      message: 'Logged out of all devices',
+      revokedCount,
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to log out of all devices',
+    });
+  }
+};
+
 // Register routes
-router.post('/register', registerHandler);
-router.post('/login', loginHandler);
+router.post('/register', rateLimit(rateLimitPolicies.register), registerHandler);
+router.post('/login', rateLimit(rateLimitPolicies.login), loginHandler);
+router.post('/login/mfa', rateLimit(rateLimitPolicies.login), mfaLoginHandler);
+router.post('/refresh', refreshHandler);
+router.post('/biometric', rateLimit(rateLimitPolicies.login), biometricLoginHandler);
+router.post('/biometric/challenge', biometricChallengeHandler);
+router.post('/biometric/devices', authenticateToken, registerBiometricDeviceHandler);
+router.delete('/biometric/devices/:id', authenticateToken, revokeBiometricDeviceHandler);
+router.get('/me', authenticateToken, meHandler);
+router.get('/validate', authenticateToken, validateHandler);
+router.post('/logout', authenticateToken, logoutHandler);
+router.post('/logout-all', authenticateToken, logoutAllHandler);
+router.get('/sessions', authenticateToken, listSessionsHandler);
+router.delete('/sessions/:id', authenticateToken, revokeSessionHandler);
+router.post('/change-password', authenticateToken, changePasswordHandler);
+router.post('/forgot-password', forgotPasswordHandler);
+router.post('/reset-password', resetPasswordHandler);
+router.post('/verify-email', verifyEmailHandler);
+router.post('/verify-email/resend', authenticateToken, resendVerificationHandler);
+router.post('/mfa/enroll', authenticateToken, mfaEnrollHandler);
+router.post('/mfa/verify', authenticateToken, mfaVerifyHandler);
+router.post('/mfa/disable', authenticateToken, rateLimit(rateLimitPolicies.mfaCode), mfaDisableHandler);
+router.post('/mfa/recovery-codes', authenticateToken, rateLimit(rateLimitPolicies.mfaCode), mfaRecoveryCodesHandler);
 
 export default router;
\ No newline at end of file
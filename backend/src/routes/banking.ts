@@ -0,0 +1,103 @@
+import { Router, Response, RequestHandler } from 'express';
+import { BankDirectoryService } from '../services/bankDirectory';
+import { formatIban } from '../utils/iban';
+import { HONDURAN_BANKS } from '../utils/hondurasAccount';
+import { PayoutService, PAYOUT_METHODS, PAYOUT_COUNTRY_CURRENCIES, MOBILE_WALLET_PROVIDERS } from '../services/payout';
+import { PayoutMethod } from '../generated/prisma';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+
+const router = Router();
+
+// All banking routes require authentication
+router.use(authenticateToken);
+
+/**
+ * GET /api/v1/banking/iban/:iban/validate
+ * Check an IBAN (country, length, BBAN layout, mod-97 checksum) and resolve its bank and BIC.
+ * Invalid IBANs are a normal answer here, so they return 200 with valid: false.
+ */
+const validateIbanHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = BankDirectoryService.lookupIban(req.params.iban);
+
+    if (!result.valid) {
+      res.json(result);
+      return;
+    }
+
+    res.json({
+      ...result,
+      formatted: formatIban(result.iban),
+    });
+  } catch (error) {
+    console.error('Validate IBAN error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to validate IBAN',
+    });
+  }
+};
+
+/**
+ * GET /api/v1/banking/hn/banks
+ * Honduran banks we pay out to, with the account number lengths each accepts
+ */
+const getHonduranBanksHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const banks = Object.entries(HONDURAN_BANKS).map(([code, bank]) => ({ code, ...bank }));
+
+    res.json({ banks });
+  } catch (error) {
+    console.error('Get Honduran banks error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve banks',
+    });
+  }
+};
+
+/**
+ * GET /api/v1/banking/:country/payout-options
+ * Cash pickup locations and mobile wallet providers in a country, with each method's fees and arrival time
+ */
+const getPayoutOptionsHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const country = req.params.country.toUpperCase();
+    const currency = PAYOUT_COUNTRY_CURRENCIES[country];
+
+    if (!currency) {
+      res.status(404).json({
+        error: 'Not found',
+        message: `Cash pickup and mobile wallet payouts are not available in ${country}`,
+      });
+      return;
+    }
+
+    const method = (payoutMethod: PayoutMethod): { fee: { fixed: number; percentage: number }; arrival?: string } => ({
+      fee: PAYOUT_METHODS[payoutMethod].fee,
+      arrival: PAYOUT_METHODS[payoutMethod].arrival?.description,
+    });
+    const walletProviders = Object.entries(MOBILE_WALLET_PROVIDERS[country] ?? {})
+      .map(([code, provider]) => ({ code, ...provider }));
+
+    res.json({
+      country,
+      currency,
+      cashPickup: { ...method(PayoutMethod.CASH_PICKUP), locations: PayoutService.listLocations(country) },
+      mobileWallet: { ...method(PayoutMethod.MOBILE_WALLET), providers: walletProviders },
+    });
+  } catch (error) {
+    console.error('Get payout options error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve payout options',
+    });
+  }
+};
+
+// Register routes
+router.get('/iban/:iban/validate', validateIbanHandler);
+router.get('/hn/banks', getHonduranBanksHandler);
+router.get('/:country/payout-options', getPayoutOptionsHandler);
+
+export default router;
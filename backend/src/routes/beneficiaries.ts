@@ -0,0 +1,316 @@
+import { Router, Response, RequestHandler } from 'express';
+import { z } from 'zod';
+import { BeneficiaryService } from '../services/beneficiary';
+import { AuditService } from '../services/audit';
+import { ibanSchema } from '../utils/iban';
+import { validateHonduranAccount } from '../utils/hondurasAccount';
+import { CustomError } from '../middleware/errorHandler';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+
+const router = Router();
+
+// All beneficiary routes require authentication
+router.use(authenticateToken);
+
+// Validation schemas
+const optionalText = (max: number): z.ZodOptional<z.ZodNullable<z.ZodString>> => z.string().trim().max(max).nullable().optional();
+
+const beneficiarySchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required').max(100),
+  lastName: z.string().trim().min(1, 'Last name is required').max(100),
+  nickname: optionalText(50),
+  relationship: optionalText(50),
+  email: z.string().email('Invalid email address').nullable().optional(),
+  phone: optionalText(30),
+  bankName: z.string().trim().min(1, 'Bank name is required').max(100),
+  bankCode: optionalText(20),
+  iban: ibanSchema.nullable().optional(),
+  accountNumber: optionalText(34),
+  accountType: optionalText(30),
+  currency: z.string().length(3, 'Currency must be 3 characters').nullable().optional(),
+  address: optionalText(200),
+  city: optionalText(100),
+  state: optionalText(100),
+  country: z.string().length(2, 'Country must be 2 characters'),
+  postalCode: optionalText(20),
+});
+
+/**
+ * A beneficiary must be payable: it needs an IBAN or account number, and Honduran
+ * recipients (who have no IBAN) an account number that follows their bank's rules
+ */
+function checkAccountDetails(
+  data: { iban?: string | null; accountNumber?: string | null; accountType?: string | null; bankCode?: string | null },
+  ctx: z.RefinementCtx
+): void {
+  if (!data.iban && !data.accountNumber) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'An IBAN or account number is required',
+      path: ['iban'],
+    });
+  }
+
+  if (data.accountType !== 'honduras_local') {
+    return;
+  }
+
+  const result = validateHonduranAccount(data.bankCode ?? '', data.accountNumber ?? '');
+  if (!result.valid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: result.message,
+      path: [result.error === 'unknown_bank' ? 'bankCode' : 'accountNumber'],
+    });
+  }
+}
+
+const createBeneficiarySchema = beneficiarySchema.superRefine(checkAccountDetails);
+
+const updateBeneficiarySchema = beneficiarySchema.partial();
+
+// An update is checked against the beneficiary it leaves behind, so it cannot remove what create requires
+const updatedAccountDetailsSchema = z.object({
+  iban: z.string().nullable().optional(),
+  accountNumber: z.string().nullable().optional(),
+  accountType: z.string().nullable().optional(),
+  bankCode: z.string().nullable().optional(),
+}).superRefine(checkAccountDetails);
+
+const listQuerySchema = z.object({
+  search: z.string().trim().min(1).max(100).optional(),
+  iban: z.string().trim().min(15).max(42).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+function sendValidationError(res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    error: 'Validation error',
+    details: error.errors.map(e => ({
+      field: e.path.join('.'),
+      message: e.message,
+    })),
+  });
+}
+
+// An active beneficiary with this IBAN already exists; answer with it (the one being updated aside)
+async function sendDuplicateIban(res: Response, userId: string, iban: string, excludeId?: string): Promise<void> {
+  res.status(409).json({
+    error: 'Beneficiary already exists',
+    message: 'You have already saved a recipient with this IBAN',
+    beneficiary: await BeneficiaryService.findByIban(userId, iban, excludeId),
+  });
+}
+
+/**
+ * GET /api/v1/beneficiaries
+ * List the user's saved recipients, most recently paid first. ?iban= finds the one saved with that IBAN.
+ */
+const listBeneficiariesHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const query = listQuerySchema.parse(req.query);
+    const { beneficiaries, total } = await BeneficiaryService.list(req.user!.id, query);
+
+    res.json({
+      beneficiaries,
+      pagination: {
+        limit: query.limit,
+        offset: query.offset,
+        total,
+      },
+    });
+  } catch (error) {
+    console.error('List beneficiaries error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch beneficiaries',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/beneficiaries
+ * Save a recipient. An IBAN the user has already saved is rejected with the existing beneficiary.
+ */
+const createBeneficiaryHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const input = createBeneficiarySchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const beneficiary = await BeneficiaryService.create(userId, input);
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'beneficiary.created',
+      userId,
+      subjectType: 'beneficiary',
+      subjectId: beneficiary.id,
+      metadata: {
+        country: beneficiary.country,
+        currency: beneficiary.currency,
+      },
+    });
+
+    res.status(201).json({
+      message: 'Beneficiary saved successfully',
+      beneficiary,
+    });
+  } catch (error) {
+    console.error('Create beneficiary error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    if (error instanceof CustomError && error.statusCode === 409) {
+      await sendDuplicateIban(res, req.user!.id, req.body.iban);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to save beneficiary',
+    });
+  }
+};
+
+/**
+ * GET /api/v1/beneficiaries/:id
+ * Get a saved recipient
+ */
+const getBeneficiaryHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const beneficiary = await BeneficiaryService.get(req.user!.id, req.params.id);
+
+    if (!beneficiary) {
+      res.status(404).json({
+        error: 'Beneficiary not found',
+        message: 'Beneficiary not found',
+      });
+      return;
+    }
+
+    res.json({ beneficiary });
+  } catch (error) {
+    console.error('Get beneficiary error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch beneficiary',
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/beneficiaries/:id
+ * Update a saved recipient, e.g. its nickname or relationship
+ */
+const updateBeneficiaryHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const changes = updateBeneficiarySchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const current = await BeneficiaryService.get(userId, id);
+    if (current) {
+      updatedAccountDetailsSchema.parse({ ...current, ...changes });
+    }
+
+    const result = current ? await BeneficiaryService.update(userId, id, changes) : null;
+
+    if (!result) {
+      res.status(404).json({
+        error: 'Beneficiary not found',
+        message: 'Beneficiary not found',
+      });
+      return;
+    }
+
+    // Banking identifiers are audited as changed, never by value
+    const { iban, accountNumber, phone, ...auditedChanges } = changes;
+    const changedSecrets = Object.entries({ iban, accountNumber, phone })
+      .filter(([, value]) => value !== undefined)
+      .map(([field]) => field);
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'beneficiary.updated',
+      userId,
+      subjectType: 'beneficiary',
+      subjectId: id,
+      changes: AuditService.diff(result.before, auditedChanges),
+      metadata: changedSecrets.length > 0 ? { changedFields: changedSecrets } : undefined,
+    });
+
+    res.json({
+      message: 'Beneficiary updated successfully',
+      beneficiary: result.after,
+    });
+  } catch (error) {
+    console.error('Update beneficiary error:', error);
+
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    if (error instanceof CustomError && error.statusCode === 409) {
+      await sendDuplicateIban(res, req.user!.id, req.body.iban, req.params.id);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to update beneficiary',
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/beneficiaries/:id
+ * Remove a saved recipient; transfers already sent to it are kept
+ */
+const deleteBeneficiaryHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const removed = await BeneficiaryService.remove(userId, id);
+
+    if (!removed) {
+      res.status(404).json({
+        error: 'Beneficiary not found',
+        message: 'Beneficiary not found',
+      });
+      return;
+    }
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'beneficiary.deleted',
+      userId,
+      subjectType: 'beneficiary',
+      subjectId: id,
+    });
+
+    res.json({ message: 'Beneficiary removed successfully' });
+  } catch (error) {
+    console.error('Delete beneficiary error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to remove beneficiary',
+    });
+  }
+};
+
+// Register routes
+router.get('/', listBeneficiariesHandler);
+router.post('/', createBeneficiaryHandler);
+router.get('/:id', getBeneficiaryHandler);
+router.patch('/:id', updateBeneficiaryHandler);
+router.delete('/:id', deleteBeneficiaryHandler);
+
+export default router;
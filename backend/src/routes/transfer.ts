@@ -1,7 +1,27 @@
 import { Router, Response, RequestHandler } from 'express';
 import { z } from 'zod';
+import { prisma } from '../config/database';
 import { transferService } from '../services/transfer';
+import { TransferAuthorizationService, type TransferBinding } from '../services/transferAuthorization';
+import { MfaService } from '../services/mfa';
+import { BiometricAuthService } from '../services/biometricAuth';
+import { AuditService } from '../services/audit';
+import { PayoutService } from '../services/payout';
+import { PayoutMethod } from '../generated/prisma';
+import { comparePassword } from '../utils/password';
+import { ibanSchema } from '../utils/iban';
+import {
+  HONDURAS_CORRIDOR,
+  isHonduranCorridorSource,
+  normalizeHonduranAccountNumber,
+  validateHonduranAccount,
+} from '../utils/hondurasAccount';
+import { CustomError } from '../middleware/errorHandler';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { rateLimit, rateLimitPolicies } from '../middleware/rateLimit';
+import { idempotent, type ReplayTransfer } from '../middleware/idempotency';
+import { requireVerifiedEmailAbove, type PolicyAmount } from '../middleware/policies';
+import type { Transfer } from '../types/transfer';
 
 const router = Router();
 
@@ -11,45 +31,283 @@ router.use(authenticateToken);
 // Validation schemas
 const quoteRequestSchema = z.object({
   sourceAccountId: z.string().min(1, 'Source account ID is required'),
-  targetCurrency: z.string().length(3, 'Target currency must be 3 characters'),
+  targetCurrency: z.string().length(3, 'Target currency must be 3 characters').transform(currency => currency.toUpperCase()),
   targetCountry: z.string().length(2, 'Target country must be 2 characters'),
   amount: z.number().min(1, 'Amount must be greater than 0').max(1000000, 'Amount too large'),
-  sourceCurrency: z.string().length(3, 'Source currency must be 3 characters'),
+  sourceCurrency: z.string().length(3, 'Source currency must be 3 characters').transform(currency => currency.toUpperCase()),
   type: z.enum(['BALANCE_PAYOUT', 'BANK_TRANSFER']),
+  payoutMethod: z.nativeEnum(PayoutMethod).optional(),
+}).refine(data => data.targetCurrency !== HONDURAS_CORRIDOR.currency || isHonduranCorridorSource(data.sourceCurrency), {
+  message: `${HONDURAS_CORRIDOR.currency} transfers can be sent from ${HONDURAS_CORRIDOR.sourceCurrencies.join(' or ')} only`,
+  path: ['sourceCurrency'],
 });
 
+const recipientAccountSchema = z.object({
+  type: z.enum(['iban', 'sort_code', 'routing_number', 'honduras_local', 'cash_pickup', 'mobile_wallet']),
+  iban: ibanSchema.optional(),
+  accountNumber: z.string().optional(),
+  sortCode: z.string().optional(),
+  routingNumber: z.string().optional(),
+  bankCode: z.string().optional(),
+  pickupLocationId: z.string().optional(),
+  recipientIdDocument: z.object({
+    type: z.enum(['national_id', 'passport']),
+    number: z.string().min(1, 'ID document number is required').max(30),
+  }).optional(),
+  phoneNumber: z.string().max(30).optional(),
+  walletProvider: z.string().max(30).optional(),
+  currency: z.string().length(3).transform(currency => currency.toUpperCase()),
+  country: z.string().length(2),
+  holderName: z.string().min(1, 'Account holder name is required'),
+  bankName: z.string().optional(),
+}).refine((data) => {
+  // Validate that required fields are present based on type
+  if (data.type === 'iban' && !data.iban) {
+    return false;
+  }
+  if (data.type === 'sort_code' && (!data.accountNumber || !data.sortCode)) {
+    return false;
+  }
+  if (data.type === 'routing_number' && (!data.accountNumber || !data.routingNumber)) {
+    return false;
+  }
+  if (data.type === 'honduras_local' && (!data.accountNumber || !data.bankCode)) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Required account details missing for the specified account type',
+}).superRefine((data, ctx) => {
+  // Honduran accounts are checked against their bank's account number rules
+  if (data.type !== 'honduras_local' || !data.accountNumber || !data.bankCode) {
+    return;
+  }
+
+  if (data.currency !== HONDURAS_CORRIDOR.currency || data.country !== HONDURAS_CORRIDOR.country) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Honduran local accounts receive ${HONDURAS_CORRIDOR.currency} in ${HONDURAS_CORRIDOR.country}`,
+      path: ['currency'],
+    });
+  }
+
+  const result = validateHonduranAccount(data.bankCode, data.accountNumber);
+  if (!result.valid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: result.message,
+      path: [result.error === 'unknown_bank' ? 'bankCode' : 'accountNumber'],
+    });
+  }
+}).superRefine((data, ctx) => {
+  // Cash pickup and mobile wallet recipients need a pickup location or wallet in a payout country
+  for (const issue of PayoutService.validateRecipient(data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: issue.path.split('.') });
+  }
+}).transform(data => (data.type === 'honduras_local' && data.accountNumber && data.bankCode
+  ? { ...data, bankCode: data.bankCode.trim().toUpperCase(), accountNumber: normalizeHonduranAccountNumber(data.accountNumber) }
+  : data));
+
 const createTransferSchema = z.object({
   quoteId: z.string().min(1, 'Quote ID is required'),
   targetAccountId: z.string().optional(),
-  recipientAccount: z.object({
-    type: z.enum(['iban', 'sort_code', 'routing_number']),
-    iban: z.string().min(1, 'IBAN is required').optional(),
-    accountNumber: z.string().optional(),
-    sortCode: z.string().optional(),
-    routingNumber: z.string().optional(),
-    currency: z.string().length(3),
-    country: z.string().length(2),
-    holderName: z.string().min(1, 'Account holder name is required'),
-    bankName: z.string().optional(),
-  }).refine((data) => {
-    // Validate that required fields are present based on type
-    if (data.type === 'iban' && !data.iban) {
-      return false;
-    }
-    if (data.type === 'sort_code' && (!data.accountNumber || !data.sortCode)) {
-      return false;
-    }
-    if (data.type === 'routing_number' && (!data.accountNumber || !data.routingNumber)) {
-      return false;
-    }
-    return true;
-  }, {
-    message: 'Required account details missing for the specified account type',
-  }),
+  recipientAccount: recipientAccountSchema,
   reference: z.string().max(100).optional(),
   description: z.string().max(500).optional(),
+  // Step-up token from POST /transfer/authorization; required above the SCA threshold or for new recipients
+  authorizationToken: z.string().min(1).optional(),
+});
+
+// The transfer a step-up token is for. The recipient is an IBAN (POST /wise/transfers) or the
+// recipientAccount of POST /transfer/create, whose amount and currency are the quote's source amount.
+const transferBindingSchema = z.object({
+  amount: z.number().min(0.01, 'Amount must be greater than 0').max(1000000, 'Amount too large'),
+  currency: z.string().length(3, 'Currency must be 3 characters').transform(currency => currency.toUpperCase()),
+  recipientIban: ibanSchema.optional(),
+  recipientAccount: recipientAccountSchema.optional(),
+});
+
+const hasOneRecipient = (data: z.infer<typeof transferBindingSchema>): boolean =>
+  (data.recipientIban === undefined) !== (data.recipientAccount === undefined);
+
+const ONE_RECIPIENT_ERROR = {
+  message: 'Provide either recipientIban or recipientAccount',
+  path: ['recipientIban'],
+};
+
+const toTransferBinding = (data: z.infer<typeof transferBindingSchema>): TransferBinding => ({
+  amount: data.amount,
+  currency: data.currency,
+  recipient: data.recipientAccount ?? { type: 'iban', iban: data.recipientIban },
 });
 
+const authorizeTransferSchema = z.discriminatedUnion('method', [
+  transferBindingSchema.extend({
+    method: z.literal('totp'),
+    code: z.string().min(1, 'Code is required'),
+  }),
+  transferBindingSchema.extend({
+    method: z.literal('biometric'),
+    deviceId: z.string().min(1, 'Device ID is required'),
+    challenge: z.string().min(1, 'Challenge is required'),
+    signature: z.string().min(1, 'Signature is required'),
+  }),
+  transferBindingSchema.extend({
+    method: z.literal('password'),
+    password: z.string().min(1, 'Password is required'),
+  }),
+]).refine(hasOneRecipient, ONE_RECIPIENT_ERROR);
+
+type AuthorizeTransferRequest = z.infer<typeof authorizeTransferSchema>;
+
+// Quote errors from transferService, and what to tell the user about them
+const QUOTE_ERROR_MESSAGES: Record<string, string> = {
+  'Source account not found': 'The source account does not exist or is not active',
+  'Quote not found': 'The quote does not exist or was issued to another user',
+  'Quote expired': 'The quote has expired. Refresh it to get the current rate',
+  'Quote already used': 'A transfer has already been created from this quote',
+  'Quote mismatch': 'The request does not match the terms of the quote',
+  'Currency pair not supported': 'Transfers between these currencies are not available',
+};
+
+/**
+ * Respond with a quote error, if the error is one
+ */
+function sendQuoteError(res: Response, error: unknown): boolean {
+  if (!(error instanceof CustomError) || !(error.message in QUOTE_ERROR_MESSAGES)) {
+    return false;
+  }
+
+  res.status(error.statusCode).json({
+    error: error.message,
+    message: QUOTE_ERROR_MESSAGES[error.message],
+    details: error.details,
+  });
+  return true;
+}
+
+/**
+ * Check the step-up factor the user presented for a transfer
+ */
+async function verifyStepUpFactor(userId: string, data: AuthorizeTransferRequest): Promise<boolean> {
+  if (data.method === 'biometric') {
+    const verified = await BiometricAuthService.verifyChallenge(data.deviceId, data.challenge, data.signature);
+    return verified?.user.id === userId;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, password: true, mfaEnabled: true, mfaSecret: true, mfaLastUsedStep: true },
+  });
+
+  if (!user) {
+    return false;
+  }
+
+  if (data.method === 'totp') {
+    return user.mfaEnabled && await MfaService.consumeTotpCode(user, data.code);
+  }
+
+  return comparePassword(data.password, user.password);
+}
+
+/**
+ * POST /api/v1/transfer/authorization/check
+ * Tell the app whether a transfer needs a step-up check before it is submitted
+ */
+const checkTransferAuthorizationHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = transferBindingSchema.refine(hasOneRecipient, ONE_RECIPIENT_ERROR).parse(req.body);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'User ID not found',
+      });
+      return;
+    }
+
+    const requirement = await TransferAuthorizationService.getRequirement(userId, toTransferBinding(validatedData));
+
+    res.json(requirement);
+  } catch (error) {
+    console.error('Transfer authorization check error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to check transfer authorization',
+    });
+  }
+};
+
+/**
+ * POST /api/v1/transfer/authorization
+ * Complete a step-up check (TOTP code, biometric signature or password) and
+ * receive a single-use token for a transfer of this amount to this recipient
+ */
+const authorizeTransferHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = authorizeTransferSchema.parse(req.body);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'User ID not found',
+      });
+      return;
+    }
+
+    const isVerified = await verifyStepUpFactor(userId, validatedData);
+
+    if (!isVerified) {
+      res.status(401).json({
+        error: 'Step-up verification failed',
+        message: 'The verification you provided is invalid. Please try again.',
+      });
+      return;
+    }
+
+    const authorization = await TransferAuthorizationService.issue(userId, toTransferBinding(validatedData), validatedData.method);
+
+    res.status(201).json({
+      message: 'Transfer authorized',
+      authorizationToken: authorization.token,
+      expiresIn: TransferAuthorizationService.TOKEN_TTL_SECONDS,
+    });
+  } catch (error) {
+    console.error('Transfer authorization error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to authorize transfer',
+    });
+  }
+};
+
 /**
  * POST /api/v1/transfer/quote
  * Get transfer quote with fees and exchange rate
@@ -67,7 +325,7 @@ const createQuoteHandler: RequestHandler = async (req: AuthRequest, res: Respons
       return;
     }
 
-    const quote = await transferService.createQuote(validatedData);
+    const quote = await transferService.createQuote(validatedData, userId);
 
     res.json({
       message: 'Quote generated successfully',
@@ -87,6 +345,10 @@ const createQuoteHandler: RequestHandler = async (req: AuthRequest, res: Respons
       return;
     }
 
+    if (sendQuoteError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to generate quote',
@@ -94,9 +356,47 @@ const createQuoteHandler: RequestHandler = async (req: AuthRequest, res: Respons
   }
 };
 
+/**
+ * POST /api/v1/transfer/quote/:id/refresh
+ * Re-price an expired quote at the current rate; a quote that is still valid comes back unchanged
+ */
+const refreshQuoteHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'User ID not found',
+      });
+      return;
+    }
+
+    const quote = await transferService.refreshQuote(id, userId);
+
+    res.json({
+      message: quote.id === id ? 'Quote is still valid' : 'Quote refreshed successfully',
+      quote,
+    });
+  } catch (error) {
+    console.error('Quote refresh error:', error);
+
+    if (sendQuoteError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to refresh quote',
+    });
+  }
+};
+
 /**
  * POST /api/v1/transfer/create
- * Execute a transfer based on a quote
+ * Execute a transfer based on a quote from POST /transfer/quote; each quote can be used once, before it expires.
+ * Transfers that need Strong Customer Authentication must carry a matching authorizationToken.
  */
 const createTransferHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
   try {
@@ -111,7 +411,58 @@ const createTransferHandler: RequestHandler = async (req: AuthRequest, res: Resp
       return;
     }
 
-    const transfer = await transferService.executeTransfer(validatedData, userId);
+    // The step-up check covers the quoted amount; unknown quotes are reported by executeTransfer
+    const quote = await prisma.transferQuote.findFirst({
+      where: { id: validatedData.quoteId, userId },
+      select: { sourceAmount: true, sourceCurrency: true },
+    });
+    const binding: TransferBinding | null = quote
+      ? { amount: Number(quote.sourceAmount), currency: quote.sourceCurrency, recipient: validatedData.recipientAccount }
+      : null;
+    const stepUp = binding ? await TransferAuthorizationService.getRequirement(userId, binding) : null;
+
+    if (binding && stepUp?.required) {
+      const isAuthorized = validatedData.authorizationToken
+        ? await TransferAuthorizationService.consume(userId, validatedData.authorizationToken, binding)
+        : false;
+
+      if (!isAuthorized) {
+        res.status(403).json({
+          error: validatedData.authorizationToken ? 'Invalid transfer authorization' : 'Step-up authentication required',
+          message: validatedData.authorizationToken
+            ? 'The transfer authorization is invalid, expired or was issued for a different transfer'
+            : 'Please confirm this transfer with your authenticator code, biometrics or password',
+          reason: stepUp.reason,
+          methods: stepUp.methods,
+        });
+        return;
+      }
+    }
+
+    // The step-up token was spent above so a concurrent request can't reuse it; if no transfer
+    // was created, give it back for the retry
+    let transfer: Transfer;
+    try {
+      transfer = await transferService.executeTransfer(validatedData, userId, req.idempotencyKey);
+    } catch (error) {
+      if (stepUp?.required && validatedData.authorizationToken) {
+        await TransferAuthorizationService.release(userId, validatedData.authorizationToken);
+      }
+      throw error;
+    }
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'transfer.created',
+      userId,
+      subjectType: 'transfer',
+      subjectId: transfer.id,
+      metadata: {
+        amount: transfer.sourceAmount,
+        currency: transfer.sourceCurrency,
+        recipientName: transfer.recipient?.name,
+        stepUp: stepUp?.reason ?? null,
+      },
+    });
 
     res.status(201).json({
       message: 'Transfer created successfully',
@@ -131,6 +482,19 @@ const createTransferHandler: RequestHandler = async (req: AuthRequest, res: Resp
       return;
     }
 
+    if (error instanceof CustomError && error.statusCode === 422) {
+      res.status(422).json({
+        error: 'Insufficient funds',
+        message: 'Your available balance does not cover this transfer and its fees',
+        details: error.details,
+      });
+      return;
+    }
+
+    if (sendQuoteError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to create transfer',
@@ -280,6 +644,11 @@ const getExchangeRateHandler: RequestHandler = async (req: AuthRequest, res: Res
     });
   } catch (error) {
     console.error('Get exchange rate error:', error);
+
+    if (sendQuoteError(res, error)) {
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to retrieve exchange rate',
@@ -287,9 +656,40 @@ const getExchangeRateHandler: RequestHandler = async (req: AuthRequest, res: Res
   }
 };
 
+// Amount of a transfer created from a quote: the quoted source amount
+const quotedTransferAmount = async (req: AuthRequest): Promise<PolicyAmount | null> => {
+  const quoteId = req.body?.quoteId;
+  if (!req.user || typeof quoteId !== 'string') {
+    return null;
+  }
+
+  const quote = await prisma.transferQuote.findFirst({
+    where: { id: quoteId, userId: req.user.id },
+    select: { sourceAmount: true, sourceCurrency: true },
+  });
+
+  return quote ? { amount: Number(quote.sourceAmount), currency: quote.sourceCurrency } : null;
+};
+
+// Response of a transfer whose request stopped before answering, for retries of it
+const replayCreatedTransfer: ReplayTransfer = async (req, transferId) => {
+  const transfer = req.user ? await transferService.getTransfer(transferId, req.user.id) : null;
+  return transfer ? { status: 201, body: { message: 'Transfer created successfully', transfer } } : null;
+};
+
 // Register routes
+router.post('/authorization/check', checkTransferAuthorizationHandler);
+router.post('/authorization', rateLimit(rateLimitPolicies.transferAuthorize), authorizeTransferHandler);
 router.post('/quote', createQuoteHandler);
-router.post('/create', createTransferHandler);
+router.post('/quote/:id/refresh', refreshQuoteHandler);
+// Replays of a created transfer are answered before the rate limit counts them
+router.post(
+  '/create',
+  idempotent('transfer.create', replayCreatedTransfer),
+  rateLimit(rateLimitPolicies.transferCreate),
+  requireVerifiedEmailAbove(quotedTransferAmount),
+  createTransferHandler
+);
 router.get('/history', getTransferHistoryHandler);
 router.get('/rates/:source/:target', getExchangeRateHandler);
 router.get('/:id', getTransferHandler);
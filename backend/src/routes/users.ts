@@ -1,8 +1,12 @@
 import { Router, RequestHandler } from 'express';
 import { prisma } from '../config/database';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { rateLimit, rateLimitPolicies } from '../middleware/rateLimit';
 import { z } from 'zod';
 import { UserSearchService } from '../services/userSearch';
+import { MfaRecoveryService } from '../services/mfaRecovery';
+import { AuditService } from '../services/audit';
+import { FieldEncryptionService } from '../services/encryption';
 
 const router = Router();
 
@@ -27,6 +31,11 @@ const updateProfileSchema = z.object({
   isSearchable: z.boolean().optional(),
 });
 
+const activityQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(20),
+  offset: z.coerce.number().min(0).default(0),
+});
+
 /**
  * Enterprise-grade user search with optimized performance
  * Features:
@@ -161,6 +170,7 @@ const getProfile: RequestHandler = async (req: AuthRequest, res) => {
         emailVerified: true,
         phoneVerified: true,
         kycStatus: true,
+        mfaEnabled: true,
         createdAt: true,
       }
     });
@@ -172,11 +182,17 @@ const getProfile: RequestHandler = async (req: AuthRequest, res) => {
       return;
     }
     
+    const recoveryCodesRemaining = user.mfaEnabled
+      ? await MfaRecoveryService.countRemaining(userId)
+      : 0;
+    
     res.json({
       success: true,
       user: {
         ...user,
+        phone: await FieldEncryptionService.decrypt(user.phone),
         displayName: user.displayName || `${user.firstName} ${user.lastName}`,
+        recoveryCodesRemaining,
       }
     });
     
@@ -222,6 +238,11 @@ const updateProfile: RequestHandler = async (req: AuthRequest, res) => {
       }
     }
     
+    const previousProfile = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { username: true, displayName: true, isSearchable: true },
+    });
+    
     // Update user profile
     const updatedUser = await prisma.user.update({
       where: { id: userId },
@@ -243,11 +264,23 @@ const updateProfile: RequestHandler = async (req: AuthRequest, res) => {
       }
     });
     
+    const changes = AuditService.diff(previousProfile ?? {}, updateData);
+    if (Object.keys(changes).length > 0) {
+      await AuditService.record(AuditService.contextFrom(req), {
+        action: 'user.profile_updated',
+        userId,
+        subjectType: 'user',
+        subjectId: userId,
+        changes,
+      });
+    }
+    
     res.json({
       success: true,
       message: 'Profile updated successfully',
       user: {
         ...updatedUser,
+        phone: await FieldEncryptionService.decrypt(updatedUser.phone),
         displayName: updatedUser.displayName || `${updatedUser.firstName} ${updatedUser.lastName}`,
       }
     });
@@ -260,6 +293,54 @@ const updateProfile: RequestHandler = async (req: AuthRequest, res) => {
   }
 };
 
+/**
+ * Get the current user's security and account activity, newest first
+ * Query parameters: &limit=20&offset=0
+ */
+const getActivity: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    
+    const validation = activityQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid pagination parameters',
+        details: validation.error.errors
+      });
+      return;
+    }
+    
+    const { limit, offset } = validation.data;
+    const events = await AuditService.listForUser(userId, limit, offset);
+    
+    res.json({
+      success: true,
+      events: events.map(event => ({
+        id: event.id,
+        action: event.action,
+        subjectType: event.subjectType,
+        subjectId: event.subjectId,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        changes: event.changes,
+        metadata: event.metadata,
+        createdAt: event.createdAt,
+      })),
+      pagination: {
+        limit,
+        offset,
+        hasMore: events.length === limit,
+      }
+    });
+    
+  } catch (error) {
+    console.error('Get activity error:', error);
+    res.status(500).json({
+      error: 'Failed to get account activity'
+    });
+  }
+};
+
 /**
  * Get user by ID for transfers (with IBAN information)
  * This endpoint returns user information including their primary account IBAN
@@ -342,8 +423,8 @@ const getUserById: RequestHandler = async (req: AuthRequest, res) => {
           id: primaryAccount.id,
           currency: primaryAccount.currency,
           country: primaryAccount.country,
-          iban: primaryAccount.iban,
-          accountNumber: primaryAccount.accountNumber,
+          iban: await FieldEncryptionService.decrypt(primaryAccount.iban),
+          accountNumber: await FieldEncryptionService.decrypt(primaryAccount.accountNumber),
           name: primaryAccount.name,
         }
       }
@@ -357,9 +438,10 @@ const getUserById: RequestHandler = async (req: AuthRequest, res) => {
   }
 };
 
-router.get('/search', authenticateToken, searchUsers);
+router.get('/search', authenticateToken, rateLimit(rateLimitPolicies.userSearch), searchUsers);
 router.get('/profile', authenticateToken, getProfile);
 router.patch('/profile', authenticateToken, updateProfile);
+router.get('/me/activity', authenticateToken, getActivity);
 router.get('/:id', authenticateToken, getUserById);
 
 export default router;
\ No newline at end of file
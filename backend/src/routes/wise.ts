@@ -3,7 +3,19 @@ import { z } from 'zod';
 import { prisma } from '../config/database';
 import { wiseService } from '../services/wise';
 import { transferService } from '../services/transfer';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { TransferAuthorizationService } from '../services/transferAuthorization';
+import { AuditService } from '../services/audit';
+import { BeneficiaryService } from '../services/beneficiary';
+import { FieldEncryptionService } from '../services/encryption';
+import { PayoutService } from '../services/payout';
+import { LedgerService } from '../services/ledger';
+import { ibanSchema } from '../utils/iban';
+import { CustomError } from '../middleware/errorHandler';
+import { authenticateToken, authorize, AuthRequest } from '../middleware/auth';
+import { requireVerifiedEmailAbove, type PolicyAmount } from '../middleware/policies';
+import { idempotent, type ReplayTransfer } from '../middleware/idempotency';
+import { rateLimit, rateLimitPolicies } from '../middleware/rateLimit';
+import type { Transfer } from '../types/transfer';
 
 const router = Router();
 
@@ -147,13 +159,46 @@ const createAccountHandler: RequestHandler = async (req: AuthRequest, res: Respo
       return;
     }
 
-    // Create account through Wise API with real profile creation
-    const createResult = await wiseService.createAccount({
+    // Create account through Wise API with real profile creation; an IBAN another account
+    // already holds is rejected by the database and the account created again
+    const createResult = await wiseService.createAccountWithUniqueIban({
       userId,
       currency: validatedData.currency,
       country: validatedData.country,
       type: validatedData.type,
       name: validatedData.name,
+    }, async (wiseAccount) => {
+      // Get account details including IBAN
+      const detailsResult = await wiseService.getAccountDetails(wiseAccount.profile, wiseAccount.id);
+      const iban = wiseAccount.iban || detailsResult.data?.iban;
+      const accountNumber = wiseAccount.account_number || detailsResult.data?.account_number;
+
+      // Store account in database
+      const account = await prisma.wiseAccount.create({
+        data: {
+          userId,
+          wiseAccountId: wiseAccount.id,
+          wiseProfileId: wiseAccount.profile,
+          currency: validatedData.currency,
+          country: validatedData.country,
+          accountType: validatedData.type,
+          name: validatedData.name,
+          status: wiseAccount.status,
+          iban: await FieldEncryptionService.encrypt(iban),
+          ibanIndex: FieldEncryptionService.blindIndex('iban', iban),
+          accountNumber: await FieldEncryptionService.encrypt(accountNumber),
+          accountNumberIndex: FieldEncryptionService.blindIndex('account_number', accountNumber),
+          sortCode: wiseAccount.sort_code || detailsResult.data?.sort_code,
+          routingNumber: detailsResult.data?.routing_number,
+          bic: detailsResult.data?.bic,
+          bankName: detailsResult.data?.bank_name,
+          bankAddress: detailsResult.data?.bank_address,
+          lastBalance: wiseAccount.balance.amount,
+          balanceUpdatedAt: new Date(),
+        },
+      });
+
+      return { account, iban, accountNumber };
     });
     
     if (!createResult.success) {
@@ -164,31 +209,20 @@ const createAccountHandler: RequestHandler = async (req: AuthRequest, res: Respo
       return;
     }
     
-    const wiseAccount = createResult.data!;
-    
-    // Get account details including IBAN
-    const detailsResult = await wiseService.getAccountDetails(wiseAccount.profile, wiseAccount.id);
-    
-    // Store account in database
-    const savedAccount = await prisma.wiseAccount.create({
-      data: {
-        userId,
-        wiseAccountId: wiseAccount.id,
-        wiseProfileId: wiseAccount.profile,
-        currency: validatedData.currency,
-        country: validatedData.country,
-        accountType: validatedData.type,
-        name: validatedData.name,
-        status: wiseAccount.status,
-        iban: wiseAccount.iban || detailsResult.data?.iban,
-        accountNumber: wiseAccount.account_number || detailsResult.data?.account_number,
-        sortCode: wiseAccount.sort_code || detailsResult.data?.sort_code,
-        routingNumber: detailsResult.data?.routing_number,
-        bic: detailsResult.data?.bic,
-        bankName: detailsResult.data?.bank_name,
-        bankAddress: detailsResult.data?.bank_address,
-        lastBalance: wiseAccount.balance.amount,
-        balanceUpdatedAt: new Date(),
+    const { account: savedAccount, iban, accountNumber } = createResult.data!;
+
+    // Open the account's ledger with its starting balance
+    await LedgerService.customerAccount(prisma, savedAccount);
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'account.created',
+      userId,
+      subjectType: 'wise_account',
+      subjectId: savedAccount.id,
+      metadata: {
+        currency: savedAccount.currency,
+        country: savedAccount.country,
+        type: savedAccount.accountType,
       },
     });
     
@@ -201,8 +235,8 @@ const createAccountHandler: RequestHandler = async (req: AuthRequest, res: Respo
         type: savedAccount.accountType,
         name: savedAccount.name,
         status: savedAccount.status,
-        iban: savedAccount.iban,
-        accountNumber: savedAccount.accountNumber,
+        iban: iban ?? null,
+        accountNumber: accountNumber ?? null,
         sortCode: savedAccount.sortCode,
         routingNumber: savedAccount.routingNumber,
         bic: savedAccount.bic,
@@ -271,7 +305,9 @@ const getAccountsHandler: RequestHandler = async (req: AuthRequest, res: Respons
     
     res.json({
       message: 'Accounts retrieved successfully',
-      accounts,
+      accounts: await Promise.all(
+        accounts.map(account => FieldEncryptionService.decryptFields(account, ['iban', 'accountNumber']))
+      ),
     });
   } catch (error) {
     console.error('Get accounts error:', error);
@@ -309,12 +345,15 @@ const getBalanceHandler: RequestHandler = async (req: AuthRequest, res: Response
       return;
     }
     
-    // Return cached balance (sandbox mode)
+    // Return the ledger balance (sandbox mode)
+    const ledgerBalance = await LedgerService.getBalance(account);
     res.json({
       message: 'Balance retrieved successfully',
       balance: {
-        amount: account.lastBalance,
+        amount: ledgerBalance.available,
         currency: account.currency,
+        reservedAmount: ledgerBalance.reserved,
+        totalAmount: ledgerBalance.balance,
         updatedAt: account.balanceUpdatedAt,
         cached: true,
         accountId: account.id,
@@ -359,15 +398,18 @@ const getAccountBalanceHandler: RequestHandler = async (req: AuthRequest, res: R
     // because transfers are simulated locally and not reflected in Wise sandbox
     
     // Try to get fresh balance from Wise API, but don't overwrite our local balance
-    const balanceResult = await wiseService.getAccountBalance(account.wiseProfileId, account.currency);
+    const balanceResult = await wiseService.getAccountBalance(account);
     
     if (!balanceResult.success || process.env.NODE_ENV === 'development') {
-      // Return cached balance for sandbox/development mode
+      // Return the ledger balance for sandbox/development mode
+      const ledgerBalance = await LedgerService.getBalance(account);
       res.json({
-        message: 'Balance retrieved from cache',
+        message: 'Balance retrieved from ledger',
         balance: {
-          amount: account.lastBalance,
+          amount: ledgerBalance.available,
           currency: account.currency,
+          reservedAmount: ledgerBalance.reserved,
+          totalAmount: ledgerBalance.balance,
           updatedAt: account.balanceUpdatedAt,
           cached: true,
         },
@@ -450,8 +492,8 @@ const getAccountDetailsHandler: RequestHandler = async (req: AuthRequest, res: R
         type: account.accountType,
         name: account.name,
         status: account.status,
-        iban: account.iban,
-        accountNumber: account.accountNumber,
+        iban: await FieldEncryptionService.decrypt(account.iban),
+        accountNumber: await FieldEncryptionService.decrypt(account.accountNumber),
         sortCode: account.sortCode,
         routingNumber: account.routingNumber,
         bic: account.bic,
@@ -461,7 +503,9 @@ const getAccountDetailsHandler: RequestHandler = async (req: AuthRequest, res: R
         balanceUpdatedAt: account.balanceUpdatedAt,
         createdAt: account.createdAt,
         updatedAt: account.updatedAt,
-        recentTransactions: account.transactions,
+        recentTransactions: await Promise.all(account.transactions.map(transaction =>
+          FieldEncryptionService.decryptFields(transaction, ['recipientIban', 'recipientAccountNumber'])
+        )),
       },
     });
   } catch (error) {
@@ -475,27 +519,17 @@ const getAccountDetailsHandler: RequestHandler = async (req: AuthRequest, res: R
 
 /**
  * PUT /api/v1/wise/accounts/:id/balance
- * Update account balance (sandbox only)
+ * Override an account balance (sandbox/ops, admin and support only)
  */
 const updateAccountBalanceHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const validatedData = updateBalanceSchema.parse(req.body);
-    const userId = req.user?.id;
 
-    if (!userId) {
-      res.status(401).json({
-        error: 'Unauthorized',
-        message: 'User ID not found',
-      });
-      return;
-    }
-
-    // Find account
+    // Staff may correct any customer's account
     const account = await prisma.wiseAccount.findFirst({
       where: {
         id,
-        userId,
         status: 'ACTIVE',
       },
     });
@@ -508,13 +542,21 @@ const updateAccountBalanceHandler: RequestHandler = async (req: AuthRequest, res
       return;
     }
 
-    // Update balance
-    const updatedAccount = await prisma.wiseAccount.update({
-      where: { id },
-      data: {
-        lastBalance: validatedData.amount,
-        balanceUpdatedAt: new Date(),
-      },
+    // Book the difference in the ledger, which updates the cached balance with it
+    const updatedAccount = await prisma.$transaction(async (tx) => {
+      await LedgerService.adjustBalance(tx, account, validatedData.amount, 'Balance override by staff');
+      return tx.wiseAccount.findUniqueOrThrow({ where: { id } });
+    });
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'account.balance_overridden',
+      userId: account.userId,
+      subjectType: 'wise_account',
+      subjectId: account.id,
+      changes: AuditService.diff(
+        { lastBalance: account.lastBalance },
+        { lastBalance: updatedAccount.lastBalance }
+      ),
     });
 
     res.json({
@@ -540,6 +582,15 @@ const updateAccountBalanceHandler: RequestHandler = async (req: AuthRequest, res
       return;
     }
 
+    if (error instanceof CustomError && error.statusCode === 422) {
+      res.status(422).json({
+        error: 'Insufficient funds',
+        message: 'The balance cannot be set below the amount held for pending transfers',
+        details: error.details,
+      });
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to update balance',
@@ -551,9 +602,9 @@ const updateAccountBalanceHandler: RequestHandler = async (req: AuthRequest, res
 const simpleTransferSchema = z.object({
   recipientAccount: z.object({
     type: z.string().min(1, 'Account type is required'),
-    iban: z.string().min(1, 'IBAN is required'),
+    iban: ibanSchema,
     accountNumber: z.string().min(1, 'Account number is required'),
-    currency: z.string().length(3, 'Currency must be 3 characters'),
+    currency: z.string().length(3, 'Currency must be 3 characters').transform(currency => currency.toUpperCase()),
     country: z.string().length(2, 'Country must be 2 characters'),
     holderName: z.string().min(1, 'Account holder name is required'),
     bankName: z.string().min(1, 'Bank name is required'),
@@ -563,11 +614,21 @@ const simpleTransferSchema = z.object({
     reference: z.string().max(100, 'Reference too long').optional(),
     description: z.string().max(500, 'Description too long').optional(),
   }),
+  recipientDetails: z.object({
+    firstName: z.string().min(1).max(100),
+    lastName: z.string().min(1).max(100),
+  }).optional(),
+  // Step-up token from POST /transfer/authorization; required above the SCA threshold or for new recipients
+  authorizationToken: z.string().min(1).optional(),
+  // Saved recipient being paid, or whether to save this recipient once the transfer is created
+  beneficiaryId: z.string().min(1).optional(),
+  saveRecipient: z.boolean().optional(),
 });
 
 /**
  * POST /api/v1/wise/transfers
- * Create a simple transfer with amount from frontend
+ * Create a simple transfer with amount from frontend.
+ * Transfers that need Strong Customer Authentication must carry a matching authorizationToken.
  */
 const createSimpleTransferHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
   try {
@@ -582,6 +643,42 @@ const createSimpleTransferHandler: RequestHandler = async (req: AuthRequest, res
       return;
     }
 
+    const sourceAccount = await transferService.getDefaultSourceAccount(userId);
+
+    if (!sourceAccount) {
+      res.status(404).json({
+        error: 'No account found',
+        message: 'No active Wise account found for this user',
+      });
+      return;
+    }
+
+    // The amount is sent in the source account's currency
+    const binding = {
+      amount: validatedData.transferDetails.amount,
+      currency: sourceAccount.currency,
+      recipient: { type: 'iban' as const, iban: validatedData.recipientAccount.iban },
+    };
+    const stepUp = await TransferAuthorizationService.getRequirement(userId, binding);
+
+    if (stepUp.required) {
+      const isAuthorized = validatedData.authorizationToken
+        ? await TransferAuthorizationService.consume(userId, validatedData.authorizationToken, binding)
+        : false;
+
+      if (!isAuthorized) {
+        res.status(403).json({
+          error: validatedData.authorizationToken ? 'Invalid transfer authorization' : 'Step-up authentication required',
+          message: validatedData.authorizationToken
+            ? 'The transfer authorization is invalid, expired or was issued for a different transfer'
+            : 'Please confirm this transfer with your authenticator code, biometrics or password',
+          reason: stepUp.reason,
+          methods: stepUp.methods,
+        });
+        return;
+      }
+    }
+
     // Convert to the format expected by transferService
     const transferRequest = {
       quoteId: `temp_quote_${Date.now()}`, // Temporary quote ID
@@ -598,12 +695,66 @@ const createSimpleTransferHandler: RequestHandler = async (req: AuthRequest, res
       description: validatedData.transferDetails.description || `Transfer to ${validatedData.recipientAccount.holderName}`,
     };
 
-    // Execute transfer with the user's requested amount
-    const transfer = await transferService.executeTransferWithAmount(transferRequest, userId, validatedData.transferDetails.amount);
+    // Execute transfer with the user's requested amount. The step-up token was spent above so a
+    // concurrent request can't reuse it; if no transfer was created, give it back for the retry.
+    let transfer: Transfer;
+    try {
+      transfer = await transferService.executeTransferWithAmount(
+        transferRequest,
+        userId,
+        validatedData.transferDetails.amount,
+        req.idempotencyKey
+      );
+    } catch (error) {
+      if (stepUp.required && validatedData.authorizationToken) {
+        await TransferAuthorizationService.release(userId, validatedData.authorizationToken);
+      }
+      throw error;
+    }
+
+    await AuditService.record(AuditService.contextFrom(req), {
+      action: 'transfer.created',
+      userId,
+      subjectType: 'transfer',
+      subjectId: transfer.id,
+      metadata: {
+        amount: transfer.sourceAmount,
+        currency: transfer.sourceCurrency,
+        recipientName: transfer.recipient?.name,
+        stepUp: stepUp.reason,
+      },
+    });
+
+    const savedRecipient = await BeneficiaryService.recordTransferRecipient(userId, {
+      beneficiaryId: validatedData.beneficiaryId,
+      saveRecipient: validatedData.saveRecipient,
+      firstName: validatedData.recipientDetails?.firstName,
+      lastName: validatedData.recipientDetails?.lastName,
+      holderName: validatedData.recipientAccount.holderName,
+      iban: validatedData.recipientAccount.iban,
+      bankName: validatedData.recipientAccount.bankName,
+      currency: validatedData.recipientAccount.currency,
+      country: validatedData.recipientAccount.country,
+    });
+
+    if (savedRecipient?.created) {
+      await AuditService.record(AuditService.contextFrom(req), {
+        action: 'beneficiary.created',
+        userId,
+        subjectType: 'beneficiary',
+        subjectId: savedRecipient.beneficiary.id,
+        metadata: {
+          country: savedRecipient.beneficiary.country,
+          currency: savedRecipient.beneficiary.currency,
+          transferId: transfer.id,
+        },
+      });
+    }
 
     res.status(201).json({
       message: 'Transfer created successfully',
       transfer,
+      beneficiary: savedRecipient?.beneficiary ?? null,
     });
   } catch (error) {
     console.error('Simple transfer creation error:', error);
@@ -620,6 +771,24 @@ const createSimpleTransferHandler: RequestHandler = async (req: AuthRequest, res
       return;
     }
 
+    if (error instanceof CustomError && error.statusCode === 422) {
+      res.status(422).json({
+        error: 'Insufficient funds',
+        message: 'Your available balance does not cover this transfer and its fees',
+        details: error.details,
+      });
+      return;
+    }
+
+    if (error instanceof CustomError && error.message === 'Currency pair not supported') {
+      res.status(400).json({
+        error: error.message,
+        message: 'Transfers between these currencies are not available',
+        details: error.details,
+      });
+      return;
+    }
+
     // Log the full error for debugging
     console.error('Full error details:', {
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -695,24 +864,19 @@ const testConnectivityHandler: RequestHandler = async (req: AuthRequest, res: Re
 
 /**
  * POST /api/v1/wise/transfers/:id/simulate-status
- * Simulate transfer status change (sandbox development)
+ * Simulate transfer status change (sandbox/ops, admin and support only)
  */
 const simulateTransferStatusHandler: RequestHandler = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const { status } = req.body;
-    const userId = req.user?.id;
-
-    if (!userId) {
-      res.status(401).json({
-        error: 'Unauthorized',
-        message: 'User ID not found',
-      });
-      return;
-    }
 
     // Validate status
-    const validStatuses = ['processing', 'funds_converted', 'outgoing_payment_sent', 'incoming_payment_sent', 'bounced_back', 'cancelled'];
+    const validStatuses = [
+      'processing', 'funds_converted', 'outgoing_payment_sent', 'incoming_payment_sent', 'bounced_back', 'cancelled',
+      // Cash pickup agent network events
+      'ready_for_pickup', 'picked_up', 'pickup_expired',
+    ];
     if (!validStatuses.includes(status)) {
       res.status(400).json({
         error: 'Invalid status',
@@ -721,14 +885,9 @@ const simulateTransferStatusHandler: RequestHandler = async (req: AuthRequest, r
       return;
     }
 
-    // Find the transfer
+    // Find the transfer (staff may advance any customer's transfer)
     const transfer = await prisma.wiseTransaction.findFirst({
-      where: {
-        id,
-        wiseAccount: {
-          userId,
-        },
-      },
+      where: { id },
       include: {
         wiseAccount: true,
       },
@@ -750,50 +909,24 @@ const simulateTransferStatusHandler: RequestHandler = async (req: AuthRequest, r
       'incoming_payment_sent': 'COMPLETED',
       'bounced_back': 'FAILED',
       'cancelled': 'CANCELLED',
+      'ready_for_pickup': 'READY_FOR_PICKUP',
+      'picked_up': 'COMPLETED',
+      'pickup_expired': 'EXPIRED',
     };
 
     const internalStatus = statusMapping[status] || 'PROCESSING';
 
-    // Update transfer status in database
-    await prisma.wiseTransaction.update({
-      where: { id },
-      data: {
-        status: internalStatus,
-        updatedAt: new Date(),
-        completedAt: internalStatus === 'COMPLETED' ? new Date() : undefined,
-      },
-    });
-
-    // Update corresponding incoming transaction if exists
-    const incomingTxId = `${id}_incoming`;
-    await prisma.wiseTransaction.updateMany({
-      where: { id: incomingTxId },
-      data: {
-        status: internalStatus,
-        updatedAt: new Date(),
-        completedAt: internalStatus === 'COMPLETED' ? new Date() : undefined,
-      },
-    });
-
-    // If completed, update recipient balance
-    if (internalStatus === 'COMPLETED') {
-      const incomingTx = await prisma.wiseTransaction.findFirst({
-        where: { id: incomingTxId },
-        include: { wiseAccount: true },
+    if (!PayoutService.canTransition(transfer.payoutMethod, transfer.status, internalStatus)) {
+      res.status(409).json({
+        error: 'Invalid status transition',
+        message: `A ${transfer.payoutMethod.toLowerCase().replace('_', ' ')} transfer cannot move from ${transfer.status} to ${internalStatus}`,
       });
-
-      if (incomingTx && Number(incomingTx.amount) > 0) {
-        const newBalance = Number(incomingTx.wiseAccount.lastBalance || 0) + Number(incomingTx.amount);
-        await prisma.wiseAccount.update({
-          where: { id: incomingTx.wiseAccountId },
-          data: {
-            lastBalance: newBalance,
-            balanceUpdatedAt: new Date(),
-          },
-        });
-      }
+      return;
     }
 
+    // Update both sides of the transfer, settling it in the ledger if it completed
+    await transferService.updateTransferStatus(id, internalStatus, 'admin');
+
     // Try to simulate with real Wise API if available
     try {
       const transferIdNumber = parseInt(id.replace(/\D/g, '').slice(-8));
@@ -820,6 +953,18 @@ const simulateTransferStatusHandler: RequestHandler = async (req: AuthRequest, r
   }
 };
 
+// Amount of a simple transfer, in the currency of the account it is sent from
+const simpleTransferAmount = async (req: AuthRequest): Promise<PolicyAmount | null> => {
+  const sourceAccount = req.user ? await transferService.getDefaultSourceAccount(req.user.id) : null;
+  return sourceAccount ? { amount: req.body?.transferDetails?.amount, currency: sourceAccount.currency } : null;
+};
+
+// Response of a simple transfer whose request stopped before answering, for retries of it
+const replaySimpleTransfer: ReplayTransfer = async (req, transferId) => {
+  const transfer = req.user ? await transferService.getTransfer(transferId, req.user.id) : null;
+  return transfer ? { status: 201, body: { message: 'Transfer created successfully', transfer, beneficiary: null } } : null;
+};
+
 // Register routes
 router.get('/test-connectivity', testConnectivityHandler);
 router.get('/auth/url', getAuthUrlHandler);
@@ -828,10 +973,16 @@ router.get('/balance', getBalanceHandler);
 router.post('/accounts', createAccountHandler);
 router.get('/accounts', getAccountsHandler);
 router.get('/accounts/:id/balance', getAccountBalanceHandler);
-router.put('/accounts/:id/balance', updateAccountBalanceHandler);
+router.put('/accounts/:id/balance', authorize('ADMIN', 'SUPPORT'), updateAccountBalanceHandler);
 router.get('/accounts/:id', getAccountDetailsHandler);
-router.post('/transfers', createSimpleTransferHandler);
+router.post(
+  '/transfers',
+  idempotent('wise.transfers.create', replaySimpleTransfer),
+  rateLimit(rateLimitPolicies.transferCreate),
+  requireVerifiedEmailAbove(simpleTransferAmount),
+  createSimpleTransferHandler
+);
 router.get('/transfers', getTransferHistoryHandler);
-router.post('/transfers/:id/simulate-status', simulateTransferStatusHandler);
+router.post('/transfers/:id/simulate-status', authorize('ADMIN', 'SUPPORT'), simulateTransferStatusHandler);
 
 export default router;
\ No newline at end of file
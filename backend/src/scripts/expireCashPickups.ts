@@ -0,0 +1,29 @@
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { PayoutService, PICKUP_VALIDITY_DAYS } from '../services/payout';
+
+/**
+ * Expire cash pickups that were not collected within their validity
+ *
+ *   npm run payouts:expire-pickups
+ *
+ * Run on a schedule (hourly is plenty). The money held for an expired pickup goes back
+ * to the sender's available balance. Safe to re-run.
+ */
+async function expireCashPickups(): Promise<void> {
+  try {
+    await connectDatabase();
+    console.log(`Expiring cash pickups not collected within ${PICKUP_VALIDITY_DAYS} days`);
+
+    const expired = await PayoutService.expireUncollectedPickups();
+
+    console.log(`✅ ${expired} cash pickup(s) expired`);
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Expiring cash pickups failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+expireCashPickups();
@@ -0,0 +1,42 @@
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { LedgerService } from '../services/ledger';
+
+/**
+ * Check every ledger account against its postings, and every cached customer balance
+ * (WiseAccount.lastBalance) against its ledger account
+ *
+ *   npm run ledger:reconcile
+ *
+ * Read-only. Exits with 1 when anything drifted so a scheduler can alert on it; the
+ * postings are the source of truth, so a drifted snapshot or cache is what needs fixing.
+ */
+async function reconcileLedger(): Promise<void> {
+  try {
+    await connectDatabase();
+
+    const discrepancies = await LedgerService.reconcile();
+
+    for (const discrepancy of discrepancies) {
+      const what = discrepancy.kind === 'snapshot_drift' ? 'ledger snapshot' : 'cached balance';
+      console.warn(
+        `⚠️ ${discrepancy.code}: ${what} is ${discrepancy.actual} ${discrepancy.currency}, postings say ${discrepancy.expected}`
+      );
+    }
+
+    if (discrepancies.length > 0) {
+      console.error(`❌ ${discrepancies.length} discrepancy(ies) found`);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+
+    console.log('✅ Ledger reconciled: every balance matches its postings');
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Ledger reconciliation failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+reconcileLedger();
@@ -0,0 +1,189 @@
+import { prisma, connectDatabase, disconnectDatabase } from '../config/database';
+import { FieldEncryptionService } from '../services/encryption';
+import type { BlindIndexKind } from '../types/encryption';
+
+/**
+ * Bring every encrypted column under the active key
+ *
+ *   npm run encryption:rotate [-- --dry-run]
+ *
+ * - legacy plaintext is encrypted and its blind index backfilled
+ * - values wrapped under a retired key have their data key re-wrapped
+ *
+ * Safe to re-run; rows already under the active key are skipped. Remove a retired
+ * key from FIELD_ENCRYPTION_KEYS only after a run reports nothing left to rotate.
+ */
+
+const BATCH_SIZE = 200;
+
+interface EncryptedColumn<T> {
+  column: keyof T & string;
+  index?: { column: keyof T & string; kind: BlindIndexKind };
+}
+
+type ColumnUpdates<T> = Partial<Record<keyof T & string, string>>;
+
+async function rotateRow<T extends { id: string }>(
+  row: T,
+  columns: EncryptedColumn<T>[]
+): Promise<ColumnUpdates<T> | null> {
+  const updates: ColumnUpdates<T> = {};
+
+  for (const { column, index } of columns) {
+    const value = row[column];
+    if (typeof value !== 'string') {
+      continue;
+    }
+
+    if (FieldEncryptionService.needsRotation(value)) {
+      updates[column] = await FieldEncryptionService.rotate(value);
+    }
+
+    if (index && !row[index.column]) {
+      updates[index.column] = FieldEncryptionService.blindIndex(index.kind, await FieldEncryptionService.decrypt(value));
+    }
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+async function rotateTable<T extends { id: string }>(
+  name: string,
+  columns: EncryptedColumn<T>[],
+  findBatch: (cursor: string | undefined) => Promise<T[]>,
+  update: (id: string, data: ColumnUpdates<T>) => Promise<unknown>,
+  dryRun: boolean
+): Promise<number> {
+  let cursor: string | undefined;
+  let rotated = 0;
+
+  for (;;) {
+    const rows = await findBatch(cursor);
+    if (rows.length === 0) {
+      break;
+    }
+
+    for (const row of rows) {
+      const updates = await rotateRow(row, columns);
+      if (updates) {
+        rotated++;
+        if (!dryRun) {
+          await update(row.id, updates);
+        }
+      }
+    }
+
+    cursor = rows[rows.length - 1].id;
+  }
+
+  console.log(`${dryRun ? '🔎' : '🔐'} ${name}: ${rotated} row(s) ${dryRun ? 'to rotate' : 'rotated'}`);
+  return rotated;
+}
+
+interface Page {
+  orderBy: { id: 'asc' };
+  take: number;
+  cursor?: { id: string };
+  skip?: number;
+}
+
+function page(cursor: string | undefined): Page {
+  return {
+    orderBy: { id: 'asc' },
+    take: BATCH_SIZE,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  };
+}
+
+async function rotateEncryptionKeys(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    await connectDatabase();
+    console.log(`Rotating encrypted fields to key "${FieldEncryptionService.keyProvider.activeKeyId}"${dryRun ? ' (dry run)' : ''}`);
+
+    let total = 0;
+
+    total += await rotateTable(
+      'users',
+      [{ column: 'phone', index: { column: 'phoneIndex', kind: 'phone' } }],
+      (cursor?: string) => prisma.user.findMany({ select: { id: true, phone: true, phoneIndex: true }, ...page(cursor) }),
+      (id, data) => prisma.user.update({ where: { id }, data }),
+      dryRun
+    );
+
+    total += await rotateTable(
+      'wise_accounts',
+      [
+        { column: 'iban', index: { column: 'ibanIndex', kind: 'iban' } },
+        { column: 'accountNumber', index: { column: 'accountNumberIndex', kind: 'account_number' } },
+        { column: 'accessToken' },
+        { column: 'refreshToken' },
+      ],
+      (cursor?: string) => prisma.wiseAccount.findMany({
+        select: {
+          id: true,
+          iban: true,
+          ibanIndex: true,
+          accountNumber: true,
+          accountNumberIndex: true,
+          accessToken: true,
+          refreshToken: true,
+        },
+        ...page(cursor),
+      }),
+      (id, data) => prisma.wiseAccount.update({ where: { id }, data }),
+      dryRun
+    );
+
+    total += await rotateTable(
+      'wise_transactions',
+      [
+        { column: 'recipientIban', index: { column: 'recipientIbanIndex', kind: 'iban' } },
+        { column: 'recipientAccountNumber' },
+        { column: 'pickupCode' },
+        { column: 'recipientIdNumber' },
+        { column: 'recipientPhone' },
+      ],
+      (cursor?: string) => prisma.wiseTransaction.findMany({
+        select: {
+          id: true,
+          recipientIban: true,
+          recipientIbanIndex: true,
+          recipientAccountNumber: true,
+          pickupCode: true,
+          recipientIdNumber: true,
+          recipientPhone: true,
+        },
+        ...page(cursor),
+      }),
+      (id, data) => prisma.wiseTransaction.update({ where: { id }, data }),
+      dryRun
+    );
+
+    total += await rotateTable(
+      'beneficiaries',
+      [
+        { column: 'phone' },
+        { column: 'iban', index: { column: 'ibanIndex', kind: 'iban' } },
+        { column: 'accountNumber' },
+      ],
+      (cursor?: string) => prisma.beneficiary.findMany({
+        select: { id: true, phone: true, iban: true, ibanIndex: true, accountNumber: true },
+        ...page(cursor),
+      }),
+      (id, data) => prisma.beneficiary.update({ where: { id }, data }),
+      dryRun
+    );
+
+    console.log(`✅ ${total} row(s) ${dryRun ? 'need rotation' : 'rotated'}`);
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Encryption key rotation failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+rotateEncryptionKeys();
@@ -0,0 +1,130 @@
+import { prisma } from '../config/database';
+import { Prisma } from '../generated/prisma';
+import type { AuthRequest } from '../middleware/auth';
+import type { AuditChanges, AuditContext, AuditEventInput, AuditEventQuery } from '../types/audit';
+
+const auditEventSelect = {
+  id: true,
+  action: true,
+  actorId: true,
+  userId: true,
+  subjectType: true,
+  subjectId: true,
+  ipAddress: true,
+  userAgent: true,
+  changes: true,
+  metadata: true,
+  createdAt: true,
+} satisfies Prisma.AuditEventSelect;
+
+export type AuditEventRecord = Prisma.AuditEventGetPayload<{ select: typeof auditEventSelect }>;
+
+// Store Decimal and Date values in the JSON diff in a readable, comparable form
+function toAuditValue(value: unknown): unknown {
+  if (value instanceof Prisma.Decimal) {
+    return value.toNumber();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value ?? null;
+}
+
+/**
+ * Append-only audit trail of authentication and account events
+ * Answers "who changed this, when and from where" for support and security reviews.
+ * Writing an event never fails the request that triggered it.
+ */
+export class AuditService {
+  /**
+   * Actor, IP and user agent of the current request
+   */
+  static contextFrom(req: AuthRequest): AuditContext {
+    return {
+      actorId: req.user?.id ?? null,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    };
+  }
+
+  /**
+   * Field-level before/after diff of the keys present in `after`. Unchanged fields are left out.
+   */
+  static diff(before: Record<string, unknown>, after: Record<string, unknown>): AuditChanges {
+    const changes: AuditChanges = {};
+
+    for (const [field, value] of Object.entries(after)) {
+      const from = toAuditValue(before[field]);
+      const to = toAuditValue(value);
+
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Append an event. Failures are logged rather than thrown.
+   */
+  static async record(context: AuditContext, event: AuditEventInput): Promise<void> {
+    try {
+      await prisma.auditEvent.create({
+        data: {
+          action: event.action,
+          actorId: context.actorId ?? null,
+          userId: event.userId ?? null,
+          subjectType: event.subjectType,
+          subjectId: event.subjectId ?? null,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          changes: event.changes ? (event.changes as Prisma.InputJsonValue) : undefined,
+          metadata: event.metadata ? (event.metadata as Prisma.InputJsonValue) : undefined,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to record audit event ${event.action}:`, error);
+    }
+  }
+
+  /**
+   * Events concerning a user's account, newest first
+   */
+  static async listForUser(userId: string, limit: number, offset: number): Promise<AuditEventRecord[]> {
+    return prisma.auditEvent.findMany({
+      where: { userId },
+      select: auditEventSelect,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+  }
+
+  /**
+   * Filtered search across all events for support and admin tooling, newest first
+   */
+  static async query(filters: AuditEventQuery): Promise<{ events: AuditEventRecord[]; total: number }> {
+    const where: Prisma.AuditEventWhereInput = {
+      userId: filters.userId,
+      actorId: filters.actorId,
+      action: filters.action,
+      subjectType: filters.subjectType,
+      subjectId: filters.subjectId,
+      createdAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        select: auditEventSelect,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return { events, total };
+  }
+}
@@ -0,0 +1,42 @@
+import bankDirectory from '../data/bank-directory.json';
+import { validateIban, type IbanValidationResult } from '../utils/iban';
+
+export interface BankDirectoryEntry {
+  name: string;
+  bic: string;
+}
+
+export type IbanLookupResult = IbanValidationResult & { bank: BankDirectoryEntry | null };
+
+// Country code -> national bank code -> bank
+const directory: Record<string, Record<string, BankDirectoryEntry>> = bankDirectory;
+
+/**
+ * Bank name and BIC resolution from the bundled bank directory (src/data/bank-directory.json)
+ * The directory covers the banks our users send to most; an unknown bank code does not
+ * make an IBAN invalid, it just resolves to no bank.
+ */
+export class BankDirectoryService {
+  static findBank(countryCode: string, bankCode: string): BankDirectoryEntry | null {
+    return directory[countryCode.toUpperCase()]?.[bankCode.toUpperCase()] ?? null;
+  }
+
+  /**
+   * National bank codes the directory knows for a country
+   */
+  static bankCodes(countryCode: string): string[] {
+    return Object.keys(directory[countryCode.toUpperCase()] ?? {});
+  }
+
+  /**
+   * Validate an IBAN and resolve the bank it belongs to
+   */
+  static lookupIban(iban: string): IbanLookupResult {
+    const result = validateIban(iban);
+
+    return {
+      ...result,
+      bank: result.valid ? this.findBank(result.countryCode, result.bankCode) : null,
+    };
+  }
+}
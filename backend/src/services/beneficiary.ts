@@ -0,0 +1,249 @@
+import { prisma } from '../config/database';
+import { Prisma } from '../generated/prisma';
+import { FieldEncryptionService } from './encryption';
+import { createError, CustomError } from '../middleware/errorHandler';
+import type { BeneficiaryInput, BeneficiaryListQuery, BeneficiaryUpdate, TransferRecipient } from '../types/beneficiary';
+
+const beneficiarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  nickname: true,
+  relationship: true,
+  email: true,
+  phone: true,
+  bankName: true,
+  bankCode: true,
+  iban: true,
+  accountNumber: true,
+  accountType: true,
+  currency: true,
+  address: true,
+  city: true,
+  state: true,
+  country: true,
+  postalCode: true,
+  isActive: true,
+  isVerified: true,
+  lastUsedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.BeneficiarySelect;
+
+export type BeneficiaryRecord = Prisma.BeneficiaryGetPayload<{ select: typeof beneficiarySelect }>;
+
+const ENCRYPTED_FIELDS: (keyof BeneficiaryRecord)[] = ['phone', 'iban', 'accountNumber'];
+
+function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+// The partial unique index on (userId, ibanIndex) of active beneficiaries
+function isDuplicateIban(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Saved transfer recipients ("beneficiaries") of a user
+ * Phone, IBAN and account number are encrypted; a unique index on the IBAN blind index
+ * keeps a user from saving the same account twice. Deleting only hides a beneficiary, so
+ * past transfers that reference it stay intact.
+ */
+export class BeneficiaryService {
+  private static async toRecord(beneficiary: BeneficiaryRecord): Promise<BeneficiaryRecord> {
+    return FieldEncryptionService.decryptFields(beneficiary, ENCRYPTED_FIELDS);
+  }
+
+  // Encrypted columns and their blind index for the fields present in the input
+  private static async toData(input: BeneficiaryUpdate): Promise<Prisma.BeneficiaryUncheckedUpdateInput> {
+    const iban = input.iban ? normalizeIban(input.iban) : input.iban;
+
+    return {
+      ...input,
+      phone: await FieldEncryptionService.encrypt(input.phone),
+      iban: await FieldEncryptionService.encrypt(iban),
+      ibanIndex: FieldEncryptionService.blindIndex('iban', iban),
+      accountNumber: await FieldEncryptionService.encrypt(input.accountNumber),
+      currency: input.currency ? input.currency.toUpperCase() : input.currency,
+      country: input.country ? input.country.toUpperCase() : input.country,
+    };
+  }
+
+  /**
+   * The user's active beneficiaries, most recently paid first
+   */
+  static async list(userId: string, query: BeneficiaryListQuery): Promise<{ beneficiaries: BeneficiaryRecord[]; total: number }> {
+    const where: Prisma.BeneficiaryWhereInput = {
+      userId,
+      deletedAt: null,
+      ibanIndex: query.iban ? FieldEncryptionService.blindIndex('iban', query.iban) : undefined,
+      ...(query.search
+        ? {
+            OR: [
+              { firstName: { contains: query.search, mode: 'insensitive' } },
+              { lastName: { contains: query.search, mode: 'insensitive' } },
+              { nickname: { contains: query.search, mode: 'insensitive' } },
+              { bankName: { contains: query.search, mode: 'insensitive' } },
+            ],
+          }
+        : {}),
+    };
+
+    const [beneficiaries, total] = await Promise.all([
+      prisma.beneficiary.findMany({
+        where,
+        select: beneficiarySelect,
+        orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+        take: query.limit,
+        skip: query.offset,
+      }),
+      prisma.beneficiary.count({ where }),
+    ]);
+
+    return {
+      beneficiaries: await Promise.all(beneficiaries.map(beneficiary => this.toRecord(beneficiary))),
+      total,
+    };
+  }
+
+  static async get(userId: string, id: string): Promise<BeneficiaryRecord | null> {
+    const beneficiary = await prisma.beneficiary.findFirst({
+      where: { id, userId, deletedAt: null },
+      select: beneficiarySelect,
+    });
+
+    return beneficiary ? this.toRecord(beneficiary) : null;
+  }
+
+  /**
+   * Active beneficiary of the user with this IBAN, if any (optionally ignoring one, for updates)
+   */
+  static async findByIban(userId: string, iban: string, excludeId?: string): Promise<BeneficiaryRecord | null> {
+    const beneficiary = await prisma.beneficiary.findFirst({
+      where: {
+        userId,
+        deletedAt: null,
+        ibanIndex: FieldEncryptionService.blindIndex('iban', iban),
+        ...(excludeId ? { id: { not: excludeId } } : {}),
+      },
+      select: beneficiarySelect,
+    });
+
+    return beneficiary ? this.toRecord(beneficiary) : null;
+  }
+
+  /**
+   * Save a beneficiary; rejects with a 409 if the user already has an active one with this IBAN
+   */
+  static async create(userId: string, input: BeneficiaryInput, lastUsedAt?: Date): Promise<BeneficiaryRecord> {
+    const data = await this.toData(input);
+
+    try {
+      const beneficiary = await prisma.beneficiary.create({
+        data: { ...(data as Prisma.BeneficiaryUncheckedCreateInput), userId, lastUsedAt },
+        select: beneficiarySelect,
+      });
+
+      return this.toRecord(beneficiary);
+    } catch (error) {
+      throw isDuplicateIban(error) ? createError('Beneficiary already exists', 409) : error;
+    }
+  }
+
+  /**
+   * Apply changes to an active beneficiary; resolves to null if the user has no such beneficiary,
+   * and rejects with a 409 if the new IBAN is one of the user's other beneficiaries
+   */
+  static async update(
+    userId: string,
+    id: string,
+    changes: BeneficiaryUpdate
+  ): Promise<{ before: BeneficiaryRecord; after: BeneficiaryRecord } | null> {
+    const before = await this.get(userId, id);
+    if (!before) {
+      return null;
+    }
+
+    try {
+      const beneficiary = await prisma.beneficiary.update({
+        where: { id },
+        data: await this.toData(changes),
+        select: beneficiarySelect,
+      });
+
+      return { before, after: await this.toRecord(beneficiary) };
+    } catch (error) {
+      throw isDuplicateIban(error) ? createError('Beneficiary already exists', 409) : error;
+    }
+  }
+
+  /**
+   * Soft-delete a beneficiary; resolves to false if the user has no such beneficiary
+   */
+  static async remove(userId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.beneficiary.updateMany({
+      where: { id, userId, deletedAt: null },
+      data: { deletedAt: new Date(), isActive: false },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * After a transfer: mark the saved beneficiary as used, or save the recipient if the user
+   * asked to (reusing an existing beneficiary with the same IBAN). Never fails the transfer.
+   */
+  static async recordTransferRecipient(
+    userId: string,
+    recipient: TransferRecipient
+  ): Promise<{ beneficiary: BeneficiaryRecord; created: boolean } | null> {
+    try {
+      const now = new Date();
+
+      if (recipient.beneficiaryId) {
+        await prisma.beneficiary.updateMany({
+          where: { id: recipient.beneficiaryId, userId, deletedAt: null },
+          data: { lastUsedAt: now },
+        });
+        const beneficiary = await this.get(userId, recipient.beneficiaryId);
+        return beneficiary ? { beneficiary, created: false } : null;
+      }
+
+      const existing = await this.findByIban(userId, recipient.iban);
+      if (existing) {
+        await prisma.beneficiary.update({ where: { id: existing.id }, data: { lastUsedAt: now } });
+        return { beneficiary: { ...existing, lastUsedAt: now }, created: false };
+      }
+
+      if (!recipient.saveRecipient) {
+        return null;
+      }
+
+      const [firstName, ...otherNames] = recipient.holderName.trim().split(/\s+/);
+      try {
+        const beneficiary = await this.create(userId, {
+          firstName: recipient.firstName || firstName,
+          lastName: recipient.lastName || otherNames.join(' '),
+          bankName: recipient.bankName,
+          iban: recipient.iban,
+          currency: recipient.currency,
+          country: recipient.country,
+        }, now);
+
+        return { beneficiary, created: true };
+      } catch (error) {
+        // Saved meanwhile by a concurrent transfer to the same IBAN
+        const saved = error instanceof CustomError && error.statusCode === 409
+          ? await this.findByIban(userId, recipient.iban)
+          : null;
+        if (!saved) {
+          throw error;
+        }
+        return { beneficiary: saved, created: false };
+      }
+    } catch (error) {
+      console.error('Failed to record transfer recipient:', error);
+      return null;
+    }
+  }
+}
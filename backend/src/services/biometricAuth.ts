@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { generateOpaqueToken } from '../utils/tokens';
+import { ClientInfo } from '../utils/userAgent';
+
+export interface BiometricChallengeResult {
+  challenge: string;
+  expiresAt: Date;
+}
+
+export interface VerifiedBiometricLogin {
+  deviceId: string;
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    phone: string | null;
+    country: string | null;
+    isActive: boolean;
+    emailVerified: boolean;
+    mfaEnabled: boolean;
+    createdAt: Date;
+  };
+}
+
+const ED25519_PUBLIC_KEY_BYTES = 32;
+const ED25519_SIGNATURE_BYTES = 64;
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+
+/**
+ * Biometric sign-in with device-bound Ed25519 keys
+ * The app keeps the private key in biometric-protected secure storage and registers the
+ * public key here. Signing in means signing a single-use server challenge, so no password
+ * is ever stored on the device.
+ */
+export class BiometricAuthService {
+  static readonly CHALLENGE_TTL_SECONDS = 120;
+  // Prefixed to the challenge before signing so the key cannot be used to sign anything else
+  static readonly SIGNATURE_CONTEXT = 'remittance-app:biometric-login:';
+
+  private static toPublicKey(publicKeyHex: string): crypto.KeyObject {
+    return crypto.createPublicKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(publicKeyHex, 'hex').toString('base64url'),
+      },
+      format: 'jwk',
+    });
+  }
+
+  /**
+   * Check that a value is a hex-encoded Ed25519 public key
+   */
+  static isValidPublicKey(publicKeyHex: string): boolean {
+    if (publicKeyHex.length !== ED25519_PUBLIC_KEY_BYTES * 2 || !HEX_PATTERN.test(publicKeyHex)) {
+      return false;
+    }
+
+    try {
+      this.toPublicKey(publicKeyHex);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Register a device public key for the user. Returns null if the key is already registered.
+   */
+  static async registerDevice(userId: string, publicKeyHex: string, client: ClientInfo = {}): Promise<string | null> {
+    const publicKey = publicKeyHex.toLowerCase();
+
+    const existing = await prisma.biometricDevice.findUnique({
+      where: { publicKey },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return null;
+    }
+
+    const device = await prisma.biometricDevice.create({
+      data: {
+        userId,
+        publicKey,
+        deviceName: client.deviceName,
+        platform: client.platform,
+      },
+    });
+
+    return device.id;
+  }
+
+  /**
+   * Revoke one of the user's device keys. Returns false if it does not exist or is already revoked.
+   */
+  static async revokeDevice(userId: string, deviceId: string): Promise<boolean> {
+    const result = await prisma.biometricDevice.updateMany({
+      where: { id: deviceId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Issue a challenge for an active device, or null if the device cannot sign in
+   */
+  static async issueChallenge(deviceId: string): Promise<BiometricChallengeResult | null> {
+    const device = await prisma.biometricDevice.findUnique({
+      where: { id: deviceId },
+      select: { id: true, revokedAt: true, user: { select: { isActive: true } } },
+    });
+
+    if (!device || device.revokedAt || !device.user.isActive) {
+      return null;
+    }
+
+    const challenge = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + this.CHALLENGE_TTL_SECONDS * 1000);
+
+    await prisma.biometricChallenge.create({
+      data: { deviceId, challenge, expiresAt },
+    });
+
+    return { challenge, expiresAt };
+  }
+
+  /**
+   * Verify a signed challenge. The challenge is consumed whether or not the signature is valid.
+   */
+  static async verifyChallenge(
+    deviceId: string,
+    challenge: string,
+    signatureHex: string
+  ): Promise<VerifiedBiometricLogin | null> {
+    const record = await prisma.biometricChallenge.findUnique({
+      where: { challenge },
+      select: {
+        id: true,
+        deviceId: true,
+        expiresAt: true,
+        usedAt: true,
+        device: {
+          select: {
+            publicKey: true,
+            revokedAt: true,
+            user: {
+              select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+                phone: true,
+                country: true,
+                isActive: true,
+                emailVerified: true,
+                mfaEnabled: true,
+                createdAt: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!record || record.deviceId !== deviceId || record.usedAt || record.expiresAt < new Date()) {
+      return null;
+    }
+
+    const claimed = await prisma.biometricChallenge.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count !== 1 || record.device.revokedAt || !record.device.user.isActive) {
+      return null;
+    }
+
+    if (signatureHex.length !== ED25519_SIGNATURE_BYTES * 2 || !HEX_PATTERN.test(signatureHex)) {
+      return null;
+    }
+
+    const isSignatureValid = crypto.verify(
+      null,
+      Buffer.from(this.SIGNATURE_CONTEXT + challenge, 'utf8'),
+      this.toPublicKey(record.device.publicKey),
+      Buffer.from(signatureHex, 'hex')
+    );
+
+    if (!isSignatureValid) {
+      return null;
+    }
+
+    await prisma.biometricDevice.update({
+      where: { id: deviceId },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return { deviceId, user: record.device.user };
+  }
+}
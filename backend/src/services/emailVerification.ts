@@ -0,0 +1,109 @@
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { generateOpaqueToken, hashToken } from '../utils/tokens';
+import { mailTransport } from './mail';
+
+export interface VerificationRecipient {
+  id: string;
+  email: string;
+  firstName: string;
+}
+
+/**
+ * Emailed verification links that set User.emailVerified
+ * Only a SHA-256 hash of each token is stored; tokens expire and can be used once.
+ */
+export class EmailVerificationService {
+  static readonly TOKEN_TTL_HOURS = 24;
+  static readonly RESEND_COOLDOWN_SECONDS = 60;
+
+  /**
+   * Issue a verification token and email it to the user
+   */
+  static async sendVerification(user: VerificationRecipient): Promise<void> {
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + this.TOKEN_TTL_HOURS * 60 * 60 * 1000);
+
+    await prisma.emailVerificationToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt,
+      },
+    });
+
+    const verifyUrl = `${env.EMAIL_VERIFICATION_URL}?token=${encodeURIComponent(token)}`;
+
+    await mailTransport.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Please confirm your email address by opening the link below in the app:',
+        '',
+        verifyUrl,
+        '',
+        `This link expires in ${this.TOKEN_TTL_HOURS} hours.`,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Seconds until another verification email may be sent (0 if allowed now)
+   */
+  static async getResendCooldown(userId: string): Promise<number> {
+    const latest = await prisma.emailVerificationToken.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+
+    if (!latest) {
+      return 0;
+    }
+
+    const elapsedSeconds = (Date.now() - latest.createdAt.getTime()) / 1000;
+    return Math.max(0, Math.ceil(this.RESEND_COOLDOWN_SECONDS - elapsedSeconds));
+  }
+
+  /**
+   * Verify a token and mark the user's email as verified.
+   * Returns the user id, or null if the token is invalid, expired or already used.
+   */
+  static async verify(token: string): Promise<string | null> {
+    const record = await prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { id: true, userId: true, usedAt: true, expiresAt: true },
+    });
+
+    if (!record || record.usedAt || record.expiresAt < new Date()) {
+      return null;
+    }
+
+    const usedAt = new Date();
+
+    // Conditional update guards against the same link being used twice concurrently
+    const result = await prisma.emailVerificationToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt },
+    });
+
+    if (result.count !== 1) {
+      return null;
+    }
+
+    await prisma.$transaction([
+      prisma.emailVerificationToken.updateMany({
+        where: { userId: record.userId, usedAt: null },
+        data: { usedAt },
+      }),
+      prisma.user.update({
+        where: { id: record.userId },
+        data: { emailVerified: true, emailVerifiedAt: usedAt },
+      }),
+    ]);
+
+    return record.userId;
+  }
+}
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import { env, isProduction } from '../config/environment';
+import type { BlindIndexKind, KeyProvider, WrappedDataKey } from '../types/encryption';
+
+const CIPHER = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+const AUTH_TAG_BYTES = 16;
+
+// enc:v1:<keyId>:<wrappedKey>:<iv>:<authTag>:<ciphertext>, binary parts base64url
+const ENVELOPE_PREFIX = 'enc:v1:';
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; authTag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return { iv, authTag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, authTag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function parseKey(encoded: string, name: string): Buffer {
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${name} must be a base64-encoded ${KEY_BYTES}-byte key`);
+  }
+  return key;
+}
+
+// Development and test builds fall back to keys derived from JWT_SECRET so no extra setup is needed
+function deriveDevelopmentKey(purpose: string): Buffer {
+  return crypto.createHash('sha256').update(`${purpose}:${env.JWT_SECRET}`).digest();
+}
+
+/**
+ * Key provider backed by a keyring from the environment
+ * FIELD_ENCRYPTION_KEYS lists every key still needed to read existing data
+ * ("k1:base64,k2:base64"); FIELD_ENCRYPTION_KEY_ID selects the one new values use.
+ */
+export class EnvKeyProvider implements KeyProvider {
+  readonly activeKeyId: string;
+
+  constructor(private keys: Map<string, Buffer>, activeKeyId: string) {
+    if (!keys.has(activeKeyId)) {
+      throw new Error(`Active field encryption key "${activeKeyId}" is not in the keyring`);
+    }
+    this.activeKeyId = activeKeyId;
+  }
+
+  static fromKeyring(keyring: string, activeKeyId?: string): EnvKeyProvider {
+    const keys = new Map<string, Buffer>();
+
+    for (const entry of keyring.split(',').map(part => part.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator);
+      if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(keyId)) {
+        throw new Error('FIELD_ENCRYPTION_KEYS entries must look like "keyId:base64Key"');
+      }
+      keys.set(keyId, parseKey(entry.slice(separator + 1), `Field encryption key "${keyId}"`));
+    }
+
+    return new EnvKeyProvider(keys, activeKeyId ?? keys.keys().next().value ?? '');
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedDataKey> {
+    const { iv, authTag, ciphertext } = seal(this.keys.get(this.activeKeyId)!, dataKey);
+
+    return {
+      keyId: this.activeKeyId,
+      wrappedKey: Buffer.concat([iv, authTag, ciphertext]).toString('base64url'),
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedDataKey): Promise<Buffer> {
+    const key = this.keys.get(wrapped.keyId);
+    if (!key) {
+      throw new Error(`Unknown field encryption key "${wrapped.keyId}"`);
+    }
+
+    const raw = Buffer.from(wrapped.wrappedKey, 'base64url');
+    return open(key, raw.subarray(0, IV_BYTES), raw.subarray(IV_BYTES, IV_BYTES + AUTH_TAG_BYTES), raw.subarray(IV_BYTES + AUTH_TAG_BYTES));
+  }
+}
+
+export function createKeyProvider(): KeyProvider {
+  if (env.FIELD_ENCRYPTION_KEYS) {
+    return EnvKeyProvider.fromKeyring(env.FIELD_ENCRYPTION_KEYS, env.FIELD_ENCRYPTION_KEY_ID);
+  }
+
+  if (isProduction) {
+    throw new Error('FIELD_ENCRYPTION_KEYS must be set in production');
+  }
+
+  return new EnvKeyProvider(new Map([['dev', deriveDevelopmentKey('field-encryption')]]), 'dev');
+}
+
+function createBlindIndexKey(): Buffer {
+  if (env.BLIND_INDEX_KEY) {
+    return parseKey(env.BLIND_INDEX_KEY, 'BLIND_INDEX_KEY');
+  }
+
+  if (isProduction) {
+    throw new Error('BLIND_INDEX_KEY must be set in production');
+  }
+
+  return deriveDevelopmentKey('blind-index');
+}
+
+const BLIND_INDEX_NORMALIZERS: Record<BlindIndexKind, (value: string) => string> = {
+  iban: value => value.replace(/\s+/g, '').toUpperCase(),
+  account_number: value => value.replace(/[\s-]+/g, ''),
+  phone: value => value.replace(/[\s().-]+/g, ''),
+  // Already canonical: built by PayoutService.recipientIndex
+  recipient: value => value,
+};
+
+/**
+ * Envelope encryption for PII and banking identifiers stored in the database
+ * Every value gets its own random data key; only the data key is encrypted under
+ * the provider's key-encryption key, so rotating the KEK means re-wrapping data
+ * keys rather than re-encrypting payloads. Encrypted columns can't be queried,
+ * so lookups go through a keyed HMAC "blind index" stored alongside them.
+ *
+ * Values without the envelope prefix are treated as legacy plaintext and returned
+ * as-is until the rotation command has encrypted them.
+ */
+export class FieldEncryptionService {
+  private static provider: KeyProvider | null = null;
+  private static indexKey: Buffer | null = null;
+
+  /**
+   * Swap the key provider, e.g. for a KMS adapter
+   */
+  static useKeyProvider(provider: KeyProvider): void {
+    this.provider = provider;
+  }
+
+  static get keyProvider(): KeyProvider {
+    if (!this.provider) {
+      this.provider = createKeyProvider();
+    }
+    return this.provider;
+  }
+
+  static isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * Encrypt a value; null and undefined pass through so Prisma "clear" and "leave unchanged" keep working
+   */
+  static async encrypt(value: string): Promise<string>;
+  static async encrypt(value: string | null): Promise<string | null>;
+  static async encrypt(value: string | null | undefined): Promise<string | null | undefined>;
+  static async encrypt(value: string | null | undefined): Promise<string | null | undefined> {
+    if (value === null || value === undefined) {
+      return value;
+    }
+
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    const { iv, authTag, ciphertext } = seal(dataKey, Buffer.from(value, 'utf8'));
+    const { keyId, wrappedKey } = await this.keyProvider.wrapKey(dataKey);
+
+    return this.serialize({
+      keyId,
+      wrappedKey,
+      iv: iv.toString('base64url'),
+      authTag: authTag.toString('base64url'),
+      ciphertext: ciphertext.toString('base64url'),
+    });
+  }
+
+  static async decrypt(value: string): Promise<string>;
+  static async decrypt(value: string | null): Promise<string | null>;
+  static async decrypt(value: string | null | undefined): Promise<string | null | undefined>;
+  static async decrypt(value: string | null | undefined): Promise<string | null | undefined> {
+    if (value === null || value === undefined || !this.isEncrypted(value)) {
+      return value;
+    }
+
+    const envelope = this.parse(value);
+    const dataKey = await this.keyProvider.unwrapKey(envelope);
+
+    return open(
+      dataKey,
+      Buffer.from(envelope.iv, 'base64url'),
+      Buffer.from(envelope.authTag, 'base64url'),
+      Buffer.from(envelope.ciphertext, 'base64url')
+    ).toString('utf8');
+  }
+
+  /**
+   * Decrypt the named fields of a record, leaving everything else untouched
+   */
+  static async decryptFields<T extends object, K extends keyof T>(record: T, fields: K[]): Promise<T> {
+    const decrypted = { ...record };
+
+    for (const field of fields) {
+      const value = record[field];
+      if (typeof value === 'string') {
+        decrypted[field] = (await this.decrypt(value)) as T[K];
+      }
+    }
+
+    return decrypted;
+  }
+
+  /**
+   * Whether a stored value is plaintext or wrapped under a retired key
+   */
+  static needsRotation(value: string): boolean {
+    return !this.isEncrypted(value) || this.parse(value).keyId !== this.keyProvider.activeKeyId;
+  }
+
+  /**
+   * Bring a stored value under the active key. Encrypted values only have their data
+   * key re-wrapped; legacy plaintext is encrypted.
+   */
+  static async rotate(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) {
+      return this.encrypt(value);
+    }
+
+    const envelope = this.parse(value);
+    if (envelope.keyId === this.keyProvider.activeKeyId) {
+      return value;
+    }
+
+    const dataKey = await this.keyProvider.unwrapKey(envelope);
+    const { keyId, wrappedKey } = await this.keyProvider.wrapKey(dataKey);
+
+    return this.serialize({ ...envelope, keyId, wrappedKey });
+  }
+
+  /**
+   * Deterministic keyed hash of the normalized value, for equality lookups on encrypted columns
+   */
+  static blindIndex(kind: BlindIndexKind, value: string): string;
+  static blindIndex(kind: BlindIndexKind, value: string | null): string | null;
+  static blindIndex(kind: BlindIndexKind, value: string | null | undefined): string | null | undefined;
+  static blindIndex(kind: BlindIndexKind, value: string | null | undefined): string | null | undefined {
+    if (value === null || value === undefined) {
+      return value;
+    }
+
+    if (!this.indexKey) {
+      this.indexKey = createBlindIndexKey();
+    }
+
+    return crypto
+      .createHmac('sha256', this.indexKey)
+      .update(`${kind}:${BLIND_INDEX_NORMALIZERS[kind](value)}`)
+      .digest('hex');
+  }
+
+  private static serialize(envelope: Envelope): string {
+    return ENVELOPE_PREFIX + [envelope.keyId, envelope.wrappedKey, envelope.iv, envelope.authTag, envelope.ciphertext].join(':');
+  }
+
+  private static parse(value: string): Envelope {
+    const parts = value.slice(ENVELOPE_PREFIX.length).split(':');
+    if (parts.length !== 5) {
+      throw new Error('Malformed encrypted field');
+    }
+
+    const [keyId, wrappedKey, iv, authTag, ciphertext] = parts;
+    return { keyId, wrappedKey, iv, authTag, ciphertext };
+  }
+}
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { Prisma } from '../generated/prisma';
+
+// How long a key is remembered; retries come within seconds, but a phone can be offline for a while
+const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+// How long a request may hold its key; after that it is presumed lost (e.g. the server
+// restarted mid-request) and a retry gets the transfer it created, if any
+const IDEMPOTENCY_LOCK_MINUTES = 5;
+
+export type IdempotencyCheck =
+  | { state: 'new' }
+  | { state: 'replay'; status: number; body: unknown }
+  | { state: 'in_progress' }
+  | { state: 'abandoned'; transferId: string }
+  | { state: 'mismatch' };
+
+// JSON with object keys sorted, so the same body hashes the same whatever order the client sent it in
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Idempotency keys for endpoints that move money
+ * The first request with a key claims it; once it succeeds its response is stored and
+ * replayed to retries with the same key and body. Failed requests release the key, as
+ * nothing happened and the client may retry them, changed or not. A request that stops
+ * before storing its response leaves the key held: it is never run again, as it may have
+ * moved money; once IDEMPOTENCY_LOCK_MINUTES have passed, the transfer it recorded (see
+ * recordTransfer) is replayed instead.
+ */
+export class IdempotencyService {
+  static hashRequest(body: unknown): string {
+    return crypto.createHash('sha256').update(canonicalJson(body ?? null)).digest('hex');
+  }
+
+  /**
+   * Claim a key for a request, or find out what became of the request that claimed it
+   */
+  static async begin(userId: string, key: string, scope: string, requestHash: string): Promise<IdempotencyCheck> {
+    // An expired key is free to be used again
+    await prisma.idempotencyKey.deleteMany({
+      where: { userId, key, expiresAt: { lt: new Date() } },
+    });
+
+    try {
+      await prisma.idempotencyKey.create({
+        data: {
+          userId,
+          key,
+          scope,
+          requestHash,
+          expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+        },
+      });
+      return { state: 'new' };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    // Released between our insert and this lookup: the original request failed, so retrying is safe
+    if (!existing) {
+      return this.begin(userId, key, scope, requestHash);
+    }
+    if (existing.scope !== scope || existing.requestHash !== requestHash) {
+      return { state: 'mismatch' };
+    }
+    if (existing.responseStatus === null) {
+      const stale = existing.createdAt.getTime() < Date.now() - IDEMPOTENCY_LOCK_MINUTES * 60 * 1000;
+      return stale && existing.transferId
+        ? { state: 'abandoned', transferId: existing.transferId }
+        : { state: 'in_progress' };
+    }
+
+    return { state: 'replay', status: existing.responseStatus, body: existing.responseBody };
+  }
+
+  /**
+   * Record the transfer a keyed request created; called in the transaction that stores the
+   * transfer, so a key is never left without it once money has moved
+   */
+  static async recordTransfer(client: Prisma.TransactionClient, userId: string, key: string, transferId: string): Promise<void> {
+    await client.idempotencyKey.updateMany({
+      where: { userId, key },
+      data: { transferId },
+    });
+  }
+
+  /**
+   * Store the response of a request that succeeded, for replay
+   */
+  static async complete(userId: string, key: string, status: number, body: unknown): Promise<void> {
+    await prisma.idempotencyKey.update({
+      where: { userId_key: { userId, key } },
+      data: {
+        responseStatus: status,
+        // Stored as it went over the wire (dates as strings), so a replay matches the original exactly
+        responseBody: body === undefined ? Prisma.JsonNull : (JSON.parse(JSON.stringify(body)) as Prisma.InputJsonValue),
+      },
+    });
+  }
+
+  /**
+   * Forget a key whose request failed, so the client can retry it
+   */
+  static async release(userId: string, key: string): Promise<void> {
+    await prisma.idempotencyKey.deleteMany({
+      where: { userId, key, responseStatus: null },
+    });
+  }
+}
@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../config/database';
+import { JobStatus, Prisma, type Job } from '../generated/prisma';
+import type { EnqueueJobOptions, JobHandlers, JobPayloads, JobType } from '../types/jobs';
+
+type JobClient = Prisma.TransactionClient;
+
+// First retry after 5 seconds, doubling up to 10 minutes
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+// A job running longer than this is assumed to belong to a worker that died
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+/**
+ * Database-backed job queue
+ * Jobs wait in the jobs table until their runAt, so work scheduled before a restart still
+ * happens after it. Workers claim a job by moving it from PENDING to RUNNING with a
+ * conditional update, so each attempt runs on one worker only. A job that throws is retried
+ * with exponential backoff until it runs out of attempts and is marked FAILED.
+ * Handlers must be safe to run twice: a worker can die after the work but before marking it done.
+ */
+export class JobQueue {
+  private static readonly workerId = `worker_${randomUUID()}`;
+
+  /**
+   * Schedule a job; pass the Prisma transaction that creates what it works on, so neither exists without the other
+   */
+  static async enqueue<Type extends JobType>(client: JobClient, options: EnqueueJobOptions<Type>): Promise<Job> {
+    return client.job.create({
+      data: {
+        type: options.type,
+        payload: options.payload as Prisma.InputJsonValue,
+        runAt: options.runAt ?? new Date(),
+        maxAttempts: options.maxAttempts,
+        transferId: options.transferId,
+      },
+    });
+  }
+
+  /**
+   * Delay before the next attempt of a job that failed this many times
+   */
+  static retryDelayMs(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+  }
+
+  /**
+   * Run the jobs that are due, oldest first; returns how many ran
+   */
+  static async runDue(handlers: JobHandlers, limit = 20, now: Date = new Date()): Promise<number> {
+    const due = await prisma.job.findMany({
+      where: { status: JobStatus.PENDING, runAt: { lte: now } },
+      orderBy: { runAt: 'asc' },
+      take: limit,
+    });
+
+    let ran = 0;
+    for (const job of due) {
+      // Another worker may have claimed it since it was listed
+      const { count } = await prisma.job.updateMany({
+        where: { id: job.id, status: JobStatus.PENDING },
+        data: {
+          status: JobStatus.RUNNING,
+          attempts: { increment: 1 },
+          lockedAt: new Date(),
+          lockedBy: this.workerId,
+        },
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      await this.run({ ...job, attempts: job.attempts + 1 }, handlers);
+      ran += 1;
+    }
+
+    return ran;
+  }
+
+  private static async run(job: Job, handlers: JobHandlers): Promise<void> {
+    const handler = handlers[job.type as JobType] as ((payload: JobPayloads[JobType]) => Promise<void>) | undefined;
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler for job type ${job.type}`);
+      }
+
+      await handler(job.payload as unknown as JobPayloads[JobType]);
+
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: JobStatus.SUCCEEDED, completedAt: new Date(), lockedAt: null, lockedBy: null },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = job.attempts >= job.maxAttempts;
+      console.error(`Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+
+      await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: exhausted ? JobStatus.FAILED : JobStatus.PENDING,
+          runAt: exhausted ? undefined : new Date(Date.now() + this.retryDelayMs(job.attempts)),
+          completedAt: exhausted ? new Date() : undefined,
+          lastError: message.slice(0, 1000),
+          lockedAt: null,
+          lockedBy: null,
+        },
+      });
+    }
+  }
+
+  /**
+   * Put jobs left RUNNING by a worker that died back in the queue; their attempt still counts
+   */
+  static async releaseStaleJobs(now: Date = new Date()): Promise<number> {
+    const stale = { status: JobStatus.RUNNING, lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } };
+
+    // Those that died on their last attempt have none left
+    await prisma.job.updateMany({
+      where: { ...stale, attempts: { gte: prisma.job.fields.maxAttempts } },
+      data: {
+        status: JobStatus.FAILED,
+        completedAt: now,
+        lastError: 'Worker stopped during the last attempt',
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+
+    const { count } = await prisma.job.updateMany({
+      where: stale,
+      data: { status: JobStatus.PENDING, runAt: now, lockedAt: null, lockedBy: null },
+    });
+
+    return count;
+  }
+
+  /**
+   * Poll for due jobs until the returned function is called
+   */
+  static startWorker(handlers: JobHandlers, pollIntervalMs = 1000): () => void {
+    let polling = false;
+    let lastStaleCheck = Date.now();
+
+    const timer = setInterval(async () => {
+      // A slow batch must not overlap the next poll
+      if (polling) {
+        return;
+      }
+
+      polling = true;
+      try {
+        // Other instances can die too, not only this one before it restarted
+        if (Date.now() - lastStaleCheck > STALE_LOCK_MS) {
+          lastStaleCheck = Date.now();
+          await this.releaseStaleJobs();
+        }
+
+        await this.runDue(handlers);
+      } catch (error) {
+        console.error('Job worker poll failed:', error);
+      } finally {
+        polling = false;
+      }
+    }, pollIntervalMs);
+
+    return () => clearInterval(timer);
+  }
+}
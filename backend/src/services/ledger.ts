@@ -0,0 +1,349 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../config/database';
+import { LedgerAccountType, LedgerHoldStatus, Prisma, type LedgerAccount } from '../generated/prisma';
+import { createError } from '../middleware/errorHandler';
+import type {
+  JournalEntryType,
+  LedgerBalance,
+  LedgerDiscrepancy,
+  LedgerWiseAccount,
+  TransferSettlement,
+} from '../types/ledger';
+
+type LedgerClient = Prisma.TransactionClient;
+
+interface LedgerPostingInput {
+  account: LedgerAccount;
+  amount: number;
+}
+
+interface JournalEntryInput {
+  type: JournalEntryType;
+  idempotencyKey: string;
+  transferId?: string;
+  description?: string;
+  postings: LedgerPostingInput[];
+}
+
+// Amounts are added up in cents, so float rounding can never unbalance an entry
+function toCents(amount: Prisma.Decimal | number | null | undefined): number {
+  return Math.round(Number(amount ?? 0) * 100);
+}
+
+/**
+ * Double-entry ledger behind every customer balance
+ * Money only moves through journal entries whose postings sum to zero per currency: a
+ * transfer debits the sender and credits the recipient, the fee account, and the FX and
+ * external accounts in between. Each ledger account keeps a balance snapshot updated with
+ * its postings, and WiseAccount.lastBalance is a cache of the customer's snapshot.
+ * Transfers hold their amount + fee from creation, so pending transfers cannot spend the
+ * same money twice; the hold turns into the debit when the transfer settles.
+ * Pass the Prisma transaction the business change runs in, so both commit or neither does.
+ */
+export class LedgerService {
+  /**
+   * The fees, FX, external or equity account of a currency, created on first use
+   */
+  static async systemAccount(client: LedgerClient, type: LedgerAccountType, currency: string): Promise<LedgerAccount> {
+    const code = `${type.toLowerCase()}:${currency}`;
+
+    return client.ledgerAccount.upsert({
+      where: { code },
+      create: { code, type, currency },
+      update: {},
+    });
+  }
+
+  /**
+   * A customer's ledger account; accounts that predate the ledger open with their cached balance
+   */
+  static async customerAccount(client: LedgerClient, wiseAccount: LedgerWiseAccount): Promise<LedgerAccount> {
+    const existing = await client.ledgerAccount.findUnique({ where: { wiseAccountId: wiseAccount.id } });
+    if (existing) {
+      return existing;
+    }
+
+    // Of two requests opening the account at once, only one inserts it and posts its opening balance
+    const created = await client.ledgerAccount.createMany({
+      data: [{
+        code: `customer:${wiseAccount.id}`,
+        type: LedgerAccountType.CUSTOMER,
+        currency: wiseAccount.currency,
+        wiseAccountId: wiseAccount.id,
+      }],
+      skipDuplicates: true,
+    });
+    const account = await client.ledgerAccount.findUniqueOrThrow({ where: { wiseAccountId: wiseAccount.id } });
+    if (created.count === 0) {
+      return account;
+    }
+
+    const openingBalance = toCents(wiseAccount.lastBalance) / 100;
+    if (openingBalance === 0) {
+      return account;
+    }
+
+    const equity = await this.systemAccount(client, LedgerAccountType.EQUITY, wiseAccount.currency);
+    await this.post(client, {
+      type: 'OPENING_BALANCE',
+      idempotencyKey: `opening:${wiseAccount.id}`,
+      description: 'Opening balance',
+      postings: [
+        { account, amount: openingBalance },
+        { account: equity, amount: -openingBalance },
+      ],
+    });
+
+    return client.ledgerAccount.findUniqueOrThrow({ where: { id: account.id } });
+  }
+
+  /**
+   * Record a journal entry and move the balances of its accounts
+   * Throws if the postings do not balance per currency, or a 422 if a customer would end up
+   * spending more than their available balance. Returns false, changing nothing, if an
+   * entry with the same idempotency key was already posted.
+   */
+  static async post(client: LedgerClient, entry: JournalEntryInput): Promise<boolean> {
+    const postings = entry.postings
+      .map(posting => ({ account: posting.account, cents: toCents(posting.amount) }))
+      .filter(posting => posting.cents !== 0);
+
+    const totals = new Map<string, number>();
+    for (const posting of postings) {
+      totals.set(posting.account.currency, (totals.get(posting.account.currency) ?? 0) + posting.cents);
+    }
+    const unbalanced = [...totals].filter(([, cents]) => cents !== 0);
+    if (unbalanced.length > 0) {
+      const difference = unbalanced.map(([currency, cents]) => `${cents / 100} ${currency}`).join(', ');
+      throw new Error(`Unbalanced journal entry ${entry.idempotencyKey}: off by ${difference}`);
+    }
+
+    const existing = await client.journalEntry.findUnique({ where: { idempotencyKey: entry.idempotencyKey } });
+    if (existing) {
+      return false;
+    }
+
+    await client.journalEntry.create({
+      data: {
+        type: entry.type,
+        idempotencyKey: entry.idempotencyKey,
+        transferId: entry.transferId,
+        description: entry.description,
+        postings: {
+          create: postings.map(posting => ({ ledgerAccountId: posting.account.id, amount: posting.cents / 100 })),
+        },
+      },
+    });
+
+    for (const posting of postings) {
+      const account = await client.ledgerAccount.update({
+        where: { id: posting.account.id },
+        data: { balance: { increment: posting.cents / 100 } },
+      });
+
+      if (account.type !== LedgerAccountType.CUSTOMER || !account.wiseAccountId) {
+        continue;
+      }
+
+      // 🛡️ FINANCIAL SAFETY: Held money is not available to spend
+      if (toCents(account.balance) < toCents(account.reserved)) {
+        throw createError('Insufficient funds', 422, {
+          account: account.code,
+          balance: toCents(account.balance) / 100,
+          reserved: toCents(account.reserved) / 100,
+          currency: account.currency,
+        });
+      }
+
+      await client.wiseAccount.update({
+        where: { id: account.wiseAccountId },
+        data: {
+          lastBalance: account.balance,
+          balanceUpdatedAt: new Date(),
+        },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Reserve a new transfer's amount + fee on the sender's account
+   * Throws a 422 if the sender's available balance does not cover it.
+   */
+  static async placeHold(client: LedgerClient, wiseAccount: LedgerWiseAccount, transferId: string, amount: number): Promise<void> {
+    const account = await this.customerAccount(client, wiseAccount);
+    const held = toCents(amount) / 100;
+
+    await client.ledgerHold.create({
+      data: { ledgerAccountId: account.id, transferId, amount: held },
+    });
+
+    // Reserve first and check what the update returns, so concurrent transfers see each other's holds
+    const reserved = await client.ledgerAccount.update({
+      where: { id: account.id },
+      data: { reserved: { increment: held } },
+    });
+
+    if (toCents(reserved.balance) < toCents(reserved.reserved)) {
+      throw createError('Insufficient funds', 422, {
+        available: (toCents(reserved.balance) - toCents(reserved.reserved) + toCents(held)) / 100,
+        required: held,
+        currency: reserved.currency,
+      });
+    }
+  }
+
+  /**
+   * Give a transfer's held money back to the sender (failed, cancelled or expired transfers)
+   */
+  static async releaseHold(client: LedgerClient, transferId: string): Promise<boolean> {
+    return this.closeHold(client, transferId, LedgerHoldStatus.RELEASED);
+  }
+
+  // Closing only an ACTIVE hold makes settling and releasing the same transfer twice a no-op
+  private static async closeHold(client: LedgerClient, transferId: string, status: LedgerHoldStatus): Promise<boolean> {
+    const { count } = await client.ledgerHold.updateMany({
+      where: { transferId, status: LedgerHoldStatus.ACTIVE },
+      data: { status, closedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    const hold = await client.ledgerHold.findUniqueOrThrow({ where: { transferId } });
+    await client.ledgerAccount.update({
+      where: { id: hold.ledgerAccountId },
+      data: { reserved: { decrement: hold.amount } },
+    });
+
+    return true;
+  }
+
+  /**
+   * Settle a transfer: the sender pays amount + fee out of its hold; the recipient, or the
+   * bank outside the app, receives targetAmount. Settling the same transfer twice is a no-op.
+   */
+  static async settleTransfer(client: LedgerClient, settlement: TransferSettlement): Promise<boolean> {
+    await this.closeHold(client, settlement.transferId, LedgerHoldStatus.SETTLED);
+
+    const sender = await this.customerAccount(client, settlement.sender);
+    const postings: LedgerPostingInput[] = [{ account: sender, amount: -(settlement.amount + settlement.fee) }];
+
+    if (settlement.fee > 0) {
+      const fees = await this.systemAccount(client, LedgerAccountType.FEES, settlement.currency);
+      postings.push({ account: fees, amount: settlement.fee });
+    }
+
+    if (settlement.currency !== settlement.targetCurrency) {
+      const fxIn = await this.systemAccount(client, LedgerAccountType.FX, settlement.currency);
+      const fxOut = await this.systemAccount(client, LedgerAccountType.FX, settlement.targetCurrency);
+      postings.push({ account: fxIn, amount: settlement.amount }, { account: fxOut, amount: -settlement.targetAmount });
+    }
+
+    const destination = settlement.recipient
+      ? await this.customerAccount(client, settlement.recipient)
+      : await this.systemAccount(client, LedgerAccountType.EXTERNAL, settlement.targetCurrency);
+    postings.push({ account: destination, amount: settlement.targetAmount });
+
+    return this.post(client, {
+      type: 'TRANSFER',
+      idempotencyKey: `transfer:${settlement.transferId}`,
+      transferId: settlement.transferId,
+      description: settlement.recipient ? 'Transfer between customers' : 'Transfer to an external account',
+      postings,
+    });
+  }
+
+  /**
+   * Bring a customer's balance to a given amount, booking the difference against equity
+   */
+  static async adjustBalance(
+    client: LedgerClient,
+    wiseAccount: LedgerWiseAccount,
+    balance: number,
+    description: string
+  ): Promise<LedgerAccount> {
+    const account = await this.customerAccount(client, wiseAccount);
+    const difference = (toCents(balance) - toCents(account.balance)) / 100;
+
+    if (difference === 0) {
+      return account;
+    }
+
+    const equity = await this.systemAccount(client, LedgerAccountType.EQUITY, account.currency);
+    await this.post(client, {
+      type: 'ADJUSTMENT',
+      idempotencyKey: `adjustment:${randomUUID()}`,
+      description,
+      postings: [
+        { account, amount: difference },
+        { account: equity, amount: -difference },
+      ],
+    });
+
+    return client.ledgerAccount.findUniqueOrThrow({ where: { id: account.id } });
+  }
+
+  /**
+   * A customer's balance split into reserved and available; accounts the ledger has not
+   * opened yet report their cached balance
+   */
+  static async getBalance(wiseAccount: LedgerWiseAccount): Promise<LedgerBalance> {
+    const account = await prisma.ledgerAccount.findUnique({ where: { wiseAccountId: wiseAccount.id } });
+    const balance = toCents(account ? account.balance : wiseAccount.lastBalance);
+    const reserved = toCents(account?.reserved);
+
+    return {
+      currency: wiseAccount.currency,
+      balance: balance / 100,
+      reserved: reserved / 100,
+      available: (balance - reserved) / 100,
+    };
+  }
+
+  /**
+   * Ledger accounts whose snapshot, or whose customer's cached balance, drifted from their postings
+   */
+  static async reconcile(): Promise<LedgerDiscrepancy[]> {
+    const [accounts, sums] = await prisma.$transaction([
+      prisma.ledgerAccount.findMany({
+        include: { wiseAccount: { select: { lastBalance: true } } },
+        orderBy: { code: 'asc' },
+      }),
+      prisma.ledgerPosting.groupBy({
+        by: ['ledgerAccountId'],
+        orderBy: { ledgerAccountId: 'asc' },
+        _sum: { amount: true },
+      }),
+    ], {
+      // One consistent view of snapshots and postings while transfers keep settling
+      isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+    });
+
+    const posted = new Map(sums.map(sum => [sum.ledgerAccountId, toCents(sum._sum?.amount)]));
+    const discrepancies: LedgerDiscrepancy[] = [];
+
+    for (const account of accounts) {
+      const expected = posted.get(account.id) ?? 0;
+      const drift = (kind: LedgerDiscrepancy['kind'], actual: number): LedgerDiscrepancy => ({
+        kind,
+        ledgerAccountId: account.id,
+        code: account.code,
+        currency: account.currency,
+        expected: expected / 100,
+        actual: actual / 100,
+      });
+
+      if (toCents(account.balance) !== expected) {
+        discrepancies.push(drift('snapshot_drift', toCents(account.balance)));
+      }
+      if (account.wiseAccount && toCents(account.wiseAccount.lastBalance) !== expected) {
+        discrepancies.push(drift('cache_drift', toCents(account.wiseAccount.lastBalance)));
+      }
+    }
+
+    return discrepancies;
+  }
+}
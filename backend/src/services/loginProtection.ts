@@ -0,0 +1,194 @@
+import { prisma } from '../config/database';
+import { LoginThrottleScope } from '../generated/prisma';
+import { mailTransport } from './mail';
+
+export interface LoginProtectionUser {
+  id: string;
+  email: string;
+  firstName: string;
+}
+
+export type LoginAttemptCheck =
+  | { status: 'allowed' }
+  // The account is temporarily locked; a password reset unlocks it early
+  | { status: 'locked'; retryAfterSeconds: number }
+  // Progressive delay, or too many failures from this IP
+  | { status: 'throttled'; retryAfterSeconds: number };
+
+interface ThrottlePolicy {
+  freeAttempts: number;
+  lockoutThreshold: number;
+}
+
+interface ThrottleRecord {
+  scope: LoginThrottleScope;
+  failedCount: number;
+  lastFailedAt: Date;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Brute-force protection for sign-in, persisted in login_throttles so it survives restarts.
+ * Failures are counted per account and per IP: after a few free attempts each further
+ * failure doubles the wait before the next attempt, and reaching the threshold locks the
+ * account (or IP) temporarily. Account lockouts are emailed to the owner.
+ */
+export class LoginProtectionService {
+  static readonly POLICIES: Record<LoginThrottleScope, ThrottlePolicy> = {
+    USER: { freeAttempts: 3, lockoutThreshold: 10 },
+    // Higher limits since several users can share an address (NAT, mobile carriers)
+    IP: { freeAttempts: 10, lockoutThreshold: 50 },
+  };
+  static readonly LOCKOUT_MINUTES = 15;
+  static readonly MAX_DELAY_SECONDS = 60;
+  // Failures older than this no longer count
+  static readonly FAILURE_WINDOW_MINUTES = 60;
+
+  private static isStale(record: { lastFailedAt: Date }, now: number): boolean {
+    return now - record.lastFailedAt.getTime() > this.FAILURE_WINDOW_MINUTES * 60 * 1000;
+  }
+
+  /**
+   * Seconds the subject must wait before the next attempt (0 if it may try now)
+   */
+  private static waitSeconds(record: ThrottleRecord, now: number): number {
+    if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+      return Math.ceil((record.lockedUntil.getTime() - now) / 1000);
+    }
+
+    const { freeAttempts } = this.POLICIES[record.scope];
+    if (this.isStale(record, now) || record.failedCount < freeAttempts) {
+      return 0;
+    }
+
+    const delaySeconds = Math.min(2 ** (record.failedCount - freeAttempts), this.MAX_DELAY_SECONDS);
+    const waitMs = record.lastFailedAt.getTime() + delaySeconds * 1000 - now;
+
+    return Math.max(0, Math.ceil(waitMs / 1000));
+  }
+
+  /**
+   * Check whether a sign-in attempt may proceed, before the password is compared
+   */
+  static async checkAttempt(userId: string | null, ip?: string): Promise<LoginAttemptCheck> {
+    const subjects = [
+      ...(userId ? [{ scope: LoginThrottleScope.USER, subject: userId }] : []),
+      ...(ip ? [{ scope: LoginThrottleScope.IP, subject: ip }] : []),
+    ];
+
+    if (subjects.length === 0) {
+      return { status: 'allowed' };
+    }
+
+    const records = await prisma.loginThrottle.findMany({
+      where: { OR: subjects },
+    });
+
+    const now = Date.now();
+    const userRecord = records.find(record => record.scope === LoginThrottleScope.USER);
+
+    if (userRecord?.lockedUntil && userRecord.lockedUntil.getTime() > now) {
+      return { status: 'locked', retryAfterSeconds: this.waitSeconds(userRecord, now) };
+    }
+
+    const retryAfterSeconds = Math.max(0, ...records.map(record => this.waitSeconds(record, now)));
+
+    return retryAfterSeconds > 0 ? { status: 'throttled', retryAfterSeconds } : { status: 'allowed' };
+  }
+
+  /**
+   * Count a failed attempt against the IP and, if known, the account.
+   * Returns the resulting state so the caller can tell the user about a new lockout.
+   */
+  static async recordFailure(user: LoginProtectionUser | null, ip?: string): Promise<LoginAttemptCheck> {
+    if (ip) {
+      await this.incrementFailures(LoginThrottleScope.IP, ip);
+    }
+
+    if (!user) {
+      return { status: 'allowed' };
+    }
+
+    const lockedUntil = await this.incrementFailures(LoginThrottleScope.USER, user.id);
+
+    if (lockedUntil) {
+      console.warn(`Account ${user.id} locked after repeated failed sign-ins`);
+
+      try {
+        await this.sendLockoutNotification(user, lockedUntil, ip);
+      } catch (error) {
+        console.error('Failed to send lockout notification:', error);
+      }
+
+      return {
+        status: 'locked',
+        retryAfterSeconds: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000),
+      };
+    }
+
+    return { status: 'allowed' };
+  }
+
+  /**
+   * Clear the account's failure count and any lockout (successful sign-in or password reset).
+   * IP counters are left alone so one valid account cannot be used to reset them.
+   */
+  static async resetAccount(userId: string): Promise<void> {
+    await prisma.loginThrottle.deleteMany({
+      where: { scope: LoginThrottleScope.USER, subject: userId },
+    });
+  }
+
+  /**
+   * Add a failure; returns the lockout expiry if this failure triggered a lockout
+   */
+  private static async incrementFailures(scope: LoginThrottleScope, subject: string): Promise<Date | null> {
+    const now = new Date();
+    const where = { scope_subject: { scope, subject } };
+
+    const existing = await prisma.loginThrottle.findUnique({ where });
+    const restart = !existing
+      || this.isStale(existing, now.getTime())
+      || (existing.lockedUntil !== null && existing.lockedUntil <= now);
+
+    const record = await prisma.loginThrottle.upsert({
+      where,
+      create: { scope, subject, failedCount: 1, lastFailedAt: now },
+      update: restart
+        ? { failedCount: 1, lastFailedAt: now, lockedUntil: null }
+        : { failedCount: { increment: 1 }, lastFailedAt: now },
+    });
+
+    if (record.failedCount < this.POLICIES[scope].lockoutThreshold) {
+      return null;
+    }
+
+    const lockedUntil = new Date(now.getTime() + this.LOCKOUT_MINUTES * 60 * 1000);
+
+    await prisma.loginThrottle.update({
+      where,
+      data: { lockedUntil },
+    });
+
+    return lockedUntil;
+  }
+
+  private static async sendLockoutNotification(
+    user: LoginProtectionUser,
+    lockedUntil: Date,
+    ip?: string
+  ): Promise<void> {
+    await mailTransport.send({
+      to: user.email,
+      subject: 'Your account has been temporarily locked',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        `We locked your account for ${this.LOCKOUT_MINUTES} minutes after several failed sign-in attempts${ip ? ` from IP address ${ip}` : ''}.`,
+        `You can sign in again after ${lockedUntil.toUTCString()}.`,
+        '',
+        'If this was not you, reset your password now from the "Forgot password" screen. Resetting your password also unlocks your account immediately.',
+      ].join('\n'),
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { env } from '../config/environment';
+import type { MailMessage, MailTransport, SentMailMessage } from '../types/mail';
+
+export interface SmtpMailTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: SmtpMailTransportOptions) {
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+/**
+ * Keeps messages instead of delivering them. Each message is written as a JSON
+ * file when a directory is configured, otherwise logged to the console.
+ * Sent messages are also held in memory so tests can inspect them.
+ */
+export class OutboxMailTransport implements MailTransport {
+  readonly messages: SentMailMessage[] = [];
+
+  constructor(private from: string, private directory?: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const sentMessage: SentMailMessage = {
+      ...message,
+      from: this.from,
+      sentAt: new Date().toISOString(),
+    };
+
+    this.messages.push(sentMessage);
+
+    if (this.directory) {
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(sentMessage, null, 2));
+      return;
+    }
+
+    console.log(`📧 Outbox mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+export function createMailTransport(): MailTransport {
+  if (env.MAIL_TRANSPORT === 'smtp') {
+    return new SmtpMailTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+      from: env.MAIL_FROM,
+    });
+  }
+
+  return new OutboxMailTransport(env.MAIL_FROM, env.MAIL_OUTBOX_DIR);
+}
+
+export const mailTransport = createMailTransport();
@@ -0,0 +1,39 @@
+import { prisma } from '../config/database';
+import { verifyTotpCode } from '../utils/totp';
+
+export interface TotpUser {
+  id: string;
+  mfaSecret: string | null;
+  mfaLastUsedStep: number | null;
+}
+
+/**
+ * TOTP checks shared by sign-in, MFA management and transfer step-up
+ */
+export class MfaService {
+  /**
+   * Verify a TOTP code for a user and record its time step so the same code
+   * cannot be replayed within its validity window. The step is claimed with a
+   * conditional update, so of two concurrent requests with the same code only one wins
+   */
+  static async consumeTotpCode(user: TotpUser, code: string): Promise<boolean> {
+    if (!user.mfaSecret) {
+      return false;
+    }
+
+    const step = verifyTotpCode(user.mfaSecret, code);
+    if (step === null || (user.mfaLastUsedStep !== null && step <= user.mfaLastUsedStep)) {
+      return false;
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+
+    return count === 1;
+  }
+}
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { hashPassword, comparePassword } from '../utils/password';
+
+export interface RecoveryCodeUsageContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Single-use MFA recovery codes
+ * Codes are shown to the user once and only their bcrypt hashes are stored.
+ * Used codes are kept (with time, IP and user agent) as a record of each use.
+ */
+export class MfaRecoveryService {
+  static readonly CODE_COUNT = 10;
+  static readonly LOW_CODE_THRESHOLD = 3;
+  private static readonly CODE_GROUP_LENGTH = 5;
+  // Lowercase alphabet without look-alike characters (0/o, 1/l/i)
+  private static readonly CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+  /**
+   * Generate a readable recovery code such as "k7m2p-x9qrt"
+   */
+  static generateCode(): string {
+    const characters = Array.from(
+      { length: this.CODE_GROUP_LENGTH * 2 },
+      () => this.CODE_ALPHABET[crypto.randomInt(this.CODE_ALPHABET.length)]
+    ).join('');
+
+    return `${characters.slice(0, this.CODE_GROUP_LENGTH)}-${characters.slice(this.CODE_GROUP_LENGTH)}`;
+  }
+
+  /**
+   * Normalize user input so "K7M2P X9QRT" and "k7m2p-x9qrt" match the same hash
+   */
+  static normalizeCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  /**
+   * Replace all unused codes with a fresh set and return the plaintext codes
+   */
+  static async issueCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.CODE_COUNT }, () => this.generateCode());
+    const codeHashes = await Promise.all(codes.map(code => hashPassword(this.normalizeCode(code))));
+
+    await prisma.$transaction([
+      prisma.mfaRecoveryCode.deleteMany({
+        where: { userId, usedAt: null },
+      }),
+      prisma.mfaRecoveryCode.createMany({
+        data: codeHashes.map(codeHash => ({ userId, codeHash })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  /**
+   * Consume a recovery code. Returns false if it does not match an unused code.
+   */
+  static async consumeCode(
+    userId: string,
+    code: string,
+    context: RecoveryCodeUsageContext = {}
+  ): Promise<boolean> {
+    const normalizedCode = this.normalizeCode(code);
+    if (normalizedCode.length !== this.CODE_GROUP_LENGTH * 2) {
+      return false;
+    }
+
+    const unusedCodes = await prisma.mfaRecoveryCode.findMany({
+      where: { userId, usedAt: null },
+      select: { id: true, codeHash: true },
+    });
+
+    for (const recoveryCode of unusedCodes) {
+      if (await comparePassword(normalizedCode, recoveryCode.codeHash)) {
+        // Conditional update guards against two concurrent logins using the same code
+        const result = await prisma.mfaRecoveryCode.updateMany({
+          where: { id: recoveryCode.id, usedAt: null },
+          data: {
+            usedAt: new Date(),
+            usedIp: context.ip,
+            usedUserAgent: context.userAgent,
+          },
+        });
+
+        return result.count === 1;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Number of unused recovery codes left for a user
+   */
+  static async countRemaining(userId: string): Promise<number> {
+    return prisma.mfaRecoveryCode.count({
+      where: { userId, usedAt: null },
+    });
+  }
+
+  /**
+   * Invalidate all unused codes (used codes are kept as a usage record)
+   */
+  static async revokeUnused(userId: string): Promise<void> {
+    await prisma.mfaRecoveryCode.deleteMany({
+      where: { userId, usedAt: null },
+    });
+  }
+}
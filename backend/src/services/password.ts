@@ -0,0 +1,85 @@
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { hashPassword, comparePassword } from '../utils/password';
+
+/**
+ * Password rotation with reuse protection
+ * The last PASSWORD_HISTORY_SIZE passwords (including the current one) cannot be reused.
+ */
+export class PasswordService {
+  /**
+   * Check a candidate password against the current hash and recent history
+   */
+  static async isRecentlyUsed(
+    userId: string,
+    currentPasswordHash: string,
+    candidatePassword: string
+  ): Promise<boolean> {
+    if (await comparePassword(candidatePassword, currentPasswordHash)) {
+      return true;
+    }
+
+    const history = await prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: Math.max(env.PASSWORD_HISTORY_SIZE - 1, 0),
+      select: { passwordHash: true },
+    });
+
+    for (const entry of history) {
+      if (await comparePassword(candidatePassword, entry.passwordHash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Replace a user's password, archive the old hash and revoke every session.
+   * Callers issue a fresh session afterwards if the user should stay signed in.
+   */
+  static async updatePassword(
+    userId: string,
+    currentPasswordHash: string,
+    newPassword: string
+  ): Promise<void> {
+    const newPasswordHash = await hashPassword(newPassword);
+
+    await prisma.$transaction([
+      prisma.passwordHistory.create({
+        data: { userId, passwordHash: currentPasswordHash },
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          password: newPasswordHash,
+          passwordChangedAt: new Date(),
+        },
+      }),
+      prisma.session.deleteMany({
+        where: { userId },
+      }),
+    ]);
+
+    await this.pruneHistory(userId);
+  }
+
+  /**
+   * Keep only the entries needed for the reuse check
+   */
+  private static async pruneHistory(userId: string): Promise<void> {
+    const staleEntries = await prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: Math.max(env.PASSWORD_HISTORY_SIZE - 1, 0),
+      select: { id: true },
+    });
+
+    if (staleEntries.length > 0) {
+      await prisma.passwordHistory.deleteMany({
+        where: { id: { in: staleEntries.map(entry => entry.id) } },
+      });
+    }
+  }
+}
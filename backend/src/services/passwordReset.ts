@@ -0,0 +1,139 @@
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { generateOpaqueToken, hashToken } from '../utils/tokens';
+import { mailTransport } from './mail';
+
+export interface PasswordResetContext {
+  ip?: string;
+}
+
+export interface PasswordResetTokenRecord {
+  id: string;
+  userId: string;
+  user: {
+    id: string;
+    email: string;
+    password: string;
+    isActive: boolean;
+  };
+}
+
+/**
+ * Emailed one-time password reset tokens
+ * Only a SHA-256 hash of each token is stored; tokens expire and can be used once.
+ */
+export class PasswordResetService {
+  static readonly TOKEN_TTL_MINUTES = 30;
+  static readonly MAX_REQUESTS_PER_HOUR = 3;
+
+  /**
+   * Issue and email a reset token. Unknown emails, inactive accounts and
+   * rate-limited requests are silently ignored so callers cannot probe for accounts.
+   */
+  static async requestReset(email: string, context: PasswordResetContext = {}): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, firstName: true, isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const recentRequests = await prisma.passwordResetToken.count({
+      where: {
+        userId: user.id,
+        createdAt: { gte: new Date(Date.now() - 60 * 60 * 1000) },
+      },
+    });
+
+    if (recentRequests >= this.MAX_REQUESTS_PER_HOUR) {
+      console.warn(`Password reset rate limit reached for user ${user.id}`);
+      return;
+    }
+
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + this.TOKEN_TTL_MINUTES * 60 * 1000);
+
+    await prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt,
+        requestedIp: context.ip,
+      },
+    });
+
+    const resetUrl = `${env.PASSWORD_RESET_URL}?token=${encodeURIComponent(token)}`;
+
+    // Delivery failures are logged rather than surfaced, which would reveal the account exists
+    try {
+      await mailTransport.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          `Hi ${user.firstName},`,
+          '',
+          'We received a request to reset your password. Open the link below in the app, or paste the reset code into the "Forgot password" screen:',
+          '',
+          resetUrl,
+          '',
+          `Reset code: ${token}`,
+          '',
+          `This code expires in ${this.TOKEN_TTL_MINUTES} minutes and can only be used once.`,
+          'If you did not request a password reset you can ignore this email.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      console.error('Failed to send password reset email:', error);
+    }
+  }
+
+  /**
+   * Look up an unused, unexpired token
+   */
+  static async findValidToken(token: string): Promise<PasswordResetTokenRecord | null> {
+    const record = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        id: true,
+        userId: true,
+        usedAt: true,
+        expiresAt: true,
+        user: {
+          select: { id: true, email: true, password: true, isActive: true },
+        },
+      },
+    });
+
+    if (!record || record.usedAt || record.expiresAt < new Date() || !record.user.isActive) {
+      return null;
+    }
+
+    return { id: record.id, userId: record.userId, user: record.user };
+  }
+
+  /**
+   * Mark a token as used and invalidate any other outstanding tokens for the user.
+   * Returns false if the token was consumed concurrently.
+   */
+  static async consumeToken(record: PasswordResetTokenRecord): Promise<boolean> {
+    const usedAt = new Date();
+
+    const result = await prisma.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt },
+    });
+
+    if (result.count !== 1) {
+      return false;
+    }
+
+    await prisma.passwordResetToken.updateMany({
+      where: { userId: record.userId, usedAt: null },
+      data: { usedAt },
+    });
+
+    return true;
+  }
+}
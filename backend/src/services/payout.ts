@@ -0,0 +1,335 @@
+import { randomInt } from 'crypto';
+import { prisma } from '../config/database';
+import { LedgerService } from './ledger';
+import { FieldEncryptionService } from './encryption';
+import cashPickupLocations from '../data/cash-pickup-locations.json';
+import { PayoutMethod } from '../generated/prisma';
+import type { CreateTransferRequest, TransferFee, TransferStatus } from '../types/transfer';
+
+type TransferStatusCode = TransferStatus['status'];
+type RecipientAccount = NonNullable<CreateTransferRequest['recipientAccount']>;
+
+/** The parts of a recipient account that say who is paid */
+export type RecipientIdentity = Pick<
+  RecipientAccount,
+  'type' | 'iban' | 'accountNumber' | 'sortCode' | 'routingNumber' | 'bankCode' | 'recipientIdDocument' | 'phoneNumber' | 'walletProvider'
+> & Partial<Pick<RecipientAccount, 'country'>>;
+
+export interface CashPickupLocation {
+  id: string;
+  network: string;
+  name: string;
+  city: string;
+}
+
+export interface MobileWalletProvider {
+  name: string;
+  /** International dialling code of the wallet's phone numbers */
+  dialCode: string;
+  /** Digits after the dialling code */
+  nationalNumberLength: number;
+}
+
+export interface PayoutMethodPolicy {
+  /** Statuses a transfer moves through, in order, until the recipient has the money */
+  lifecycle: TransferStatusCode[];
+  /** Statuses that end a transfer without paying out, and the statuses they can be reached from */
+  exits: Partial<Record<TransferStatusCode, TransferStatusCode[]>>;
+  /** Charged in the source currency on top of the amount sent */
+  fee: { fixed: number; percentage: number };
+  /** When the money reaches the recipient; bank transfers depend on the currency pair instead */
+  arrival?: { minutes: number; description: string };
+  /** Sandbox simulation: statuses the transfer reaches on its own, by delay after creation */
+  simulation: Array<{ status: TransferStatusCode; delayMs: number; devDelayMs: number }>;
+}
+
+export interface PayoutRecipientIssue {
+  path: string;
+  message: string;
+}
+
+export const PAYOUT_METHODS: Record<PayoutMethod, PayoutMethodPolicy> = {
+  BANK_ACCOUNT: {
+    lifecycle: ['PENDING', 'PROCESSING', 'SENT', 'COMPLETED'],
+    exits: {
+      FAILED: ['PENDING', 'PROCESSING', 'SENT'],
+      CANCELLED: ['PENDING', 'PROCESSING'],
+    },
+    fee: { fixed: 0, percentage: 0 },
+    simulation: [
+      { status: 'PROCESSING', delayMs: 30000, devDelayMs: 2000 },
+      { status: 'SENT', delayMs: 120000, devDelayMs: 4000 },
+      { status: 'COMPLETED', delayMs: 300000, devDelayMs: 6000 },
+    ],
+  },
+  // Ready at the agent within the hour; completed when the agent pays out, or expired if nobody collects
+  CASH_PICKUP: {
+    lifecycle: ['PENDING', 'PROCESSING', 'READY_FOR_PICKUP', 'COMPLETED'],
+    exits: {
+      FAILED: ['PENDING', 'PROCESSING'],
+      CANCELLED: ['PENDING', 'PROCESSING', 'READY_FOR_PICKUP'],
+      EXPIRED: ['READY_FOR_PICKUP'],
+    },
+    fee: { fixed: 2.99, percentage: 0 },
+    arrival: { minutes: 60, description: 'Ready for pickup within 1 hour' },
+    simulation: [
+      { status: 'PROCESSING', delayMs: 30000, devDelayMs: 2000 },
+      { status: 'READY_FOR_PICKUP', delayMs: 120000, devDelayMs: 4000 },
+    ],
+  },
+  MOBILE_WALLET: {
+    lifecycle: ['PENDING', 'PROCESSING', 'COMPLETED'],
+    exits: {
+      FAILED: ['PENDING', 'PROCESSING'],
+      CANCELLED: ['PENDING'],
+    },
+    fee: { fixed: 0.99, percentage: 0.5 },
+    arrival: { minutes: 10, description: 'Usually within 10 minutes' },
+    simulation: [
+      { status: 'PROCESSING', delayMs: 10000, devDelayMs: 1000 },
+      { status: 'COMPLETED', delayMs: 60000, devDelayMs: 3000 },
+    ],
+  },
+};
+
+// Countries with cash pickup and mobile wallet payouts, and the currency they pay out in
+export const PAYOUT_COUNTRY_CURRENCIES: Record<string, string> = {
+  HN: 'HNL',
+  GT: 'GTQ',
+  SV: 'USD',
+};
+
+// Country code -> provider code -> wallet provider
+export const MOBILE_WALLET_PROVIDERS: Record<string, Record<string, MobileWalletProvider>> = {
+  HN: { TIGO_MONEY: { name: 'Tigo Money', dialCode: '504', nationalNumberLength: 8 } },
+  GT: { TIGO_MONEY: { name: 'Tigo Money', dialCode: '502', nationalNumberLength: 8 } },
+  SV: { TIGO_MONEY: { name: 'Tigo Money', dialCode: '503', nationalNumberLength: 8 } },
+};
+
+// Uncollected cash is returned to the sender after this long
+export const PICKUP_VALIDITY_DAYS = 30;
+
+// Country code -> agent locations
+const locations: Record<string, CashPickupLocation[]> = cashPickupLocations;
+
+/**
+ * Payout methods other than bank accounts, for recipients without one: cash collected at an
+ * agent location with a pickup code, or money sent to a mobile wallet by phone number.
+ * Each method has its own status lifecycle, fees and arrival time.
+ */
+export class PayoutService {
+  static methodForAccountType(type: RecipientAccount['type']): PayoutMethod {
+    if (type === 'cash_pickup') {
+      return PayoutMethod.CASH_PICKUP;
+    }
+    if (type === 'mobile_wallet') {
+      return PayoutMethod.MOBILE_WALLET;
+    }
+    return PayoutMethod.BANK_ACCOUNT;
+  }
+
+  static calculateFees(method: PayoutMethod, amount: number, currency: string): TransferFee[] {
+    const { fee } = PAYOUT_METHODS[method];
+    const label = method === PayoutMethod.CASH_PICKUP ? 'Cash pickup fee' : 'Mobile wallet fee';
+    const fees: TransferFee[] = [];
+
+    if (fee.fixed > 0) {
+      fees.push({ type: 'FIXED', amount: fee.fixed, currency, description: label });
+    }
+    if (fee.percentage > 0) {
+      fees.push({
+        type: 'PERCENTAGE',
+        amount: Math.round(amount * fee.percentage) / 100,
+        currency,
+        description: `${label} (${fee.percentage}%)`,
+      });
+    }
+
+    return fees;
+  }
+
+  /**
+   * Arrival time for methods that do not depend on the currency pair; null for bank accounts
+   */
+  static estimateArrival(method: PayoutMethod, from: Date = new Date()): Date | null {
+    const { arrival } = PAYOUT_METHODS[method];
+    return arrival ? new Date(from.getTime() + arrival.minutes * 60 * 1000) : null;
+  }
+
+  /**
+   * Whether a transfer paid out by this method may move from one status to another:
+   * forward along its lifecycle, or to an exit reachable from where it is. Repeating a status is a no-op.
+   */
+  static canTransition(method: PayoutMethod, from: string, to: string): boolean {
+    if (from === to) {
+      return true;
+    }
+
+    const { lifecycle, exits } = PAYOUT_METHODS[method];
+    const fromIndex = lifecycle.indexOf(from as TransferStatusCode);
+    const toIndex = lifecycle.indexOf(to as TransferStatusCode);
+
+    if (toIndex !== -1) {
+      return fromIndex !== -1 && toIndex > fromIndex;
+    }
+
+    return exits[to as TransferStatusCode]?.includes(from as TransferStatusCode) ?? false;
+  }
+
+  static listLocations(countryCode: string): CashPickupLocation[] {
+    return locations[countryCode.toUpperCase()] ?? [];
+  }
+
+  static findLocation(countryCode: string, locationId: string): CashPickupLocation | null {
+    return this.listLocations(countryCode).find(location => location.id === locationId) ?? null;
+  }
+
+  static findWalletProvider(countryCode: string, providerCode: string): MobileWalletProvider | null {
+    return MOBILE_WALLET_PROVIDERS[countryCode.toUpperCase()]?.[providerCode.toUpperCase()] ?? null;
+  }
+
+  /**
+   * Phone number in E.164 format (+50499887766), accepting it with or without the dialling code;
+   * null if it is not a number on the provider's network
+   */
+  static normalizeWalletPhoneNumber(provider: MobileWalletProvider, phoneNumber: string): string | null {
+    const digits = phoneNumber.replace(/[\s()-]+/g, '').replace(/^(\+|00)/, '');
+    const national = digits.length === provider.dialCode.length + provider.nationalNumberLength && digits.startsWith(provider.dialCode)
+      ? digits.slice(provider.dialCode.length)
+      : digits;
+
+    if (!/^[0-9]+$/.test(national) || national.length !== provider.nationalNumberLength) {
+      return null;
+    }
+
+    return `+${provider.dialCode}${national}`;
+  }
+
+  /**
+   * Blind index of who a transfer pays, whatever the payout method, for telling recipients the
+   * user has paid before from new ones. IBAN recipients keep their IBAN's blind index; others are
+   * identified by their bank account, ID document or wallet number.
+   */
+  static recipientIndex(account: RecipientIdentity): string {
+    if (account.iban) {
+      return FieldEncryptionService.blindIndex('iban', account.iban);
+    }
+
+    const compact = (value?: string): string => (value ?? '').replace(/[\s-]+/g, '').toUpperCase();
+    const country = compact(account.country);
+
+    switch (account.type) {
+      case 'cash_pickup':
+        return FieldEncryptionService.blindIndex(
+          'recipient',
+          `cash_pickup:${country}:${account.recipientIdDocument?.type ?? ''}:${compact(account.recipientIdDocument?.number)}`
+        );
+      case 'mobile_wallet': {
+        const provider = account.walletProvider ? this.findWalletProvider(country, account.walletProvider) : null;
+        const phoneNumber = provider && account.phoneNumber
+          ? this.normalizeWalletPhoneNumber(provider, account.phoneNumber)
+          : null;
+        return FieldEncryptionService.blindIndex(
+          'recipient',
+          `mobile_wallet:${compact(account.walletProvider)}:${phoneNumber ?? compact(account.phoneNumber)}`
+        );
+      }
+      default:
+        // Honduran local accounts by bank, UK and US accounts by sort code or routing number
+        return FieldEncryptionService.blindIndex(
+          'recipient',
+          `${account.type}:${compact(account.bankCode ?? account.sortCode ?? account.routingNumber)}:${compact(account.accountNumber)}`
+        );
+    }
+  }
+
+  /**
+   * Code the recipient quotes at the agent to collect a cash pickup
+   */
+  static generatePickupCode(): string {
+    return Array.from({ length: 10 }, () => randomInt(10)).join('');
+  }
+
+  static pickupExpiry(from: Date = new Date()): Date {
+    return new Date(from.getTime() + PICKUP_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Expire cash pickups nobody collected in time, giving the held money back to the sender
+   * (run on a schedule: npm run payouts:expire-pickups)
+   */
+  static async expireUncollectedPickups(now: Date = new Date()): Promise<number> {
+    const uncollected = await prisma.wiseTransaction.findMany({
+      where: {
+        payoutMethod: PayoutMethod.CASH_PICKUP,
+        status: 'READY_FOR_PICKUP',
+        pickupExpiresAt: { lt: now },
+      },
+      select: { id: true },
+    });
+
+    let expired = 0;
+    for (const { id } of uncollected) {
+      await prisma.$transaction(async (tx) => {
+        // Skips pickups collected since they were listed
+        const { count } = await tx.wiseTransaction.updateMany({
+          where: { id, status: 'READY_FOR_PICKUP' },
+          data: { status: 'EXPIRED' },
+        });
+
+        if (count > 0) {
+          await tx.transferStatusChange.create({
+            data: { transferId: id, fromStatus: 'READY_FOR_PICKUP', toStatus: 'EXPIRED', source: 'pickup_expiry' },
+          });
+          await LedgerService.releaseHold(tx, id);
+          expired += 1;
+        }
+      });
+    }
+
+    return expired;
+  }
+
+  /**
+   * What is wrong with a cash pickup or mobile wallet recipient, as request validation issues
+   */
+  static validateRecipient(account: RecipientAccount): PayoutRecipientIssue[] {
+    const method = this.methodForAccountType(account.type);
+    if (method === PayoutMethod.BANK_ACCOUNT) {
+      return [];
+    }
+
+    const issues: PayoutRecipientIssue[] = [];
+    const country = account.country.toUpperCase();
+    const payoutCurrency = PAYOUT_COUNTRY_CURRENCIES[country];
+
+    if (!payoutCurrency) {
+      return [{ path: 'country', message: `Cash pickup and mobile wallet payouts are not available in ${country}` }];
+    }
+    if (account.currency.toUpperCase() !== payoutCurrency) {
+      issues.push({ path: 'currency', message: `Payouts in ${country} are made in ${payoutCurrency}` });
+    }
+
+    if (method === PayoutMethod.CASH_PICKUP) {
+      if (!account.pickupLocationId || !this.findLocation(country, account.pickupLocationId)) {
+        issues.push({ path: 'pickupLocationId', message: 'Choose a pickup location in the recipient\'s country' });
+      }
+      if (!account.recipientIdDocument || !/^[A-Z0-9]{4,20}$/i.test(account.recipientIdDocument.number.replace(/[\s-]+/g, ''))) {
+        issues.push({ path: 'recipientIdDocument.number', message: 'The recipient\'s ID document number is required to collect cash' });
+      }
+      return issues;
+    }
+
+    const provider = account.walletProvider ? this.findWalletProvider(country, account.walletProvider) : null;
+    if (!provider) {
+      issues.push({ path: 'walletProvider', message: `Choose a mobile wallet provider available in ${country}` });
+    } else if (!account.phoneNumber || !this.normalizeWalletPhoneNumber(provider, account.phoneNumber)) {
+      issues.push({
+        path: 'phoneNumber',
+        message: `${provider.name} numbers are ${provider.nationalNumberLength} digits after +${provider.dialCode}`,
+      });
+    }
+
+    return issues;
+  }
+}
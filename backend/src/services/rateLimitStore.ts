@@ -0,0 +1,75 @@
+import type { RateLimitCounter, RateLimitStore, RedisRateLimitClient } from '../types/rateLimit';
+
+interface MemoryCounter {
+  count: number;
+  resetAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, MemoryCounter>();
+  private nextSweepAt = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    this.sweep(now);
+
+    let counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      counter = { count: 0, resetAt: now + windowMs };
+      this.counters.set(key, counter);
+    }
+
+    counter.count += 1;
+
+    return { count: counter.count, resetAt: new Date(counter.resetAt) };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  // Drop expired windows at most once a minute so the map does not grow without bound
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+
+    this.nextSweepAt = now + 60 * 1000;
+  }
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private client: RedisRateLimitClient,
+    private prefix: string = 'ratelimit:'
+  ) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const redisKey = this.prefix + key;
+    const count = await this.client.incr(redisKey);
+
+    if (count === 1) {
+      await this.client.pexpire(redisKey, windowMs);
+    }
+
+    let ttl = await this.client.pttl(redisKey);
+
+    // A key without expiry (e.g. the pexpire call was lost) would block the client forever
+    if (ttl < 0) {
+      await this.client.pexpire(redisKey, windowMs);
+      ttl = windowMs;
+    }
+
+    return { count, resetAt: new Date(Date.now() + ttl) };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
@@ -0,0 +1,198 @@
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { generateToken } from '../middleware/auth';
+import { generateOpaqueToken, hashToken } from '../utils/tokens';
+import { ClientInfo } from '../utils/userAgent';
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export type RefreshResult =
+  | { status: 'rotated'; tokens: SessionTokens }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+export interface SessionSummary {
+  id: string;
+  deviceName: string | null;
+  platform: string | null;
+  ipAddress: string | null;
+  lastSeenAt: Date;
+  createdAt: Date;
+  current: boolean;
+}
+
+/**
+ * Sessions with short-lived access tokens and rotating refresh tokens
+ * Each refresh token can be exchanged once. Presenting a token that was already
+ * exchanged means it leaked, so the whole session (token family) is revoked.
+ */
+export class SessionService {
+  private static refreshExpiry(): Date {
+    return new Date(Date.now() + env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private static async issueRefreshToken(sessionId: string): Promise<string> {
+    const refreshToken = generateOpaqueToken();
+
+    await prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: hashToken(refreshToken),
+      },
+    });
+
+    return refreshToken;
+  }
+
+  /**
+   * Create a session row and issue its first access and refresh tokens
+   */
+  static async createSession(userId: string, email: string, client: ClientInfo = {}): Promise<SessionTokens> {
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        token: generateToken(userId, email, ''),
+        expiresAt: this.refreshExpiry(),
+        deviceName: client.deviceName,
+        platform: client.platform,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+      },
+    });
+
+    const token = generateToken(userId, email, session.id);
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { token },
+    });
+
+    const refreshToken = await this.issueRefreshToken(session.id);
+
+    return { token, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair
+   */
+  static async refresh(refreshToken: string, client: ClientInfo = {}): Promise<RefreshResult> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: {
+        session: {
+          include: {
+            user: {
+              select: { id: true, email: true, isActive: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!record) {
+      return { status: 'invalid' };
+    }
+
+    const { session } = record;
+
+    if (record.usedAt) {
+      await this.revokeSession(session.id);
+      return { status: 'reused' };
+    }
+
+    if (session.expiresAt < new Date() || !session.user.isActive) {
+      await this.revokeSession(session.id);
+      return { status: 'invalid' };
+    }
+
+    // Conditional update: of two concurrent exchanges only one can win; the other is a replay
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count !== 1) {
+      await this.revokeSession(session.id);
+      return { status: 'reused' };
+    }
+
+    const token = generateToken(session.user.id, session.user.email, session.id);
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: {
+        token,
+        expiresAt: this.refreshExpiry(),
+        lastSeenAt: new Date(),
+        ipAddress: client.ipAddress ?? session.ipAddress,
+      },
+    });
+
+    const nextRefreshToken = await this.issueRefreshToken(session.id);
+
+    return {
+      status: 'rotated',
+      tokens: { token, refreshToken: nextRefreshToken },
+    };
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  static async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        deviceName: true,
+        platform: true,
+        ipAddress: true,
+        lastSeenAt: true,
+        createdAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map(session => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of a user's sessions. Returns false if the session does not belong to the user.
+   */
+  static async revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+    const result = await prisma.session.deleteMany({
+      where: { id: sessionId, userId },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke every session of a user (sign out everywhere). Returns the number revoked.
+   */
+  static async revokeAllSessions(userId: string): Promise<number> {
+    const result = await prisma.session.deleteMany({
+      where: { userId },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Delete a session; its refresh tokens are removed by cascade
+   */
+  static async revokeSession(sessionId: string): Promise<void> {
+    await prisma.session.deleteMany({
+      where: { id: sessionId },
+    });
+  }
+}
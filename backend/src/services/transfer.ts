@@ -1,5 +1,13 @@
 import { prisma } from '../config/database';
 import { wiseService } from './wise';
+import { FieldEncryptionService } from './encryption';
+import { PayoutService, PAYOUT_METHODS, type PayoutMethodPolicy, type RecipientIdentity } from './payout';
+import { LedgerService } from './ledger';
+import { JobQueue } from './jobQueue';
+import { IdempotencyService } from './idempotency';
+import { HONDURAN_BANKS } from '../utils/hondurasAccount';
+import { createError } from '../middleware/errorHandler';
+import { PayoutMethod, Prisma, type TransferQuote as StoredQuote, type WiseAccount, type WiseTransaction } from '../generated/prisma';
 import type {
   TransferQuoteRequest,
   TransferQuote,
@@ -8,11 +16,26 @@ import type {
   ExchangeRate,
   TransferFee,
   TransferReceipt,
+  TransferStatus,
+  TransferStatusChangeSource,
 } from '../types/transfer';
 
+// Statuses that end a transfer without paying out, releasing its hold
+const RELEASING_STATUSES = ['FAILED', 'CANCELLED', 'EXPIRED'];
+
+// How long a quote's rate and fees are guaranteed
+const QUOTE_VALIDITY_MINUTES = 15;
+
+// Transfers between customers of the app are instant, like Wise-to-Wise
+const INTERNAL_TRANSFER_SIMULATION: PayoutMethodPolicy['simulation'] = [
+  { status: 'PROCESSING', delayMs: 1000, devDelayMs: 1000 },
+  { status: 'COMPLETED', delayMs: 2000, devDelayMs: 2000 },
+];
+
 export class TransferService {
   /**
    * Get current exchange rates for currency pairs
+   * Throws a 400 for pairs without a rate.
    */
   async getExchangeRate(source: string, target: string): Promise<ExchangeRate> {
     // Sandbox simulation with realistic rates
@@ -24,6 +47,8 @@ export class TransferService {
         AUD: 1.35,
         JPY: 110.0,
         CHF: 0.92,
+        HNL: 24.7,
+        GTQ: 7.75,
       },
       EUR: {
         USD: 1.18,
@@ -32,6 +57,8 @@ export class TransferService {
         AUD: 1.59,
         JPY: 129.5,
         CHF: 1.08,
+        HNL: 29.15,
+        GTQ: 9.15,
       },
       GBP: {
         USD: 1.37,
@@ -43,9 +70,13 @@ export class TransferService {
       },
     };
 
+    const baseRate = source === target ? 1 : mockRates[source]?.[target];
+    if (!baseRate) {
+      throw createError('Currency pair not supported', 400, { source, target });
+    }
+
     // Add some realistic fluctuation (±2%)
-    const baseRate = mockRates[source]?.[target] || 1.0;
-    const fluctuation = (Math.random() - 0.5) * 0.04; // ±2%
+    const fluctuation = source === target ? 0 : (Math.random() - 0.5) * 0.04; // ±2%
     const currentRate = baseRate * (1 + fluctuation);
 
     return {
@@ -58,69 +89,183 @@ export class TransferService {
   }
 
   /**
-   * Calculate transfer fees - ALL TRANSFERS ARE FREE
+   * Calculate transfer fees - bank transfers are free; cash pickup and mobile wallet payouts are not
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  calculateFees(amount: number, sourceCurrency: string, targetCurrency: string): TransferFee[] {
-    // All transfers are now free - return empty array
-    return [];
+  calculateFees(amount: number, sourceCurrency: string, targetCurrency: string, payoutMethod: PayoutMethod = PayoutMethod.BANK_ACCOUNT): TransferFee[] {
+    if (payoutMethod === PayoutMethod.BANK_ACCOUNT) {
+      return [];
+    }
+
+    return PayoutService.calculateFees(payoutMethod, amount, sourceCurrency);
   }
 
   /**
-   * Generate a transfer quote
+   * Generate a transfer quote and store it, so a transfer can execute exactly these terms
    */
-  async createQuote(request: TransferQuoteRequest): Promise<TransferQuote> {
+  async createQuote(request: TransferQuoteRequest, userId: string): Promise<TransferQuote> {
+    // Quotes are priced from one of the user's own active accounts
+    const sourceAccount = await prisma.wiseAccount.findFirst({
+      where: {
+        id: request.sourceAccountId,
+        userId,
+        status: 'ACTIVE',
+      },
+    });
+
+    if (!sourceAccount) {
+      throw createError('Source account not found', 404);
+    }
+
+    if (sourceAccount.currency !== request.sourceCurrency) {
+      throw createError('Quote mismatch', 400, {
+        field: 'sourceCurrency',
+        expected: sourceAccount.currency,
+      });
+    }
+
     // Get current exchange rate
     const exchangeRate = await this.getExchangeRate(request.sourceCurrency, request.targetCurrency);
     
-    // Calculate fees
-    const fees = this.calculateFees(request.amount, request.sourceCurrency, request.targetCurrency);
+    // Calculate fees (charged on top of the amount sent)
+    const payoutMethod = request.payoutMethod ?? PayoutMethod.BANK_ACCOUNT;
+    const fees = this.calculateFees(request.amount, request.sourceCurrency, request.targetCurrency, payoutMethod);
     const totalFee = fees.reduce((sum, fee) => sum + fee.amount, 0);
     
     // Calculate target amount
     const targetAmount = request.sourceCurrency === request.targetCurrency
       ? request.amount
-      : (request.amount - totalFee) * exchangeRate.rate;
-    
-    // Generate quote ID
-    const quoteId = `quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      : request.amount * exchangeRate.rate;
     
     // Set expiration (15 minutes from now)
     const expiresAt = new Date();
-    expiresAt.setMinutes(expiresAt.getMinutes() + 15);
-    
-    // Estimate processing time
-    const processingTime = this.estimateProcessingTime(request.sourceCurrency, request.targetCurrency);
+    expiresAt.setMinutes(expiresAt.getMinutes() + QUOTE_VALIDITY_MINUTES);
     
+    const quote = await prisma.transferQuote.create({
+      data: {
+        userId,
+        sourceAccountId: sourceAccount.id,
+        sourceAmount: request.amount,
+        sourceCurrency: request.sourceCurrency,
+        targetAmount: Math.round(targetAmount * 100) / 100, // Round to 2 decimals
+        targetCurrency: request.targetCurrency,
+        targetCountry: request.targetCountry.toUpperCase(),
+        exchangeRate: exchangeRate.rate,
+        fee: Math.round(totalFee * 100) / 100,
+        type: request.type,
+        payoutMethod,
+        expiresAt,
+      },
+    });
+
+    return this.toTransferQuote(quote);
+  }
+
+  /**
+   * Re-price an expired quote at the current rate and fees, as a new quote with the same terms.
+   * A quote that is still valid is returned as it is.
+   */
+  async refreshQuote(quoteId: string, userId: string): Promise<TransferQuote> {
+    const quote = await prisma.transferQuote.findFirst({
+      where: { id: quoteId, userId },
+    });
+
+    if (!quote) {
+      throw createError('Quote not found', 404);
+    }
+
+    if (quote.usedAt) {
+      throw createError('Quote already used', 409, { transferId: quote.transferId });
+    }
+
+    if (quote.expiresAt > new Date()) {
+      return this.toTransferQuote(quote);
+    }
+
+    return this.createQuote({
+      sourceAccountId: quote.sourceAccountId,
+      sourceCurrency: quote.sourceCurrency,
+      targetCurrency: quote.targetCurrency,
+      targetCountry: quote.targetCountry,
+      amount: Number(quote.sourceAmount),
+      type: quote.type as TransferQuoteRequest['type'],
+      payoutMethod: quote.payoutMethod,
+    }, userId);
+  }
+
+  /**
+   * A user's stored quote, if it can still be executed
+   * Quotes of other users are reported as not found, so quote IDs reveal nothing.
+   */
+  private async findExecutableQuote(
+    client: Prisma.TransactionClient,
+    quoteId: string,
+    userId: string
+  ): Promise<StoredQuote> {
+    const quote = await client.transferQuote.findFirst({
+      where: { id: quoteId, userId },
+    });
+
+    if (!quote) {
+      throw createError('Quote not found', 404);
+    }
+
+    if (quote.usedAt) {
+      throw createError('Quote already used', 409, { transferId: quote.transferId });
+    }
+
+    if (quote.expiresAt <= new Date()) {
+      throw createError('Quote expired', 410, { expiresAt: quote.expiresAt.toISOString() });
+    }
+
+    return quote;
+  }
+
+  private toTransferQuote(quote: StoredQuote): TransferQuote {
+    const sourceAmount = Number(quote.sourceAmount);
+    const fee = Number(quote.fee);
+
     return {
-      id: quoteId,
-      sourceAmount: request.amount,
-      sourceCurrency: request.sourceCurrency,
-      targetAmount: Math.round(targetAmount * 100) / 100, // Round to 2 decimals
-      targetCurrency: request.targetCurrency,
-      exchangeRate: exchangeRate.rate,
-      fee: totalFee,
-      feeCurrency: request.sourceCurrency,
-      totalCost: request.amount,
-      expiresAt: expiresAt.toISOString(),
-      processingTime,
+      id: quote.id,
+      sourceAmount,
+      sourceCurrency: quote.sourceCurrency,
+      targetAmount: Number(quote.targetAmount),
+      targetCurrency: quote.targetCurrency,
+      exchangeRate: Number(quote.exchangeRate),
+      fee,
+      feeCurrency: quote.sourceCurrency,
+      totalCost: Math.round((sourceAmount + fee) * 100) / 100,
+      expiresAt: quote.expiresAt.toISOString(),
+      processingTime: this.estimateProcessingTime(quote.sourceCurrency, quote.targetCurrency, quote.payoutMethod),
       rateType: 'FIXED',
+      payoutMethod: quote.payoutMethod,
     };
   }
 
   /**
-   * Execute a transfer with a specific amount (for simple transfers) using real Wise API integration
+   * Account that transfers with a plain amount (POST /wise/transfers) are sent from
    */
-  async executeTransferWithAmount(request: CreateTransferRequest, userId: string, amount: number): Promise<Transfer> {
-    console.log('🚀 Executing transfer with real Wise API integration');
-    
-    // Find user's source account to get the correct currency
-    const sourceAccount = await prisma.wiseAccount.findFirst({
+  async getDefaultSourceAccount(userId: string): Promise<WiseAccount | null> {
+    return prisma.wiseAccount.findFirst({
       where: {
         userId,
         status: 'ACTIVE',
       },
     });
+  }
+
+  /**
+   * Execute a transfer with a specific amount (for simple transfers) using real Wise API integration
+   */
+  async executeTransferWithAmount(
+    request: CreateTransferRequest,
+    userId: string,
+    amount: number,
+    idempotencyKey?: string
+  ): Promise<Transfer> {
+    console.log('🚀 Executing transfer with real Wise API integration');
+    
+    // Find user's source account to get the correct currency
+    const sourceAccount = await this.getDefaultSourceAccount(userId);
 
     if (!sourceAccount) {
       throw new Error('No active account found for user');
@@ -253,87 +398,79 @@ export class TransferService {
     };
 
     // Store in database with actual amount and check if internal transfer
-    const isInternalTransfer = await this.storeTransfer(transfer, userId);
+    const isInternalTransfer = await this.storeTransfer(transfer, userId, request.recipientAccount, undefined, idempotencyKey);
     
-    // Step 4: Simulate transfer status progression with real Wise API
-    try {
-      const transferIdNumber = parseInt(transferId.replace(/\D/g, '').slice(-8));
-      if (transferIdNumber && transferResult.success && !isInternalTransfer) {
+    // Step 4: Mirror the progression in the Wise sandbox for external transfers it knows about
+    const transferIdNumber = parseInt(transferId.replace(/\D/g, '').slice(-8));
+    if (transferIdNumber && transferResult.success && !isInternalTransfer) {
+      try {
         console.log('🔄 Using real Wise simulation API for external transfer status updates');
         // Use real Wise Simulation API for status progression
         await wiseService.simulateTransferStatus(transferIdNumber, 'processing');
-        
-        // Simulate realistic progression
-        setTimeout(async () => {
-          try {
-            await wiseService.simulateTransferStatus(transferIdNumber, 'funds_converted');
-            setTimeout(async () => {
-              await wiseService.simulateTransferStatus(transferIdNumber, 'outgoing_payment_sent');
-            }, 3000);
-          } catch (simError) {
-            console.warn('Wise API simulation error:', simError);
-          }
-        }, 2000);
-      } else {
-        throw new Error('Using fallback simulation');
+
+        // Simulate realistic progression (queued, so a restart does not cut it short)
+        await JobQueue.enqueue(prisma, {
+          type: 'wise.simulate_status',
+          payload: { wiseTransferId: transferIdNumber, status: 'funds_converted' },
+          runAt: new Date(Date.now() + 2000),
+          transferId,
+        });
+        await JobQueue.enqueue(prisma, {
+          type: 'wise.simulate_status',
+          payload: { wiseTransferId: transferIdNumber, status: 'outgoing_payment_sent' },
+          runAt: new Date(Date.now() + 5000),
+          transferId,
+        });
+      } catch (error) {
+        console.warn('⚠️ Wise simulation unavailable, progressing the transfer locally only:', error);
       }
-    } catch {
-      console.log('⚠️ Using internal simulation as fallback');
-      // Fallback to our internal simulation - pass the internal transfer flag
-      this.simulateTransferProgress(transferId, isInternalTransfer);
     }
+
+    // The sandbox does not report back, so the stored transfer moves through its statuses
+    // (and settles or releases its hold) on its own steps either way
+    await this.scheduleTransferProgress(transferId, isInternalTransfer);
     
     console.log('🎉 Transfer execution completed with real API integration');
     return transfer;
   }
 
   /**
-   * Execute a transfer based on a quote
+   * Execute a transfer based on a stored quote: its amount, rate and fees, exactly once
    */
-  async executeTransfer(request: CreateTransferRequest, userId: string): Promise<Transfer> {
-    // Find user's source account to get the correct currency and amount
-    const sourceAccount = await prisma.wiseAccount.findFirst({
-      where: {
-        userId,
-        status: 'ACTIVE',
-      },
-    });
-
-    if (!sourceAccount) {
-      throw new Error('No active account found for user');
-    }
-
+  async executeTransfer(request: CreateTransferRequest, userId: string, idempotencyKey?: string): Promise<Transfer> {
     // Validate recipient account is provided
     if (!request.recipientAccount) {
       throw new Error('Recipient account information is required');
     }
 
-    // In a real implementation, we'd retrieve the quote from storage/cache
-    // For now, we'll generate quote data based on the request
-    const amount = 500; // This should come from the stored quote
-    const sourceCurrency = sourceAccount.currency;
-    const targetCurrency = request.recipientAccount.currency;
-    
-    // Get exchange rate for the currency pair
-    const exchangeRate = await this.getExchangeRate(sourceCurrency, targetCurrency);
-    
-    // Calculate fees
-    const fees = this.calculateFees(amount, sourceCurrency, targetCurrency);
-    const totalFee = fees.reduce((sum, fee) => sum + fee.amount, 0);
-    
-    // Calculate target amount
-    const targetAmount = sourceCurrency === targetCurrency
-      ? amount
-      : (amount - totalFee) * exchangeRate.rate;
+    const quote = await this.findExecutableQuote(prisma, request.quoteId, userId);
+
+    // The recipient must be paid the way the quote was priced for
+    const payoutMethod = PayoutService.methodForAccountType(request.recipientAccount.type);
+    const mismatch = [
+      { field: 'recipientAccount.currency', expected: quote.targetCurrency, actual: request.recipientAccount.currency.toUpperCase() },
+      { field: 'recipientAccount.country', expected: quote.targetCountry, actual: request.recipientAccount.country.toUpperCase() },
+      { field: 'recipientAccount.type', expected: quote.payoutMethod, actual: payoutMethod },
+    ].find(check => check.expected !== check.actual);
+
+    if (mismatch) {
+      throw createError('Quote mismatch', 400, mismatch);
+    }
+
+    const amount = Number(quote.sourceAmount);
+    const sourceCurrency = quote.sourceCurrency;
+    const targetCurrency = quote.targetCurrency;
+    const totalFee = Number(quote.fee);
+    const targetAmount = Number(quote.targetAmount);
 
     const transferId = `transfer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     // Create transfer with real user data
     const mockTransfer: Transfer = {
       id: transferId,
-      sourceAccountId: sourceAccount.id,
+      sourceAccountId: quote.sourceAccountId,
       targetAccountId: request.targetAccountId,
-      quoteId: request.quoteId,
+      quoteId: quote.id,
       status: {
         status: 'PENDING',
         message: 'Transfer initiated successfully',
@@ -341,32 +478,87 @@ export class TransferService {
       },
       sourceAmount: amount,
       sourceCurrency: sourceCurrency,
-      targetAmount: Math.round(targetAmount * 100) / 100,
+      targetAmount,
       targetCurrency: targetCurrency,
-      exchangeRate: exchangeRate.rate,
+      exchangeRate: Number(quote.exchangeRate),
       fee: totalFee,
       reference: request.reference || `Transfer ${Date.now()}`,
       description: request.description,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-      estimatedArrival: this.calculateEstimatedArrival(sourceCurrency, targetCurrency),
+      estimatedArrival: this.calculateEstimatedArrival(sourceCurrency, targetCurrency, payoutMethod),
+      payoutMethod,
       recipient: request.recipientAccount ? {
         name: request.recipientAccount.holderName,
         iban: request.recipientAccount.iban,
         accountNumber: request.recipientAccount.accountNumber,
-        bankName: request.recipientAccount.bankName,
+        bankName: request.recipientAccount.bankName
+          || (request.recipientAccount.type === 'honduras_local' ? HONDURAN_BANKS[request.recipientAccount.bankCode ?? '']?.name : undefined),
       } : undefined,
+      payout: this.buildPayout(payoutMethod, request.recipientAccount),
     };
 
-    // In real implementation, would store in database
-    const isInternalTransfer = await this.storeTransfer(mockTransfer, userId);
+    // Stored together with using up the quote, so a quote pays for one transfer only
+    const isInternalTransfer = await this.storeTransfer(mockTransfer, userId, request.recipientAccount, quote.id, idempotencyKey);
     
     // Simulate status updates (in production, would be webhook-driven)
-    this.simulateTransferProgress(transferId, isInternalTransfer);
+    await this.scheduleTransferProgress(transferId, isInternalTransfer, payoutMethod);
     
     return mockTransfer;
   }
 
+  /**
+   * Payout details of a cash pickup or mobile wallet transfer: a fresh pickup code, or the wallet's number
+   */
+  private buildPayout(
+    payoutMethod: PayoutMethod,
+    recipientAccount: NonNullable<CreateTransferRequest['recipientAccount']>
+  ): Transfer['payout'] {
+    if (payoutMethod === PayoutMethod.CASH_PICKUP) {
+      return {
+        method: payoutMethod,
+        pickupCode: PayoutService.generatePickupCode(),
+        pickupLocationId: recipientAccount.pickupLocationId,
+        pickupExpiresAt: PayoutService.pickupExpiry().toISOString(),
+        recipientIdType: recipientAccount.recipientIdDocument?.type,
+        recipientIdNumber: recipientAccount.recipientIdDocument?.number.replace(/[\s-]+/g, '').toUpperCase(),
+      };
+    }
+
+    if (payoutMethod === PayoutMethod.MOBILE_WALLET) {
+      const provider = PayoutService.findWalletProvider(recipientAccount.country, recipientAccount.walletProvider ?? '');
+      return {
+        method: payoutMethod,
+        walletProvider: recipientAccount.walletProvider?.toUpperCase(),
+        phoneNumber: (provider && recipientAccount.phoneNumber
+          ? PayoutService.normalizeWalletPhoneNumber(provider, recipientAccount.phoneNumber)
+          : null) ?? recipientAccount.phoneNumber,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Decrypted payout details of a stored cash pickup or mobile wallet transfer
+   */
+  private async readPayout(transaction: WiseTransaction): Promise<Transfer['payout']> {
+    if (transaction.payoutMethod === PayoutMethod.BANK_ACCOUNT) {
+      return undefined;
+    }
+
+    return {
+      method: transaction.payoutMethod,
+      pickupCode: (await FieldEncryptionService.decrypt(transaction.pickupCode)) ?? undefined,
+      pickupLocationId: transaction.pickupLocationId ?? undefined,
+      pickupExpiresAt: transaction.pickupExpiresAt?.toISOString(),
+      recipientIdType: transaction.recipientIdType ?? undefined,
+      recipientIdNumber: (await FieldEncryptionService.decrypt(transaction.recipientIdNumber)) ?? undefined,
+      phoneNumber: (await FieldEncryptionService.decrypt(transaction.recipientPhone)) ?? undefined,
+      walletProvider: transaction.walletProvider ?? undefined,
+    };
+  }
+
   /**
    * Get transfer by ID
    */
@@ -389,13 +581,18 @@ export class TransferService {
         return null;
       }
 
+      const quote = await prisma.transferQuote.findUnique({
+        where: { transferId: wiseTransaction.id },
+        select: { id: true },
+      });
+
       // Convert database record to Transfer format
       return {
         id: wiseTransaction.id,
         sourceAccountId: wiseTransaction.wiseAccountId,
-        quoteId: `quote_${Date.now()}`,
+        quoteId: quote?.id,
         status: {
-          status: wiseTransaction.status as 'PENDING' | 'PROCESSING' | 'SENT' | 'RECEIVED' | 'COMPLETED' | 'FAILED' | 'CANCELLED',
+          status: wiseTransaction.status as TransferStatus['status'],
           message: `Transfer ${wiseTransaction.status.toLowerCase()}`,
           timestamp: wiseTransaction.updatedAt.toISOString(),
         },
@@ -412,8 +609,11 @@ export class TransferService {
         completedAt: wiseTransaction.completedAt?.toISOString(),
         estimatedArrival: this.calculateEstimatedArrival(
           wiseTransaction.currency,
-          wiseTransaction.targetCurrency || wiseTransaction.currency
+          wiseTransaction.targetCurrency || wiseTransaction.currency,
+          wiseTransaction.payoutMethod
         ),
+        payoutMethod: wiseTransaction.payoutMethod,
+        payout: await this.readPayout(wiseTransaction),
       };
     } catch (error) {
       console.error('Error getting transfer:', error);
@@ -442,12 +642,18 @@ export class TransferService {
         skip: offset,
       });
 
-      return wiseTransactions.map(transaction => ({
+      const quotes = await prisma.transferQuote.findMany({
+        where: { transferId: { in: wiseTransactions.map(transaction => transaction.id) } },
+        select: { id: true, transferId: true },
+      });
+      const quoteIds = new Map(quotes.map(quote => [quote.transferId, quote.id]));
+
+      return await Promise.all(wiseTransactions.map(async transaction => ({
         id: transaction.id,
         sourceAccountId: transaction.wiseAccountId,
-        quoteId: `quote_${Date.now()}`,
+        quoteId: quoteIds.get(transaction.id),
         status: {
-          status: transaction.status as 'PENDING' | 'PROCESSING' | 'SENT' | 'RECEIVED' | 'COMPLETED' | 'FAILED' | 'CANCELLED',
+          status: transaction.status as TransferStatus['status'],
           message: `Transfer ${transaction.status.toLowerCase()}`,
           timestamp: transaction.updatedAt.toISOString(),
         },
@@ -463,8 +669,8 @@ export class TransferService {
         recipient: transaction.recipientName ? {
           name: transaction.recipientName,
           email: transaction.recipientEmail || undefined,
-          iban: transaction.recipientIban || undefined,
-          accountNumber: transaction.recipientAccountNumber || undefined,
+          iban: (await FieldEncryptionService.decrypt(transaction.recipientIban)) || undefined,
+          accountNumber: (await FieldEncryptionService.decrypt(transaction.recipientAccountNumber)) || undefined,
           bankName: transaction.recipientBankName || undefined,
           country: transaction.recipientCountry || undefined,
         } : undefined,
@@ -473,9 +679,11 @@ export class TransferService {
         completedAt: transaction.completedAt?.toISOString(),
         estimatedArrival: this.calculateEstimatedArrival(
           transaction.currency,
-          transaction.targetCurrency || transaction.currency
+          transaction.targetCurrency || transaction.currency,
+          transaction.payoutMethod
         ),
-      }));
+        payoutMethod: transaction.payoutMethod,
+      })));
     } catch (error) {
       console.error('Error getting user transfers:', error);
       return [];
@@ -486,15 +694,36 @@ export class TransferService {
    * Store transfer in database with ATOMIC TRANSACTION for financial safety
    * 🔒 CRITICAL: All financial operations must be atomic to prevent money loss
    */
-  private async storeTransfer(transfer: Transfer, userId: string): Promise<boolean> {
+  private async storeTransfer(
+    transfer: Transfer,
+    userId: string,
+    recipient: RecipientIdentity,
+    quoteId?: string,
+    idempotencyKey?: string
+  ): Promise<boolean> {
     // 🚨 FINTECH SAFETY: Use database transaction to ensure atomicity
     return await prisma.$transaction(async (tx) => {
       console.log('🔒 Starting atomic financial transaction for transfer:', transfer.id);
       
       try {
+      // 0️⃣ Use up the stored quote; of two requests racing on it, only one claims it
+      if (quoteId) {
+        const claimed = await tx.transferQuote.updateMany({
+          where: { id: quoteId, userId, usedAt: null, expiresAt: { gt: new Date() } },
+          data: { usedAt: new Date(), transferId: transfer.id },
+        });
+
+        if (claimed.count === 0) {
+          // Throws why the quote can no longer be used
+          await this.findExecutableQuote(tx, quoteId, userId);
+          throw createError('Quote already used', 409);
+        }
+      }
+
       // Find sender's account and user information
       const senderAccount = await tx.wiseAccount.findFirst({
         where: {
+          id: transfer.sourceAccountId,
           userId,
           currency: transfer.sourceCurrency,
         },
@@ -513,14 +742,6 @@ export class TransferService {
         throw new Error('Source account not found');
       }
 
-      // 🛡️ FINANCIAL SAFETY: Check sufficient balance before proceeding
-      const currentBalance = Number(senderAccount.lastBalance || 0);
-      const totalDeduction = transfer.sourceAmount + transfer.fee;
-      
-      if (transfer.status.status === 'COMPLETED' && currentBalance < totalDeduction) {
-        throw new Error(`Insufficient balance: ${currentBalance} < ${totalDeduction}`);
-      }
-
       // Get sender's display name
       const senderName = senderAccount.user 
         ? `${senderAccount.user.firstName} ${senderAccount.user.lastName}`.trim() || senderAccount.user.email
@@ -546,45 +767,50 @@ export class TransferService {
           // Store recipient information for Recent Recipients feature
           recipientName: transfer.recipient?.name,
           recipientEmail: undefined, // Email not available in recipient object
-          recipientIban: transfer.recipient?.iban,
-          recipientAccountNumber: transfer.recipient?.accountNumber,
+          recipientIban: await FieldEncryptionService.encrypt(transfer.recipient?.iban),
+          recipientIbanIndex: FieldEncryptionService.blindIndex('iban', transfer.recipient?.iban),
+          recipientIndex: PayoutService.recipientIndex(recipient),
+          recipientAccountNumber: await FieldEncryptionService.encrypt(transfer.recipient?.accountNumber),
           recipientBankName: transfer.recipient?.bankName,
           recipientCountry: undefined, // Country not available in recipient object
+          // Cash pickup and mobile wallet payout details
+          payoutMethod: transfer.payoutMethod,
+          pickupLocationId: transfer.payout?.pickupLocationId,
+          pickupCode: await FieldEncryptionService.encrypt(transfer.payout?.pickupCode),
+          pickupExpiresAt: transfer.payout?.pickupExpiresAt ? new Date(transfer.payout.pickupExpiresAt) : undefined,
+          recipientIdType: transfer.payout?.recipientIdType,
+          recipientIdNumber: await FieldEncryptionService.encrypt(transfer.payout?.recipientIdNumber),
+          recipientPhone: await FieldEncryptionService.encrypt(transfer.payout?.phoneNumber),
+          walletProvider: transfer.payout?.walletProvider,
         },
       });
 
-      // 2️⃣ Update sender's balance atomically if transfer is completed
-      if (transfer.status.status === 'COMPLETED') {
-        const newSenderBalance = currentBalance - totalDeduction;
-        await tx.wiseAccount.update({
-          where: { id: senderAccount.id },
-          data: {
-            lastBalance: newSenderBalance,
-            balanceUpdatedAt: new Date(),
-          },
-        });
-        console.log('💰 Updated sender balance atomically:', {
-          senderId: senderAccount.id,
-          oldBalance: currentBalance,
-          deducted: totalDeduction,
-          newBalance: newSenderBalance
-        });
+      await tx.transferStatusChange.create({
+        data: { transferId: transfer.id, toStatus: transfer.status.status, source: 'created' },
+      });
+
+      // A retry of a request that stopped before answering gets this transfer, not a new one
+      if (idempotencyKey) {
+        await IdempotencyService.recordTransfer(tx, userId, idempotencyKey, transfer.id);
       }
 
+      // 2️⃣ Hold the amount + fee on the sender's account until the transfer settles or is released
+      await LedgerService.placeHold(tx, senderAccount, transfer.id, transfer.sourceAmount + transfer.fee);
+
       // 3️⃣ Find recipient's account by IBAN or account number (within transaction)
       let recipientAccount = null;
       
       console.log('🔍 Looking for recipient account:', {
-        iban: transfer.recipient?.iban,
-        accountNumber: transfer.recipient?.accountNumber,
+        hasIban: !!transfer.recipient?.iban,
+        hasAccountNumber: !!transfer.recipient?.accountNumber,
         targetCurrency: transfer.targetCurrency
       });
       
-      // Try to find by IBAN first
+      // Try to find by IBAN first (encrypted, so matched on its blind index)
       if (transfer.recipient?.iban) {
         recipientAccount = await tx.wiseAccount.findFirst({
           where: {
-            iban: transfer.recipient.iban,
+            ibanIndex: FieldEncryptionService.blindIndex('iban', transfer.recipient.iban),
             currency: transfer.targetCurrency,
             status: 'ACTIVE',
           },
@@ -596,51 +822,29 @@ export class TransferService {
       if (!recipientAccount && transfer.recipient?.accountNumber) {
         recipientAccount = await tx.wiseAccount.findFirst({
           where: {
-            accountNumber: transfer.recipient.accountNumber,
+            accountNumberIndex: FieldEncryptionService.blindIndex('account_number', transfer.recipient.accountNumber),
             currency: transfer.targetCurrency,
             status: 'ACTIVE',
           },
         });
         console.log('🔢 Found by account number:', !!recipientAccount);
       }
-      
-      // If still not found, try to find any account with matching currency
-      // This helps in development where account numbers might be different
-      if (!recipientAccount) {
-        const allAccounts = await tx.wiseAccount.findMany({
-          where: {
-            currency: transfer.targetCurrency,
-            status: 'ACTIVE',
-          },
-          select: {
-            id: true,
-            iban: true,
-            accountNumber: true,
-            currency: true,
-            userId: true,
-          },
+
+      // 4️⃣ Settle in the ledger right away if the transfer is already completed
+      if (transfer.status.status === 'COMPLETED') {
+        await LedgerService.settleTransfer(tx, {
+          transferId: transfer.id,
+          sender: senderAccount,
+          amount: transfer.sourceAmount,
+          fee: transfer.fee,
+          currency: transfer.sourceCurrency,
+          recipient: recipientAccount,
+          targetAmount: transfer.targetAmount,
+          targetCurrency: transfer.targetCurrency,
         });
-        console.log('💳 Available accounts for matching:', allAccounts);
-        
-        // Try to match by partial account number (last 4 digits) as fallback
-        if (transfer.recipient?.accountNumber && allAccounts.length > 0) {
-          const searchNumber = transfer.recipient.accountNumber.slice(-4);
-          const matchedAccount = allAccounts.find(acc => 
-            acc.accountNumber?.slice(-4) === searchNumber ||
-            acc.iban?.slice(-4) === searchNumber
-          );
-          
-          if (matchedAccount) {
-            // Get the full account details including lastBalance
-            recipientAccount = await tx.wiseAccount.findUnique({
-              where: { id: matchedAccount.id }
-            });
-          }
-          console.log('🎯 Found by partial match:', !!recipientAccount);
-        }
       }
 
-      // 4️⃣ Create incoming transaction for recipient if found (within transaction)
+      // 5️⃣ Create incoming transaction for recipient if found (within transaction)
       if (recipientAccount) {
           console.log('✅ Creating incoming transaction for recipient (INTERNAL TRANSFER):', {
             recipientAccountId: recipientAccount.id,
@@ -668,27 +872,6 @@ export class TransferService {
             },
           });
 
-          // 5️⃣ Update recipient balance atomically if transfer is completed
-          if (transfer.status.status === 'COMPLETED') {
-            const currentRecipientBalance = Number(recipientAccount.lastBalance || 0);
-            const newRecipientBalance = currentRecipientBalance + transfer.targetAmount;
-            
-            await tx.wiseAccount.update({
-              where: { id: recipientAccount.id },
-              data: {
-                lastBalance: newRecipientBalance,
-                balanceUpdatedAt: new Date(),
-              },
-            });
-            
-            console.log('💰 Updated recipient balance atomically:', {
-              recipientId: recipientAccount.id,
-              oldBalance: currentRecipientBalance,
-              added: transfer.targetAmount,
-              newBalance: newRecipientBalance
-            });
-          }
-          
           console.log('✅ Atomic transaction completed successfully - money transfer is safe');
           
           // Return true to indicate this is an internal transfer
@@ -709,54 +892,78 @@ export class TransferService {
   }
 
   /**
-   * Simulate transfer progress updates
+   * Schedule the simulated status progression of a transfer as jobs, so it survives restarts.
+   * Steps the transfer is already past are skipped; delays count from when it was created.
    */
-  private simulateTransferProgress(transferId: string, isInternalTransfer: boolean = false): void {
+  async scheduleTransferProgress(
+    transferId: string,
+    isInternalTransfer: boolean = false,
+    payoutMethod: PayoutMethod = PayoutMethod.BANK_ACCOUNT,
+    current: { status: string; createdAt: Date } = { status: 'PENDING', createdAt: new Date() }
+  ): Promise<number> {
     if (isInternalTransfer) {
-      // Internal transfers (within our app) are instant - like Wise-to-Wise
       console.log('🚀 Processing internal transfer (instant)');
-      setTimeout(async () => {
-        await this.updateTransferStatus(transferId, 'PROCESSING');
-      }, 1000); // 1 second
-      
-      setTimeout(async () => {
-        await this.updateTransferStatus(transferId, 'COMPLETED');
-      }, 2000); // 2 seconds - instant completion
     } else {
-      // External bank transfers take longer
-      console.log('🏦 Processing external bank transfer (1-2 business days)');
-      const isDev = process.env.NODE_ENV === 'development';
-      
-      setTimeout(async () => {
-        // Update to PROCESSING after 2 seconds (dev) or 30 seconds (prod)
-        await this.updateTransferStatus(transferId, 'PROCESSING');
-      }, isDev ? 2000 : 30000);
+      // External payouts follow their method's lifecycle: bank transfers take 1-2 business days,
+      // mobile wallets minutes, and cash pickups wait at the agent until collected
+      console.log(`🏦 Processing external ${payoutMethod.toLowerCase().replace('_', ' ')} payout`);
+    }
 
-      setTimeout(async () => {
-        // Update to SENT after 4 seconds (dev) or 2 minutes (prod)
-        await this.updateTransferStatus(transferId, 'SENT');
-      }, isDev ? 4000 : 120000);
+    const isDev = process.env.NODE_ENV === 'development';
+    const steps = (isInternalTransfer ? INTERNAL_TRANSFER_SIMULATION : PAYOUT_METHODS[payoutMethod].simulation)
+      .filter(step => step.status !== current.status && PayoutService.canTransition(payoutMethod, current.status, step.status));
 
-      setTimeout(async () => {
-        // Update to COMPLETED after 6 seconds (dev) or 5 minutes (prod)
-        await this.updateTransferStatus(transferId, 'COMPLETED');
-      }, isDev ? 6000 : 300000);
+    // Strictly increasing, so overdue steps still run in order
+    let runAt = 0;
+    for (const step of steps) {
+      const delayMs = isDev ? step.devDelayMs : step.delayMs;
+      runAt = Math.max(Date.now(), current.createdAt.getTime() + delayMs, runAt + 1);
+      await JobQueue.enqueue(prisma, {
+        type: 'transfer.advance',
+        payload: { transferId, status: step.status },
+        runAt: new Date(runAt),
+        transferId,
+      });
     }
+
+    return steps.length;
   }
 
   /**
    * Update transfer status with ATOMIC TRANSACTION for financial safety
    * 🔒 CRITICAL: Status updates that affect balances must be atomic
+   * Also drives the sandbox status simulation (POST /api/v1/wise/transfers/:id/simulate-status).
+   * Returns false, changing nothing, if the transfer's payout method does not allow the move.
    */
-  private async updateTransferStatus(transferId: string, status: string): Promise<void> {
+  async updateTransferStatus(
+    transferId: string,
+    status: string,
+    source: TransferStatusChangeSource = 'simulation'
+  ): Promise<boolean> {
     // 🚨 FINTECH SAFETY: Use atomic transaction for all status updates
-    await prisma.$transaction(async (tx) => {
+    return await prisma.$transaction(async (tx) => {
       console.log('🔒 Starting atomic status update for transfer:', transferId, 'to status:', status);
       
       try {
-      // 1️⃣ Update outgoing transaction status
-      await tx.wiseTransaction.update({
+      // Only moves its payout method's lifecycle allows (a cancelled or expired transfer stays so)
+      const current = await tx.wiseTransaction.findUnique({
         where: { id: transferId },
+        select: { status: true, payoutMethod: true },
+      });
+
+      if (current && !PayoutService.canTransition(current.payoutMethod, current.status, status)) {
+        console.warn(`⚠️ Ignoring ${current.status} -> ${status} for transfer ${transferId}`);
+        return false;
+      }
+
+      // Repeating a status (a retried job, a double click) changes nothing
+      if (current?.status === status) {
+        return true;
+      }
+
+      // 1️⃣ Update outgoing transaction status, if nothing else moved it since it was read
+      await tx.wiseTransaction.update({
+        where: { id: transferId, status: current?.status },
         data: {
           status,
           updatedAt: new Date(),
@@ -764,6 +971,10 @@ export class TransferService {
         },
       });
 
+      await tx.transferStatusChange.create({
+        data: { transferId, fromStatus: current?.status, toStatus: status, source },
+      });
+
       // 2️⃣ Update corresponding incoming transaction status
       const incomingTxId = `${transferId}_incoming`;
       await tx.wiseTransaction.updateMany({
@@ -775,9 +986,13 @@ export class TransferService {
         },
       });
 
-      // 3️⃣ If transfer completed, update balances atomically
+      // 3️⃣ If the transfer will not pay out, give the held money back
+      if (RELEASING_STATUSES.includes(status)) {
+        await LedgerService.releaseHold(tx, transferId);
+      }
+
+      // 4️⃣ If transfer completed, settle it in the ledger (a no-op if it already was)
       if (status === 'COMPLETED') {
-        // Get both transactions with account details
         const outgoingTx = await tx.wiseTransaction.findFirst({
           where: { id: transferId },
           include: { wiseAccount: true },
@@ -788,55 +1003,23 @@ export class TransferService {
           include: { wiseAccount: true },
         });
 
-        // 4️⃣ Update sender balance atomically (only if not already done)
-        if (outgoingTx && Number(outgoingTx.amount) < 0) {
-          const currentBalance = Number(outgoingTx.wiseAccount.lastBalance || 0);
-          const deductAmount = Math.abs(Number(outgoingTx.amount)) + Number(outgoingTx.fee || 0);
-          
-          // 🛡️ FINANCIAL SAFETY: Prevent negative balances
-          if (currentBalance < deductAmount) {
-            throw new Error(`Insufficient balance for completion: ${currentBalance} < ${deductAmount}`);
-          }
-          
-          const newSenderBalance = currentBalance - deductAmount;
-          
-          await tx.wiseAccount.update({
-            where: { id: outgoingTx.wiseAccountId },
-            data: {
-              lastBalance: newSenderBalance,
-              balanceUpdatedAt: new Date(),
-            },
-          });
-          console.log('💳 Updated sender balance atomically on completion:', {
-            senderId: outgoingTx.wiseAccountId,
-            oldBalance: currentBalance,
-            deducted: deductAmount,
-            newBalance: newSenderBalance
-          });
-        }
-
-        // 5️⃣ Update recipient balance atomically
-        if (incomingTx) {
-          const currentRecipientBalance = Number(incomingTx.wiseAccount.lastBalance || 0);
-          const newRecipientBalance = currentRecipientBalance + Number(incomingTx.amount);
-          
-          await tx.wiseAccount.update({
-            where: { id: incomingTx.wiseAccountId },
-            data: {
-              lastBalance: newRecipientBalance,
-              balanceUpdatedAt: new Date(),
-            },
-          });
-          console.log('💰 Updated recipient balance atomically on completion:', {
-            recipientId: incomingTx.wiseAccountId,
-            oldBalance: currentRecipientBalance,
-            added: Number(incomingTx.amount),
-            newBalance: newRecipientBalance
+        if (outgoingTx) {
+          await LedgerService.settleTransfer(tx, {
+            transferId,
+            sender: outgoingTx.wiseAccount,
+            amount: Math.abs(Number(outgoingTx.amount)),
+            fee: Number(outgoingTx.fee || 0),
+            currency: outgoingTx.currency,
+            recipient: incomingTx?.wiseAccount ?? null,
+            targetAmount: Number(incomingTx?.amount ?? outgoingTx.targetAmount ?? Math.abs(Number(outgoingTx.amount))),
+            targetCurrency: outgoingTx.targetCurrency || outgoingTx.currency,
           });
+          console.log('💳 Settled transfer in the ledger on completion:', transferId);
         }
       }
       
       console.log('✅ Atomic status update completed successfully');
+      return true;
     } catch (error) {
       console.error('Error in atomic status update:', error);
       throw error;
@@ -850,7 +1033,12 @@ export class TransferService {
   /**
    * Estimate processing time based on currency pair
    */
-  private estimateProcessingTime(source: string, target: string): string {
+  private estimateProcessingTime(source: string, target: string, payoutMethod: PayoutMethod = PayoutMethod.BANK_ACCOUNT): string {
+    const arrival = PAYOUT_METHODS[payoutMethod].arrival;
+    if (arrival) {
+      return arrival.description;
+    }
+
     const sameCurrency = source === target;
     const europeanCurrencies = ['EUR', 'GBP', 'CHF'];
     const isEuropean = europeanCurrencies.includes(source) && europeanCurrencies.includes(target);
@@ -867,7 +1055,12 @@ export class TransferService {
   /**
    * Calculate estimated arrival time
    */
-  private calculateEstimatedArrival(source: string, target: string): string {
+  private calculateEstimatedArrival(source: string, target: string, payoutMethod: PayoutMethod = PayoutMethod.BANK_ACCOUNT): string {
+    const payoutArrival = PayoutService.estimateArrival(payoutMethod);
+    if (payoutArrival) {
+      return payoutArrival.toISOString();
+    }
+
     const now = new Date();
     const sameCurrency = source === target;
     
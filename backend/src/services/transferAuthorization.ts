@@ -0,0 +1,199 @@
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { StepUpMethod } from '../generated/prisma';
+import { PayoutService, type RecipientIdentity } from './payout';
+import { exceedsLimit, fromLimitCurrency } from '../utils/currency';
+import { generateOpaqueToken, hashToken } from '../utils/tokens';
+
+export type StepUpReason = 'amount' | 'new_recipient';
+
+export type StepUpFactor = 'totp' | 'biometric' | 'password';
+
+export interface TransferBinding {
+  amount: number;
+  /** Currency the amount is sent in: the source account's */
+  currency: string;
+  /** Who the transfer pays: an IBAN, or a Honduran local, cash pickup or mobile wallet recipient */
+  recipient: RecipientIdentity;
+}
+
+export interface StepUpRequirement {
+  required: boolean;
+  reason: StepUpReason | null;
+  /** SCA_TRANSFER_THRESHOLD in the transfer's currency */
+  threshold: number;
+  currency: string;
+  methods: StepUpFactor[];
+}
+
+export interface IssuedTransferAuthorization {
+  token: string;
+  expiresAt: Date;
+}
+
+const FACTOR_METHODS: Record<StepUpFactor, StepUpMethod> = {
+  totp: StepUpMethod.TOTP,
+  biometric: StepUpMethod.BIOMETRIC,
+  password: StepUpMethod.PASSWORD,
+};
+
+/**
+ * Strong Customer Authentication step-up for transfers
+ * Transfers above the threshold or to a recipient the user has not paid before need a
+ * fresh TOTP code, biometric signature or password. The threshold is configured in
+ * LIMIT_CURRENCY and compared at the reference rate. A successful check yields a
+ * short-lived, single-use token bound to the transfer's amount, currency and recipient;
+ * only a SHA-256 hash of it and the recipient's blind index (PayoutService.recipientIndex) are stored.
+ */
+export class TransferAuthorizationService {
+  static readonly TOKEN_TTL_SECONDS = 300;
+
+  private static normalizeAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Whether the user has sent money to this recipient before (failed and cancelled transfers don't count)
+   */
+  static async isKnownRecipient(userId: string, recipient: RecipientIdentity): Promise<boolean> {
+    const previousTransfers = await prisma.wiseTransaction.count({
+      where: {
+        wiseAccount: { userId },
+        type: 'TRANSFER',
+        recipientIndex: PayoutService.recipientIndex(recipient),
+        status: { notIn: ['FAILED', 'CANCELLED'] },
+      },
+    });
+
+    return previousTransfers > 0;
+  }
+
+  /**
+   * Step-up factors the user can currently complete
+   */
+  static async getAvailableMethods(userId: string): Promise<StepUpFactor[]> {
+    const [user, activeDevices] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { mfaEnabled: true },
+      }),
+      prisma.biometricDevice.count({
+        where: { userId, revokedAt: null },
+      }),
+    ]);
+
+    const methods: StepUpFactor[] = [];
+    if (user?.mfaEnabled) {
+      methods.push('totp');
+    }
+    if (activeDevices > 0) {
+      methods.push('biometric');
+    }
+    methods.push('password');
+
+    return methods;
+  }
+
+  /**
+   * Decide whether a transfer needs a step-up check and which factors may satisfy it
+   */
+  static async getRequirement(userId: string, binding: TransferBinding): Promise<StepUpRequirement> {
+    const threshold = env.SCA_TRANSFER_THRESHOLD;
+
+    let reason: StepUpReason | null = null;
+    if (exceedsLimit(this.normalizeAmount(binding.amount), binding.currency, threshold)) {
+      reason = 'amount';
+    } else if (!(await this.isKnownRecipient(userId, binding.recipient))) {
+      reason = 'new_recipient';
+    }
+
+    return {
+      required: reason !== null,
+      reason,
+      // Currencies without a reference rate need step-up for any amount
+      threshold: fromLimitCurrency(threshold, binding.currency) ?? 0,
+      currency: binding.currency.toUpperCase(),
+      methods: reason ? await this.getAvailableMethods(userId) : [],
+    };
+  }
+
+  /**
+   * Issue an authorization token after the user passed a step-up check
+   */
+  static async issue(
+    userId: string,
+    binding: TransferBinding,
+    factor: StepUpFactor
+  ): Promise<IssuedTransferAuthorization> {
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + this.TOKEN_TTL_SECONDS * 1000);
+
+    await prisma.transferAuthorization.create({
+      data: {
+        userId,
+        tokenHash: hashToken(token),
+        method: FACTOR_METHODS[factor],
+        amount: this.normalizeAmount(binding.amount),
+        currency: binding.currency.toUpperCase(),
+        recipientIndex: PayoutService.recipientIndex(binding.recipient),
+        expiresAt,
+      },
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Check that a token was issued to the user for exactly this transfer and mark it used.
+   * Returns false if the token is unknown, expired, already used or bound to another transfer.
+   */
+  static async consume(userId: string, token: string, binding: TransferBinding): Promise<boolean> {
+    const record = await prisma.transferAuthorization.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        id: true,
+        userId: true,
+        amount: true,
+        currency: true,
+        recipientIndex: true,
+        expiresAt: true,
+        usedAt: true,
+      },
+    });
+
+    if (!record || record.userId !== userId || record.usedAt || record.expiresAt < new Date()) {
+      return false;
+    }
+
+    if (
+      Number(record.amount) !== this.normalizeAmount(binding.amount) ||
+      record.currency !== binding.currency.toUpperCase() ||
+      record.recipientIndex !== PayoutService.recipientIndex(binding.recipient)
+    ) {
+      return false;
+    }
+
+    // Conditional update: two transfers racing on the same token can't both succeed
+    const claimed = await prisma.transferAuthorization.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return claimed.count === 1;
+  }
+
+  /**
+   * Make a consumed token usable again because the transfer it was spent on was not created
+   * (validation, insufficient funds or a provider error), so the user can retry without a new check
+   */
+  static async release(userId: string, token: string): Promise<void> {
+    await prisma.transferAuthorization.updateMany({
+      where: {
+        tokenHash: hashToken(token),
+        userId,
+        usedAt: { not: null },
+      },
+      data: { usedAt: null },
+    });
+  }
+}
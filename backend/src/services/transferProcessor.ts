@@ -0,0 +1,87 @@
+import { prisma } from '../config/database';
+import { JobQueue } from './jobQueue';
+import { transferService } from './transfer';
+import { wiseService } from './wise';
+import { JobStatus } from '../generated/prisma';
+import type { JobHandlers } from '../types/jobs';
+
+// Statuses a transfer moves on from by itself; a cash pickup at the agent waits for its recipient
+const IN_FLIGHT_STATUSES = ['PENDING', 'PROCESSING', 'SENT'];
+
+export const TRANSFER_JOB_HANDLERS: JobHandlers = {
+  // Moves the transfer can no longer make (it was cancelled meanwhile) are skipped, not retried
+  'transfer.advance': async ({ transferId, status }) => {
+    await transferService.updateTransferStatus(transferId, status, 'simulation');
+  },
+  'wise.simulate_status': async ({ wiseTransferId, status }) => {
+    const result = await wiseService.simulateTransferStatus(wiseTransferId, status);
+
+    if (!result.success) {
+      throw new Error(`Wise simulation of ${status} failed for transfer ${wiseTransferId} (HTTP ${result.statusCode})`);
+    }
+  },
+};
+
+export interface TransferRecovery {
+  releasedJobs: number;
+  rescheduledTransfers: number;
+}
+
+/**
+ * Runs the jobs that move transfers through their statuses
+ * Status progression is queued in the jobs table rather than kept in timers, so a restart
+ * only delays it; on boot, in-flight transfers pick up where they stopped.
+ */
+export class TransferProcessor {
+  /**
+   * Boot recovery sweep: requeue the jobs of workers that died, and schedule the remaining
+   * steps of in-flight transfers with no status step left to run (created before the queue
+   * existed, by an instance that stopped between storing a transfer and queueing its steps,
+   * or with only Wise sandbox jobs, which don't move the stored transfer)
+   */
+  static async recover(now: Date = new Date()): Promise<TransferRecovery> {
+    const releasedJobs = await JobQueue.releaseStaleJobs(now);
+
+    const stranded = await prisma.wiseTransaction.findMany({
+      where: {
+        type: 'TRANSFER',
+        status: { in: IN_FLIGHT_STATUSES },
+        jobs: { none: { type: 'transfer.advance', status: { in: [JobStatus.PENDING, JobStatus.RUNNING] } } },
+      },
+      select: { id: true, status: true, payoutMethod: true, createdAt: true },
+    });
+
+    // Transfers to another customer of the app have an incoming side and settle instantly
+    const incoming = await prisma.wiseTransaction.findMany({
+      where: { id: { in: stranded.map(transfer => `${transfer.id}_incoming`) } },
+      select: { id: true },
+    });
+    const internalIds = new Set(incoming.map(transaction => transaction.id));
+
+    let rescheduledTransfers = 0;
+    for (const transfer of stranded) {
+      const scheduled = await transferService.scheduleTransferProgress(
+        transfer.id,
+        internalIds.has(`${transfer.id}_incoming`),
+        transfer.payoutMethod,
+        transfer
+      );
+
+      if (scheduled > 0) {
+        rescheduledTransfers += 1;
+      }
+    }
+
+    return { releasedJobs, rescheduledTransfers };
+  }
+
+  /**
+   * Recover, then keep running transfer jobs until the returned function is called
+   */
+  static async start(): Promise<() => void> {
+    const { releasedJobs, rescheduledTransfers } = await this.recover();
+    console.log(`🔁 Transfer jobs recovered: ${releasedJobs} job(s) requeued, ${rescheduledTransfers} transfer(s) rescheduled`);
+
+    return JobQueue.startWorker(TRANSFER_JOB_HANDLERS);
+  }
+}
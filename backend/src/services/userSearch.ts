@@ -1,5 +1,6 @@
 import { prisma } from '../config/database';
 import { measurePerformance } from './performance';
+import { FieldEncryptionService } from './encryption';
 
 type UserWhereInput = {
   id?: { not?: string };
@@ -7,7 +8,7 @@ type UserWhereInput = {
   isActive?: boolean;
   NOT?: { id: string };
   email?: string;
-  phone?: string;
+  phoneIndex?: string;
   username?: string;
   OR?: Array<{
     firstName?: { startsWith?: string; contains?: string; mode?: 'insensitive' };
@@ -158,15 +159,15 @@ export class UserSearchService {
   }
 
   /**
-   * Optimized phone search using index
+   * Optimized phone search using the blind index (phone numbers are stored encrypted)
    */
   private static async searchByPhone(
     currentUserId: string,
     phone: string
   ): Promise<SearchResult | null> {
-    return await prisma.user.findFirst({
+    const user = await prisma.user.findFirst({
       where: {
-        phone: phone.trim(),
+        phoneIndex: FieldEncryptionService.blindIndex('phone', phone.trim()),
         isSearchable: true,
         isActive: true,
         NOT: { id: currentUserId },
@@ -181,6 +182,8 @@ export class UserSearchService {
         createdAt: true,
       }
     });
+
+    return user && FieldEncryptionService.decryptFields(user, ['phone']);
   }
 
   /**
@@ -1,4 +1,9 @@
+import { randomInt } from 'crypto';
 import { env } from '../config/environment';
+import { Prisma } from '../generated/prisma';
+import { BankDirectoryService } from './bankDirectory';
+import { LedgerService } from './ledger';
+import { generateIban, isSupportedIbanCountry } from '../utils/iban';
 import type {
   WiseConfig,
   WiseTokenResponse,
@@ -8,6 +13,7 @@ import type {
   CreateWiseAccountRequest,
   WiseAccountDetails,
 } from '../types/wise';
+import type { LedgerWiseAccount } from '../types/ledger';
 
 // New types for real Wise Platform API
 interface WiseUserProfile {
@@ -54,6 +60,15 @@ interface WiseApiBalance {
   };
 }
 
+// Fresh IBANs to try before giving up on finding one no other account holds
+const IBAN_GENERATION_ATTEMPTS = 5;
+
+// A unique violation on the IBAN blind index: the generated IBAN is already taken
+function isIbanCollision(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError
+    && error.code === 'P2002'
+    && String(error.meta?.target).includes('ibanIndex');
+}
 
 export class WiseService {
   private config: WiseConfig;
@@ -398,7 +413,7 @@ export class WiseService {
         amount: this.generateRealisticBalance(request.currency),
         currency: request.currency,
       },
-      iban: this.generateUniqueIban(request.country, request.userId),
+      iban: this.generateAccountIban(request.country),
       account_number: this.generateUniqueAccountNumber(request.userId),
       sort_code: request.country === 'GB' ? '123456' : undefined,
     };
@@ -412,27 +427,60 @@ export class WiseService {
     };
   }
 
+  /**
+   * Create an account and store it with `save`. The unique index on the IBAN blind index
+   * rejects an IBAN another account already holds; the account is then created again with
+   * a fresh IBAN.
+   */
+  async createAccountWithUniqueIban<T>(
+    request: CreateWiseAccountRequest,
+    save: (account: WiseAccount) => Promise<T>
+  ): Promise<WiseApiResponse<T>> {
+    for (let attempt = 1; attempt <= IBAN_GENERATION_ATTEMPTS; attempt++) {
+      const result = await this.createAccount(request);
+
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error, statusCode: result.statusCode };
+      }
+
+      try {
+        return { success: true, data: await save(result.data), statusCode: result.statusCode };
+      } catch (error) {
+        if (!isIbanCollision(error)) {
+          throw error;
+        }
+
+        console.warn(`⚠️ Generated IBAN already in use, retrying (attempt ${attempt}/${IBAN_GENERATION_ATTEMPTS})`);
+      }
+    }
+
+    throw new Error(`Could not generate a unique ${request.country.toUpperCase()} IBAN after ${IBAN_GENERATION_ATTEMPTS} attempts`);
+  }
+
   /**
    * Get balance - enhanced mock approach (since personal tokens can't access multiple user balances)
+   * Transfers are simulated locally, so the mock reports the ledger: money held for pending
+   * transfers is reserved and not available.
    */
-  async getAccountBalance(profileId: number, currency: string): Promise<WiseApiResponse<WiseApiBalance>> {
+  async getAccountBalance(account: LedgerWiseAccount & { wiseProfileId: number }): Promise<WiseApiResponse<WiseApiBalance>> {
     // For multi-user balance tracking, always use mock (more realistic than personal token limitations)
     console.log('💰 Using mock balance (realistic for multi-user scenario)');
     
+    const ledgerBalance = await LedgerService.getBalance(account);
     const mockBalance: WiseApiBalance = {
-      id: profileId,
-      currency: currency,
+      id: account.wiseProfileId,
+      currency: account.currency,
       amount: {
-        value: this.generateRealisticBalance(currency),
-        currency: currency,
+        value: ledgerBalance.balance,
+        currency: account.currency,
       },
       reservedAmount: {
-        value: 0,
-        currency: currency,
+        value: ledgerBalance.reserved,
+        currency: account.currency,
       },
       availableAmount: {
-        value: this.generateRealisticBalance(currency),
-        currency: currency,
+        value: ledgerBalance.available,
+        currency: account.currency,
       },
     };
     
@@ -523,8 +571,8 @@ export class WiseService {
     }
     
     const rates: Record<string, Record<string, number>> = {
-      USD: { EUR: 0.85, GBP: 0.73, CAD: 1.25 },
-      EUR: { USD: 1.18, GBP: 0.86, CAD: 1.47 },
+      USD: { EUR: 0.85, GBP: 0.73, CAD: 1.25, HNL: 24.7 },
+      EUR: { USD: 1.18, GBP: 0.86, CAD: 1.47, HNL: 29.15 },
       GBP: { USD: 1.37, EUR: 1.16, CAD: 1.71 },
     };
     
@@ -667,61 +715,19 @@ export class WiseService {
   }
 
   /**
-   * Generate unique IBAN for each user (deterministic based on userId)
+   * Generate a checksum-valid IBAN at one of the country's directory banks. Countries outside
+   * the IBAN system (e.g. US) get no IBAN. Uniqueness is enforced when the account is stored
+   * (see createAccountWithUniqueIban).
    */
-  private generateUniqueIban(country: string, userId: string): string {
+  private generateAccountIban(country: string): string | undefined {
     const countryCode = country.toUpperCase();
-    
-    // Generate deterministic but unique account number based on userId
-    const hash = this.simpleHash(userId);
-    
-    // For EUR accounts, always use Spanish IBAN format regardless of country parameter
-    // Spanish IBAN: ES + 2 check digits + 4 bank code + 4 branch + 2 control + 10 account
-    if (countryCode === 'DE' || countryCode === 'ES') {
-      const bankCode = '2100'; // Banco Santander code
-      const branchCode = '0418'; 
-      const controlDigits = '45';
-      const accountNumber = (hash % 10000000000).toString().padStart(10, '0');
-      const checkDigits = (hash % 100).toString().padStart(2, '0');
-      
-      return `ES${checkDigits}${bankCode}${branchCode}${controlDigits}${accountNumber}`;
-    }
-    
-    // For other currencies, use proper IBAN formats
-    switch (countryCode) {
-      case 'US': {
-        const bankCode = '1234';
-        const accountNumber = (hash % 1000000000).toString().padStart(10, '0');
-        return `US${(hash % 100).toString().padStart(2, '0')}${bankCode}${accountNumber}`;
-      }
-      case 'GB': {
-        const gbBankCode = '1234';
-        const gbAccountNumber = (hash % 100000000).toString().padStart(8, '0');
-        const gbCheckDigits = (hash % 100).toString().padStart(2, '0');
-        return `GB${gbCheckDigits}${gbBankCode}${gbAccountNumber}`;
-      }
-      case 'DE': {
-        // German IBAN: DE + 2 check digits + 8 bank code + 10 account number = 22 chars
-        const deBankCode = '12040000'; // 8 digits for German bank code
-        const deAccountNumber = (hash % 10000000000).toString().padStart(10, '0');
-        const deCheckDigits = (hash % 100).toString().padStart(2, '0');
-        return `DE${deCheckDigits}${deBankCode}${deAccountNumber}`;
-      }
-      case 'FR': {
-        // French IBAN: FR + 2 check digits + 5 bank + 5 branch + 11 account + 2 key = 27 chars
-        const frBankCode = '20041';
-        const frBranchCode = '01005';
-        const frAccountNumber = (hash % 100000000000).toString().padStart(11, '0');
-        const frKey = (hash % 100).toString().padStart(2, '0');
-        const frCheckDigits = (hash % 100).toString().padStart(2, '0');
-        return `FR${frCheckDigits}${frBankCode}${frBranchCode}${frAccountNumber}${frKey}`;
-      }
-      default: {
-        const defaultBankCode = '1234';
-        const defaultAccountNumber = (hash % 1000000000).toString().padStart(10, '0');
-        return `${countryCode}${(hash % 100).toString().padStart(2, '0')}${defaultBankCode}${defaultAccountNumber}`;
-      }
+    if (!isSupportedIbanCountry(countryCode)) {
+      return undefined;
     }
+
+    const bankCodes = BankDirectoryService.bankCodes(countryCode);
+    const bankCode = bankCodes.length > 0 ? bankCodes[randomInt(bankCodes.length)] : undefined;
+    return generateIban(countryCode, bankCode);
   }
 
   /**
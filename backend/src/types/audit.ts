@@ -0,0 +1,48 @@
+export type AuditAction =
+  | 'auth.registered'
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'auth.password_changed'
+  | 'auth.password_reset'
+  | 'user.profile_updated'
+  | 'user.role_changed'
+  | 'account.created'
+  | 'account.balance_overridden'
+  | 'transfer.created'
+  | 'beneficiary.created'
+  | 'beneficiary.updated'
+  | 'beneficiary.deleted';
+
+export type AuditSubjectType = 'user' | 'wise_account' | 'transfer' | 'beneficiary';
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Who performed an action and from where; usually built from the request
+ */
+export interface AuditContext {
+  actorId?: string | null;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  userId?: string | null;
+  subjectType: AuditSubjectType;
+  subjectId?: string | null;
+  changes?: AuditChanges;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventQuery {
+  userId?: string;
+  actorId?: string;
+  action?: string;
+  subjectType?: AuditSubjectType;
+  subjectId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
@@ -0,0 +1,43 @@
+export interface BeneficiaryInput {
+  firstName: string;
+  lastName: string;
+  nickname?: string | null;
+  relationship?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  bankName: string;
+  bankCode?: string | null;
+  iban?: string | null;
+  accountNumber?: string | null;
+  accountType?: string | null;
+  currency?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country: string;
+  postalCode?: string | null;
+}
+
+export type BeneficiaryUpdate = Partial<BeneficiaryInput>;
+
+export interface BeneficiaryListQuery {
+  search?: string;
+  iban?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Recipient of a transfer the user asked to keep, or a saved beneficiary they paid
+ */
+export interface TransferRecipient {
+  beneficiaryId?: string;
+  saveRecipient?: boolean;
+  firstName?: string;
+  lastName?: string;
+  holderName: string;
+  iban: string;
+  bankName: string;
+  currency: string;
+  country: string;
+}
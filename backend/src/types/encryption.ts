@@ -0,0 +1,24 @@
+/**
+ * Source of the key-encryption keys (KEKs) that wrap per-value data keys.
+ * The env provider holds the keys in memory; a KMS adapter would call out to
+ * the key service instead and never expose the KEK itself.
+ */
+export interface KeyProvider {
+  /** Key id new values are encrypted under */
+  readonly activeKeyId: string;
+  /** Encrypt a data key under the active KEK */
+  wrapKey(dataKey: Buffer): Promise<WrappedDataKey>;
+  /** Decrypt a data key wrapped under the given KEK */
+  unwrapKey(wrapped: WrappedDataKey): Promise<Buffer>;
+}
+
+export interface WrappedDataKey {
+  keyId: string;
+  wrappedKey: string;
+}
+
+/**
+ * Blind index domains; each is hashed with its own prefix so equal values in
+ * different domains do not produce equal indexes
+ */
+export type BlindIndexKind = 'iban' | 'account_number' | 'phone' | 'recipient';
@@ -0,0 +1,27 @@
+import type { TransferStatus } from './transfer';
+
+/**
+ * Payload of each job type
+ */
+export interface JobPayloads {
+  /** Move a transfer to its next status (sandbox progression until payouts are webhook-driven) */
+  'transfer.advance': { transferId: string; status: TransferStatus['status'] };
+  /** Move a transfer along in the Wise sandbox */
+  'wise.simulate_status': { wiseTransferId: number; status: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+/**
+ * Does a job's work; throwing makes the queue retry it later
+ */
+export type JobHandlers = { [Type in JobType]: (payload: JobPayloads[Type]) => Promise<void> };
+
+export interface EnqueueJobOptions<Type extends JobType> {
+  type: Type;
+  payload: JobPayloads[Type];
+  runAt?: Date;
+  maxAttempts?: number;
+  transferId?: string;
+}
+
@@ -0,0 +1,47 @@
+import type { WiseAccount } from '../generated/prisma';
+
+export type JournalEntryType = 'OPENING_BALANCE' | 'TRANSFER' | 'ADJUSTMENT';
+
+/**
+ * The fields of a customer's account the ledger needs; lastBalance opens the ledger
+ * of accounts that predate it
+ */
+export type LedgerWiseAccount = Pick<WiseAccount, 'id' | 'currency' | 'lastBalance'>;
+
+export interface LedgerBalance {
+  currency: string;
+  /** Sum of the account's postings */
+  balance: number;
+  /** Held for transfers that have not settled yet */
+  reserved: number;
+  /** What the customer can spend: balance - reserved */
+  available: number;
+}
+
+/**
+ * A transfer to settle: the sender pays amount + fee, the recipient (another customer,
+ * or a bank outside the app when null) receives targetAmount
+ */
+export interface TransferSettlement {
+  transferId: string;
+  sender: LedgerWiseAccount;
+  amount: number;
+  fee: number;
+  currency: string;
+  recipient: LedgerWiseAccount | null;
+  targetAmount: number;
+  targetCurrency: string;
+}
+
+export type LedgerDiscrepancyKind =
+  | 'snapshot_drift' // The ledger account's balance snapshot differs from the sum of its postings
+  | 'cache_drift'; // The WiseAccount.lastBalance cache differs from the ledger balance
+
+export interface LedgerDiscrepancy {
+  kind: LedgerDiscrepancyKind;
+  ledgerAccountId: string;
+  code: string;
+  currency: string;
+  expected: number;
+  actual: number;
+}
@@ -0,0 +1,18 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMailMessage extends MailMessage {
+  from: string;
+  sentAt: string;
+}
+
+/**
+ * Delivery mechanism for outgoing email (SMTP in production, outbox in development/tests)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,34 @@
+export interface RateLimitCounter {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Fixed-window hit counter shared by every instance of the API
+ * (in-memory for a single process, Redis when running several).
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Subset of the Redis command API used by RedisRateLimitStore (matches ioredis)
+ */
+export interface RedisRateLimitClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  pttl(key: string): Promise<number>;
+  del(key: string): Promise<number>;
+}
+
+export type RateLimitKey = 'ip' | 'user';
+
+export interface RateLimitPolicy {
+  name: string;
+  windowMs: number;
+  max: number;
+  // 'user' limits authenticated users by id and falls back to the IP address
+  keyBy: RateLimitKey;
+  message: string;
+}
@@ -1,3 +1,5 @@
+import type { PayoutMethod } from '../generated/prisma';
+
 export interface TransferQuoteRequest {
   sourceAccountId: string;
   targetCurrency: string;
@@ -5,6 +7,7 @@ export interface TransferQuoteRequest {
   amount: number;
   sourceCurrency: string;
   type: 'BALANCE_PAYOUT' | 'BANK_TRANSFER';
+  payoutMethod?: PayoutMethod;
 }
 
 export interface TransferQuote {
@@ -20,17 +23,28 @@ export interface TransferQuote {
   expiresAt: string;
   processingTime: string;
   rateType: 'FIXED' | 'FLOATING';
+  payoutMethod: PayoutMethod;
 }
 
 export interface CreateTransferRequest {
   quoteId: string;
   targetAccountId?: string; // For internal transfers
   recipientAccount?: {
-    type: 'iban' | 'sort_code' | 'routing_number';
+    type: 'iban' | 'sort_code' | 'routing_number' | 'honduras_local' | 'cash_pickup' | 'mobile_wallet';
     iban?: string;
     accountNumber?: string;
     sortCode?: string;
     routingNumber?: string;
+    bankCode?: string; // Honduran bank, for honduras_local accounts
+    // Cash pickup: where the recipient collects, and the ID they show the agent
+    pickupLocationId?: string;
+    recipientIdDocument?: {
+      type: 'national_id' | 'passport';
+      number: string;
+    };
+    // Mobile wallet
+    phoneNumber?: string;
+    walletProvider?: string;
     currency: string;
     country: string;
     holderName: string;
@@ -44,7 +58,7 @@ export interface Transfer {
   id: string;
   sourceAccountId: string;
   targetAccountId?: string;
-  quoteId: string;
+  quoteId?: string; // Quote the transfer executed, if it was created from one
   status: TransferStatus;
   sourceAmount: number;
   sourceCurrency: string;
@@ -58,20 +72,43 @@ export interface Transfer {
   updatedAt: string;
   completedAt?: string;
   estimatedArrival?: string;
+  payoutMethod?: PayoutMethod;
   recipient?: {
     name: string;
     iban?: string;
     accountNumber?: string;
     bankName?: string;
   };
+  payout?: TransferPayout;
+}
+
+/**
+ * How a cash pickup or mobile wallet transfer is paid out
+ */
+export interface TransferPayout {
+  method: PayoutMethod;
+  // Cash pickup: the code the recipient quotes at the agent, valid until pickupExpiresAt
+  pickupCode?: string;
+  pickupLocationId?: string;
+  pickupExpiresAt?: string;
+  recipientIdType?: string;
+  recipientIdNumber?: string;
+  // Mobile wallet
+  phoneNumber?: string;
+  walletProvider?: string;
 }
 
 export interface TransferStatus {
-  status: 'PENDING' | 'PROCESSING' | 'SENT' | 'RECEIVED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  status: 'PENDING' | 'PROCESSING' | 'SENT' | 'READY_FOR_PICKUP' | 'RECEIVED' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'EXPIRED';
   message: string;
   timestamp: string;
 }
 
+/**
+ * What moved a transfer into a status, recorded in its status history
+ */
+export type TransferStatusChangeSource = 'created' | 'simulation' | 'admin' | 'pickup_expiry';
+
 export interface ExchangeRate {
   source: string;
   target: string;
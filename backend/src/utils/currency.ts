@@ -0,0 +1,47 @@
+/**
+ * Amounts in a common currency, for checking transfers against limits configured in one
+ * currency (UNVERIFIED_EMAIL_TRANSFER_LIMIT, SCA_TRANSFER_THRESHOLD). Not for pricing:
+ * quotes use the live rate from TransferService.getExchangeRate.
+ */
+
+/** Currency the transfer limits are configured in */
+export const LIMIT_CURRENCY = 'EUR';
+
+// Units of each currency per euro
+const REFERENCE_RATES: Record<string, number> = {
+  EUR: 1,
+  USD: 1.18,
+  GBP: 0.86,
+  CAD: 1.47,
+  AUD: 1.59,
+  JPY: 129.5,
+  CHF: 1.08,
+  HNL: 29.15,
+  GTQ: 9.15,
+};
+
+/**
+ * An amount in LIMIT_CURRENCY; null for currencies without a reference rate, which callers
+ * treat as above any limit
+ */
+export function toLimitCurrency(amount: number, currency: string): number | null {
+  const rate = REFERENCE_RATES[currency.toUpperCase()];
+  return rate ? amount / rate : null;
+}
+
+/**
+ * A limit configured in LIMIT_CURRENCY expressed in another currency, rounded to cents;
+ * null for currencies without a reference rate
+ */
+export function fromLimitCurrency(limit: number, currency: string): number | null {
+  const rate = REFERENCE_RATES[currency.toUpperCase()];
+  return rate ? Math.round(limit * rate * 100) / 100 : null;
+}
+
+/**
+ * Whether an amount in the given currency is above a limit configured in LIMIT_CURRENCY
+ */
+export function exceedsLimit(amount: number, currency: string, limit: number): boolean {
+  const converted = toLimitCurrency(amount, currency);
+  return converted === null || converted > limit;
+}
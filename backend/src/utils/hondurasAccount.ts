@@ -0,0 +1,79 @@
+/**
+ * Honduran local bank accounts (HNL payouts)
+ * Honduras has no IBAN; payouts go to a bank and a plain account number whose length
+ * depends on the bank. The rules below catch typos before a payout is submitted.
+ */
+
+export interface HonduranBank {
+  name: string;
+  /** Accepted account number lengths, in digits */
+  accountNumberLengths: number[];
+}
+
+export type HonduranAccountValidationError = 'unknown_bank' | 'invalid_characters' | 'invalid_length';
+
+export type HonduranAccountValidationResult =
+  | { valid: true; bankCode: string; bankName: string; accountNumber: string }
+  | { valid: false; bankCode: string; accountNumber: string; error: HonduranAccountValidationError; message: string };
+
+/**
+ * The HNL corridor: where it pays out, in what, and which balances can fund it
+ */
+export const HONDURAS_CORRIDOR = {
+  country: 'HN',
+  currency: 'HNL',
+  sourceCurrencies: ['EUR', 'USD'],
+} as const;
+
+// Bank code -> bank, for the banks our senders pay into
+export const HONDURAN_BANKS: Record<string, HonduranBank> = {
+  ATLANTIDA: { name: 'Banco Atlántida', accountNumberLengths: [12] },
+  BAC: { name: 'BAC Credomatic Honduras', accountNumberLengths: [9] },
+  BANPAIS: { name: 'Banpaís', accountNumberLengths: [12] },
+  BANRURAL: { name: 'Banrural Honduras', accountNumberLengths: [10, 12] },
+  DAVIVIENDA: { name: 'Banco Davivienda Honduras', accountNumberLengths: [12] },
+  FICOHSA: { name: 'Banco Ficohsa', accountNumberLengths: [12] },
+  LAFISE: { name: 'Banco Lafise Honduras', accountNumberLengths: [11] },
+  OCCIDENTE: { name: 'Banco de Occidente', accountNumberLengths: [11, 12] },
+};
+
+/**
+ * Strip the spaces and dashes account numbers are often written with
+ */
+export function normalizeHonduranAccountNumber(accountNumber: string): string {
+  return accountNumber.replace(/[\s-]+/g, '');
+}
+
+export function isHonduranCorridorSource(currency: string): boolean {
+  return (HONDURAS_CORRIDOR.sourceCurrencies as readonly string[]).includes(currency.toUpperCase());
+}
+
+/**
+ * Validate an account number against its bank's rules: known bank, digits only, accepted length
+ */
+export function validateHonduranAccount(bankCode: string, accountNumber: string): HonduranAccountValidationResult {
+  const code = bankCode.trim().toUpperCase();
+  const number = normalizeHonduranAccountNumber(accountNumber);
+  const invalid = (error: HonduranAccountValidationError, message: string): HonduranAccountValidationResult => ({
+    valid: false,
+    bankCode: code,
+    accountNumber: number,
+    error,
+    message,
+  });
+
+  const bank = HONDURAN_BANKS[code];
+  if (!bank) {
+    return invalid('unknown_bank', `Payouts to bank ${code} in Honduras are not supported`);
+  }
+
+  if (!/^[0-9]+$/.test(number)) {
+    return invalid('invalid_characters', `${bank.name} account numbers contain digits only`);
+  }
+
+  if (!bank.accountNumberLengths.includes(number.length)) {
+    return invalid('invalid_length', `${bank.name} account numbers are ${bank.accountNumberLengths.join(' or ')} digits long`);
+  }
+
+  return { valid: true, bankCode: code, bankName: bank.name, accountNumber: number };
+}
@@ -0,0 +1,288 @@
+import { randomInt } from 'crypto';
+import { z } from 'zod';
+
+/**
+ * IBAN parsing and validation (ISO 13616)
+ * An IBAN is a country code, two mod-97 check digits and a country-specific BBAN
+ * (basic bank account number). The BBAN layouts below follow the SWIFT IBAN registry
+ * notation: "4!n" is 4 digits, "4!a" 4 upper-case letters, "4!c" 4 letters or digits.
+ */
+
+export interface BbanStructure {
+  /** SWIFT registry notation of the BBAN */
+  format: string;
+  /** Full IBAN length, country code and check digits included */
+  length: number;
+  /** Position of the bank identifier within the BBAN, [start, end) */
+  bankCode: [number, number];
+  /** Position of the branch identifier within the BBAN, where the country has one */
+  branchCode?: [number, number];
+}
+
+export type IbanValidationError = 'invalid_characters' | 'unsupported_country' | 'invalid_length' | 'invalid_bban' | 'invalid_checksum';
+
+export interface ParsedIban {
+  iban: string;
+  countryCode: string;
+  checkDigits: string;
+  bban: string;
+  bankCode: string;
+  branchCode: string | null;
+}
+
+export type IbanValidationResult =
+  | ({ valid: true } & ParsedIban)
+  | { valid: false; iban: string; error: IbanValidationError; message: string };
+
+export const IBAN_STRUCTURES: Record<string, BbanStructure> = {
+  AD: { format: '4!n4!n12!c', length: 24, bankCode: [0, 4], branchCode: [4, 8] },
+  AT: { format: '5!n11!n', length: 20, bankCode: [0, 5] },
+  BE: { format: '3!n7!n2!n', length: 16, bankCode: [0, 3] },
+  BG: { format: '4!a4!n2!n8!c', length: 22, bankCode: [0, 4], branchCode: [4, 8] },
+  CH: { format: '5!n12!c', length: 21, bankCode: [0, 5] },
+  CY: { format: '3!n5!n16!c', length: 28, bankCode: [0, 3], branchCode: [3, 8] },
+  CZ: { format: '4!n6!n10!n', length: 24, bankCode: [0, 4] },
+  DE: { format: '8!n10!n', length: 22, bankCode: [0, 8] },
+  DK: { format: '4!n9!n1!n', length: 18, bankCode: [0, 4] },
+  EE: { format: '2!n2!n11!n1!n', length: 20, bankCode: [0, 2] },
+  ES: { format: '4!n4!n1!n1!n10!n', length: 24, bankCode: [0, 4], branchCode: [4, 8] },
+  FI: { format: '3!n11!n', length: 18, bankCode: [0, 3] },
+  FR: { format: '5!n5!n11!c2!n', length: 27, bankCode: [0, 5], branchCode: [5, 10] },
+  GB: { format: '4!a6!n8!n', length: 22, bankCode: [0, 4], branchCode: [4, 10] },
+  GI: { format: '4!a15!c', length: 23, bankCode: [0, 4] },
+  GR: { format: '3!n4!n16!c', length: 27, bankCode: [0, 3], branchCode: [3, 7] },
+  HR: { format: '7!n10!n', length: 21, bankCode: [0, 7] },
+  HU: { format: '3!n4!n1!n15!n1!n', length: 28, bankCode: [0, 3], branchCode: [3, 7] },
+  IE: { format: '4!a6!n8!n', length: 22, bankCode: [0, 4], branchCode: [4, 10] },
+  IS: { format: '4!n2!n6!n10!n', length: 26, bankCode: [0, 4] },
+  IT: { format: '1!a5!n5!n12!c', length: 27, bankCode: [1, 6], branchCode: [6, 11] },
+  LI: { format: '5!n12!c', length: 21, bankCode: [0, 5] },
+  LT: { format: '5!n11!n', length: 20, bankCode: [0, 5] },
+  LU: { format: '3!n13!c', length: 20, bankCode: [0, 3] },
+  LV: { format: '4!a13!c', length: 21, bankCode: [0, 4] },
+  MC: { format: '5!n5!n11!c2!n', length: 27, bankCode: [0, 5], branchCode: [5, 10] },
+  MT: { format: '4!a5!n18!c', length: 31, bankCode: [0, 4], branchCode: [4, 9] },
+  NL: { format: '4!a10!n', length: 18, bankCode: [0, 4] },
+  NO: { format: '4!n6!n1!n', length: 15, bankCode: [0, 4] },
+  PL: { format: '8!n16!n', length: 28, bankCode: [0, 8] },
+  PT: { format: '4!n4!n11!n2!n', length: 25, bankCode: [0, 4], branchCode: [4, 8] },
+  RO: { format: '4!a16!c', length: 24, bankCode: [0, 4] },
+  SE: { format: '3!n16!n1!n', length: 24, bankCode: [0, 3] },
+  SI: { format: '5!n8!n2!n', length: 19, bankCode: [0, 5] },
+  SK: { format: '4!n6!n10!n', length: 24, bankCode: [0, 4] },
+  SM: { format: '1!a5!n5!n12!c', length: 27, bankCode: [1, 6], branchCode: [6, 11] },
+};
+
+const CHARACTER_CLASSES: Record<string, string> = {
+  n: '[0-9]',
+  a: '[A-Z]',
+  c: '[A-Z0-9]',
+};
+
+const bbanPatterns = new Map<string, RegExp>();
+
+/**
+ * Split a registry format into [character class, length] parts: "4!a6!n" -> [['a', 4], ['n', 6]]
+ */
+function formatParts(structure: BbanStructure): Array<[string, number]> {
+  return (structure.format.match(/\d+!?[nac]/g) ?? []).map(part => [part.slice(-1), parseInt(part, 10)]);
+}
+
+function bbanPattern(countryCode: string, structure: BbanStructure): RegExp {
+  let pattern = bbanPatterns.get(countryCode);
+
+  if (!pattern) {
+    const source = formatParts(structure).map(([charClass, length]) => `${CHARACTER_CLASSES[charClass]}{${length}}`).join('');
+    pattern = new RegExp(`^${source}$`);
+    bbanPatterns.set(countryCode, pattern);
+  }
+
+  return pattern;
+}
+
+/**
+ * Remainder of the number formed by the IBAN's characters (letters as 10-35), computed piecewise
+ */
+function mod97(value: string): number {
+  let remainder = 0;
+
+  for (const char of value) {
+    const digits = /[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder;
+}
+
+/**
+ * Spanish "dígitos de control": one mod-11 digit over "00" + bank + branch, one over the account
+ */
+function spanishControlDigits(bban: string): string {
+  const weights = [1, 2, 4, 8, 5, 10, 9, 7, 3, 6];
+  const digit = (value: string): string => {
+    const sum = [...value].reduce((total, char, i) => total + Number(char) * weights[i], 0);
+    const check = 11 - (sum % 11);
+    return check === 11 ? '0' : check === 10 ? '1' : check.toString();
+  };
+
+  return digit(`00${bban.slice(0, 8)}`) + digit(bban.slice(10, 20));
+}
+
+/**
+ * French "clé RIB" over bank, branch and account number (letters map to digits as in the RIB standard)
+ */
+function ribKey(bban: string): string {
+  const letterDigits = '12345678912345678923456789';
+  const numeric = (value: string): number => Number(value.replace(/[A-Z]/g, char => letterDigits[char.charCodeAt(0) - 65]));
+  const remainder = (89 * numeric(bban.slice(0, 5)) + 15 * numeric(bban.slice(5, 10)) + 3 * numeric(bban.slice(10, 21))) % 97;
+  return (97 - remainder).toString().padStart(2, '0');
+}
+
+/**
+ * Check digits some countries embed in the BBAN on top of the IBAN's own: their position and how to compute them
+ */
+const NATIONAL_CHECK_DIGITS: Record<string, { position: [number, number]; compute: (bban: string) => string }> = {
+  BE: { position: [10, 12], compute: bban => ((Number(bban.slice(0, 10)) % 97) || 97).toString().padStart(2, '0') },
+  ES: { position: [8, 10], compute: spanishControlDigits },
+  FR: { position: [21, 23], compute: ribKey },
+  MC: { position: [21, 23], compute: ribKey },
+};
+
+/**
+ * Strip spaces and separators and upper-case, as IBANs are often pasted in print format
+ */
+export function normalizeIban(iban: string): string {
+  return iban.replace(/[\s-]+/g, '').toUpperCase();
+}
+
+/**
+ * Print format: groups of four characters
+ */
+export function formatIban(iban: string): string {
+  return normalizeIban(iban).replace(/(.{4})/g, '$1 ').trim();
+}
+
+/**
+ * Check digits that make an IBAN valid for the given country and BBAN
+ */
+export function computeCheckDigits(countryCode: string, bban: string): string {
+  const remainder = mod97(`${bban}${countryCode.toUpperCase()}00`);
+  return (98 - remainder).toString().padStart(2, '0');
+}
+
+/**
+ * Whether the IBAN's check digits are correct (mod 97 of the rearranged IBAN equals 1)
+ */
+export function hasValidChecksum(iban: string): boolean {
+  const normalized = normalizeIban(iban);
+  return mod97(normalized.slice(4) + normalized.slice(0, 4)) === 1;
+}
+
+/**
+ * Whether the BBAN's national check digits are correct; true for countries that have none
+ */
+export function hasValidNationalCheckDigits(countryCode: string, bban: string): boolean {
+  const check = NATIONAL_CHECK_DIGITS[countryCode.toUpperCase()];
+  return !check || bban.slice(...check.position) === check.compute(bban);
+}
+
+export function isSupportedIbanCountry(countryCode: string): boolean {
+  return countryCode.toUpperCase() in IBAN_STRUCTURES;
+}
+
+/**
+ * Validate an IBAN's characters, country, length, BBAN layout and checksum, in that order
+ */
+export function validateIban(input: string): IbanValidationResult {
+  const iban = normalizeIban(input);
+  const invalid = (error: IbanValidationError, message: string): IbanValidationResult => ({ valid: false, iban, error, message });
+
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]+$/.test(iban)) {
+    return invalid('invalid_characters', 'An IBAN starts with a country code and two check digits, followed by letters and digits');
+  }
+
+  const countryCode = iban.slice(0, 2);
+  const structure = IBAN_STRUCTURES[countryCode];
+  if (!structure) {
+    return invalid('unsupported_country', `IBANs from ${countryCode} are not supported`);
+  }
+
+  if (iban.length !== structure.length) {
+    return invalid('invalid_length', `${countryCode} IBANs must be ${structure.length} characters long`);
+  }
+
+  const bban = iban.slice(4);
+  if (!bbanPattern(countryCode, structure).test(bban)) {
+    return invalid('invalid_bban', `The account number is not in the ${countryCode} format`);
+  }
+
+  if (!hasValidChecksum(iban)) {
+    return invalid('invalid_checksum', 'The IBAN check digits are incorrect; please check for typos');
+  }
+
+  return {
+    valid: true,
+    iban,
+    countryCode,
+    checkDigits: iban.slice(2, 4),
+    bban,
+    bankCode: bban.slice(...structure.bankCode),
+    branchCode: structure.branchCode ? bban.slice(...structure.branchCode) : null,
+  };
+}
+
+export function isValidIban(iban: string): boolean {
+  return validateIban(iban).valid;
+}
+
+/**
+ * Generate a random valid IBAN for a country, optionally at a given bank (sandbox and mock accounts).
+ * Account digits are random; national and IBAN check digits are computed, so the result passes
+ * validateIban and national validators alike.
+ */
+export function generateIban(countryCode: string, bankCode?: string): string {
+  const country = countryCode.toUpperCase();
+  const structure = IBAN_STRUCTURES[country];
+  if (!structure) {
+    throw new Error(`IBANs from ${country} are not supported`);
+  }
+
+  // Account numbers are generated numeric even where the layout allows letters
+  const alphabets: Record<string, string> = { n: '0123456789', a: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', c: '0123456789' };
+  let bban = formatParts(structure)
+    .map(([charClass, length]) => Array.from({ length }, () => alphabets[charClass][randomInt(alphabets[charClass].length)]).join(''))
+    .join('');
+
+  if (bankCode) {
+    const [start, end] = structure.bankCode;
+    bban = bban.slice(0, start) + bankCode.toUpperCase() + bban.slice(end);
+  }
+
+  if (!bbanPattern(country, structure).test(bban)) {
+    throw new Error(`Bank code ${bankCode} does not fit the ${country} account number format`);
+  }
+
+  const check = NATIONAL_CHECK_DIGITS[country];
+  if (check) {
+    const [start, end] = check.position;
+    bban = bban.slice(0, start) + check.compute(bban) + bban.slice(end);
+  }
+
+  return `${country}${computeCheckDigits(country, bban)}${bban}`;
+}
+
+/**
+ * Request schema field: accepts print or electronic format, yields the normalized IBAN
+ */
+export const ibanSchema = z
+  .string()
+  .min(1, 'IBAN is required')
+  .transform(normalizeIban)
+  .superRefine((iban, ctx) => {
+    const result = validateIban(iban);
+    if (!result.valid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.message });
+    }
+  });
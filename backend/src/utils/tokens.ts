@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a random URL-safe token for links sent by email
+ */
+export function generateOpaqueToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hash an opaque token for storage; tokens are high-entropy so a fast hash is sufficient
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,46 @@
+import { Request } from 'express';
+
+export interface ClientInfo {
+  deviceName?: string;
+  platform?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Matches the header sent by the mobile ApiClient, e.g. "RemittanceApp/1.0.0 (ios)"
+const APP_USER_AGENT_PATTERN = /^RemittanceApp\/([^\s]+) \(([a-z]+)\)/i;
+
+const MAX_DEVICE_NAME_LENGTH = 100;
+
+/**
+ * Extract the app platform from a RemittanceApp User-Agent
+ */
+export function parsePlatform(userAgent: string | undefined): string | undefined {
+  const match = userAgent?.match(APP_USER_AGENT_PATTERN);
+  return match ? match[2].toLowerCase() : undefined;
+}
+
+/**
+ * Collect device details for a session from the request headers.
+ * The app sends its device name URI-encoded in X-Device-Name.
+ */
+export function getClientInfo(req: Request): ClientInfo {
+  const userAgent = req.get('User-Agent');
+  let deviceName = req.get('X-Device-Name');
+
+  if (deviceName) {
+    try {
+      deviceName = decodeURIComponent(deviceName);
+    } catch {
+      // Keep the raw header if it was not valid URI encoding
+    }
+    deviceName = deviceName.trim().slice(0, MAX_DEVICE_NAME_LENGTH) || undefined;
+  }
+
+  return {
+    deviceName,
+    platform: parsePlatform(userAgent),
+    userAgent,
+    ipAddress: req.ip,
+  };
+}
@@ -53,6 +53,9 @@ describe('ProfileScreen - Biometric Authentication', () => {
     canUseBiometrics: true,
   };
 
+  const mockEnableBiometricLogin = jest.fn();
+  const mockDisableBiometricLogin = jest.fn();
+
   beforeEach(() => {
     jest.clearAllMocks();
     
@@ -70,15 +73,17 @@ describe('ProfileScreen - Biometric Authentication', () => {
       clearError: jest.fn(),
       updateUser: jest.fn(),
       loadStoredAuth: jest.fn(),
+      enableBiometricLogin: mockEnableBiometricLogin,
+      disableBiometricLogin: mockDisableBiometricLogin,
     });
+    mockEnableBiometricLogin.mockResolvedValue(undefined);
+    mockDisableBiometricLogin.mockResolvedValue(undefined);
 
     // Mock biometric functions
     mockBiometric.checkBiometricCapabilities.mockResolvedValue(mockBiometricCapabilities);
     mockBiometric.isBiometricEnabled.mockResolvedValue(false);
     mockBiometric.setBiometricEnabled.mockResolvedValue();
     mockBiometric.getBiometricTypeName.mockReturnValue('Touch ID');
-    mockBiometric.getBiometricCredentials.mockResolvedValue(null);
-    mockBiometric.storeBiometricCredentials.mockResolvedValue();
     mockBiometric.authenticateWithBiometrics.mockResolvedValue({ success: true });
 
     // Mock API
@@ -129,7 +134,7 @@ describe('ProfileScreen - Biometric Authentication', () => {
   });
 
   describe('Biometric Switch Functionality', () => {
-    it('should handle switch toggle from disabled to enabled with new credentials', async () => {
+    it('should handle switch toggle from disabled to enabled', async () => {
       const { getByRole } = render(<ProfileScreen />);
       
       await waitFor(() => {
@@ -162,20 +167,6 @@ describe('ProfileScreen - Biometric Authentication', () => {
         );
       });
 
-      await waitFor(() => {
-        expect(mockApi.apiClient.post).toHaveBeenCalledWith('/auth/login', {
-          email: 'test@example.com',
-          password: 'correctpassword',
-        });
-      });
-
-      await waitFor(() => {
-        expect(mockBiometric.storeBiometricCredentials).toHaveBeenCalledWith(
-          'test@example.com',
-          'correctpassword'
-        );
-      });
-
       await waitFor(() => {
         expect(mockBiometric.authenticateWithBiometrics).toHaveBeenCalledWith(
           'Use Touch ID to enable authentication'
@@ -183,44 +174,19 @@ describe('ProfileScreen - Biometric Authentication', () => {
       });
 
       await waitFor(() => {
-        expect(mockBiometric.setBiometricEnabled).toHaveBeenCalledWith(true);
+        expect(mockEnableBiometricLogin).toHaveBeenCalledWith('correctpassword');
       });
-    });
 
-    it('should handle switch toggle from disabled to enabled with existing credentials', async () => {
-      mockBiometric.getBiometricCredentials.mockResolvedValue({
-        email: 'test@example.com',
-        password: 'stored-password',
-      });
-
-      const { getByRole } = render(<ProfileScreen />);
-      
-      await waitFor(() => {
-        expect(mockBiometric.checkBiometricCapabilities).toHaveBeenCalled();
-      });
-
-      const switchComponent = getByRole('switch');
-      
-      await act(async () => {
-        fireEvent(switchComponent, 'valueChange', true);
-      });
-
-      // Should skip password prompt since credentials exist
-      expect(mockAlert.prompt).not.toHaveBeenCalled();
-
-      await waitFor(() => {
-        expect(mockBiometric.authenticateWithBiometrics).toHaveBeenCalledWith(
-          'Use Touch ID to enable authentication'
-        );
-      });
-
-      await waitFor(() => {
-        expect(mockBiometric.setBiometricEnabled).toHaveBeenCalledWith(true);
-      });
+      // No password is kept on the device
+      expect(mockApi.apiClient.post).not.toHaveBeenCalledWith('/auth/login', expect.anything());
     });
 
     it('should handle invalid password during enable process', async () => {
-      (mockApi.apiClient.post as jest.Mock).mockRejectedValue(new Error('Invalid credentials'));
+      mockEnableBiometricLogin.mockRejectedValue({
+        error: 'Invalid password',
+        message: 'The password you entered is incorrect',
+        statusCode: 400,
+      });
 
       const { getByRole } = render(<ProfileScreen />);
       
@@ -247,9 +213,6 @@ describe('ProfileScreen - Biometric Authentication', () => {
           'The password you entered is incorrect. Please try again.'
         );
       });
-
-      // Should not enable biometrics
-      expect(mockBiometric.setBiometricEnabled).not.toHaveBeenCalled();
     });
 
     it('should handle user cancelling password prompt', async () => {
@@ -277,8 +240,7 @@ describe('ProfileScreen - Biometric Authentication', () => {
       });
 
       // Should not proceed with enabling
-      expect(mockApi.apiClient.post).not.toHaveBeenCalled();
-      expect(mockBiometric.setBiometricEnabled).not.toHaveBeenCalled();
+      expect(mockEnableBiometricLogin).not.toHaveBeenCalled();
     });
 
     it('should handle biometric authentication failure during enable', async () => {
@@ -314,8 +276,8 @@ describe('ProfileScreen - Biometric Authentication', () => {
         );
       });
 
-      // Should not enable biometrics
-      expect(mockBiometric.setBiometricEnabled).not.toHaveBeenCalled();
+      // Should not register a device key
+      expect(mockEnableBiometricLogin).not.toHaveBeenCalled();
     });
 
     it('should handle switch toggle from enabled to disabled', async () => {
@@ -349,7 +311,7 @@ describe('ProfileScreen - Biometric Authentication', () => {
       });
 
       await waitFor(() => {
-        expect(mockBiometric.setBiometricEnabled).toHaveBeenCalledWith(false);
+        expect(mockDisableBiometricLogin).toHaveBeenCalled();
       });
     });
 
@@ -380,7 +342,7 @@ describe('ProfileScreen - Biometric Authentication', () => {
       });
 
       // Should not disable biometrics
-      expect(mockBiometric.setBiometricEnabled).not.toHaveBeenCalledWith(false);
+      expect(mockDisableBiometricLogin).not.toHaveBeenCalled();
     });
 
     it('should prevent multiple simultaneous toggle operations', async () => {
@@ -443,10 +405,11 @@ describe('ProfileScreen - Biometric Authentication', () => {
       expect(() => getByRole('switch')).toThrow();
     });
 
-    it('should handle API errors during password verification', async () => {
-      (mockApi.apiClient.post as jest.Mock).mockRejectedValue({
-        response: { status: 500 },
+    it('should handle API errors during device registration', async () => {
+      mockEnableBiometricLogin.mockRejectedValue({
+        error: 'Internal server error',
         message: 'Server error',
+        statusCode: 500,
       });
 
       const { getByRole } = render(<ProfileScreen />);
@@ -470,14 +433,14 @@ describe('ProfileScreen - Biometric Authentication', () => {
 
       await waitFor(() => {
         expect(mockAlert.alert).toHaveBeenCalledWith(
-          'Invalid Password',
-          'The password you entered is incorrect. Please try again.'
+          'Error',
+          'An error occurred while enabling biometric authentication.'
         );
       });
     });
 
     it('should handle errors during biometric enable/disable operations', async () => {
-      mockBiometric.setBiometricEnabled.mockRejectedValue(new Error('Storage error'));
+      mockEnableBiometricLogin.mockRejectedValue(new Error('Storage error'));
 
       const { getByRole } = render(<ProfileScreen />);
       
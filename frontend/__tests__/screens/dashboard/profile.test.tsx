@@ -136,17 +136,18 @@ describe('ProfileScreen', () => {
       expect(getByText('Add an extra layer of security')).toBeTruthy();
       expect(getByText('Login History')).toBeTruthy();
       expect(getByText('View your recent login activity')).toBeTruthy();
-      expect(getByText('Trusted Devices')).toBeTruthy();
-      expect(getByText('Manage your trusted devices')).toBeTruthy();
+      expect(getByText('Devices')).toBeTruthy();
+      expect(getByText('Sign Out All Devices')).toBeTruthy();
+      expect(getByText('End every session, including this one')).toBeTruthy();
     });
 
     it('has clickable security items', () => {
-      const { getByText } = render(<ProfileScreen />);
+      const { getByText, getByTestId } = render(<ProfileScreen />);
       
       // These should be touchable elements
       expect(getByText('Two-Factor Authentication')).toBeTruthy();
       expect(getByText('Login History')).toBeTruthy();
-      expect(getByText('Trusted Devices')).toBeTruthy();
+      expect(getByTestId('logout-all')).toBeTruthy();
     });
   });
 
@@ -293,7 +294,7 @@ describe('ProfileScreen', () => {
       expect(getByText('Control your data and privacy')).toBeTruthy();
       expect(getByText('Add an extra layer of security')).toBeTruthy();
       expect(getByText('View your recent login activity')).toBeTruthy();
-      expect(getByText('Manage your trusted devices')).toBeTruthy();
+      expect(getByText('End every session, including this one')).toBeTruthy();
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Alert, ScrollView, TouchableOpacity, TextInput } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { apiClient } from '../../lib/api';
+import { validateEmail, validatePassword, sanitizeInput } from '../../utils/validation';
+import Button from '../../components/ui/Button';
+import type { ApiError, PasswordResetResponse } from '../../types';
+
+type ResetStep = 'request' | 'reset';
+
+export default function ForgotPasswordScreen() {
+  // Reset emails link here with ?token=..., which skips straight to the second step
+  const params = useLocalSearchParams<{ token?: string }>();
+  const [step, setStep] = useState<ResetStep>(params.token ? 'reset' : 'request');
+  const [email, setEmail] = useState('');
+  const [token, setToken] = useState(params.token ?? '');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const clearFieldError = (field: string) => {
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleRequestReset = async () => {
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.isValid) {
+      setErrors({ email: emailValidation.errors[0].message });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await apiClient.post<PasswordResetResponse>('/auth/forgot-password', {
+        email: sanitizeInput(email.trim()),
+      });
+      setStep('reset');
+    } catch (error) {
+      const apiError = error as ApiError;
+      Alert.alert('Request Failed', apiError.message || 'Unable to send reset code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!token.trim()) {
+      newErrors.token = 'Enter the reset code from your email';
+    }
+
+    const passwordValidation = validatePassword(newPassword);
+    if (!passwordValidation.isValid) {
+      newErrors.newPassword = passwordValidation.errors[0].message;
+    }
+
+    if (newPassword !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    if (Object.values(newErrors).some(Boolean)) {
+      setErrors(newErrors);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiClient.post<PasswordResetResponse>('/auth/reset-password', {
+        token: token.trim(),
+        newPassword,
+      });
+
+      Alert.alert('Password Reset', response.message, [
+        { text: 'Sign In', onPress: () => router.replace('/(auth)/login') },
+      ]);
+    } catch (error) {
+      const apiError = error as ApiError;
+      // Password policy failures come back as a list of plain messages
+      const details = Array.isArray(apiError.details)
+        ? apiError.details.map(detail => (typeof detail === 'string' ? detail : detail.message)).join('\n')
+        : undefined;
+      Alert.alert('Reset Failed', details || apiError.message || 'Unable to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderInput = (
+    field: string,
+    label: string,
+    icon: keyof typeof Ionicons.glyphMap,
+    value: string,
+    onChange: (value: string) => void,
+    inputProps: Partial<React.ComponentProps<typeof TextInput>> = {}
+  ) => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <View style={[styles.inputContainer, errors[field] && styles.inputContainerError]}>
+        <View style={styles.inputIconContainer}>
+          <Ionicons name={icon} size={20} color={errors[field] ? '#EF4444' : '#6B7280'} />
+        </View>
+        <TextInput
+          style={styles.textInput}
+          value={value}
+          onChangeText={(text: string) => {
+            onChange(text);
+            clearFieldError(field);
+          }}
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID={field}
+          {...inputProps}
+        />
+      </View>
+      {errors[field] && <Text style={styles.inputError}>{errors[field]}</Text>}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
+      <LinearGradient colors={['#EEF2FF', '#F8FAFC', '#FFFFFF']} style={styles.gradient}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>Reset Password</Text>
+            <Text style={styles.subtitle}>
+              {step === 'request'
+                ? "Enter your email and we'll send you a reset code"
+                : 'Enter the code from your email and choose a new password'}
+            </Text>
+          </View>
+
+          <View style={styles.formCard}>
+            <View style={styles.formHeader}>
+              <View style={styles.formIconContainer}>
+                <Ionicons name={step === 'request' ? 'mail' : 'key'} size={24} color="#3B82F6" />
+              </View>
+              <Text style={styles.formTitle}>
+                {step === 'request' ? 'Forgot Password' : 'Choose New Password'}
+              </Text>
+            </View>
+
+            <View style={styles.form}>
+              {step === 'request' ? (
+                <>
+                  {renderInput('email', 'Email Address', 'mail', email, setEmail, {
+                    placeholder: 'Enter your email address',
+                    keyboardType: 'email-address',
+                    autoComplete: 'email',
+                  })}
+
+                  <Button
+                    title="Send Reset Code"
+                    onPress={handleRequestReset}
+                    loading={isLoading}
+                    style={styles.primaryButton}
+                    textStyle={styles.primaryButtonText}
+                  />
+
+                  <TouchableOpacity style={styles.link} onPress={() => setStep('reset')}>
+                    <Text style={styles.linkText}>I already have a code</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  {renderInput('token', 'Reset Code', 'keypad', token, setToken, {
+                    placeholder: 'Paste the code from your email',
+                  })}
+                  {renderInput('newPassword', 'New Password', 'lock-closed', newPassword, setNewPassword, {
+                    placeholder: 'Enter a new password',
+                    secureTextEntry: true,
+                  })}
+                  {renderInput('confirmPassword', 'Confirm Password', 'lock-closed', confirmPassword, setConfirmPassword, {
+                    placeholder: 'Confirm your new password',
+                    secureTextEntry: true,
+                  })}
+
+                  <Button
+                    title="Reset Password"
+                    onPress={handleResetPassword}
+                    loading={isLoading}
+                    style={styles.primaryButton}
+                    textStyle={styles.primaryButtonText}
+                  />
+
+                  <TouchableOpacity style={styles.link} onPress={() => setStep('request')}>
+                    <Text style={styles.linkText}>Send a new code</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+
+              <TouchableOpacity style={styles.link} onPress={() => router.back()}>
+                <Ionicons name="arrow-back" size={14} color="#3B82F6" />
+                <Text style={styles.linkText}>Back to sign in</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#EEF2FF',
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 16,
+    paddingBottom: 60,
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#1E3A8A',
+    marginBottom: 8,
+    letterSpacing: -0.8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontWeight: '500',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  formCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 24,
+    padding: 24,
+    marginBottom: 24,
+    shadowColor: '#1E3A8A',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.08,
+    shadowRadius: 24,
+    elevation: 12,
+    borderWidth: 1,
+    borderColor: '#F1F5F9',
+  },
+  formHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+    gap: 12,
+  },
+  formIconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#EEF2FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1E3A8A',
+    letterSpacing: -0.3,
+  },
+  form: {
+    gap: 20,
+  },
+  inputGroup: {
+    position: 'relative',
+  },
+  inputLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    letterSpacing: -0.1,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  inputContainerError: {
+    borderColor: '#EF4444',
+    backgroundColor: '#FEF2F2',
+  },
+  inputIconContainer: {
+    marginRight: 12,
+    width: 24,
+    height: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  textInput: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1E3A8A',
+    padding: 0,
+  },
+  inputError: {
+    fontSize: 13,
+    color: '#EF4444',
+    fontWeight: '500',
+    marginTop: 6,
+    marginLeft: 4,
+  },
+  primaryButton: {
+    height: 56,
+    borderRadius: 16,
+    backgroundColor: '#3B82F6',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  link: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+});
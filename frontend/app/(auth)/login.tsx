@@ -4,16 +4,13 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useAuthStore } from '../../lib/auth';
+import { useAuthStore, LOW_RECOVERY_CODE_THRESHOLD } from '../../lib/auth';
 import { validateEmail, sanitizeInput } from '../../utils/validation';
 import { 
   checkBiometricCapabilities, 
-  authenticateWithBiometrics, 
   isBiometricEnabled, 
   getBiometricTypeName, 
-  getBiometricIconName,
-  storeBiometricCredentials,
-  getBiometricCredentials
+  getBiometricIconName
 } from '../../lib/biometric';
 import { TextInput } from 'react-native';
 import Button from '../../components/ui/Button';
@@ -26,6 +23,8 @@ export default function LoginScreen() {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [biometricCapabilities, setBiometricCapabilities] = useState<BiometricCapabilities | null>(null);
   const [showBiometricOption, setShowBiometricOption] = useState(false);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   
   const updateEmail = (value: string) => {
     setEmail(value);
@@ -41,7 +40,15 @@ export default function LoginScreen() {
     }
   };
   
-  const { login, isLoading, error, clearError } = useAuthStore();
+  const updateMfaCode = (value: string) => {
+    // Recovery codes look like "k7m2p-x9qrt"; authenticator codes are digits only
+    setMfaCode(useRecoveryCode ? value.toLowerCase().replace(/[^a-z0-9-]/g, '') : value.replace(/\D/g, ''));
+    if (errors.mfaCode) {
+      setErrors(prev => ({ ...prev, mfaCode: '' }));
+    }
+  };
+  
+  const { login, loginWithBiometrics, verifyMfa, cancelMfa, mfaChallenge, isLoading, error, clearError } = useAuthStore();
 
   // Check biometric capabilities on component mount AND when component becomes visible
   useEffect(() => {
@@ -105,10 +112,13 @@ export default function LoginScreen() {
         password: password,
       };
       
-      await login(credentials);
+      const result = await login(credentials);
       
-      // Store credentials for biometric authentication if enabled
-      await handleBiometricCredentialStorage(credentials.email, credentials.password);
+      if (result === 'mfa_required') {
+        // Second step is rendered from the pending challenge
+        setMfaCode('');
+        return;
+      }
       
       // Navigation is handled by the auth state change
       router.replace('/(dashboard)');
@@ -122,26 +132,59 @@ export default function LoginScreen() {
           serverErrors[detail.field] = detail.message;
         });
         setErrors(serverErrors);
+      } else if (apiError.error === 'Account locked') {
+        // Resetting the password unlocks the account straight away
+        Alert.alert('Account Locked', apiError.message, [
+          { text: 'OK', style: 'cancel' },
+          { text: 'Reset Password', onPress: () => router.push('/(auth)/forgot-password') },
+        ]);
       } else {
         Alert.alert('Login Failed', apiError.message || 'An error occurred');
       }
     }
   };
 
-  const handleBiometricCredentialStorage = async (email: string, password: string) => {
+  const handleVerifyMfa = async () => {
+    if (useRecoveryCode && mfaCode.replace(/-/g, '').length !== 10) {
+      setErrors(prev => ({ ...prev, mfaCode: 'Enter one of your 10-character recovery codes' }));
+      return;
+    }
+    
+    if (!useRecoveryCode && mfaCode.length !== 6) {
+      setErrors(prev => ({ ...prev, mfaCode: 'Enter the 6-digit code from your authenticator app' }));
+      return;
+    }
+    
     try {
-      if (biometricCapabilities?.canUseBiometrics) {
-        const enabled = await isBiometricEnabled();
-        if (enabled) {
-          await storeBiometricCredentials(email, password);
-        }
+      const recoveryCodesRemaining = await verifyMfa(mfaCode, useRecoveryCode ? 'recovery_code' : 'totp');
+      
+      if (recoveryCodesRemaining !== undefined && recoveryCodesRemaining <= LOW_RECOVERY_CODE_THRESHOLD) {
+        Alert.alert(
+          'Recovery Codes Running Low',
+          `You have ${recoveryCodesRemaining} recovery code${recoveryCodesRemaining === 1 ? '' : 's'} left. Generate new codes from your profile's security settings.`
+        );
       }
-    } catch (error) {
-      console.error('Error storing biometric credentials:', error);
-      // Don't show error to user, just log it
+      
+      router.replace('/(dashboard)');
+    } catch {
+      // Error message is surfaced through the auth store
+      setMfaCode('');
     }
   };
 
+  const handleCancelMfa = () => {
+    setMfaCode('');
+    setUseRecoveryCode(false);
+    cancelMfa();
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(prev => !prev);
+    setMfaCode('');
+    setErrors(prev => ({ ...prev, mfaCode: '' }));
+    clearError();
+  };
+
   const handleBiometricLogin = async () => {
     if (!biometricCapabilities?.canUseBiometrics) {
       Alert.alert('Biometric Not Available', 'Biometric authentication is not available on this device.');
@@ -151,39 +194,36 @@ export default function LoginScreen() {
     clearError();
 
     try {
-      // First perform biometric authentication
-      const authResult = await authenticateWithBiometrics(
+      // The biometric prompt unlocks the device key that signs the server's challenge
+      const signedIn = await loginWithBiometrics(
         `Use ${getBiometricTypeName(biometricCapabilities.supportedTypes)} to sign in to RemitPay`
       );
 
-      if (authResult.success) {
-        // Get stored credentials
-        const credentials = await getBiometricCredentials();
-        
-        if (credentials) {
-          // Use stored credentials to login
-          await login({
-            email: credentials.email,
-            password: credentials.password,
-          });
-          
-          // Navigation is handled by the auth state change
-          router.replace('/(dashboard)');
-        } else {
-          Alert.alert(
-            'Credentials Not Found', 
-            'No stored credentials found. Please sign in with your email and password first.'
-          );
-        }
-      } else if (!authResult.cancelled) {
+      if (signedIn) {
+        // Navigation is handled by the auth state change
+        router.replace('/(dashboard)');
+      }
+    } catch (error) {
+      const apiError = error as ApiError;
+
+      if (apiError.error === 'Account locked') {
+        Alert.alert('Account Locked', apiError.message, [
+          { text: 'OK', style: 'cancel' },
+          { text: 'Reset Password', onPress: () => router.push('/(auth)/forgot-password') },
+        ]);
+      } else if (apiError.statusCode === 404) {
+        // The device key is gone server-side and has been cleared locally
+        setShowBiometricOption(false);
+        Alert.alert(
+          'Biometric Sign In Unavailable',
+          'Biometric sign in is no longer set up for this device. Please sign in with your email and password and enable it again from your profile.'
+        );
+      } else {
         Alert.alert(
-          'Authentication Failed', 
-          authResult.error || 'Biometric authentication failed. Please try again.'
+          'Authentication Failed',
+          apiError.message || 'Biometric authentication failed. Please try again.'
         );
       }
-    } catch (error) {
-      console.error('Biometric login error:', error);
-      Alert.alert('Error', 'An error occurred during biometric authentication.');
     }
   };
 
@@ -216,115 +256,203 @@ export default function LoginScreen() {
           </View>
 
           {/* Modern Form Card */}
-          <View style={styles.modernFormCard}>
-            <View style={styles.formHeader}>
-              <View style={styles.formIconContainer}>
-                <Ionicons name="log-in" size={24} color="#3B82F6" />
+          {mfaChallenge ? (
+            <View style={styles.modernFormCard}>
+              <View style={styles.formHeader}>
+                <View style={styles.formIconContainer}>
+                  <Ionicons name="shield-checkmark" size={24} color="#3B82F6" />
+                </View>
+                <Text style={styles.formTitle}>Two-Step Verification</Text>
               </View>
-              <Text style={styles.formTitle}>Sign In</Text>
-            </View>
-            
-            <View style={styles.modernForm}>
-              <View style={styles.modernInputGroup}>
-                <Text style={styles.modernInputLabel}>
-                  Email Address <Text style={styles.required}>*</Text>
+
+              <View style={styles.modernForm}>
+                <Text style={styles.mfaDescription}>
+                  {useRecoveryCode
+                    ? 'Enter one of the recovery codes you saved when you set up two-step verification. Each code works only once.'
+                    : 'Enter the 6-digit code from your authenticator app to finish signing in.'}
                 </Text>
-                <View style={[styles.modernInputContainer, errors.email && styles.modernInputContainerError]}>
-                  <View style={styles.inputIconContainer}>
-                    <Ionicons name="mail" size={20} color={errors.email ? "#EF4444" : "#6B7280"} />
+
+                <View style={styles.modernInputGroup}>
+                  <View style={[styles.modernInputContainer, errors.mfaCode && styles.modernInputContainerError]}>
+                    <View style={styles.inputIconContainer}>
+                      <Ionicons name="keypad" size={20} color={errors.mfaCode ? "#EF4444" : "#6B7280"} />
+                    </View>
+                    {useRecoveryCode ? (
+                      <TextInput
+                        style={[styles.modernTextInput, styles.recoveryCodeInput]}
+                        value={mfaCode}
+                        onChangeText={updateMfaCode}
+                        placeholder="xxxxx-xxxxx"
+                        placeholderTextColor="#9CA3AF"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        maxLength={11}
+                        autoFocus
+                        testID="mfa-recovery-code"
+                      />
+                    ) : (
+                      <TextInput
+                        style={[styles.modernTextInput, styles.mfaCodeInput]}
+                        value={mfaCode}
+                        onChangeText={updateMfaCode}
+                        placeholder="000000"
+                        placeholderTextColor="#9CA3AF"
+                        keyboardType="number-pad"
+                        maxLength={6}
+                        autoComplete="one-time-code"
+                        textContentType="oneTimeCode"
+                        autoFocus
+                        testID="mfa-code"
+                      />
+                    )}
                   </View>
-                  <TextInput
-                    style={styles.modernTextInput}
-                    value={email}
-                    onChangeText={updateEmail}
-                    placeholder="Enter your email address"
-                    placeholderTextColor="#9CA3AF"
-                    keyboardType="email-address"
-                    autoCapitalize="none"
-                    autoComplete="email"
-                    autoCorrect={false}
-                  />
+                  {errors.mfaCode && (
+                    <Text style={styles.modernInputError}>{errors.mfaCode}</Text>
+                  )}
                 </View>
-                {errors.email && (
-                  <Text style={styles.modernInputError}>{errors.email}</Text>
+
+                <Button
+                  title="Verify"
+                  onPress={handleVerifyMfa}
+                  loading={isLoading}
+                  style={styles.modernSignInButton}
+                  textStyle={styles.modernSignInButtonText}
+                />
+
+                <TouchableOpacity style={styles.mfaBackLink} onPress={toggleRecoveryCode}>
+                  <Ionicons name={useRecoveryCode ? 'keypad' : 'key'} size={14} color="#3B82F6" />
+                  <Text style={styles.forgotPasswordText}>
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.mfaBackLink} onPress={handleCancelMfa}>
+                  <Ionicons name="arrow-back" size={14} color="#3B82F6" />
+                  <Text style={styles.forgotPasswordText}>Back to sign in</Text>
+                </TouchableOpacity>
+
+                {error && (
+                  <View style={styles.modernErrorContainer}>
+                    <Ionicons name="alert-circle" size={16} color="#EF4444" />
+                    <Text style={styles.modernErrorText}>{error}</Text>
+                  </View>
                 )}
               </View>
+            </View>
+          ) : (
+            <View style={styles.modernFormCard}>
+              <View style={styles.formHeader}>
+                <View style={styles.formIconContainer}>
+                  <Ionicons name="log-in" size={24} color="#3B82F6" />
+                </View>
+                <Text style={styles.formTitle}>Sign In</Text>
+              </View>
+            
+              <View style={styles.modernForm}>
+                <View style={styles.modernInputGroup}>
+                  <Text style={styles.modernInputLabel}>
+                    Email Address <Text style={styles.required}>*</Text>
+                  </Text>
+                  <View style={[styles.modernInputContainer, errors.email && styles.modernInputContainerError]}>
+                    <View style={styles.inputIconContainer}>
+                      <Ionicons name="mail" size={20} color={errors.email ? "#EF4444" : "#6B7280"} />
+                    </View>
+                    <TextInput
+                      style={styles.modernTextInput}
+                      value={email}
+                      onChangeText={updateEmail}
+                      placeholder="Enter your email address"
+                      placeholderTextColor="#9CA3AF"
+                      keyboardType="email-address"
+                      autoCapitalize="none"
+                      autoComplete="email"
+                      autoCorrect={false}
+                    />
+                  </View>
+                  {errors.email && (
+                    <Text style={styles.modernInputError}>{errors.email}</Text>
+                  )}
+                </View>
 
-              <View style={styles.modernInputGroup}>
-                <Text style={styles.modernInputLabel}>
-                  Password <Text style={styles.required}>*</Text>
-                </Text>
-                <View style={[styles.modernInputContainer, errors.password && styles.modernInputContainerError]}>
-                  <View style={styles.inputIconContainer}>
-                    <Ionicons name="lock-closed" size={20} color={errors.password ? "#EF4444" : "#6B7280"} />
+                <View style={styles.modernInputGroup}>
+                  <Text style={styles.modernInputLabel}>
+                    Password <Text style={styles.required}>*</Text>
+                  </Text>
+                  <View style={[styles.modernInputContainer, errors.password && styles.modernInputContainerError]}>
+                    <View style={styles.inputIconContainer}>
+                      <Ionicons name="lock-closed" size={20} color={errors.password ? "#EF4444" : "#6B7280"} />
+                    </View>
+                    <TextInput
+                      style={styles.modernTextInput}
+                      value={password}
+                      onChangeText={updatePassword}
+                      placeholder="Enter your password"
+                      placeholderTextColor="#9CA3AF"
+                      secureTextEntry
+                      autoCapitalize="none"
+                      autoComplete="password"
+                      autoCorrect={false}
+                      testID="password"
+                    />
                   </View>
-                  <TextInput
-                    style={styles.modernTextInput}
-                    value={password}
-                    onChangeText={updatePassword}
-                    placeholder="Enter your password"
-                    placeholderTextColor="#9CA3AF"
-                    secureTextEntry
-                    autoCapitalize="none"
-                    autoComplete="password"
-                    autoCorrect={false}
-                    testID="password"
-                  />
+                  {errors.password && (
+                    <Text style={styles.modernInputError}>{errors.password}</Text>
+                  )}
                 </View>
-                {errors.password && (
-                  <Text style={styles.modernInputError}>{errors.password}</Text>
+
+                <TouchableOpacity
+                  style={styles.forgotPasswordLink}
+                  onPress={() => router.push('/(auth)/forgot-password')}
+                >
+                  <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
+                  <Ionicons name="arrow-forward" size={14} color="#3B82F6" />
+                </TouchableOpacity>
+
+                <Button
+                  title="Sign In"
+                  onPress={handleLogin}
+                  loading={isLoading}
+                  style={styles.modernSignInButton}
+                  textStyle={styles.modernSignInButtonText}
+                />
+
+                {/* Biometric Authentication Option */}
+                {showBiometricOption && biometricCapabilities && (
+                  <>
+                    <View style={styles.biometricDivider}>
+                      <View style={styles.dividerLine} />
+                      <Text style={styles.biometricDividerText}>or</Text>
+                      <View style={styles.dividerLine} />
+                    </View>
+                  
+                    <TouchableOpacity 
+                      style={styles.biometricButton}
+                      onPress={handleBiometricLogin}
+                    >
+                      <View style={styles.biometricIconContainer}>
+                        <Ionicons 
+                          name={getBiometricIconName(biometricCapabilities.supportedTypes)} 
+                          size={24} 
+                          color="#3B82F6" 
+                        />
+                      </View>
+                      <Text style={styles.biometricButtonText}>
+                        Sign in with {getBiometricTypeName(biometricCapabilities.supportedTypes)}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={16} color="#3B82F6" />
+                    </TouchableOpacity>
+                  </>
                 )}
-              </View>
 
-              <TouchableOpacity style={styles.forgotPasswordLink}>
-                <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
-                <Ionicons name="arrow-forward" size={14} color="#3B82F6" />
-              </TouchableOpacity>
-
-              <Button
-                title="Sign In"
-                onPress={handleLogin}
-                loading={isLoading}
-                style={styles.modernSignInButton}
-                textStyle={styles.modernSignInButtonText}
-              />
-
-              {/* Biometric Authentication Option */}
-              {showBiometricOption && biometricCapabilities && (
-                <>
-                  <View style={styles.biometricDivider}>
-                    <View style={styles.dividerLine} />
-                    <Text style={styles.biometricDividerText}>or</Text>
-                    <View style={styles.dividerLine} />
+                {error && (
+                  <View style={styles.modernErrorContainer}>
+                    <Ionicons name="alert-circle" size={16} color="#EF4444" />
+                    <Text style={styles.modernErrorText}>{error}</Text>
                   </View>
-                  
-                  <TouchableOpacity 
-                    style={styles.biometricButton}
-                    onPress={handleBiometricLogin}
-                  >
-                    <View style={styles.biometricIconContainer}>
-                      <Ionicons 
-                        name={getBiometricIconName(biometricCapabilities.supportedTypes)} 
-                        size={24} 
-                        color="#3B82F6" 
-                      />
-                    </View>
-                    <Text style={styles.biometricButtonText}>
-                      Sign in with {getBiometricTypeName(biometricCapabilities.supportedTypes)}
-                    </Text>
-                    <Ionicons name="chevron-forward" size={16} color="#3B82F6" />
-                  </TouchableOpacity>
-                </>
-              )}
-
-              {error && (
-                <View style={styles.modernErrorContainer}>
-                  <Ionicons name="alert-circle" size={16} color="#EF4444" />
-                  <Text style={styles.modernErrorText}>{error}</Text>
-                </View>
-              )}
+                )}
+              </View>
             </View>
-          </View>
+          )}
 
           {/* Modern Footer */}
           <View style={styles.modernFooter}>
@@ -531,6 +659,29 @@ const styles = StyleSheet.create({
     gap: 4,
     paddingVertical: 8,
   },
+  mfaDescription: {
+    fontSize: 15,
+    color: '#6B7280',
+    fontWeight: '500',
+    lineHeight: 22,
+  },
+  mfaCodeInput: {
+    fontSize: 22,
+    fontWeight: '700',
+    letterSpacing: 8,
+  },
+  recoveryCodeInput: {
+    fontSize: 18,
+    fontWeight: '600',
+    letterSpacing: 2,
+  },
+  mfaBackLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 8,
+  },
   forgotPasswordText: {
     fontSize: 14,
     color: '#3B82F6',
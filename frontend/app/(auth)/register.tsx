@@ -8,9 +8,7 @@ import { useAuthStore } from '../../lib/auth';
 import { validateEmail, validatePassword, validateName, validatePhone, sanitizeInput } from '../../utils/validation';
 import { 
   checkBiometricCapabilities, 
-  setBiometricEnabled, 
-  getBiometricTypeName,
-  storeBiometricCredentials 
+  getBiometricTypeName
 } from '../../lib/biometric';
 import { TextInput } from 'react-native';
 import Button from '../../components/ui/Button';
@@ -130,7 +128,6 @@ export default function RegisterScreen() {
       
       if (capabilities.canUseBiometrics) {
         const biometricType = getBiometricTypeName(capabilities.supportedTypes);
-        const email = stepData.step2.email;
         const password = stepData.step3.password;
         
         Alert.alert(
@@ -145,8 +142,7 @@ export default function RegisterScreen() {
               text: `Enable ${biometricType}`,
               onPress: async () => {
                 try {
-                  await setBiometricEnabled(true);
-                  await storeBiometricCredentials(email, password);
+                  await useAuthStore.getState().enableBiometricLogin(password);
                 } catch (error) {
                   console.error('Error enabling biometric:', error);
                 }
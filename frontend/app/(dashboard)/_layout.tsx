@@ -5,12 +5,16 @@ import { useAuthStore } from '../../lib/auth';
 import BottomNavigation from '../../components/ui/BottomNavigation';
 
 export default function DashboardLayout() {
-  const { isAuthenticated, token, validateSession } = useAuthStore();
+  const { isAuthenticated, token, validateSession, logout } = useAuthStore();
 
   useEffect(() => {
-    // Validate session on dashboard access
+    // Validate session on dashboard access, refreshing the cached user
     if (isAuthenticated && token) {
-      validateSession();
+      validateSession().then(isValid => {
+        if (!isValid) {
+          logout();
+        }
+      });
     }
   }, [isAuthenticated, token]);
 
@@ -1,115 +1,88 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity, Switch } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import Button from '../../components/ui/Button';
 import SimpleInput from '../../components/ui/SimpleInput';
+import { beneficiaryService } from '../../lib/beneficiaries';
+import { bankingService } from '../../lib/banking';
+import type { HonduranBank, IbanValidationResponse } from '../../types/banking';
+
+// Shortest IBAN in use (Norway)
+const MIN_IBAN_LENGTH = 15;
+
+// The account a validated form pays into: an IBAN, or a Honduran bank and account number
+interface RecipientAccount {
+  type: 'iban' | 'honduras_local';
+  iban?: string;
+  accountNumber?: string;
+  bankCode: string;
+  bankName: string;
+  country: string;
+}
 
 export default function AddRecipientScreen() {
   const params = useLocalSearchParams();
   const currency = params.currency as string || 'EUR';
+  // Honduras has no IBAN: HNL recipients are paid to a local bank account instead
+  const isHonduras = currency === 'HNL';
   
   const [formData, setFormData] = useState({
-    holderName: '',
+    firstName: '',
+    lastName: '',
     iban: '',
+    bankCode: '',
+    accountNumber: '',
+    nickname: '',
+    relationship: '',
   });
-  const [detectedBank, setDetectedBank] = useState<string>('');
+  const [saveRecipient, setSaveRecipient] = useState(true);
+  const [ibanCheck, setIbanCheck] = useState<IbanValidationResponse | null>(null);
+  const [honduranBanks, setHonduranBanks] = useState<HonduranBank[]>([]);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isValidating, setIsValidating] = useState(false);
 
-  const validateIBAN = (iban: string): boolean => {
-    // Remove spaces and convert to uppercase
-    const cleanIban = iban.replace(/\s/g, '').toUpperCase();
-    
-    // European IBAN formats (country code + 2 check digits + account identifier)
-    const europeanIbanRegex = /^(AD|AT|BE|BG|HR|CY|CZ|DK|EE|FI|FR|DE|GR|HU|IS|IE|IT|LV|LI|LT|LU|MT|MC|NL|NO|PL|PT|RO|SM|SK|SI|ES|SE|CH|GB)\d{2}[A-Z0-9]+$/;
-    
-    // Check basic format and length (IBANs are typically 15-34 characters)
-    if (!europeanIbanRegex.test(cleanIban) || cleanIban.length < 15 || cleanIban.length > 34) {
-      return false;
+  const cleanIban = formData.iban.replace(/\s/g, '');
+
+  const selectedBank = honduranBanks.find(bank => bank.code === formData.bankCode);
+
+  useEffect(() => {
+    if (!isHonduras) {
+      return;
     }
     
-    // Common European IBAN lengths by country
-    const ibanLengths: Record<string, number> = {
-      AD: 24, AT: 20, BE: 16, BG: 22, HR: 21, CY: 28, CZ: 24, DK: 18,
-      EE: 20, FI: 18, FR: 27, DE: 22, GR: 27, HU: 28, IS: 26, IE: 22,
-      IT: 27, LV: 21, LI: 21, LT: 20, LU: 20, MT: 31, MC: 27, NL: 18,
-      NO: 15, PL: 28, PT: 25, RO: 24, SM: 27, SK: 24, SI: 19, ES: 24,
-      SE: 24, CH: 21, GB: 22
-    };
-    
-    const countryCode = cleanIban.substring(0, 2);
-    const expectedLength = ibanLengths[countryCode];
-    
-    return expectedLength ? cleanIban.length === expectedLength : false;
-  };
+    bankingService.getHonduranBanks()
+      .then(setHonduranBanks)
+      .catch(error => {
+        console.error('Error loading Honduran banks:', error);
+        Alert.alert('Error', 'Failed to load banks');
+      });
+  }, [isHonduras]);
 
-  const detectBankFromIBAN = (iban: string): string => {
-    const cleanIban = iban.replace(/\s/g, '').toUpperCase();
-    if (cleanIban.length < 8) {
-      return '';
+  // Check the IBAN and look up its bank once the user pauses typing
+  useEffect(() => {
+    if (isHonduras || cleanIban.length < MIN_IBAN_LENGTH) {
+      return;
     }
     
-    const countryCode = cleanIban.substring(0, 2);
-    const bankCode = cleanIban.substring(4, 8);
-    
-    // Bank detection based on country and bank code
-    const bankDatabase: Record<string, Record<string, string>> = {
-      DE: {
-        '1001': 'Deutsche Bank',
-        '2004': 'Commerzbank',
-        '5001': 'Deutsche Bank Privat- und Firmenkundenbank',
-        '7002': 'Deutsche Bank',
-        '1203': 'DKB (Deutsche Kreditbank)',
-        '4306': 'Volksbank',
-        '3701': 'Deutsche Bank',
-        '1204': 'Commerzbank', // For our generated IBANs
-      },
-      ES: {
-        '2100': 'Banco Santander',
-        '0049': 'Banco Santander',
-        '0182': 'BBVA',
-        '2010': 'CaixaBank',
-        '0081': 'Banco Sabadell',
-        '0075': 'Banco Popular',
-        '0128': 'Bankinter',
-      },
-      FR: {
-        '2004': 'BNP Paribas',
-        '3000': 'Société Générale',
-        '1027': 'Crédit Agricole',
-        '1751': 'Crédit Mutuel',
-        '1020': 'BNP Paribas',
-      },
-      IT: {
-        '0306': 'Intesa Sanpaolo',
-        '0200': 'UniCredit',
-        '0760': 'Banco BPM',
-        '0160': 'Banca Monte dei Paschi di Siena',
-      },
-      NL: {
-        '0091': 'ABN AMRO',
-        '0121': 'ING Bank',
-        '0401': 'SNS Bank',
-        '0721': 'Rabobank',
-      },
-      GB: {
-        '1234': 'Lloyds Bank',
-        '2345': 'Barclays',
-        '3456': 'HSBC',
-        '4567': 'NatWest',
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await bankingService.validateIban(cleanIban);
+        if (isCurrent) {
+          setIbanCheck(result);
+        }
+      } catch (error) {
+        console.error('Error validating IBAN:', error);
       }
-    };
+    }, 400);
     
-    const countryBanks = bankDatabase[countryCode];
-    if (countryBanks && countryBanks[bankCode]) {
-      return countryBanks[bankCode];
-    }
-    
-    // Fallback for unknown bank codes
-    return `${countryCode} Bank (${bankCode})`;
-  };
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [cleanIban, isHonduras]);
 
   const formatIBAN = (value: string): string => {
     // Remove all non-alphanumeric characters
@@ -124,15 +97,11 @@ export default function AddRecipientScreen() {
     
     if (field === 'iban') {
       processedValue = formatIBAN(value);
-      
-      // Auto-detect bank name when IBAN is valid
-      const cleanIban = processedValue.replace(/\s/g, '');
-      if (cleanIban.length >= 8) {
-        const bankName = detectBankFromIBAN(processedValue);
-        setDetectedBank(bankName);
-      } else {
-        setDetectedBank('');
-      }
+      setIbanCheck(null);
+    }
+    
+    if (field === 'accountNumber') {
+      processedValue = value.replace(/[^0-9]/g, '');
     }
     
     setFormData(prev => ({
@@ -149,47 +118,128 @@ export default function AddRecipientScreen() {
     }
   };
 
-  const validateForm = (): boolean => {
+  // Honduran accounts are checked against the bank's account number lengths
+  const validateHonduranAccount = (newErrors: Record<string, string>): RecipientAccount | null => {
+    if (!selectedBank) {
+      newErrors.bankCode = 'Choose the recipient\'s bank';
+    }
+    
+    if (!formData.accountNumber) {
+      newErrors.accountNumber = 'Account number is required';
+    } else if (selectedBank && !selectedBank.accountNumberLengths.includes(formData.accountNumber.length)) {
+      newErrors.accountNumber = `${selectedBank.name} account numbers are ${selectedBank.accountNumberLengths.join(' or ')} digits long`;
+    }
+    
+    if (!selectedBank || newErrors.accountNumber) {
+      return null;
+    }
+    
+    return {
+      type: 'honduras_local',
+      accountNumber: formData.accountNumber,
+      bankCode: selectedBank.code,
+      bankName: selectedBank.name,
+      country: 'HN',
+    };
+  };
+
+  // Resolves to the recipient's account, or null if the form has errors
+  const validateForm = async (): Promise<RecipientAccount | null> => {
     const newErrors: Record<string, string> = {};
     
-    if (!formData.holderName.trim()) {
-      newErrors.holderName = 'Account holder name is required';
-    } else if (formData.holderName.trim().length < 2) {
-      newErrors.holderName = 'Name must be at least 2 characters';
+    if (!formData.firstName.trim()) {
+      newErrors.firstName = 'First name is required';
     }
     
-    if (!formData.iban.trim()) {
-      newErrors.iban = 'IBAN is required';
-    } else if (!validateIBAN(formData.iban)) {
-      newErrors.iban = 'Please enter a valid European IBAN';
+    if (!formData.lastName.trim()) {
+      newErrors.lastName = 'Last name is required';
     }
     
+    if (isHonduras) {
+      const account = validateHonduranAccount(newErrors);
+      setErrors(newErrors);
+      return Object.keys(newErrors).length === 0 ? account : null;
+    }
+    
+    let checkedIban = ibanCheck;
+    if (!cleanIban) {
+      newErrors.iban = 'IBAN is required';
+    } else {
+      if (!checkedIban || checkedIban.iban !== cleanIban.toUpperCase()) {
+        checkedIban = await bankingService.validateIban(cleanIban);
+        setIbanCheck(checkedIban);
+      }
+      if (!checkedIban.valid) {
+        newErrors.iban = checkedIban.message;
+      }
+    }
     
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    if (Object.keys(newErrors).length > 0 || !checkedIban?.valid) {
+      return null;
+    }
+    
+    return {
+      type: 'iban',
+      iban: checkedIban.iban,
+      bankCode: checkedIban.bankCode,
+      bankName: checkedIban.bank?.name || `${checkedIban.countryCode} Bank (${checkedIban.bankCode})`,
+      country: checkedIban.countryCode,
+    };
   };
 
   const handleContinue = async () => {
-    if (!validateForm()) {
-      return;
-    }
-    
     setIsValidating(true);
     
     try {
-      // Clean IBAN for storage (remove spaces)
-      const cleanIban = formData.iban.replace(/\s/g, '');
+      const account = await validateForm();
+      if (!account) {
+        return;
+      }
+      
+      const firstName = formData.firstName.trim();
+      const lastName = formData.lastName.trim();
+      
+      if (saveRecipient) {
+        // An IBAN saved before resolves to the existing recipient rather than a duplicate
+        const { beneficiary } = await beneficiaryService.saveBeneficiary({
+          firstName,
+          lastName,
+          nickname: formData.nickname.trim() || undefined,
+          relationship: formData.relationship.trim() || undefined,
+          iban: account.iban,
+          accountNumber: account.accountNumber,
+          accountType: account.type === 'honduras_local' ? account.type : undefined,
+          bankName: account.bankName,
+          bankCode: account.bankCode,
+          currency,
+          country: account.country,
+        });
+        
+        router.push({
+          pathname: '/transfer-amount',
+          params: {
+            currency,
+            beneficiaryId: beneficiary.id
+          }
+        });
+        return;
+      }
       
+      // One-off recipient: not stored, so pass the details on to the amount screen
       const recipientData = {
-        type: 'iban',
-        holderName: formData.holderName.trim(),
-        iban: cleanIban,
-        bankName: detectedBank || 'Unknown Bank',
+        type: account.type,
+        holderName: `${firstName} ${lastName}`,
+        firstName,
+        lastName,
+        iban: account.iban || '',
+        accountNumber: account.accountNumber,
+        bankCode: account.bankCode,
+        bankName: account.bankName,
         currency,
-        country: cleanIban.substring(0, 2) // Extract country from IBAN
+        country: account.country
       };
       
-      // Navigate to amount input screen with recipient data
       router.push({
         pathname: '/transfer-amount',
         params: {
@@ -198,7 +248,7 @@ export default function AddRecipientScreen() {
         }
       });
     } catch {
-      Alert.alert('Error', 'Failed to process recipient information');
+      Alert.alert('Error', 'Failed to save recipient information');
     } finally {
       setIsValidating(false);
     }
@@ -216,7 +266,7 @@ export default function AddRecipientScreen() {
         </TouchableOpacity>
         <View style={styles.headerContent}>
           <Text style={styles.headerTitle}>Add Bank Recipient</Text>
-          <Text style={styles.headerSubtitle}>Send {currency} to Europe</Text>
+          <Text style={styles.headerSubtitle}>Send {currency} to {isHonduras ? 'Honduras' : 'Europe'}</Text>
         </View>
         <View style={styles.headerAction} />
       </View>
@@ -248,46 +298,149 @@ export default function AddRecipientScreen() {
                 <Text style={styles.modernFieldLabel}>Account Holder Name</Text>
               </View>
               <SimpleInput
-                placeholder="Full name as it appears on the account"
-                value={formData.holderName}
-                onChangeText={(value) => handleInputChange('holderName', value)}
-                error={errors.holderName}
+                placeholder="First name"
+                value={formData.firstName}
+                onChangeText={(value) => handleInputChange('firstName', value)}
+                error={errors.firstName}
+                autoCapitalize="words"
+                style={styles.modernInput}
+              />
+              <SimpleInput
+                placeholder="Last name"
+                value={formData.lastName}
+                onChangeText={(value) => handleInputChange('lastName', value)}
+                error={errors.lastName}
                 autoCapitalize="words"
                 style={styles.modernInput}
               />
               <Text style={styles.fieldHelpText}>Enter the exact name on the bank account</Text>
             </View>
 
-            {/* IBAN */}
+            {isHonduras ? (
+              <>
+                {/* Honduran Bank */}
+                <View style={styles.modernFieldGroup}>
+                  <View style={styles.modernFieldHeader}>
+                    <View style={styles.modernFieldIcon}>
+                      <Ionicons name="business" size={20} color="#6B7280" />
+                    </View>
+                    <Text style={styles.modernFieldLabel}>Bank</Text>
+                    <Text style={styles.fieldHint}>Banks in Honduras</Text>
+                  </View>
+                  <View style={styles.bankOptions}>
+                    {honduranBanks.map(bank => (
+                      <TouchableOpacity
+                        key={bank.code}
+                        style={[styles.bankOption, bank.code === formData.bankCode && styles.bankOptionSelected]}
+                        onPress={() => handleInputChange('bankCode', bank.code)}
+                      >
+                        <Text style={[styles.bankOptionText, bank.code === formData.bankCode && styles.bankOptionTextSelected]}>
+                          {bank.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  {errors.bankCode ? <Text style={styles.fieldErrorText}>{errors.bankCode}</Text> : null}
+                </View>
+
+                {/* Account Number */}
+                <View style={styles.modernFieldGroup}>
+                  <View style={styles.modernFieldHeader}>
+                    <View style={styles.modernFieldIcon}>
+                      <Ionicons name="card" size={20} color="#6B7280" />
+                    </View>
+                    <Text style={styles.modernFieldLabel}>Account Number</Text>
+                  </View>
+                  <SimpleInput
+                    placeholder="200123456789"
+                    value={formData.accountNumber}
+                    onChangeText={(value) => handleInputChange('accountNumber', value)}
+                    error={errors.accountNumber}
+                    keyboardType="numeric"
+                    maxLength={20}
+                    style={styles.modernInput}
+                  />
+                  <Text style={styles.fieldHelpText}>
+                    {selectedBank
+                      ? `${selectedBank.name} account numbers are ${selectedBank.accountNumberLengths.join(' or ')} digits`
+                      : 'Savings or checking account, digits only'}
+                  </Text>
+                </View>
+              </>
+            ) : (
+              // IBAN
+              <View style={styles.modernFieldGroup}>
+                <View style={styles.modernFieldHeader}>
+                  <View style={styles.modernFieldIcon}>
+                    <Ionicons name="card" size={20} color="#6B7280" />
+                  </View>
+                  <Text style={styles.modernFieldLabel}>IBAN</Text>
+                  <Text style={styles.fieldHint}>Any European bank</Text>
+                </View>
+                <SimpleInput
+                  placeholder="DE89 3704 0044 0532 0130 00"
+                  value={formData.iban}
+                  onChangeText={(value) => handleInputChange('iban', value)}
+                  error={errors.iban || (ibanCheck && !ibanCheck.valid ? ibanCheck.message : undefined)}
+                  autoCapitalize="characters"
+                  maxLength={42}
+                  style={styles.modernInput}
+                />
+                <Text style={styles.fieldHelpText}>Enter your European IBAN for secure transfer</Text>
+                
+                {/* Auto-detected Bank */}
+                {ibanCheck?.valid && (
+                  <View style={styles.modernBankDetection}>
+                    <View style={styles.modernBankIcon}>
+                      <Ionicons name="checkmark-circle" size={20} color="#10B981" />
+                    </View>
+                    <Text style={styles.modernBankName}>
+                      {ibanCheck.bank
+                        ? `${ibanCheck.bank.name} · ${ibanCheck.bank.bic}`
+                        : `${ibanCheck.countryCode} Bank (${ibanCheck.bankCode})`}
+                    </Text>
+                    <Text style={styles.bankVerifiedText}>Verified</Text>
+                  </View>
+                )}
+              </View>
+            )}
+
+            {/* Save Recipient */}
             <View style={styles.modernFieldGroup}>
               <View style={styles.modernFieldHeader}>
                 <View style={styles.modernFieldIcon}>
-                  <Ionicons name="card" size={20} color="#6B7280" />
+                  <Ionicons name="bookmark" size={20} color="#6B7280" />
                 </View>
-                <Text style={styles.modernFieldLabel}>IBAN</Text>
-                <Text style={styles.fieldHint}>Any European bank</Text>
+                <Text style={styles.modernFieldLabel}>Save to my recipients</Text>
+                <Switch
+                  value={saveRecipient}
+                  onValueChange={setSaveRecipient}
+                  trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                  thumbColor="#FFFFFF"
+                  ios_backgroundColor="#E5E7EB"
+                />
               </View>
-              <SimpleInput
-                placeholder="DE89 3704 0044 0532 0130 00"
-                value={formData.iban}
-                onChangeText={(value) => handleInputChange('iban', value)}
-                error={errors.iban}
-                autoCapitalize="characters"
-                maxLength={42}
-                style={styles.modernInput}
-              />
-              <Text style={styles.fieldHelpText}>Enter your European IBAN for secure transfer</Text>
-              
-              {/* Auto-detected Bank */}
-              {detectedBank && (
-                <View style={styles.modernBankDetection}>
-                  <View style={styles.modernBankIcon}>
-                    <Ionicons name="checkmark-circle" size={20} color="#10B981" />
-                  </View>
-                  <Text style={styles.modernBankName}>{detectedBank}</Text>
-                  <Text style={styles.bankVerifiedText}>Verified</Text>
-                </View>
+              {saveRecipient && (
+                <>
+                  <SimpleInput
+                    placeholder="Nickname (optional)"
+                    value={formData.nickname}
+                    onChangeText={(value) => handleInputChange('nickname', value)}
+                    maxLength={50}
+                    style={styles.modernInput}
+                  />
+                  <SimpleInput
+                    placeholder="Relationship, e.g. Family (optional)"
+                    value={formData.relationship}
+                    onChangeText={(value) => handleInputChange('relationship', value)}
+                    maxLength={50}
+                    style={styles.modernInput}
+                  />
+                </>
               )}
+              <Text style={styles.fieldHelpText}>
+                {saveRecipient ? 'Find them under Recipients next time' : 'Use these details for this transfer only'}
+              </Text>
             </View>
 
             {/* Security Notice */}
@@ -490,6 +643,39 @@ const styles = StyleSheet.create({
     marginLeft: 4,
   },
 
+  // 🏦 Honduran Bank Picker
+  bankOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  bankOption: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+  },
+  bankOptionSelected: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#3B82F6',
+  },
+  bankOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  bankOptionTextSelected: {
+    color: '#1E3A8A',
+  },
+  fieldErrorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+
   // ✅ Modern Bank Detection
   modernBankDetection: {
     flexDirection: 'row',
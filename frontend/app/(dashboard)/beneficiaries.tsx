@@ -3,43 +3,10 @@ import { View, Text, StyleSheet, Alert, TouchableOpacity, TextInput, ActivityInd
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAuthStore } from '../../lib/auth';
-import { apiClient } from '../../lib/api';
-
-interface Beneficiary {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email?: string;
-  phone?: string;
-  country: string;
-  bankAccount?: {
-    accountNumber: string;
-    bankName: string;
-    routingNumber?: string;
-    iban?: string;
-  };
-  relationship: string;
-  isActive: boolean;
-  createdAt: string;
-  currency?: string;
-  lastUsed?: string;
-  transferCount?: number;
-}
-
-interface RecentRecipient {
-  id: string;
-  name: string;
-  email?: string;
-  iban?: string;
-  currency: string;
-  country: string;
-  lastUsed: string;
-  transferCount: number;
-}
+import { beneficiaryService } from '../../lib/beneficiaries';
+import type { Beneficiary } from '../../types/beneficiary';
 
 export default function BeneficiariesScreen() {
-  const { token } = useAuthStore();
   const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -50,96 +17,10 @@ export default function BeneficiariesScreen() {
   }, []);
 
   const loadBeneficiaries = async () => {
-    if (!token) {
-      return;
-    }
-    
     setIsLoading(true);
     try {
-      // Load recent recipients from transfer history
-      const transferResponse = await apiClient.get('/wise/transfers', {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      
-      const transfers = (transferResponse as { transfers: Array<{
-        recipient?: {
-          name?: string;
-          email?: string;
-          iban?: string;
-          accountNumber?: string;
-          bankName?: string;
-        };
-        targetCurrency: string;
-        sourceCurrency: string;
-        createdAt: string;
-        sourceAmount: number;
-      }> }).transfers || [];
-      
-      // Extract unique recipients from transfers
-      const recipientMap = new Map<string, RecentRecipient>();
-      
-      transfers.forEach((transfer: {
-        recipient?: {
-          name?: string;
-          email?: string;
-          iban?: string;
-          accountNumber?: string;
-          bankName?: string;
-        };
-        targetCurrency: string;
-        sourceCurrency: string;
-        createdAt: string;
-        sourceAmount: number;
-      }) => {
-        // Only include outgoing transfers (sent money) where sourceAmount is negative
-        if (transfer.sourceAmount < 0 && transfer.recipient && transfer.recipient.name) {
-          const recipientKey = transfer.recipient.iban || transfer.recipient.accountNumber || transfer.recipient.name;
-          const existing = recipientMap.get(recipientKey);
-          
-          if (!existing || new Date(transfer.createdAt) > new Date(existing.lastUsed)) {
-            recipientMap.set(recipientKey, {
-              id: recipientKey,
-              name: transfer.recipient.name,
-              email: transfer.recipient.email,
-              iban: transfer.recipient.iban,
-              currency: transfer.targetCurrency,
-              country: getCountryFromCurrency(transfer.targetCurrency),
-              lastUsed: formatRelativeTime(transfer.createdAt),
-              transferCount: (existing?.transferCount || 0) + 1
-            });
-          } else if (existing) {
-            existing.transferCount += 1;
-          }
-        }
-      });
-      
-      // Convert to array and sort by most recent
-      const recipients = Array.from(recipientMap.values())
-        .sort((a, b) => b.transferCount - a.transferCount);
-      
-      // setRecentRecipients(recipients);
-      
-      // Convert recent recipients to beneficiary format for unified display
-      const beneficiariesFromRecents: Beneficiary[] = recipients.map(recipient => ({
-        id: recipient.id,
-        firstName: recipient.name.split(' ')[0] || recipient.name,
-        lastName: recipient.name.split(' ').slice(1).join(' ') || '',
-        email: recipient.email,
-        country: recipient.country,
-        bankAccount: recipient.iban ? {
-          accountNumber: recipient.iban?.slice(-4) || '',
-          bankName: 'Bank Transfer',
-          iban: recipient.iban
-        } : undefined,
-        relationship: 'Recent Transfer',
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        currency: recipient.currency,
-        lastUsed: recipient.lastUsed,
-        transferCount: recipient.transferCount
-      }));
-      
-      setBeneficiaries(beneficiariesFromRecents);
+      const response = await beneficiaryService.getBeneficiaries();
+      setBeneficiaries(response.beneficiaries);
     } catch (error) {
       console.error('Error loading beneficiaries:', error);
       Alert.alert('Error', 'Failed to load beneficiaries');
@@ -148,20 +29,6 @@ export default function BeneficiariesScreen() {
     }
   };
 
-  const getCountryFromCurrency = (currency: string): string => {
-    const currencyCountryMap: Record<string, string> = {
-      'EUR': 'European Union',
-      'USD': 'United States',
-      'GBP': 'United Kingdom',
-      'HNL': 'Honduras',
-      'CAD': 'Canada',
-      'AUD': 'Australia',
-      'CHF': 'Switzerland',
-      'JPY': 'Japan'
-    };
-    return currencyCountryMap[currency] || currency;
-  };
-
   const formatRelativeTime = (dateString: string): string => {
     const date = new Date(dateString);
     const now = new Date();
@@ -186,7 +53,14 @@ export default function BeneficiariesScreen() {
     }
   };
 
-  const filteredBeneficiaries = beneficiaries.filter(beneficiary => {
+  // Recent: recipients paid before, newest first (the API's order); All: alphabetical
+  const tabBeneficiaries = activeTab === 'recent'
+    ? beneficiaries.filter(beneficiary => beneficiary.lastUsedAt)
+    : [...beneficiaries].sort((a, b) =>
+        beneficiaryService.getDisplayName(a).localeCompare(beneficiaryService.getDisplayName(b))
+      );
+
+  const filteredBeneficiaries = tabBeneficiaries.filter(beneficiary => {
     if (!searchQuery) {
       return true;
     }
@@ -194,37 +68,56 @@ export default function BeneficiariesScreen() {
     return (
       beneficiary.firstName.toLowerCase().includes(query) ||
       beneficiary.lastName.toLowerCase().includes(query) ||
+      beneficiary.nickname?.toLowerCase().includes(query) ||
       beneficiary.email?.toLowerCase().includes(query) ||
       beneficiary.country.toLowerCase().includes(query) ||
-      beneficiary.bankAccount?.bankName?.toLowerCase().includes(query)
+      beneficiary.bankName.toLowerCase().includes(query)
     );
   });
 
   const handleSendMoney = (beneficiary: Beneficiary) => {
-    if (!beneficiary.bankAccount?.iban && !beneficiary.bankAccount?.accountNumber) {
-      Alert.alert('No Bank Details', 'This recipient does not have bank account information available.');
+    // Honduran recipients are paid to their bank account number; everyone else needs an IBAN
+    const payable = beneficiary.accountType === 'honduras_local'
+      ? Boolean(beneficiary.accountNumber && beneficiary.bankCode)
+      : Boolean(beneficiary.iban);
+
+    if (!payable) {
+      Alert.alert('No Bank Details', 'This recipient does not have bank details on file.');
       return;
     }
     
-    const recipientData = {
-      type: 'iban',
-      holderName: `${beneficiary.firstName} ${beneficiary.lastName}`.trim(),
-      iban: beneficiary.bankAccount?.iban || beneficiary.bankAccount?.accountNumber || '',
-      currency: beneficiary.currency || 'EUR',
-      country: beneficiary.country,
-      bankName: beneficiary.bankAccount?.bankName || 'Bank Transfer',
-    };
-    
     router.push({
       pathname: '/(dashboard)/transfer-amount',
       params: {
         currency: beneficiary.currency || 'EUR',
-        recipientData: JSON.stringify(recipientData)
+        beneficiaryId: beneficiary.id
       }
     });
   };
 
-  // Removed edit functionality as requested
+  // Editing is not offered here; a recipient can only be removed
+  const handleRemoveBeneficiary = (beneficiary: Beneficiary) => {
+    Alert.alert(
+      'Remove Recipient',
+      `Remove ${beneficiaryService.getDisplayName(beneficiary)} from your recipients? Past transfers are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await beneficiaryService.deleteBeneficiary(beneficiary.id);
+              setBeneficiaries(prev => prev.filter(item => item.id !== beneficiary.id));
+            } catch (error) {
+              console.error('Error removing beneficiary:', error);
+              Alert.alert('Error', 'Failed to remove recipient');
+            }
+          }
+        }
+      ]
+    );
+  };
 
   const handleAddBeneficiary = () => {
     router.push('/(dashboard)/send-money');
@@ -232,8 +125,10 @@ export default function BeneficiariesScreen() {
 
   const renderBeneficiary = ({ item }: { item: Beneficiary }) => (
     <TouchableOpacity 
+      key={item.id}
       style={styles.modernRecipientCard} 
       onPress={() => handleSendMoney(item)}
+      onLongPress={() => handleRemoveBeneficiary(item)}
       activeOpacity={0.7}
     >
       <View style={styles.modernRecipientHeader}>
@@ -245,12 +140,12 @@ export default function BeneficiariesScreen() {
         
         <View style={styles.modernRecipientInfo}>
           <Text style={styles.modernRecipientName}>
-            {item.firstName} {item.lastName}
+            {beneficiaryService.getDisplayName(item)}
           </Text>
           <View style={styles.recipientMetadata}>
             <View style={styles.relationshipContainer}>
               <Ionicons name="bookmark" size={12} color="#3B82F6" />
-              <Text style={styles.modernRelationship}>{item.relationship}</Text>
+              <Text style={styles.modernRelationship}>{item.relationship || 'Saved recipient'}</Text>
             </View>
             <View style={styles.metadataDivider} />
             <View style={styles.countryContainer}>
@@ -260,36 +155,28 @@ export default function BeneficiariesScreen() {
           </View>
           
           {/* Stats Row */}
-          {item.transferCount && (
+          {item.lastUsedAt && (
             <View style={styles.modernStatsRow}>
-              <View style={styles.transferCountContainer}>
-                <Ionicons name="repeat" size={12} color="#10B981" />
-                <Text style={styles.modernStatsLabel}>{item.transferCount} transfers</Text>
+              <View style={styles.lastUsedContainer}>
+                <Ionicons name="time" size={12} color="#9CA3AF" />
+                <Text style={styles.modernStatsLabel}>Last: {formatRelativeTime(item.lastUsedAt)}</Text>
               </View>
-              {item.lastUsed && (
-                <View style={styles.lastUsedContainer}>
-                  <Ionicons name="time" size={12} color="#9CA3AF" />
-                  <Text style={styles.modernStatsLabel}>Last: {item.lastUsed}</Text>
-                </View>
-              )}
             </View>
           )}
           
           {/* Bank Info */}
-          {item.bankAccount && (
-            <View style={styles.modernBankInfo}>
+          <View style={styles.modernBankInfo}>
+            <View style={styles.bankInfoRow}>
+              <Ionicons name="business" size={14} color="#6B7280" />
+              <Text style={styles.modernBankName}>{item.bankName}</Text>
+            </View>
+            {item.iban && (
               <View style={styles.bankInfoRow}>
-                <Ionicons name="business" size={14} color="#6B7280" />
-                <Text style={styles.modernBankName}>{item.bankAccount.bankName}</Text>
+                <Ionicons name="card" size={14} color="#6B7280" />
+                <Text style={styles.modernAccountInfo}>IBAN: •••• {item.iban.slice(-4)}</Text>
               </View>
-              {item.bankAccount.iban && (
-                <View style={styles.bankInfoRow}>
-                  <Ionicons name="card" size={14} color="#6B7280" />
-                  <Text style={styles.modernAccountInfo}>IBAN: •••• {item.bankAccount.iban.slice(-4)}</Text>
-                </View>
-              )}
-            </View>
-          )}
+            )}
+          </View>
         </View>
         
         <View style={styles.modernRecipientAction}>
@@ -435,7 +322,7 @@ export default function BeneficiariesScreen() {
                 {searchQuery ? 'No recipients found' : 'No recipients yet'}
               </Text>
               <Text style={styles.modernEmptyStateText}>
-                {searchQuery ? 'Try adjusting your search criteria' : 'Start sending money to see recipients here'}
+                {searchQuery ? 'Try adjusting your search criteria' : 'Save a recipient when you send money to see them here'}
               </Text>
               {!searchQuery && (
                 <TouchableOpacity 
@@ -710,11 +597,6 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     gap: 16,
   },
-  transferCountContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-  },
   lastUsedContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -3,11 +3,12 @@ import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuthStore } from '../../lib/auth';
+import type { ApiError } from '../../types';
 import Button from '../../components/ui/Button';
 import SimpleInput from '../../components/ui/SimpleInput';
 
 export default function ChangePasswordScreen() {
-  const { user } = useAuthStore();
+  const { user, changePassword } = useAuthStore();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     currentPassword: '',
@@ -64,12 +65,11 @@ export default function ChangePasswordScreen() {
 
     setLoading(true);
     try {
-      // TODO: Implement API call to change password
-      // This would typically make a request to /api/v1/auth/change-password
+      await changePassword(formData.currentPassword, formData.newPassword);
       
       Alert.alert(
         'Success', 
-        'Password changed successfully',
+        'Password changed successfully. You have been signed out on your other devices.',
         [
           {
             text: 'OK',
@@ -77,8 +77,13 @@ export default function ChangePasswordScreen() {
           }
         ]
       );
-    } catch {
-      Alert.alert('Error', 'Failed to change password');
+    } catch (error) {
+      const apiError = error as ApiError;
+      // Password policy failures come back as a list of plain messages
+      const details = Array.isArray(apiError.details)
+        ? apiError.details.map(detail => (typeof detail === 'string' ? detail : detail.message)).join('\n')
+        : undefined;
+      Alert.alert('Error', details || apiError.message || 'Failed to change password');
     } finally {
       setLoading(false);
     }
@@ -10,7 +10,7 @@ export default function CreateAccountScreen() {
   const { user } = useAuthStore();
   const formData = {
     currency: 'EUR',
-    country: 'DE',
+    country: 'ES',
     type: 'SAVINGS' as const,
   };
   
@@ -28,8 +28,8 @@ export default function CreateAccountScreen() {
 
   const validateForm = (): boolean => {
     // Auto-generated name is always valid
-    // Currency and country are fixed to EUR/DE, so always valid
-    return formData.currency === 'EUR' && formData.country === 'DE';
+    // Currency and country are fixed to EUR/ES, so always valid
+    return formData.currency === 'EUR' && formData.country === 'ES';
   };
 
   const handleCreateAccount = async () => {
@@ -3,23 +3,50 @@ import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert, Mo
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAuthStore } from '../../lib/auth';
+import { useAuthStore, LOW_RECOVERY_CODE_THRESHOLD } from '../../lib/auth';
 import { apiClient } from '../../lib/api';
 import ProfileCircle from '../../components/ui/ProfileCircle';
 import { 
   checkBiometricCapabilities, 
   isBiometricEnabled, 
-  setBiometricEnabled, 
   getBiometricTypeName,
-  getBiometricCredentials,
-  storeBiometricCredentials,
   authenticateWithBiometrics,
   validateBiometricUser
 } from '../../lib/biometric';
 import type { BiometricCapabilities } from '../../lib/biometric';
+import type { UserProfile, UserProfileResponse } from '../../types/users';
+import type { ActiveSession, ApiError, SessionsResponse } from '../../types';
+
+const PLATFORM_NAMES: Record<string, string> = {
+  ios: 'iOS device',
+  android: 'Android device',
+  web: 'Web browser',
+};
+
+function getSessionDeviceName(session: ActiveSession): string {
+  return session.deviceName || PLATFORM_NAMES[session.platform ?? ''] || 'Unknown device';
+}
+
+function getSessionIcon(platform: string | null): keyof typeof Ionicons.glyphMap {
+  return platform === 'web' ? 'desktop-outline' : 'phone-portrait-outline';
+}
+
+function formatLastSeen(lastSeenAt: string): string {
+  const minutes = Math.floor((Date.now() - new Date(lastSeenAt).getTime()) / 60000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+  if (minutes < 24 * 60) {
+    return `${Math.floor(minutes / 60)} h ago`;
+  }
+  return new Date(lastSeenAt).toLocaleDateString();
+}
 
 export default function ProfileScreen() {
-  const { user, logout } = useAuthStore();
+  const { user, token, logout, updateUser, enableBiometricLogin, disableBiometricLogin } = useAuthStore();
   const [biometricCapabilities, setBiometricCapabilities] = useState<BiometricCapabilities | null>(null);
   const [biometricEnabled, setBiometricEnabledState] = useState(false); // eslint-disable-line @typescript-eslint/no-unused-vars
   const [biometricLoading, setBiometricLoading] = useState(false);
@@ -28,6 +55,8 @@ export default function ProfileScreen() {
   const [passwordInput, setPasswordInput] = useState('');
   const [passwordPromiseResolve, setPasswordPromiseResolve] = useState<((value: string | null) => void) | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
 
   const formatDate = (dateString: string | Date) => {
     if (!dateString) {
@@ -74,7 +103,50 @@ export default function ProfileScreen() {
     initBiometrics();
   }, [user?.email]);
 
-  const showPasswordPrompt = (biometricType: string) => {
+  // Load security details (MFA status, recovery codes) that are not kept in the auth store
+  useEffect(() => {
+    const loadProfile = async () => {
+      if (!token) {
+        return;
+      }
+      
+      try {
+        const response = await apiClient.get<UserProfileResponse>('/users/profile', {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        setProfile(response.user);
+        
+        // Email may have been verified via the emailed link since the user signed in
+        if (response.user.emailVerified && !useAuthStore.getState().user?.emailVerified) {
+          await updateUser({ emailVerified: true });
+        }
+      } catch (error) {
+        console.error('Failed to load profile:', error);
+      }
+    };
+    
+    loadProfile();
+    loadSessions();
+  }, [token]);
+
+  const loadSessions = async () => {
+    if (!token) {
+      return;
+    }
+
+    try {
+      const response = await apiClient.get<SessionsResponse>('/auth/sessions', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setSessions(response.sessions);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  };
+
+  const recoveryCodesLow = !!profile?.mfaEnabled && profile.recoveryCodesRemaining <= LOW_RECOVERY_CODE_THRESHOLD;
+
+  const showPasswordPrompt = () => {
     return new Promise<string | null>((resolve) => {
       setPasswordInput('');
       setPasswordPromiseResolve(() => resolve);
@@ -103,26 +175,6 @@ export default function ProfileScreen() {
     }
   };
 
-  const verifyPasswordWithAPI = async (password: string): Promise<boolean> => {
-    try {
-      if (!user?.email) {
-        return false;
-      }
-      
-      // Attempt to login with current email and provided password
-      const response = await apiClient.post('/auth/login', {
-        email: user.email,
-        password: password,
-      });
-      
-      // Check if response has token and user (successful login)
-      return !!(response?.token && response?.user);
-    } catch (error) {
-      console.error('Password verification failed:', error);
-      return false;
-    }
-  };
-
   const handleBiometricToggle = async (newValue: boolean) => {
     if (biometricLoading) {
       return;
@@ -151,35 +203,14 @@ export default function ProfileScreen() {
     try {
       const biometricType = getBiometricTypeName(biometricCapabilities.supportedTypes);
       
-      // Check if we already have stored credentials
-      const existingCredentials = await getBiometricCredentials();
+      // The password is checked server-side when the device key is registered
+      const password = await showPasswordPrompt();
       
-      if (!existingCredentials) {
-        // Need to prompt for password and store credentials
-        const password = await showPasswordPrompt(biometricType);
-        
-        if (!password) {
-          // User cancelled - revert switch
-          setSwitchValue(false);
-          setBiometricLoading(false);
-          return;
-        }
-        
-        // Verify the password with the server
-        const isValidPassword = await verifyPasswordWithAPI(password);
-        
-        if (!isValidPassword) {
-          // Invalid password - revert switch
-          setSwitchValue(false);
-          setBiometricLoading(false);
-          Alert.alert('Invalid Password', 'The password you entered is incorrect. Please try again.');
-          return;
-        }
-        
-        // Store the credentials securely
-        if (user?.email) {
-          await storeBiometricCredentials(user.email, password);
-        }
+      if (!password) {
+        // User cancelled - revert switch
+        setSwitchValue(false);
+        setBiometricLoading(false);
+        return;
       }
       
       // Perform biometric authentication to confirm the user can use it
@@ -187,15 +218,7 @@ export default function ProfileScreen() {
         `Use ${biometricType} to enable authentication`
       );
       
-      if (authResult.success) {
-        // Success - enable biometric
-        await setBiometricEnabled(true);
-        setBiometricEnabledState(true);
-        setSwitchValue(true);
-        setBiometricLoading(false);
-        
-        Alert.alert('Success', `${biometricType} authentication has been enabled successfully.`);
-      } else {
+      if (!authResult.success) {
         // Failed or cancelled - revert switch
         setSwitchValue(false);
         setBiometricLoading(false);
@@ -203,13 +226,26 @@ export default function ProfileScreen() {
         if (!authResult.cancelled) {
           Alert.alert('Authentication Failed', authResult.error || 'Please try again.');
         }
+        return;
       }
+      
+      await enableBiometricLogin(password);
+      setBiometricEnabledState(true);
+      setSwitchValue(true);
+      setBiometricLoading(false);
+      
+      Alert.alert('Success', `${biometricType} authentication has been enabled successfully.`);
     } catch (error) {
       // Error - revert switch
       console.error('Error enabling biometric:', error);
       setSwitchValue(false);
       setBiometricLoading(false);
-      Alert.alert('Error', 'An error occurred while enabling biometric authentication.');
+      
+      if ((error as ApiError).error === 'Invalid password') {
+        Alert.alert('Invalid Password', 'The password you entered is incorrect. Please try again.');
+      } else {
+        Alert.alert('Error', 'An error occurred while enabling biometric authentication.');
+      }
     }
   };
 
@@ -229,7 +265,7 @@ export default function ProfileScreen() {
           onPress: async () => {
             setBiometricLoading(true);
             try {
-              await setBiometricEnabled(false);
+              await disableBiometricLogin();
               setBiometricEnabledState(false);
               setSwitchValue(false);
               setBiometricLoading(false);
@@ -248,10 +284,73 @@ export default function ProfileScreen() {
     );
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await apiClient.post('/auth/verify-email/resend', undefined, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      Alert.alert('Verification Email Sent', `Check ${user?.email} for a link to verify your email address.`);
+    } catch (error) {
+      const apiError = error as ApiError;
+      Alert.alert('Unable to Send', apiError.message || 'Failed to send verification email');
+    }
+  };
+
   const handleLogout = async () => {
     await logout();
   };
 
+  const handleRevokeSession = (session: ActiveSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      `Sign out ${getSessionDeviceName(session)}? It will need to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await apiClient.delete(`/auth/sessions/${session.id}`, {
+                headers: { Authorization: `Bearer ${token}` }
+              });
+              setSessions(prev => prev.filter(item => item.id !== session.id));
+            } catch (error) {
+              const apiError = error as ApiError;
+              Alert.alert('Unable to Sign Out Device', apiError.message || 'Failed to sign out device');
+              loadSessions();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLogoutAll = () => {
+    Alert.alert(
+      'Sign Out All Devices',
+      'This signs you out everywhere, including this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out All',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await apiClient.post('/auth/logout-all', undefined, {
+                headers: { Authorization: `Bearer ${token}` }
+              });
+              await logout();
+            } catch (error) {
+              const apiError = error as ApiError;
+              Alert.alert('Unable to Sign Out', apiError.message || 'Failed to sign out all devices');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   if (!user) {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
@@ -314,11 +413,16 @@ export default function ProfileScreen() {
               </View>
               <Text style={styles.overviewLabel}>Email</Text>
               <Text style={styles.overviewValue}>{user.email}</Text>
-              {user.emailVerified && (
+              {user.emailVerified ? (
                 <View style={styles.verifiedBadge}>
                   <Ionicons name="checkmark-circle" size={16} color="#10B981" />
                   <Text style={styles.verifiedText}>Verified</Text>
                 </View>
+              ) : (
+                <TouchableOpacity style={styles.unverifiedBadge} onPress={handleResendVerification}>
+                  <Ionicons name="alert-circle" size={16} color="#B45309" />
+                  <Text style={styles.unverifiedText}>Verify email</Text>
+                </TouchableOpacity>
               )}
             </View>
 
@@ -451,11 +555,24 @@ export default function ProfileScreen() {
               </View>
               <View style={styles.modernSettingInfo}>
                 <Text style={styles.modernSettingTitle}>Two-Factor Authentication</Text>
-                <Text style={styles.modernSettingDescription}>Add an extra layer of security</Text>
-              </View>
-              <View style={styles.securityStatusBadge}>
-                <Text style={styles.securityStatusText}>Setup Required</Text>
+                <Text style={[styles.modernSettingDescription, recoveryCodesLow && styles.securityWarningText]}>
+                  {recoveryCodesLow
+                    ? `Only ${profile?.recoveryCodesRemaining} recovery code${profile?.recoveryCodesRemaining === 1 ? '' : 's'} left - generate new ones`
+                    : 'Add an extra layer of security'
+                  }
+                </Text>
               </View>
+              {profile?.mfaEnabled ? (
+                <View style={[styles.securityStatusBadge, !recoveryCodesLow && styles.securityStatusBadgeEnabled]}>
+                  <Text style={[styles.securityStatusText, !recoveryCodesLow && styles.securityStatusTextEnabled]}>
+                    {recoveryCodesLow ? 'Codes Low' : 'Enabled'}
+                  </Text>
+                </View>
+              ) : (
+                <View style={styles.securityStatusBadge}>
+                  <Text style={styles.securityStatusText}>Setup Required</Text>
+                </View>
+              )}
             </TouchableOpacity>
             
             <TouchableOpacity style={styles.modernSettingItem}>
@@ -469,13 +586,50 @@ export default function ProfileScreen() {
               <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
             </TouchableOpacity>
             
-            <TouchableOpacity style={styles.modernSettingItem}>
+          </View>
+        </View>
+
+        {/* Devices */}
+        <View style={styles.modernSection}>
+          <View style={styles.sectionHeaderModern}>
+            <Text style={styles.sectionTitleModern}>Devices</Text>
+            <Ionicons name="phone-portrait-outline" size={24} color="#6B7280" />
+          </View>
+
+          <View style={styles.modernSettingsGroup}>
+            {sessions.map(session => (
+              <View key={session.id} style={styles.modernSettingItem} testID={`session-${session.id}`}>
+                <View style={styles.settingIconContainer}>
+                  <Ionicons name={getSessionIcon(session.platform)} size={20} color="#3B82F6" />
+                </View>
+                <View style={styles.modernSettingInfo}>
+                  <Text style={styles.modernSettingTitle}>{getSessionDeviceName(session)}</Text>
+                  <Text style={styles.modernSettingDescription}>
+                    {session.current
+                      ? 'This device'
+                      : `Last active ${formatLastSeen(session.lastSeenAt)}`}
+                    {session.ipAddress ? ` · ${session.ipAddress}` : ''}
+                  </Text>
+                </View>
+                {session.current ? (
+                  <View style={[styles.securityStatusBadge, styles.securityStatusBadgeEnabled]}>
+                    <Text style={[styles.securityStatusText, styles.securityStatusTextEnabled]}>Current</Text>
+                  </View>
+                ) : (
+                  <TouchableOpacity onPress={() => handleRevokeSession(session)} testID={`revoke-session-${session.id}`}>
+                    <Ionicons name="close-circle-outline" size={22} color="#EF4444" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+
+            <TouchableOpacity style={styles.modernSettingItem} onPress={handleLogoutAll} testID="logout-all">
               <View style={styles.settingIconContainer}>
-                <Ionicons name="phone-portrait-outline" size={20} color="#3B82F6" />
+                <Ionicons name="exit-outline" size={20} color="#EF4444" />
               </View>
               <View style={styles.modernSettingInfo}>
-                <Text style={styles.modernSettingTitle}>Trusted Devices</Text>
-                <Text style={styles.modernSettingDescription}>Manage your trusted devices</Text>
+                <Text style={styles.modernSettingTitle}>Sign Out All Devices</Text>
+                <Text style={styles.modernSettingDescription}>End every session, including this one</Text>
               </View>
               <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
             </TouchableOpacity>
@@ -734,6 +888,21 @@ const styles = StyleSheet.create({
     color: '#10B981',
     fontWeight: '600',
   },
+  unverifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 4,
+    alignSelf: 'flex-start',
+  },
+  unverifiedText: {
+    fontSize: 11,
+    color: '#B45309',
+    fontWeight: '600',
+  },
 
   // ⚙️ Modern Settings
   modernSettingsGroup: {
@@ -784,6 +953,16 @@ const styles = StyleSheet.create({
     color: '#92400E',
     fontWeight: '600',
   },
+  securityStatusBadgeEnabled: {
+    backgroundColor: '#D1FAE5',
+    borderColor: '#A7F3D0',
+  },
+  securityStatusTextEnabled: {
+    color: '#065F46',
+  },
+  securityWarningText: {
+    color: '#B45309',
+  },
 
   // 🚪 Logout Section
   logoutSection: {
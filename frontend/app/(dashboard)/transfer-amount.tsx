@@ -1,26 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, Alert, TextInput } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Alert, TextInput, Modal, TouchableOpacity, Switch } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
 import { useWalletStore } from '../../lib/walletStore';
 import { useAuthStore } from '../../lib/auth';
 import { apiClient } from '../../lib/api';
+import { transferService } from '../../lib/transfer';
+import { beneficiaryService } from '../../lib/beneficiaries';
 import Button from '../../components/ui/Button';
+import type { ApiError } from '../../types';
+import type { StepUpMethod, TransferAuthorizationRequirement, TransferBinding } from '../../types/transfer';
 
 interface RecipientData {
   id?: string; // User ID for @username transfers
   name?: string; // Display name
-  type: string; // 'user' (via @username) or 'iban' (direct IBAN)
+  type: string; // 'user' (via @username), 'iban' (direct IBAN) or 'honduras_local' (Honduran bank account)
   currency: string;
   username?: string; // Username for @username transfers
+  beneficiaryId?: string; // Saved recipient being paid
   
   // Bank transfer fields (required for all transfers)
   holderName: string;
+  firstName?: string;
+  lastName?: string;
   iban: string;
+  accountNumber?: string; // Honduran local accounts
+  bankCode?: string;
   bankName?: string;
   country: string;
 }
 
+interface PendingStepUp {
+  requirement: TransferAuthorizationRequirement;
+  binding: TransferBinding;
+  resolve: (authorizationToken: string | null) => void;
+}
+
 interface ExchangeRate {
   source: string;
   target: string;
@@ -77,26 +93,45 @@ export default function TransferAmountScreen() {
   
   const currency = params.currency as string;
   
-  // Handle both JSON recipientData (from add-recipient) and individual params (from user-search)
-  const recipientData: Partial<RecipientData> = params.recipientData 
-    ? JSON.parse(params.recipientData as string) as RecipientData
-    : {
-        // From user search - this will be @username transfer
-        id: params.recipientId as string,
-        name: params.recipientName as string,
-        type: 'user', // @username transfer type
-        currency: params.currency as string,
-        username: params.recipientUsername as string || undefined,
-        // IBAN will be fetched dynamically
-        holderName: '', // Will be populated
-        iban: '', // Will be populated
-        country: '', // Will be populated
-      };
+  // Saved recipients are loaded from the API; one-off recipients (add-recipient) arrive as JSON
+  // and @username recipients (user-search) as individual params
+  const beneficiaryId = params.beneficiaryId as string | undefined;
+  const getInitialRecipientData = (): Partial<RecipientData> => {
+    if (beneficiaryId) {
+      // Filled in by loadBeneficiary
+      return { type: 'iban', beneficiaryId, currency, holderName: '', iban: '', country: '' };
+    }
+    
+    if (params.recipientData) {
+      return JSON.parse(params.recipientData as string) as RecipientData;
+    }
+    
+    return {
+      // From user search - this will be @username transfer
+      id: params.recipientId as string,
+      name: params.recipientName as string,
+      type: 'user', // @username transfer type
+      currency: params.currency as string,
+      username: params.recipientUsername as string || undefined,
+      // IBAN will be fetched dynamically
+      holderName: '', // Will be populated
+      iban: '', // Will be populated
+      country: '', // Will be populated
+    };
+  };
   
+  const [recipientData, setRecipientData] = useState<Partial<RecipientData>>(getInitialRecipientData);
+  
+  const [saveRecipient, setSaveRecipient] = useState(false);
   const [amount, setAmount] = useState('');
   const [exchangeRate, setExchangeRate] = useState<ExchangeRate | null>(null);
   const [isLoadingRate, setIsLoadingRate] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [stepUp, setStepUp] = useState<PendingStepUp | null>(null);
+  const [stepUpMethod, setStepUpMethod] = useState<Exclude<StepUpMethod, 'biometric'>>('password');
+  const [stepUpInput, setStepUpInput] = useState('');
+  const [stepUpError, setStepUpError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
   // All transfers are now free - no fees
 
   useEffect(() => {
@@ -105,6 +140,36 @@ export default function TransferAmountScreen() {
     }
   }, [selectedAccount, currency]);
 
+  useEffect(() => {
+    if (beneficiaryId) {
+      loadBeneficiary(beneficiaryId);
+    }
+  }, [beneficiaryId]);
+
+  const loadBeneficiary = async (id: string) => {
+    try {
+      const { beneficiary } = await beneficiaryService.getBeneficiary(id);
+      
+      setRecipientData({
+        type: beneficiary.accountType === 'honduras_local' ? 'honduras_local' : 'iban',
+        beneficiaryId: beneficiary.id,
+        name: beneficiaryService.getDisplayName(beneficiary),
+        holderName: `${beneficiary.firstName} ${beneficiary.lastName}`,
+        firstName: beneficiary.firstName,
+        lastName: beneficiary.lastName,
+        iban: beneficiary.iban || '',
+        accountNumber: beneficiary.accountNumber || undefined,
+        bankCode: beneficiary.bankCode || undefined,
+        bankName: beneficiary.bankName,
+        currency: beneficiary.currency || currency,
+        country: beneficiary.country,
+      });
+    } catch (error) {
+      console.error('Error loading beneficiary:', error);
+      Alert.alert('Error', 'Failed to load recipient', [{ text: 'OK', onPress: () => router.back() }]);
+    }
+  };
+
   const loadExchangeRate = async () => {
     if (!selectedAccount || !token) {
       return;
@@ -193,6 +258,145 @@ export default function TransferAmountScreen() {
     return true;
   };
 
+  // Resolves to undefined when no step-up is needed, or null if the user backs out of it
+  const requestTransferAuthorization = async (binding: TransferBinding): Promise<string | null | undefined> => {
+    const requirement = await transferService.checkTransferAuthorization(binding);
+    
+    if (!requirement.required) {
+      return undefined;
+    }
+    
+    return new Promise((resolve) => {
+      setStepUpMethod(requirement.methods.includes('totp') ? 'totp' : 'password');
+      setStepUpInput('');
+      setStepUpError('');
+      setStepUp({ requirement, binding, resolve });
+    });
+  };
+
+  const closeStepUp = (authorizationToken: string | null) => {
+    stepUp?.resolve(authorizationToken);
+    setStepUp(null);
+    setStepUpInput('');
+    setStepUpError('');
+  };
+
+  const handleStepUpConfirm = async () => {
+    if (!stepUp || !stepUpInput.trim()) {
+      return;
+    }
+    
+    setIsVerifying(true);
+    setStepUpError('');
+    
+    try {
+      const response = await transferService.authorizeTransfer(
+        stepUpMethod === 'totp'
+          ? { ...stepUp.binding, method: 'totp', code: stepUpInput.trim() }
+          : { ...stepUp.binding, method: 'password', password: stepUpInput }
+      );
+      closeStepUp(response.authorizationToken);
+    } catch (error) {
+      const apiError = error as ApiError;
+      setStepUpError(apiError.message || 'Verification failed. Please try again.');
+      setStepUpInput('');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleStepUpBiometric = async () => {
+    if (!stepUp) {
+      return;
+    }
+    
+    setIsVerifying(true);
+    setStepUpError('');
+    
+    try {
+      const response = await transferService.authorizeTransferWithBiometrics(
+        stepUp.binding,
+        `Confirm your transfer of ${formatCurrency(stepUp.binding.amount, stepUp.binding.currency)}`
+      );
+      
+      if (response) {
+        closeStepUp(response.authorizationToken);
+      }
+    } catch (error) {
+      const apiError = error as ApiError;
+      setStepUpError(apiError.message || 'Biometric verification failed. Please try again.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const showTransferInitiated = (transferId: string, recipientName: string, targetAmount: number) => {
+    Alert.alert(
+      'Transfer Initiated!',
+      `Your transfer of €${amount} to ${recipientName} has been initiated successfully.`,
+      [
+        {
+          text: 'View Details',
+          onPress: () => {
+            router.replace({
+              pathname: '/transfer-success',
+              params: {
+                transferId,
+                amount,
+                currency,
+                recipientName: recipientName,
+                targetAmount: targetAmount.toFixed(2),
+                targetCurrency: currency
+              }
+            });
+          }
+        }
+      ]
+    );
+  };
+
+  // Honduran local accounts have no IBAN, so they are paid from a quote rather than through /wise/transfers
+  const sendToHonduranAccount = async (sourceAccountId: string, sourceCurrency: string) => {
+    const { quote } = await transferService.getQuote(
+      sourceAccountId,
+      currency,
+      'HN',
+      parseFloat(amount),
+      sourceCurrency
+    );
+    
+    const holderName = recipientData.holderName || '';
+    const recipientAccount = {
+      type: 'honduras_local' as const,
+      bankCode: recipientData.bankCode,
+      accountNumber: recipientData.accountNumber,
+      currency,
+      country: 'HN',
+      holderName,
+      bankName: recipientData.bankName,
+    };
+    
+    // Large transfers and first transfers to a recipient need a step-up check first
+    const authorizationToken = await requestTransferAuthorization({
+      amount: quote.sourceAmount,
+      currency: sourceCurrency,
+      recipientAccount,
+    });
+    
+    if (authorizationToken === null) {
+      return;
+    }
+    
+    const { transfer } = await transferService.createTransfer({
+      quoteId: quote.id,
+      recipientAccount,
+      reference: `Transfer to ${holderName}`,
+      authorizationToken,
+    });
+    
+    showTransferInitiated(transfer.id, holderName, quote.targetAmount);
+  };
+
   const handleSendMoney = async () => {
     if (!validateAmount() || !selectedAccount || !token) {
       return;
@@ -201,6 +405,11 @@ export default function TransferAmountScreen() {
     setIsProcessing(true);
     
     try {
+      if (recipientData.type === 'honduras_local') {
+        await sendToHonduranAccount(selectedAccount.id, selectedAccount.currency);
+        return;
+      }
+      
       let finalRecipientData = { ...recipientData };
       
       // If this is a @username transfer, fetch the user's IBAN first
@@ -225,20 +434,31 @@ export default function TransferAmountScreen() {
         });
       }
       
+      // Large transfers and first transfers to a recipient need a step-up check first
+      const authorizationToken = await requestTransferAuthorization({
+        amount: parseFloat(amount),
+        currency: selectedAccount.currency,
+        recipientIban: finalRecipientData.iban || '',
+      });
+      
+      if (authorizationToken === null) {
+        return;
+      }
+      
       // All transfers now go through Wise API as real bank transfers
       const transferData = {
         recipientAccount: {
-          type: 'iban',
-          iban: finalRecipientData.iban,
-          accountNumber: finalRecipientData.iban,
-          currency: finalRecipientData.currency,
-          country: finalRecipientData.country,
-          holderName: finalRecipientData.holderName,
+          type: 'iban' as const,
+          iban: finalRecipientData.iban || '',
+          accountNumber: finalRecipientData.iban || '',
+          currency: finalRecipientData.currency || '',
+          country: finalRecipientData.country || '',
+          holderName: finalRecipientData.holderName || '',
           bankName: finalRecipientData.bankName || 'Wise Account',
         },
         recipientDetails: {
-          firstName: finalRecipientData.holderName?.split(' ')[0] || 'Unknown',
-          lastName: finalRecipientData.holderName?.split(' ').slice(1).join(' ') || 'User',
+          firstName: finalRecipientData.firstName || finalRecipientData.holderName?.split(' ')[0] || 'Unknown',
+          lastName: finalRecipientData.lastName || finalRecipientData.holderName?.split(' ').slice(1).join(' ') || 'User',
           email: 'noreply@example.com', // Required by API but not used for IBAN transfers
         },
         transferDetails: {
@@ -247,50 +467,26 @@ export default function TransferAmountScreen() {
           reference: recipientData.username 
             ? `Transfer to @${recipientData.username}` 
             : `Transfer to ${finalRecipientData.holderName}`,
-        }
+        },
+        authorizationToken,
+        beneficiaryId: recipientData.beneficiaryId,
+        saveRecipient: !recipientData.beneficiaryId && saveRecipient,
       };
       
       console.log('💸 Executing real bank transfer via Wise API...');
-      const response = await apiClient.post('/wise/transfers', transferData, {
-        headers: { Authorization: `Bearer ${token}` }
-      });
+      const transferResponse = await transferService.createSimpleTransfer(transferData);
       
       const recipientName = recipientData.username 
         ? `${finalRecipientData.holderName} (@${recipientData.username})`
         : finalRecipientData.holderName;
       
-      console.log('Transfer response:', response);
-      
-      const transferResponse = response as { transfer?: { id: string }; message?: string };
+      console.log('Transfer response:', transferResponse);
       
       if (!transferResponse.transfer || !transferResponse.transfer.id) {
         throw new Error('Invalid response: transfer data missing');
       }
       
-      const transfer = transferResponse.transfer;
-      
-      Alert.alert(
-        'Transfer Initiated!',
-        `Your transfer of €${amount} to ${recipientName} has been initiated successfully.`,
-        [
-          {
-            text: 'View Details',
-            onPress: () => {
-              router.replace({
-                pathname: '/transfer-success',
-                params: {
-                  transferId: transfer.id,
-                  amount,
-                  currency,
-                  recipientName: recipientName,
-                  targetAmount: getTargetAmount().toFixed(2),
-                  targetCurrency: currency
-                }
-              });
-            }
-          }
-        ]
-      );
+      showTransferInitiated(transferResponse.transfer.id, recipientName || '', getTargetAmount());
     } catch (error) {
       console.error('Transfer error:', error);
       
@@ -307,6 +503,22 @@ export default function TransferAmountScreen() {
             errorMessage = details.map((d: { field: string; message: string }) => `${d.field}: ${d.message}`).join('\n');
           }
         }
+      } else if (error && typeof error === 'object' && 'statusCode' in error) {
+        const apiError = error as ApiError;
+        
+        if (apiError.error === 'Email verification required') {
+          Alert.alert(
+            'Verify Your Email',
+            `${apiError.message}. We sent a verification link when you registered; you can request a new one from your profile.`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Go to Profile', onPress: () => router.push('/(dashboard)/profile') },
+            ]
+          );
+          return;
+        }
+        
+        errorMessage = apiError.message || errorMessage;
       } else if (error instanceof Error) {
         errorMessage = error.message;
       }
@@ -431,12 +643,28 @@ export default function TransferAmountScreen() {
                 // External bank transfer
                 <>
                   <Text style={styles.recipientIban}>
-                    {recipientData.iban?.replace(/(.{4})/g, '$1 ').trim()}
+                    {recipientData.type === 'honduras_local'
+                      ? recipientData.accountNumber
+                      : recipientData.iban?.replace(/(.{4})/g, '$1 ').trim()}
                   </Text>
                   <Text style={styles.recipientBank}>{recipientData.bankName}</Text>
                 </>
               )}
             </View>
+            
+            {/* Honduran recipients are saved from the add-recipient form */}
+            {!recipientData.beneficiaryId && recipientData.type !== 'honduras_local' && (
+              <View style={styles.saveRecipientRow}>
+                <Text style={styles.saveRecipientText}>Save to my recipients</Text>
+                <Switch
+                  value={saveRecipient}
+                  onValueChange={setSaveRecipient}
+                  trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                  thumbColor="#FFFFFF"
+                  ios_backgroundColor="#E5E7EB"
+                />
+              </View>
+            )}
           </View>
         </ScrollView>
 
@@ -460,6 +688,93 @@ export default function TransferAmountScreen() {
           />
         </View>
       </View>
+
+      {/* Step-up (Strong Customer Authentication) Modal */}
+      <Modal
+        visible={stepUp !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => closeStepUp(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Ionicons name="shield-checkmark" size={24} color="#2563eb" />
+              <Text style={styles.modalTitle}>Confirm Transfer</Text>
+            </View>
+            
+            <Text style={styles.modalMessage}>
+              {stepUp?.requirement.reason === 'amount'
+                ? `Transfers over ${formatCurrency(stepUp.requirement.threshold, stepUp.requirement.currency)} need an extra security check.`
+                : 'This is your first transfer to this recipient, so we need an extra security check.'}
+            </Text>
+            
+            {stepUp?.requirement.methods.includes('biometric') && (
+              <TouchableOpacity
+                style={styles.biometricOption}
+                onPress={handleStepUpBiometric}
+                disabled={isVerifying}
+              >
+                <Ionicons name="finger-print" size={22} color="#2563eb" />
+                <Text style={styles.biometricOptionText}>Use biometrics</Text>
+              </TouchableOpacity>
+            )}
+            
+            {stepUp?.requirement.methods.includes('totp') && (
+              <View style={styles.methodTabs}>
+                {(['totp', 'password'] as const).map(method => (
+                  <TouchableOpacity
+                    key={method}
+                    style={[styles.methodTab, stepUpMethod === method && styles.methodTabActive]}
+                    onPress={() => {
+                      setStepUpMethod(method);
+                      setStepUpInput('');
+                      setStepUpError('');
+                    }}
+                  >
+                    <Text style={[styles.methodTabText, stepUpMethod === method && styles.methodTabTextActive]}>
+                      {method === 'totp' ? 'Authenticator code' : 'Password'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            
+            <TextInput
+              style={styles.modalInput}
+              value={stepUpInput}
+              onChangeText={(value: string) => setStepUpInput(stepUpMethod === 'totp' ? value.replace(/\D/g, '') : value)}
+              placeholder={stepUpMethod === 'totp' ? '6-digit code' : 'Enter your password'}
+              placeholderTextColor="#9CA3AF"
+              secureTextEntry={stepUpMethod === 'password'}
+              keyboardType={stepUpMethod === 'totp' ? 'number-pad' : 'default'}
+              maxLength={stepUpMethod === 'totp' ? 6 : undefined}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+            />
+            
+            {stepUpError ? <Text style={styles.modalError}>{stepUpError}</Text> : null}
+            
+            <View style={styles.modalButtons}>
+              <Button
+                title="Cancel"
+                onPress={() => closeStepUp(null)}
+                variant="outline"
+                disabled={isVerifying}
+                style={styles.modalButton}
+              />
+              <Button
+                title="Confirm"
+                onPress={handleStepUpConfirm}
+                loading={isVerifying}
+                disabled={!stepUpInput.trim()}
+                style={styles.modalButton}
+              />
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -634,6 +949,20 @@ const styles = StyleSheet.create({
     color: '#64748b',
     fontWeight: '500',
   },
+  saveRecipientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  saveRecipientText: {
+    fontSize: 15,
+    color: '#1e293b',
+    fontWeight: '600',
+  },
   
   // Action Buttons
   actionButtons: {
@@ -678,4 +1007,104 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontSize: 15,
   },
+  
+  // Step-up Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  modalMessage: {
+    fontSize: 15,
+    color: '#64748b',
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  biometricOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#bfdbfe',
+    backgroundColor: '#eff6ff',
+    marginBottom: 16,
+  },
+  biometricOptionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  methodTabs: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 12,
+  },
+  methodTab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  methodTabActive: {
+    backgroundColor: '#ffffff',
+  },
+  methodTabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  methodTabTextActive: {
+    color: '#2563eb',
+  },
+  modalInput: {
+    backgroundColor: '#f8fafb',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  modalError: {
+    fontSize: 13,
+    color: '#dc2626',
+    fontWeight: '500',
+    marginTop: 8,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  modalButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 12,
+  },
 });
\ No newline at end of file
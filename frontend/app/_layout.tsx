@@ -36,6 +36,7 @@ export default function RootLayout() {
         >
           <Stack.Screen name="(auth)" options={{ headerShown: false }} />
           <Stack.Screen name="(dashboard)" options={{ headerShown: false }} />
+          <Stack.Screen name="verify-email" options={{ headerShown: false }} />
         </Stack>
         <StatusBar style="auto" translucent={true} />
       </ErrorBoundary>
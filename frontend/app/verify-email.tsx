@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { apiClient } from '../lib/api';
+import { useAuthStore } from '../lib/auth';
+import Button from '../components/ui/Button';
+import type { ApiError, VerifyEmailResponse } from '../types';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+/**
+ * Target of the link in verification emails (remittance-app://verify-email?token=...).
+ * Lives outside the route groups so it works whether or not the user is signed in.
+ */
+export default function VerifyEmailScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { isAuthenticated, user, updateUser } = useAuthStore();
+  const [state, setState] = useState<VerificationState>('verifying');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const verify = async () => {
+      if (!token) {
+        setState('failed');
+        setMessage('This verification link is incomplete.');
+        return;
+      }
+
+      try {
+        const response = await apiClient.post<VerifyEmailResponse>('/auth/verify-email', { token });
+        setState('verified');
+        setMessage(response.message);
+
+        if (user && !user.emailVerified) {
+          await updateUser({ emailVerified: true });
+        }
+      } catch (error) {
+        const apiError = error as ApiError;
+        setState('failed');
+        setMessage(apiError.message || 'Unable to verify your email address.');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const handleContinue = () => {
+    router.replace(isAuthenticated ? '/(dashboard)' : '/(auth)/login');
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.content}>
+        {state === 'verifying' ? (
+          <>
+            <ActivityIndicator size="large" color="#3B82F6" />
+            <Text style={styles.title}>Verifying your email…</Text>
+          </>
+        ) : (
+          <>
+            <View style={[styles.iconContainer, state === 'failed' && styles.iconContainerError]}>
+              <Ionicons
+                name={state === 'verified' ? 'checkmark-circle' : 'alert-circle'}
+                size={48}
+                color={state === 'verified' ? '#10B981' : '#EF4444'}
+              />
+            </View>
+            <Text style={styles.title}>
+              {state === 'verified' ? 'Email Verified' : 'Verification Failed'}
+            </Text>
+            <Text style={styles.message}>{message}</Text>
+            {state === 'failed' && isAuthenticated && (
+              <Text style={styles.message}>You can request a new link from your profile.</Text>
+            )}
+            <Button title="Continue" onPress={handleContinue} style={styles.button} />
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    gap: 16,
+  },
+  iconContainer: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+    backgroundColor: '#ECFDF5',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  iconContainerError: {
+    backgroundColor: '#FEF2F2',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1E3A8A',
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  button: {
+    marginTop: 8,
+    minWidth: 200,
+  },
+});
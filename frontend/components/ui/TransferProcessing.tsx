@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, Animated } from 'react-native';
 import { transferService } from '../../lib/transfer';
+import { useAuthStore } from '../../lib/auth';
 
 interface TransferProcessingProps {
   amount: string;
@@ -21,7 +22,10 @@ const TransferProcessing: React.FC<TransferProcessingProps> = ({
   const [fadeAnim] = useState(new Animated.Value(0));
   const [scaleAnim] = useState(new Animated.Value(0.8));
   const [progressAnim] = useState(new Animated.Value(0));
-  const [useRealStatusUpdates] = useState(!!transferId);
+  const { user } = useAuthStore();
+  // Status simulation is a sandbox/ops endpoint restricted to staff
+  const isStaff = user?.role === 'ADMIN' || user?.role === 'SUPPORT';
+  const [useRealStatusUpdates] = useState(!!transferId && isStaff);
 
   const steps = [
     { 
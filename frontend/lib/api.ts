@@ -1,12 +1,20 @@
 import { Platform } from 'react-native';
+import Constants from 'expo-constants';
 import type { ApiError } from '../types';
 import { getConfig } from '../utils/config';
 
 const config = getConfig();
 
+// Endpoints whose 401 means bad credentials rather than an expired access token
+const NO_REFRESH_ENDPOINTS = ['/auth/login', '/auth/login/mfa', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+type TokenRefreshHandler = () => Promise<string | null>;
+
 class ApiClient {
   private baseURL: string;
   private defaultHeaders: Record<string, string>;
+  private refreshHandler: TokenRefreshHandler | null = null;
+  private pendingRefresh: Promise<string | null> | null = null;
 
   constructor(baseURL: string) {
     this.baseURL = baseURL;
@@ -14,6 +22,11 @@ class ApiClient {
       'Content-Type': 'application/json',
       'User-Agent': `RemittanceApp/${config.APP_VERSION} (${Platform.OS})`,
     };
+
+    // Shown in the account's device list; encoded because device names are often non-ASCII
+    if (Constants.deviceName) {
+      this.defaultHeaders['X-Device-Name'] = encodeURIComponent(Constants.deviceName);
+    }
   }
 
   private async handleResponse<T>(response: Response): Promise<T> {
@@ -34,7 +47,57 @@ class ApiClient {
     return data;
   }
 
+  // Share one refresh between concurrent requests that all hit an expired token
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshHandler) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshHandler()
+        .catch(() => null)
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+
+    return this.pendingRefresh;
+  }
+
   private async request<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    isRetry: boolean = false
+  ): Promise<T> {
+    try {
+      return await this.send<T>(endpoint, options);
+    } catch (error) {
+      const apiError = error as ApiError;
+      const canRefresh = !isRetry
+        && apiError.statusCode === 401
+        && !NO_REFRESH_ENDPOINTS.includes(endpoint);
+
+      if (!canRefresh) {
+        throw error;
+      }
+
+      const newToken = await this.refreshAccessToken();
+      if (!newToken) {
+        throw error;
+      }
+
+      // Callers often pass their own Authorization header; replace it with the fresh token
+      return this.request<T>(endpoint, {
+        ...options,
+        headers: {
+          ...(options.headers as Record<string, string> | undefined),
+          Authorization: `Bearer ${newToken}`,
+        },
+      }, true);
+    }
+  }
+
+  private async send<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
@@ -116,6 +179,18 @@ class ApiClient {
     });
   }
 
+  async patch<T>(
+    endpoint: string,
+    data?: unknown,
+    options: RequestInit = {}
+  ): Promise<T> {
+    return this.request<T>(endpoint, {
+      ...options,
+      method: 'PATCH',
+      body: data ? JSON.stringify(data) : undefined,
+    });
+  }
+
   async delete<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     return this.request<T>(endpoint, {
       ...options,
@@ -123,6 +198,11 @@ class ApiClient {
     });
   }
 
+  // Called on 401 to obtain a new access token (null when the session cannot be refreshed)
+  setTokenRefreshHandler(handler: TokenRefreshHandler | null) {
+    this.refreshHandler = handler;
+  }
+
   // Set authorization header for authenticated requests
   setAuthToken(token: string | null) {
     if (token) {
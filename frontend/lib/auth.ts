@@ -1,13 +1,40 @@
 import * as SecureStore from 'expo-secure-store';
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { AuthState, LoginCredentials, RegisterData, AuthResponse, ApiError, User } from '../types';
+import type {
+  AuthState,
+  LoginCredentials,
+  RegisterData,
+  AuthResponse,
+  LoginResponse,
+  LoginResult,
+  MfaMethod,
+  ChangePasswordResponse,
+  RefreshResponse,
+  ValidateSessionResponse,
+  BiometricChallengeResponse,
+  BiometricDeviceResponse,
+  ApiError,
+  User,
+} from '../types';
 import { apiClient } from './api';
-import { validateBiometricUser } from './biometric';
+import {
+  validateBiometricUser,
+  setBiometricEnabled,
+  generateBiometricKeyPair,
+  storeBiometricDevice,
+  getBiometricDevice,
+  signBiometricChallenge,
+  clearBiometricData,
+} from './biometric';
 
 const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
 const USER_KEY = 'auth_user';
 
+// Prompt users to regenerate MFA recovery codes at or below this many
+export const LOW_RECOVERY_CODE_THRESHOLD = 3;
+
 // Secure storage adapter for Zustand
 const secureStorage = {
   getItem: async (key: string): Promise<string | null> => {
@@ -34,13 +61,42 @@ const secureStorage = {
 };
 
 interface AuthActions {
-  login: (credentials: LoginCredentials) => Promise<void>;
+  login: (credentials: LoginCredentials) => Promise<LoginResult>;
+  // Resolves with the number of recovery codes left when one was used
+  verifyMfa: (code: string, method?: MfaMethod) => Promise<number | undefined>;
+  cancelMfa: () => void;
   register: (userData: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
   loadStoredAuth: () => Promise<void>;
   clearError: () => void;
   validateSession: () => Promise<boolean>;
   updateUser: (userData: Partial<User>) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  refreshSession: () => Promise<string | null>;
+  // Resolves false if the user cancelled the biometric prompt
+  loginWithBiometrics: (reason?: string) => Promise<boolean>;
+  enableBiometricLogin: (password: string) => Promise<void>;
+  disableBiometricLogin: () => Promise<void>;
+}
+
+// Persist a successful login and clear data left behind by a different user
+async function storeLoginSession(response: AuthResponse): Promise<void> {
+  // Check if this is a different user than previously stored
+  const storedUserString = await SecureStore.getItemAsync(USER_KEY);
+  if (storedUserString) {
+    const storedUser = JSON.parse(storedUserString);
+    if (storedUser.id !== response.user.id) {
+      // Different user - clear wallet data
+      await SecureStore.deleteItemAsync('wallet-storage');
+    }
+  }
+  
+  // Validate biometric data belongs to current user (clear if different user)
+  await validateBiometricUser(response.user.email);
+  
+  await SecureStore.setItemAsync(TOKEN_KEY, response.token);
+  await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, response.refreshToken);
+  await SecureStore.setItemAsync(USER_KEY, JSON.stringify(response.user));
 }
 
 export const useAuthStore = create<AuthState & AuthActions>()(
@@ -49,50 +105,100 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       // State
       user: null,
       token: null,
+      refreshToken: null,
       isLoading: false,
       isAuthenticated: false,
       error: null,
+      mfaChallenge: null,
 
       // Actions
       login: async (credentials: LoginCredentials) => {
-        set({ isLoading: true, error: null });
+        set({ isLoading: true, error: null, mfaChallenge: null });
         
         try {
-          const response = await apiClient.post<AuthResponse>('/auth/login', credentials);
-          
-          // Check if this is a different user than previously stored
-          const storedUserString = await SecureStore.getItemAsync(USER_KEY);
-          if (storedUserString) {
-            const storedUser = JSON.parse(storedUserString);
-            if (storedUser.id !== response.user.id) {
-              // Different user - clear wallet data
-              await SecureStore.deleteItemAsync('wallet-storage');
-            }
+          const response = await apiClient.post<LoginResponse>('/auth/login', credentials);
+
+          // Password accepted but a second factor is required before a session is issued
+          if ('status' in response && response.status === 'mfa_required') {
+            set({
+              isLoading: false,
+              mfaChallenge: {
+                challengeToken: response.challengeToken,
+                expiresAt: Date.now() + response.expiresIn * 1000,
+              },
+            });
+            return 'mfa_required';
           }
-          
-          // Validate biometric data belongs to current user (clear if different user)
-          await validateBiometricUser(response.user.email);
-          
-          await SecureStore.setItemAsync(TOKEN_KEY, response.token);
-          await SecureStore.setItemAsync(USER_KEY, JSON.stringify(response.user));
+
+          const authResponse = response as AuthResponse;
+          await storeLoginSession(authResponse);
+
+          set({
+            user: authResponse.user,
+            token: authResponse.token,
+            refreshToken: authResponse.refreshToken,
+            isAuthenticated: true,
+            isLoading: false,
+            error: null,
+          });
+          return 'authenticated';
+        } catch (error) {
+          const apiError = error as ApiError;
+          set({
+            isLoading: false,
+            error: apiError.message || 'Login failed',
+          });
+          throw error;
+        }
+      },
+
+      verifyMfa: async (code: string, method: MfaMethod = 'totp') => {
+        const challenge = get().mfaChallenge;
+        if (!challenge || challenge.expiresAt < Date.now()) {
+          set({
+            mfaChallenge: null,
+            error: 'Your sign-in attempt has expired. Please sign in again.',
+          });
+          throw new Error('MFA challenge expired');
+        }
+
+        set({ isLoading: true, error: null });
+
+        try {
+          const response = await apiClient.post<AuthResponse>('/auth/login/mfa', {
+            challengeToken: challenge.challengeToken,
+            ...(method === 'recovery_code' ? { recoveryCode: code } : { code }),
+          });
+
+          await storeLoginSession(response);
 
           set({
             user: response.user,
             token: response.token,
+            refreshToken: response.refreshToken,
             isAuthenticated: true,
             isLoading: false,
             error: null,
+            mfaChallenge: null,
           });
+
+          return response.recoveryCodesRemaining;
         } catch (error) {
           const apiError = error as ApiError;
           set({
             isLoading: false,
-            error: apiError.message || 'Login failed',
+            error: apiError.message || 'Verification failed',
+            // An invalid challenge cannot be retried - send the user back to the password step
+            mfaChallenge: apiError.error === 'Invalid challenge' ? null : challenge,
           });
           throw error;
         }
       },
 
+      cancelMfa: () => {
+        set({ mfaChallenge: null, error: null });
+      },
+
       register: async (userData: RegisterData) => {
         set({ isLoading: true, error: null });
         
@@ -103,11 +209,13 @@ export const useAuthStore = create<AuthState & AuthActions>()(
           await SecureStore.deleteItemAsync('wallet-storage');
           
           await SecureStore.setItemAsync(TOKEN_KEY, response.token);
+          await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, response.refreshToken);
           await SecureStore.setItemAsync(USER_KEY, JSON.stringify(response.user));
 
           set({
             user: response.user,
             token: response.token,
+            refreshToken: response.refreshToken,
             isAuthenticated: true,
             isLoading: false,
             error: null,
@@ -123,8 +231,22 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       },
 
       logout: async () => {
+        const { token } = get();
+
+        // End the session on the server too; signing out locally must not depend on it
+        if (token) {
+          try {
+            await apiClient.post('/auth/logout', undefined, {
+              headers: { Authorization: `Bearer ${token}` },
+            });
+          } catch (error) {
+            console.warn('Server logout failed:', error);
+          }
+        }
+
         try {
           await SecureStore.deleteItemAsync(TOKEN_KEY);
+          await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
           await SecureStore.deleteItemAsync(USER_KEY);
           // Clear wallet data on logout
           await SecureStore.deleteItemAsync('wallet-storage');
@@ -137,8 +259,10 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         set({
           user: null,
           token: null,
+          refreshToken: null,
           isAuthenticated: false,
           error: null,
+          mfaChallenge: null,
         });
       },
 
@@ -167,15 +291,17 @@ export const useAuthStore = create<AuthState & AuthActions>()(
               }
             }
             
-            // Validate token is still valid
+            // Validate token is still valid; on success the cached user is replaced with the server's copy
+            set({
+              user,
+              token,
+              refreshToken: await SecureStore.getItemAsync(REFRESH_TOKEN_KEY),
+            });
+
             const isValid = await get().validateSession();
             
             if (isValid) {
-              set({
-                user,
-                token,
-                isAuthenticated: true,
-              });
+              set({ isAuthenticated: true });
             } else {
               await get().logout();
             }
@@ -187,20 +313,25 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       },
 
       validateSession: async (): Promise<boolean> => {
-        try {
-          const token = get().token;
-          if (!token) {
-            return false;
-          }
+        const token = get().token;
+        if (!token) {
+          return false;
+        }
 
-          // Call a protected endpoint to validate token
-          await apiClient.get('/auth/validate', {
+        try {
+          const response = await apiClient.get<ValidateSessionResponse>('/auth/validate', {
             headers: { Authorization: `Bearer ${token}` }
           });
-          
+
+          // The server copy is canonical; the cached user may be stale or tampered with
+          await SecureStore.setItemAsync(USER_KEY, JSON.stringify(response.user));
+          set({ user: response.user });
+
           return true;
-        } catch {
-          return false;
+        } catch (error) {
+          // Only an explicit rejection invalidates the session; offline starts keep the cached user
+          const { statusCode } = error as ApiError;
+          return !(statusCode === 401 || statusCode === 403 || statusCode === 404);
         }
       },
 
@@ -208,6 +339,136 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         set({ error: null });
       },
 
+      changePassword: async (currentPassword: string, newPassword: string) => {
+        const token = get().token;
+        if (!token) {
+          throw new Error('No user logged in');
+        }
+
+        const response = await apiClient.post<ChangePasswordResponse>(
+          '/auth/change-password',
+          { currentPassword, newPassword },
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+
+        // Every session was revoked server-side; continue with the fresh tokens
+        await SecureStore.setItemAsync(TOKEN_KEY, response.token);
+        await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, response.refreshToken);
+        set({ token: response.token, refreshToken: response.refreshToken });
+      },
+
+      loginWithBiometrics: async (reason?: string) => {
+        const device = await getBiometricDevice();
+        if (!device) {
+          throw new Error('Biometric sign in is not set up on this device');
+        }
+
+        set({ isLoading: true, error: null, mfaChallenge: null });
+
+        try {
+          const { challenge } = await apiClient.post<BiometricChallengeResponse>('/auth/biometric/challenge', {
+            deviceId: device.deviceId,
+          });
+
+          const signature = await signBiometricChallenge(challenge, reason);
+          if (!signature) {
+            set({ isLoading: false });
+            return false;
+          }
+
+          const response = await apiClient.post<AuthResponse>('/auth/biometric', {
+            deviceId: device.deviceId,
+            challenge,
+            signature,
+          });
+          await storeLoginSession(response);
+
+          set({
+            user: response.user,
+            token: response.token,
+            refreshToken: response.refreshToken,
+            isAuthenticated: true,
+            isLoading: false,
+            error: null,
+          });
+          return true;
+        } catch (error) {
+          const apiError = error as ApiError;
+
+          // The key was revoked or removed server-side; it can never work again
+          if (apiError.statusCode === 404) {
+            await clearBiometricData();
+          }
+
+          set({
+            isLoading: false,
+            error: apiError.message || 'Biometric sign in failed',
+          });
+          throw error;
+        }
+      },
+
+      enableBiometricLogin: async (password: string) => {
+        const { token, user } = get();
+        if (!token || !user) {
+          throw new Error('No user logged in');
+        }
+
+        // Replace any key registered earlier from this device
+        await get().disableBiometricLogin();
+
+        const keyPair = generateBiometricKeyPair();
+        const response = await apiClient.post<BiometricDeviceResponse>(
+          '/auth/biometric/devices',
+          { publicKey: keyPair.publicKey, password },
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+
+        await storeBiometricDevice({ deviceId: response.deviceId, email: user.email }, keyPair.privateKey);
+        await setBiometricEnabled(true);
+      },
+
+      disableBiometricLogin: async () => {
+        const { token } = get();
+        const device = await getBiometricDevice();
+
+        if (device && token) {
+          try {
+            await apiClient.delete(`/auth/biometric/devices/${device.deviceId}`, {
+              headers: { Authorization: `Bearer ${token}` },
+            });
+          } catch (error) {
+            console.warn('Failed to revoke biometric device key:', error);
+          }
+        }
+
+        await setBiometricEnabled(false);
+      },
+
+      refreshSession: async (): Promise<string | null> => {
+        const refreshToken = get().refreshToken ?? await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
+        if (!refreshToken) {
+          return null;
+        }
+
+        try {
+          const response = await apiClient.post<RefreshResponse>('/auth/refresh', { refreshToken });
+
+          await SecureStore.setItemAsync(TOKEN_KEY, response.token);
+          await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, response.refreshToken);
+          set({ token: response.token, refreshToken: response.refreshToken });
+
+          return response.token;
+        } catch (error) {
+          // A rejected refresh token (expired, revoked or replayed) ends the session;
+          // network failures leave it intact so the user can retry
+          if ((error as ApiError).statusCode === 401) {
+            await get().logout();
+          }
+          return null;
+        }
+      },
+
       updateUser: async (userData: Partial<User>) => {
         set({ isLoading: true, error: null });
         
@@ -244,8 +505,12 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       partialize: (state) => ({
         user: state.user,
         token: state.token,
+        refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
       }),
     }
   )
-);
\ No newline at end of file
+);
+
+// Let the API client renew expired access tokens transparently
+apiClient.setTokenRefreshHandler(() => useAuthStore.getState().refreshSession());
@@ -0,0 +1,32 @@
+import { apiClient } from './api';
+import type { HonduranBank, IbanValidationResponse, PayoutOptions } from '../types/banking';
+
+export class BankingService {
+  /**
+   * Validate an IBAN (checksum and country format) and look up its bank
+   */
+  async validateIban(iban: string): Promise<IbanValidationResponse> {
+    const cleanIban = iban.replace(/\s/g, '').toUpperCase();
+    const response = await apiClient.get<IbanValidationResponse>(
+      `/banking/iban/${encodeURIComponent(cleanIban)}/validate`
+    );
+    return response;
+  }
+
+  /**
+   * Honduran banks we pay out to, with the account number lengths each accepts
+   */
+  async getHonduranBanks(): Promise<HonduranBank[]> {
+    const response = await apiClient.get<{ banks: HonduranBank[] }>('/banking/hn/banks');
+    return response.banks;
+  }
+
+  /**
+   * Cash pickup locations and mobile wallet providers in a country
+   */
+  async getPayoutOptions(country: string): Promise<PayoutOptions> {
+    return apiClient.get<PayoutOptions>(`/banking/${country.toUpperCase()}/payout-options`);
+  }
+}
+
+export const bankingService = new BankingService();
@@ -0,0 +1,83 @@
+import { apiClient } from './api';
+import type { ApiError } from '../types';
+import type {
+  Beneficiary,
+  BeneficiaryListResponse,
+  CreateBeneficiaryRequest,
+  UpdateBeneficiaryRequest
+} from '../types/beneficiary';
+
+export class BeneficiaryService {
+  /**
+   * Get the user's saved recipients, most recently paid first
+   */
+  async getBeneficiaries(
+    filters: { search?: string; iban?: string } = {},
+    limit = 50,
+    offset = 0
+  ): Promise<BeneficiaryListResponse> {
+    const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+    if (filters.search) {
+      params.set('search', filters.search);
+    }
+    if (filters.iban) {
+      params.set('iban', filters.iban);
+    }
+
+    const response = await apiClient.get<BeneficiaryListResponse>(`/beneficiaries?${params.toString()}`);
+    return response;
+  }
+
+  /**
+   * Get a saved recipient
+   */
+  async getBeneficiary(beneficiaryId: string): Promise<{ beneficiary: Beneficiary }> {
+    const response = await apiClient.get<{ beneficiary: Beneficiary }>(`/beneficiaries/${beneficiaryId}`);
+    return response;
+  }
+
+  /**
+   * Save a recipient. If the IBAN is already saved, the existing beneficiary is returned instead.
+   */
+  async saveBeneficiary(request: CreateBeneficiaryRequest): Promise<{ beneficiary: Beneficiary; created: boolean }> {
+    try {
+      const response = await apiClient.post<{ beneficiary: Beneficiary }>('/beneficiaries', request);
+      return { beneficiary: response.beneficiary, created: true };
+    } catch (error) {
+      if ((error as ApiError).statusCode !== 409 || !request.iban) {
+        throw error;
+      }
+
+      const { beneficiaries } = await this.getBeneficiaries({ iban: request.iban }, 1);
+      if (!beneficiaries[0]) {
+        throw error;
+      }
+      return { beneficiary: beneficiaries[0], created: false };
+    }
+  }
+
+  /**
+   * Update a saved recipient, e.g. its nickname or relationship
+   */
+  async updateBeneficiary(beneficiaryId: string, changes: UpdateBeneficiaryRequest): Promise<{ beneficiary: Beneficiary }> {
+    const response = await apiClient.patch<{ beneficiary: Beneficiary }>(`/beneficiaries/${beneficiaryId}`, changes);
+    return response;
+  }
+
+  /**
+   * Remove a saved recipient
+   */
+  async deleteBeneficiary(beneficiaryId: string): Promise<{ message: string }> {
+    const response = await apiClient.delete<{ message: string }>(`/beneficiaries/${beneficiaryId}`);
+    return response;
+  }
+
+  /**
+   * Display name: nickname if set, otherwise the full name
+   */
+  getDisplayName(beneficiary: Beneficiary): string {
+    return beneficiary.nickname || `${beneficiary.firstName} ${beneficiary.lastName}`;
+  }
+}
+
+export const beneficiaryService = new BeneficiaryService();
@@ -1,5 +1,8 @@
 import * as LocalAuthentication from 'expo-local-authentication';
 import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/curves/abstract/utils';
 
 export interface BiometricCapabilities {
   hasHardware: boolean;
@@ -14,8 +17,24 @@ export interface BiometricAuthResult {
   cancelled?: boolean;
 }
 
+export interface BiometricDevice {
+  deviceId: string;
+  email: string;
+}
+
+export interface BiometricKeyPair {
+  privateKey: string;
+  publicKey: string;
+}
+
 const BIOMETRIC_ENABLED_KEY = 'biometric_enabled';
-const BIOMETRIC_CREDENTIALS_KEY = 'biometric_credentials';
+const BIOMETRIC_DEVICE_KEY = 'biometric_device';
+const BIOMETRIC_PRIVATE_KEY = 'biometric_private_key';
+// Older versions stored the email and password here; it is only ever deleted now
+const LEGACY_CREDENTIALS_KEY = 'biometric_credentials';
+
+// Must match BiometricAuthService.SIGNATURE_CONTEXT on the server
+const SIGNATURE_CONTEXT = 'remittance-app:biometric-login:';
 
 /**
  * Check device biometric capabilities
@@ -85,13 +104,18 @@ export const authenticateWithBiometrics = async (
 };
 
 /**
- * Check if user has enabled biometric authentication
+ * Check if user has enabled biometric authentication on this device
  */
 export const isBiometricEnabled = async (): Promise<boolean> => {
   try {
     const enabled = await SecureStore.getItemAsync(BIOMETRIC_ENABLED_KEY);
-    return enabled === 'true';
-  } catch (error) {
+    if (enabled !== 'true') {
+      return false;
+    }
+
+    // Sign-in set up with stored passwords must be enabled again to register a device key
+    return (await getBiometricDevice()) !== null;
+  } catch {
     return false;
   }
 };
@@ -103,10 +127,12 @@ export const setBiometricEnabled = async (enabled: boolean): Promise<void> => {
   try {
     await SecureStore.setItemAsync(BIOMETRIC_ENABLED_KEY, enabled.toString());
     
-    // If disabling, also remove stored credentials
+    // If disabling, also remove the device key
     if (!enabled) {
-      await SecureStore.deleteItemAsync(BIOMETRIC_CREDENTIALS_KEY);
+      await SecureStore.deleteItemAsync(BIOMETRIC_DEVICE_KEY);
+      await SecureStore.deleteItemAsync(BIOMETRIC_PRIVATE_KEY);
     }
+    await SecureStore.deleteItemAsync(LEGACY_CREDENTIALS_KEY);
   } catch (error) {
     console.error('Error setting biometric preference:', error);
     throw error;
@@ -114,32 +140,75 @@ export const setBiometricEnabled = async (enabled: boolean): Promise<void> => {
 };
 
 /**
- * Store user credentials for biometric authentication
+ * Generate a new Ed25519 key pair for this device (hex encoded)
  */
-export const storeBiometricCredentials = async (email: string, password: string): Promise<void> => {
+export const generateBiometricKeyPair = (): BiometricKeyPair => {
+  const privateKey = getRandomBytes(32);
+  return {
+    privateKey: bytesToHex(privateKey),
+    publicKey: bytesToHex(ed25519.getPublicKey(privateKey)),
+  };
+};
+
+/**
+ * Store the device registration and its private key.
+ * The private key can only be read back after a biometric check.
+ */
+export const storeBiometricDevice = async (device: BiometricDevice, privateKey: string): Promise<void> => {
   try {
-    const credentials = JSON.stringify({ email, password });
-    await SecureStore.setItemAsync(BIOMETRIC_CREDENTIALS_KEY, credentials);
+    await SecureStore.setItemAsync(BIOMETRIC_PRIVATE_KEY, privateKey, {
+      requireAuthentication: true,
+      authenticationPrompt: 'Authenticate to enable biometric sign in',
+    });
+    await SecureStore.setItemAsync(BIOMETRIC_DEVICE_KEY, JSON.stringify(device));
+    await SecureStore.deleteItemAsync(LEGACY_CREDENTIALS_KEY);
   } catch (error) {
-    console.error('Error storing biometric credentials:', error);
+    console.error('Error storing biometric device key:', error);
     throw error;
   }
 };
 
 /**
- * Retrieve stored credentials for biometric authentication
+ * Retrieve this device's biometric registration (no secrets)
  */
-export const getBiometricCredentials = async (): Promise<{ email: string; password: string } | null> => {
+export const getBiometricDevice = async (): Promise<BiometricDevice | null> => {
   try {
-    const credentials = await SecureStore.getItemAsync(BIOMETRIC_CREDENTIALS_KEY);
-    if (credentials) {
-      return JSON.parse(credentials);
+    const device = await SecureStore.getItemAsync(BIOMETRIC_DEVICE_KEY);
+    if (device) {
+      return JSON.parse(device);
     }
     return null;
   } catch (error) {
-    console.error('Error retrieving biometric credentials:', error);
+    console.error('Error retrieving biometric device:', error);
+    return null;
+  }
+};
+
+/**
+ * Sign a server challenge with the device key. Reading the key shows the
+ * system biometric prompt; resolves to null if the user cancels or fails it.
+ */
+export const signBiometricChallenge = async (
+  challenge: string,
+  reason: string = 'Please authenticate to continue'
+): Promise<string | null> => {
+  let privateKey: string | null;
+  try {
+    privateKey = await SecureStore.getItemAsync(BIOMETRIC_PRIVATE_KEY, {
+      requireAuthentication: true,
+      authenticationPrompt: reason,
+    });
+  } catch (error) {
+    console.warn('Biometric key unavailable:', error);
     return null;
   }
+
+  if (!privateKey) {
+    return null;
+  }
+
+  const message = utf8ToBytes(SIGNATURE_CONTEXT + challenge);
+  return bytesToHex(ed25519.sign(message, hexToBytes(privateKey)));
 };
 
 /**
@@ -200,7 +269,9 @@ export const getBiometricIconName = (types: LocalAuthentication.AuthenticationTy
 export const clearBiometricData = async (): Promise<void> => {
   try {
     await SecureStore.deleteItemAsync(BIOMETRIC_ENABLED_KEY);
-    await SecureStore.deleteItemAsync(BIOMETRIC_CREDENTIALS_KEY);
+    await SecureStore.deleteItemAsync(BIOMETRIC_DEVICE_KEY);
+    await SecureStore.deleteItemAsync(BIOMETRIC_PRIVATE_KEY);
+    await SecureStore.deleteItemAsync(LEGACY_CREDENTIALS_KEY);
   } catch (error) {
     console.error('Error clearing biometric data:', error);
     // Don't throw error to avoid breaking logout flow
@@ -208,13 +279,13 @@ export const clearBiometricData = async (): Promise<void> => {
 };
 
 /**
- * Check if stored biometric credentials match current user
- * If not, clear them to prevent cross-user contamination
+ * Check if the biometric device key belongs to the current user
+ * If not, clear it to prevent cross-user contamination
  */
 export const validateBiometricUser = async (currentUserEmail: string): Promise<void> => {
   try {
-    const credentials = await getBiometricCredentials();
-    if (credentials && credentials.email !== currentUserEmail) {
+    const device = await getBiometricDevice();
+    if (device && device.email !== currentUserEmail) {
       // Different user - clear biometric data
       console.log('Different user detected, clearing biometric data');
       await clearBiometricData();
@@ -222,4 +293,4 @@ export const validateBiometricUser = async (currentUserEmail: string): Promise<v
   } catch (error) {
     console.error('Error validating biometric user:', error);
   }
-};
\ No newline at end of file
+};
@@ -1,10 +1,21 @@
+import { randomUUID } from 'expo-crypto';
 import { apiClient } from './api';
+import { getBiometricDevice, signBiometricChallenge } from './biometric';
 import type { 
   TransferQuote, 
   Transfer, 
   CreateTransferRequest, 
-  ExchangeRate 
+  ExchangeRate,
+  TransferAuthorizationRequirement,
+  TransferAuthorizationRequest,
+  TransferBinding,
+  TransferAuthorizationResponse
 } from '../types/transfer';
+import type { ApiError, BiometricChallengeResponse } from '../types';
+
+// Timed out or lost connection: the server may or may not have created the transfer
+const RETRYABLE_STATUS_CODES = [408, 0];
+const MAX_CREATE_ATTEMPTS = 3;
 
 export class TransferService {
   /**
@@ -30,38 +41,137 @@ export class TransferService {
   }
 
   /**
-   * Create a transfer
+   * Re-price an expired quote; a quote that is still valid comes back unchanged
    */
-  async createTransfer(request: CreateTransferRequest): Promise<{ transfer: Transfer }> {
-    const response = await apiClient.post<{ transfer: Transfer }>('/transfer/create', request);
+  async refreshQuote(quoteId: string): Promise<{ quote: TransferQuote }> {
+    const response = await apiClient.post<{ quote: TransferQuote }>(`/transfer/quote/${quoteId}/refresh`);
     return response;
   }
 
+  /**
+   * Create a transfer from a quote; each quote can be used once, before it expires
+   */
+  async createTransfer(
+    request: CreateTransferRequest,
+    idempotencyKey: string = this.newIdempotencyKey()
+  ): Promise<{ transfer: Transfer }> {
+    return this.postIdempotent<{ transfer: Transfer }>('/transfer/create', request, idempotencyKey);
+  }
+
   /**
    * Create a simple transfer with amount (uses the new endpoint)
    */
-  async createSimpleTransfer(transferData: {
-    recipientAccount: {
-      accountNumber: string;
-      sortCode?: string;
-      currency: string;
-      country: string;
-    };
-    recipientDetails: {
-      firstName: string;
-      lastName: string;
-      email: string;
-    };
-    transferDetails: {
-      amount: number;
-      currency: string;
-      reference?: string;
-    };
-  }): Promise<{ transfer: Transfer }> {
-    const response = await apiClient.post<{ transfer: Transfer }>('/wise/transfers', transferData);
+  async createSimpleTransfer(
+    transferData: {
+      recipientAccount: {
+        type: 'iban';
+        iban: string;
+        accountNumber: string;
+        currency: string;
+        country: string;
+        holderName: string;
+        bankName?: string;
+      };
+      recipientDetails: {
+        firstName: string;
+        lastName: string;
+        email?: string;
+      };
+      transferDetails: {
+        amount: number;
+        currency?: string;
+        reference?: string;
+        description?: string;
+      };
+      authorizationToken?: string;
+      beneficiaryId?: string;
+      saveRecipient?: boolean;
+    },
+    idempotencyKey: string = this.newIdempotencyKey()
+  ): Promise<{ transfer: Transfer }> {
+    return this.postIdempotent<{ transfer: Transfer }>('/wise/transfers', transferData, idempotencyKey);
+  }
+
+  /**
+   * A fresh Idempotency-Key for one transfer attempt; reuse it to retry that attempt
+   */
+  newIdempotencyKey(): string {
+    return randomUUID();
+  }
+
+  /**
+   * POST that creates money movements. A timeout or dropped connection is retried with the
+   * same Idempotency-Key, so the server returns the transfer it already created instead of
+   * sending the money twice.
+   */
+  private async postIdempotent<T>(endpoint: string, data: unknown, idempotencyKey: string): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await apiClient.post<T>(endpoint, data, {
+          headers: { 'Idempotency-Key': idempotencyKey },
+        });
+      } catch (error) {
+        const apiError = error as ApiError;
+        const retryable = RETRYABLE_STATUS_CODES.includes(apiError.statusCode ?? -1)
+          // The first attempt is still running on the server
+          || (apiError.statusCode === 409 && apiError.error === 'Request in progress');
+
+        if (!retryable || attempt >= MAX_CREATE_ATTEMPTS) {
+          throw error;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  }
+
+  /**
+   * Check whether a transfer needs a step-up check (Strong Customer Authentication)
+   */
+  async checkTransferAuthorization(binding: TransferBinding): Promise<TransferAuthorizationRequirement> {
+    const response = await apiClient.post<TransferAuthorizationRequirement>('/transfer/authorization/check', binding);
     return response;
   }
 
+  /**
+   * Complete a step-up check and get a single-use token for this transfer
+   */
+  async authorizeTransfer(request: TransferAuthorizationRequest): Promise<TransferAuthorizationResponse> {
+    const response = await apiClient.post<TransferAuthorizationResponse>('/transfer/authorization', request);
+    return response;
+  }
+
+  /**
+   * Authorize a transfer by signing a server challenge with the biometric device key.
+   * Resolves to null if biometrics are not set up or the user cancels the prompt.
+   */
+  async authorizeTransferWithBiometrics(
+    binding: TransferBinding,
+    reason: string
+  ): Promise<TransferAuthorizationResponse | null> {
+    const device = await getBiometricDevice();
+    if (!device) {
+      return null;
+    }
+
+    const { challenge } = await apiClient.post<BiometricChallengeResponse>('/auth/biometric/challenge', {
+      deviceId: device.deviceId,
+    });
+
+    const signature = await signBiometricChallenge(challenge, reason);
+    if (!signature) {
+      return null;
+    }
+
+    return this.authorizeTransfer({
+      ...binding,
+      method: 'biometric',
+      deviceId: device.deviceId,
+      challenge,
+      signature,
+    });
+  }
+
   /**
    * Get transfer by ID
    */
@@ -154,9 +264,12 @@ export class TransferService {
         return '#17a2b8';
       case 'SENT':
         return '#007bff';
+      case 'READY_FOR_PICKUP':
+        return '#20c997';
       case 'FAILED':
         return '#dc3545';
       case 'CANCELLED':
+      case 'EXPIRED':
         return '#6c757d';
       default:
         return '#6c757d';
@@ -179,10 +292,14 @@ export class TransferService {
         return '🔄';
       case 'SENT':
         return '📤';
+      case 'READY_FOR_PICKUP':
+        return '💵';
       case 'FAILED':
         return '❌';
       case 'CANCELLED':
         return '🚫';
+      case 'EXPIRED':
+        return '⌛';
       default:
         return '📄';
     }
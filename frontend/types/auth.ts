@@ -10,16 +10,31 @@ export interface User {
   displayName?: string;
   isSearchable?: boolean;
   isActive: boolean;
+  kycStatus?: KycStatus;
   emailVerified: boolean;
+  phoneVerified?: boolean;
+  mfaEnabled?: boolean;
+  role?: UserRole;
   createdAt: string;
 }
 
+export type UserRole = 'USER' | 'SUPPORT' | 'ADMIN';
+
+export type KycStatus = 'PENDING' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'EXPIRED';
+
 export interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
+  mfaChallenge: MfaChallenge | null;
+}
+
+export interface MfaChallenge {
+  challengeToken: string;
+  expiresAt: number;
 }
 
 export interface LoginCredentials {
@@ -40,8 +55,75 @@ export interface AuthResponse {
   message: string;
   user: User;
   token: string;
+  refreshToken: string;
+  // Only present when the login used an MFA recovery code
+  recoveryCodesRemaining?: number;
+}
+
+export interface ValidateSessionResponse {
+  valid: boolean;
+  sessionId: string;
+  user: User;
+}
+
+export interface ChangePasswordResponse {
+  message: string;
+  token: string;
+  refreshToken: string;
+}
+
+export interface RefreshResponse {
+  message: string;
+  token: string;
+  refreshToken: string;
 }
 
+export interface ActiveSession {
+  id: string;
+  deviceName: string | null;
+  platform: string | null;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export interface SessionsResponse {
+  sessions: ActiveSession[];
+}
+
+export interface BiometricChallengeResponse {
+  challenge: string;
+  expiresIn: number;
+}
+
+export interface BiometricDeviceResponse {
+  message: string;
+  deviceId: string;
+}
+
+export interface PasswordResetResponse {
+  message: string;
+}
+
+export interface VerifyEmailResponse {
+  message: string;
+  emailVerified: boolean;
+}
+
+export interface MfaChallengeResponse {
+  message: string;
+  status: 'mfa_required';
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export type LoginResponse = AuthResponse | MfaChallengeResponse;
+
+export type LoginResult = 'authenticated' | 'mfa_required';
+
+export type MfaMethod = 'totp' | 'recovery_code';
+
 export interface ValidationError {
   field: string;
   message: string;
@@ -0,0 +1,66 @@
+// IBAN validation and bank directory lookup
+
+export type IbanValidationError =
+  | 'invalid_characters'
+  | 'unsupported_country'
+  | 'invalid_length'
+  | 'invalid_bban'
+  | 'invalid_checksum';
+
+export interface BankDirectoryEntry {
+  name: string;
+  bic: string;
+}
+
+export type IbanValidationResponse =
+  | {
+      valid: true;
+      iban: string;
+      formatted: string;
+      countryCode: string;
+      checkDigits: string;
+      bban: string;
+      bankCode: string;
+      branchCode: string | null;
+      bank: BankDirectoryEntry | null;
+    }
+  | {
+      valid: false;
+      iban: string;
+      error: IbanValidationError;
+      message: string;
+      bank: null;
+    };
+
+// Honduran banks for HNL payouts (Honduras has no IBAN)
+export interface HonduranBank {
+  code: string;
+  name: string;
+  accountNumberLengths: number[];
+}
+
+export interface CashPickupLocation {
+  id: string;
+  network: string;
+  name: string;
+  city: string;
+}
+
+export interface MobileWalletProvider {
+  code: string;
+  name: string;
+  dialCode: string;
+  nationalNumberLength: number;
+}
+
+export interface PayoutMethodTerms {
+  fee: { fixed: number; percentage: number };
+  arrival?: string;
+}
+
+export interface PayoutOptions {
+  country: string;
+  currency: string;
+  cashPickup: PayoutMethodTerms & { locations: CashPickupLocation[] };
+  mobileWallet: PayoutMethodTerms & { providers: MobileWalletProvider[] };
+}
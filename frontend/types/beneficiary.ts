@@ -0,0 +1,54 @@
+// Saved transfer recipients (beneficiaries)
+
+export interface Beneficiary {
+  id: string;
+  firstName: string;
+  lastName: string;
+  nickname?: string | null;
+  relationship?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  bankName: string;
+  bankCode?: string | null;
+  iban?: string | null;
+  accountNumber?: string | null;
+  accountType?: string | null;
+  currency?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country: string;
+  postalCode?: string | null;
+  isActive: boolean;
+  isVerified: boolean;
+  lastUsedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateBeneficiaryRequest {
+  firstName: string;
+  lastName: string;
+  nickname?: string;
+  relationship?: string;
+  email?: string;
+  phone?: string;
+  bankName: string;
+  bankCode?: string;
+  iban?: string;
+  accountNumber?: string;
+  accountType?: string;
+  currency?: string;
+  country: string;
+}
+
+export type UpdateBeneficiaryRequest = Partial<CreateBeneficiaryRequest>;
+
+export interface BeneficiaryListResponse {
+  beneficiaries: Beneficiary[];
+  pagination: {
+    limit: number;
+    offset: number;
+    total: number;
+  };
+}
@@ -11,15 +11,30 @@ export interface TransferQuote {
   expiresAt: string;
   processingTime: string;
   rateType: 'FIXED' | 'FLOATING';
+  payoutMethod?: PayoutMethod;
+}
+
+export type PayoutMethod = 'BANK_ACCOUNT' | 'CASH_PICKUP' | 'MOBILE_WALLET';
+
+// How a cash pickup or mobile wallet transfer is paid out
+export interface TransferPayout {
+  method: PayoutMethod;
+  pickupCode?: string; // The recipient quotes it at the agent
+  pickupLocationId?: string;
+  pickupExpiresAt?: string;
+  recipientIdType?: 'national_id' | 'passport';
+  recipientIdNumber?: string;
+  phoneNumber?: string;
+  walletProvider?: string;
 }
 
 export interface Transfer {
   id: string;
   sourceAccountId: string;
   targetAccountId?: string;
-  quoteId: string;
+  quoteId?: string; // Quote the transfer executed, if it was created from one
   status: {
-    status: 'PENDING' | 'PROCESSING' | 'SENT' | 'RECEIVED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+    status: 'PENDING' | 'PROCESSING' | 'SENT' | 'RECEIVED' | 'READY_FOR_PICKUP' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'EXPIRED';
     message: string;
     timestamp: string;
   };
@@ -41,17 +56,29 @@ export interface Transfer {
     accountNumber?: string;
     bankName?: string;
   };
+  payoutMethod?: PayoutMethod;
+  payout?: TransferPayout;
 }
 
 export interface CreateTransferRequest {
   quoteId: string;
   targetAccountId?: string;
   recipientAccount?: {
-    type: 'iban' | 'sort_code' | 'routing_number';
+    type: 'iban' | 'sort_code' | 'routing_number' | 'honduras_local' | 'cash_pickup' | 'mobile_wallet';
     iban?: string;
     accountNumber?: string;
     sortCode?: string;
     routingNumber?: string;
+    bankCode?: string; // Honduran bank, for honduras_local accounts
+    // Cash pickup: where the recipient collects, and the ID they show the agent
+    pickupLocationId?: string;
+    recipientIdDocument?: {
+      type: 'national_id' | 'passport';
+      number: string;
+    };
+    // Mobile wallet
+    phoneNumber?: string;
+    walletProvider?: string;
     currency: string;
     country: string;
     holderName: string;
@@ -59,6 +86,8 @@ export interface CreateTransferRequest {
   };
   reference?: string;
   description?: string;
+  // Step-up token from /transfer/authorization, for transfers that need one
+  authorizationToken?: string;
 }
 
 export interface ExchangeRate {
@@ -67,4 +96,33 @@ export interface ExchangeRate {
   rate: number;
   timestamp: string;
   type: 'MID_MARKET' | 'CUSTOMER';
-}
\ No newline at end of file
+}
+export type StepUpMethod = 'totp' | 'biometric' | 'password';
+
+export interface TransferAuthorizationRequirement {
+  required: boolean;
+  reason: 'amount' | 'new_recipient' | null;
+  // In the transfer's currency
+  threshold: number;
+  currency: string;
+  methods: StepUpMethod[];
+}
+
+// The transfer a step-up token is issued for; the amount is in the source account's currency.
+// Quoted transfers (/transfer/create) are bound to the quote's source amount and their recipient account.
+export type TransferBinding = { amount: number; currency: string } & (
+  | { recipientIban: string }
+  | { recipientAccount: NonNullable<CreateTransferRequest['recipientAccount']> }
+);
+
+export type TransferAuthorizationRequest = TransferBinding & (
+  | { method: 'totp'; code: string }
+  | { method: 'biometric'; deviceId: string; challenge: string; signature: string }
+  | { method: 'password'; password: string }
+);
+
+export interface TransferAuthorizationResponse {
+  message: string;
+  authorizationToken: string;
+  expiresIn: number;
+}
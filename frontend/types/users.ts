@@ -107,9 +107,16 @@ export interface UserProfile {
   emailVerified: boolean;
   phoneVerified: boolean;
   kycStatus: string;
+  mfaEnabled: boolean;
+  recoveryCodesRemaining: number;
   createdAt: string;
 }
 
+export interface UserProfileResponse {
+  success: boolean;
+  user: UserProfile;
+}
+
 export interface UpdateProfileRequest {
   username?: string;
   displayName?: string;